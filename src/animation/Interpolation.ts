@@ -7,6 +7,8 @@
  * @module Animation
  */
 
+import { type IFill, type IGradientStop, isFill } from "../rendering/Fills";
+
 /** An interpolator takes a from value, a to value, and progress (0–1), returning the blended result. */
 export type Interpolator = (from: unknown, to: unknown, t: number) => unknown;
 
@@ -158,6 +160,49 @@ export const fastColorInterpolator: Interpolator = (from, to, t) => {
   );
 };
 
+// ── Fill Interpolator ──
+
+/**
+ * Interpolator for fill descriptors (see `Fills`). Numeric fields and stops
+ * blend when both ends are the same kind of fill with as many stops; the
+ * rest switches over at the end. Returns a new descriptor every frame, as
+ * `ShapeElement` notices changes by identity.
+ */
+export const fillInterpolator: Interpolator = (from, to, t) => {
+  if (!isFill(from) || !isFill(to) || from.type !== to.type) {
+    return t >= 1 ? to : from;
+  }
+  const a = from as unknown as Record<string, unknown>;
+  const b = to as unknown as Record<string, unknown>;
+  const result: Record<string, unknown> = { ...(t >= 1 ? b : a) };
+  for (const key of Object.keys(b)) {
+    if (typeof a[key] === "number" && typeof b[key] === "number") {
+      result[key] = lerpNumber(a[key] as number, b[key] as number, t);
+    }
+  }
+  const stopsA = a.stops as IGradientStop[] | undefined;
+  const stopsB = b.stops as IGradientStop[] | undefined;
+  if (stopsA && stopsB && stopsA.length === stopsB.length) {
+    result.stops = stopsA.map((stop, i) => ({
+      offset: lerpNumber(stop.offset, stopsB[i].offset, t),
+      color: lerpColor(stop.color, stopsB[i].color, t),
+    }));
+  }
+  return result as unknown as IFill;
+};
+
+/** Blend two color strings, switching over at the end if either won't parse. */
+function lerpColor(from: string, to: string, t: number): string {
+  const fromRgb = parseColor(from);
+  const toRgb = parseColor(to);
+  if (!fromRgb || !toRgb) return t >= 1 ? to : from;
+  return rgbToHex(
+    lerpNumber(fromRgb.r, toRgb.r, t),
+    lerpNumber(fromRgb.g, toRgb.g, t),
+    lerpNumber(fromRgb.b, toRgb.b, t),
+  );
+}
+
 // ── Number Interpolator ──
 
 const numberInterpolator: Interpolator = (from, to, t) =>
@@ -206,6 +251,7 @@ export function createPooledObjectInterpolator(
 /** Detect the value type and return the appropriate cached interpolator. */
 export function createInterpolator(sampleValue: unknown): Interpolator {
   if (typeof sampleValue === "number") return numberInterpolator;
+  if (isFill(sampleValue)) return fillInterpolator;
   if (typeof sampleValue === "string") {
     if (parseColor(sampleValue)) {
       // Inline color interpolator for unparsed string colors
@@ -23,6 +23,7 @@
 
 import type { ITicker } from "../core/Ticker";
 import { EventEmitter } from "../events/EventEmitter";
+import { isFill } from "../rendering/Fills";
 import { resolveEasing } from "./Easing";
 import {
   type Interpolator,
@@ -320,6 +321,7 @@ export class Tween extends EventEmitter implements ITween, IManagedTween {
           typeof kf.toValue === "object" &&
           kf.toValue !== null &&
           !Array.isArray(kf.toValue) &&
+          !isFill(kf.toValue) &&
           typeof fromValue === "object" &&
           fromValue !== null &&
           !Array.isArray(fromValue)
@@ -3,6 +3,8 @@
  * @module Animation
  */
 
+import type { IFill } from "../rendering/Fills";
+
 /** A function that maps a linear progress `t` (0–1) to an eased value. */
 export type EasingFunction = (t: number) => number;
 
@@ -43,13 +45,13 @@ export type EasingName =
 /** A single keyframe in a property animation sequence. */
 export interface IKeyframe {
   /** Target value at the end of this keyframe segment. */
-  toValue: number | string | number[] | Record<string, number>;
+  toValue: number | string | number[] | Record<string, number> | IFill;
   /** Duration of this segment in seconds. */
   duration: number;
   /** Easing for this segment. Defaults to the tween-level easing. */
   easing?: EasingName | EasingFunction;
   /** Explicit start value. If omitted, uses the current value or previous keyframe's toValue. */
-  fromValue?: number | string | number[] | Record<string, number>;
+  fromValue?: number | string | number[] | Record<string, number> | IFill;
 }
 
 /** Per-property keyframe list keyed by property name. */
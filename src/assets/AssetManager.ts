@@ -0,0 +1,412 @@
+/**
+ * AssetManager — Loads images, fonts, JSON and texture atlases by key.
+ *
+ * Loads are cached by key: asking for a key that is loading or loaded
+ * returns the same promise, so concurrent requests share one fetch. Images
+ * are decoded to `ImageBitmap` where the platform supports it.
+ *
+ * Assets are reference counted. `bind()` gives an Image (or AnimatedSprite)
+ * an asset and holds a reference until the element is destroyed or bound to
+ * something else; `retain()` / `release()` do the same for other users.
+ * When the last reference goes, the asset is unloaded: bitmaps are closed
+ * and fonts removed from `document.fonts`. Assets never referenced stay
+ * cached until `unload()`.
+ *
+ * Network access and decoding go through an `IAssetFetchAdapter`, so tests
+ * and non-browser hosts can substitute their own.
+ *
+ * Events:
+ * - `load` `{ key, asset }` — an asset finished loading
+ * - `error` `{ key, url, error }` — an asset failed to load
+ * - `progress` `{ key, loaded, total, progress }` — one load of the current
+ *   batch settled; a batch runs until nothing is left loading
+ * - `complete` `{ loaded, total }` — the batch finished
+ * - `unload` `{ key }` — an asset was released
+ *
+ * SPEC: §9 — Image & Texture Elements
+ *
+ * @module Assets
+ * @example
+ * ```typescript
+ * const assets = new AssetManager();
+ * assets.on('progress', (e) => bar.width = e.progress * 200);
+ * await assets.loadAll([
+ *   { key: 'logo', url: 'img/logo.png', type: 'image' },
+ *   { key: 'hero', url: 'sprites/hero.json', type: 'atlas' },
+ *   { key: 'ui', url: 'fonts/Inter.woff2', type: 'font', family: 'Inter' },
+ * ]);
+ * assets.bind(new Image(), 'logo');
+ * ```
+ */
+
+import { AnimatedSprite } from "../elements/AnimatedSprite";
+import type { Image } from "../elements/Image";
+import { EventEmitter } from "../events/EventEmitter";
+import { type IAtlasData, TextureAtlas } from "./TextureAtlas";
+
+// ── Types ──
+
+export type AssetType = "image" | "font" | "json" | "atlas";
+
+/** Fetches and decodes asset data. */
+export interface IAssetFetchAdapter {
+  /** Fetch and decode an image. */
+  fetchImage(url: string): Promise<CanvasImageSource>;
+  /** Fetch and parse a JSON document. */
+  fetchJSON(url: string): Promise<unknown>;
+  /** Fetch and load a font face; the manager adds it to `document.fonts`. */
+  fetchFont(family: string, url: string): Promise<FontFace>;
+}
+
+export interface IAssetDescriptor {
+  key: string;
+  url: string;
+  type: AssetType;
+  /** Font family name (fonts only). Defaults to the key. */
+  family?: string;
+}
+
+export interface IAssetProgressEvent {
+  key: string;
+  /** Loads settled in the current batch, failed ones included. */
+  loaded: number;
+  total: number;
+  /** `loaded / total`, from 0 to 1. */
+  progress: number;
+}
+
+interface IAssetEntry {
+  type: AssetType;
+  url: string;
+  promise: Promise<unknown>;
+  asset: unknown;
+  refs: number;
+  /** Elements bound to the asset. */
+  users: Set<Image>;
+}
+
+// ── Default adapter ──
+
+/** Browser adapter built on `fetch`, `createImageBitmap` and `FontFace`. */
+export const defaultFetchAdapter: IAssetFetchAdapter = {
+  async fetchImage(url) {
+    if (typeof createImageBitmap === "function") {
+      const blob = await (await fetchOk(url)).blob();
+      return createImageBitmap(blob);
+    }
+    const img = document.createElement("img");
+    img.src = url;
+    await img.decode();
+    return img;
+  },
+
+  async fetchJSON(url) {
+    return (await fetchOk(url)).json();
+  },
+
+  async fetchFont(family, url) {
+    return new FontFace(family, `url(${url})`).load();
+  },
+};
+
+async function fetchOk(url: string): Promise<Response> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response;
+}
+
+// ── AssetManager Class ──
+
+export class AssetManager extends EventEmitter {
+  private _adapter: IAssetFetchAdapter;
+  private _entries = new Map<string, IAssetEntry>();
+  /** Key bound to each element, for re-binding and destroy handling. */
+  private _bindings = new WeakMap<Image, string>();
+  private _batchLoaded = 0;
+  private _batchTotal = 0;
+
+  constructor(adapter: IAssetFetchAdapter = defaultFetchAdapter) {
+    super();
+    this._adapter = adapter;
+  }
+
+  // ── Loading ──
+
+  /**
+   * Load an asset under `key`. Resolves with the cached asset if the key is
+   * already loaded or loading from the same URL.
+   */
+  load<T = unknown>(descriptor: IAssetDescriptor): Promise<T> {
+    const { key, url, type } = descriptor;
+    const existing = this._entries.get(key);
+    if (existing) {
+      if (existing.url !== url || existing.type !== type) {
+        throw new Error(
+          `AssetManager: key "${key}" is already used for ${existing.type} "${existing.url}"`,
+        );
+      }
+      return existing.promise as Promise<T>;
+    }
+
+    const entry: IAssetEntry = {
+      type,
+      url,
+      promise: Promise.resolve(),
+      asset: undefined,
+      refs: 0,
+      users: new Set(),
+    };
+    this._entries.set(key, entry);
+    this._batchTotal++;
+    entry.promise = this._fetch(descriptor).then(
+      (asset) => {
+        if (this._entries.get(key) === entry) {
+          entry.asset = asset;
+          this.emit("load", { key, asset });
+        } else {
+          // Unloaded while in flight
+          disposeAsset(type, asset);
+        }
+        this._settle(key);
+        return asset;
+      },
+      (cause: unknown) => {
+        if (this._entries.get(key) === entry) this._entries.delete(key);
+        const message = cause instanceof Error ? cause.message : String(cause);
+        const error = new Error(
+          `AssetManager: failed to load "${key}" from "${url}": ${message}`,
+        );
+        this.emit("error", { key, url, error });
+        this._settle(key);
+        throw error;
+      },
+    );
+    return entry.promise as Promise<T>;
+  }
+
+  loadImage(key: string, url: string): Promise<CanvasImageSource> {
+    return this.load({ key, url, type: "image" });
+  }
+
+  loadJSON<T = unknown>(key: string, url: string): Promise<T> {
+    return this.load({ key, url, type: "json" });
+  }
+
+  /** Load a TexturePacker / Aseprite JSON atlas and the image it names. */
+  loadAtlas(key: string, url: string): Promise<TextureAtlas> {
+    return this.load({ key, url, type: "atlas" });
+  }
+
+  loadFont(key: string, url: string, family = key): Promise<FontFace> {
+    return this.load({ key, url, type: "font", family });
+  }
+
+  /** Load several assets; rejects if any of them fails. */
+  async loadAll(descriptors: IAssetDescriptor[]): Promise<void> {
+    await Promise.all(descriptors.map((d) => this.load(d)));
+  }
+
+  // ── Lookup ──
+
+  /** The loaded asset for `key`, or null while loading or unknown. */
+  get<T = unknown>(key: string): T | null {
+    const asset = this._entries.get(key)?.asset;
+    return asset === undefined ? null : (asset as T);
+  }
+
+  has(key: string): boolean {
+    return this._entries.has(key);
+  }
+
+  isLoaded(key: string): boolean {
+    return this._entries.get(key)?.asset !== undefined;
+  }
+
+  /** Number of references held on `key`. */
+  getRefCount(key: string): number {
+    return this._entries.get(key)?.refs ?? 0;
+  }
+
+  /** Loads settled and started in the current batch. */
+  get progress(): { loaded: number; total: number } {
+    return { loaded: this._batchLoaded, total: this._batchTotal };
+  }
+
+  // ── Reference counting ──
+
+  /** Add a reference to a loaded or loading asset. */
+  retain(key: string): void {
+    const entry = this._entries.get(key);
+    if (!entry) throw new Error(`AssetManager: unknown asset "${key}"`);
+    entry.refs++;
+  }
+
+  /** Drop a reference; the last one unloads the asset. */
+  release(key: string): void {
+    const entry = this._entries.get(key);
+    if (!entry || entry.refs === 0) return;
+    if (--entry.refs === 0) this.unload(key);
+  }
+
+  /**
+   * Show a loaded asset in an element and hold a reference until the
+   * element is destroyed or bound again. Image assets become the element's
+   * source. Atlases show `frame` if given; an AnimatedSprite takes the
+   * atlas to play from.
+   */
+  bind(element: Image, key: string, frame?: string): void {
+    const entry = this._entries.get(key);
+    if (!entry || entry.asset === undefined) {
+      throw new Error(`AssetManager: asset "${key}" is not loaded`);
+    }
+
+    if (entry.type === "image") {
+      element.frame = undefined;
+      element.source = entry.asset as CanvasImageSource;
+    } else if (entry.type === "atlas") {
+      const atlas = entry.asset as TextureAtlas;
+      if (frame !== undefined) element.setFrame(atlas, frame);
+      if (element instanceof AnimatedSprite) element.atlas = atlas;
+      else if (frame === undefined) {
+        throw new Error(
+          `AssetManager: binding atlas "${key}" to [${element.id}] needs a frame`,
+        );
+      }
+    } else {
+      throw new Error(`AssetManager: ${entry.type} "${key}" cannot be bound`);
+    }
+
+    const previous = this._bindings.get(element);
+    if (previous === key) return;
+    if (previous === undefined) {
+      element.once("destroy", () => this.unbind(element));
+    }
+    this._bindings.set(element, key);
+    entry.users.add(element);
+    entry.refs++;
+    if (previous !== undefined) this._unbindFrom(element, previous);
+  }
+
+  /** Drop an element's reference without clearing what it shows. */
+  unbind(element: Image): void {
+    const key = this._bindings.get(element);
+    if (key === undefined) return;
+    this._bindings.delete(element);
+    this._unbindFrom(element, key);
+  }
+
+  /**
+   * Drop an asset whatever its references. Bound elements stop showing it;
+   * a load in flight is discarded when it lands.
+   */
+  unload(key: string): void {
+    const entry = this._entries.get(key);
+    if (!entry) return;
+    this._entries.delete(key);
+    for (const element of entry.users) {
+      this._bindings.delete(element);
+      element.source = null;
+      element.frame = undefined;
+    }
+    entry.users.clear();
+    if (entry.asset !== undefined) {
+      disposeAsset(entry.type, entry.asset);
+      this.emit("unload", { key });
+    }
+  }
+
+  /** Unload every asset. */
+  destroy(): void {
+    for (const key of [...this._entries.keys()]) this.unload(key);
+    this.removeAllListeners();
+  }
+
+  // ── Internal helpers ──
+
+  /**
+   * Fetch and decode one asset.
+   * @private
+   */
+  private async _fetch(descriptor: IAssetDescriptor): Promise<unknown> {
+    const { url, type } = descriptor;
+    switch (type) {
+      case "image":
+        return this._adapter.fetchImage(url);
+      case "json":
+        return this._adapter.fetchJSON(url);
+      case "font": {
+        const face = await this._adapter.fetchFont(
+          descriptor.family ?? descriptor.key,
+          url,
+        );
+        if (typeof document !== "undefined") document.fonts?.add(face);
+        return face;
+      }
+      case "atlas": {
+        const data = (await this._adapter.fetchJSON(url)) as IAtlasData;
+        if (!data?.frames) throw new Error("not a texture atlas");
+        const atlas = new TextureAtlas(data);
+        if (atlas.imagePath !== null) {
+          const imageUrl = resolveUrl(atlas.imagePath, url);
+          atlas.source = await this._adapter.fetchImage(imageUrl);
+        }
+        return atlas;
+      }
+    }
+  }
+
+  /**
+   * Count a settled load towards the batch, closing it when nothing is left.
+   * @private
+   */
+  private _settle(key: string): void {
+    this._batchLoaded++;
+    const loaded = this._batchLoaded;
+    const total = this._batchTotal;
+    this.emit("progress", { key, loaded, total, progress: loaded / total });
+    if (loaded === total) {
+      this._batchLoaded = 0;
+      this._batchTotal = 0;
+      this.emit("complete", { loaded, total });
+    }
+  }
+
+  /**
+   * Drop one element's reference on `key`.
+   * @private
+   */
+  private _unbindFrom(element: Image, key: string): void {
+    const entry = this._entries.get(key);
+    if (!entry) return;
+    entry.users.delete(element);
+    this.release(key);
+  }
+}
+
+// ── Helpers ──
+
+/**
+ * Free what an asset holds beyond its JS object.
+ */
+function disposeAsset(type: AssetType, asset: unknown): void {
+  if (type === "json") return;
+  if (type === "font") {
+    if (typeof document !== "undefined") {
+      document.fonts?.delete(asset as FontFace);
+    }
+    return;
+  }
+  const image =
+    type === "atlas" ? (asset as TextureAtlas).source : (asset as object);
+  if (image && "close" in image && typeof image.close === "function") {
+    (image as ImageBitmap).close();
+  }
+}
+
+/**
+ * Resolve a path relative to the document it was found in.
+ */
+function resolveUrl(path: string, base: string): string {
+  if (/^([a-z][a-z\d+.-]*:|\/)/i.test(path)) return path;
+  return base.slice(0, base.lastIndexOf("/") + 1) + path;
+}
@@ -0,0 +1,233 @@
+/**
+ * TextureAtlas — Named frames packed into one image.
+ *
+ * Parses the JSON written by TexturePacker (hash or array) and Aseprite:
+ * frame rects, trimming, pivots, 90° rotated frames, per-frame durations,
+ * TexturePacker `animations` and Aseprite `frameTags`.
+ *
+ * Trimmed frames keep their original size: `sourceWidth` × `sourceHeight`
+ * is the full frame and `trim` is where the packed pixels sit inside it, so
+ * a sequence of trimmed frames lines up as it was drawn.
+ *
+ * SPEC: §9 — Image & Texture Elements
+ */
+
+import type { IRect } from "../math/aabb";
+import type { IArena2DContext } from "../rendering/Arena2DContext";
+
+// ── JSON format ──
+
+interface IAtlasRectData {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/** One frame entry as written by TexturePacker / Aseprite. */
+export interface IAtlasFrameData {
+  /** Frame name (array format only) */
+  filename?: string;
+  /** Packed region; width and height are the unrotated size */
+  frame: IAtlasRectData;
+  /** Packed rotated 90° clockwise */
+  rotated?: boolean;
+  trimmed?: boolean;
+  /** Trimmed region within the original frame */
+  spriteSourceSize?: IAtlasRectData;
+  /** Original frame size */
+  sourceSize?: { w: number; h: number };
+  /** Normalized pivot within the original frame */
+  pivot?: { x: number; y: number };
+  /** Display time in milliseconds (Aseprite) */
+  duration?: number;
+}
+
+/** An Aseprite frame tag: a named, inclusive range of frame indices. */
+export interface IAtlasFrameTagData {
+  name: string;
+  from: number;
+  to: number;
+  direction?: "forward" | "reverse" | "pingpong" | "pingpong_reverse";
+}
+
+/** A TexturePacker or Aseprite JSON document. */
+export interface IAtlasData {
+  frames: Record<string, IAtlasFrameData> | IAtlasFrameData[];
+  /** TexturePacker animations: name → frame names */
+  animations?: Record<string, string[]>;
+  meta?: {
+    image?: string;
+    frameTags?: IAtlasFrameTagData[];
+  };
+}
+
+// ── Parsed types ──
+
+export interface IAtlasFrame {
+  readonly name: string;
+  /** Region of the atlas image holding the frame, as packed */
+  readonly region: IRect;
+  /** Whether the region holds the frame rotated 90° clockwise */
+  readonly rotated: boolean;
+  /** Where the packed pixels sit within the original frame */
+  readonly trim: IRect;
+  /** Size of the original, untrimmed frame */
+  readonly sourceWidth: number;
+  readonly sourceHeight: number;
+  /** Normalized pivot within the original frame */
+  readonly pivot: { x: number; y: number };
+  /** Display time in seconds, if the atlas specifies one */
+  readonly duration: number | null;
+}
+
+export interface IAtlasAnimation {
+  readonly name: string;
+  readonly frames: readonly string[];
+  /** Play forward then back (Aseprite `pingpong` tags) */
+  readonly pingPong: boolean;
+}
+
+// ── TextureAtlas Class ──
+
+export class TextureAtlas {
+  /** The packed image. May be assigned once it has loaded. */
+  source: CanvasImageSource | null;
+  /** Image path from the atlas metadata, if any */
+  readonly imagePath: string | null;
+
+  private _frames = new Map<string, IAtlasFrame>();
+  private _animations = new Map<string, IAtlasAnimation>();
+
+  constructor(data: IAtlasData, source: CanvasImageSource | null = null) {
+    this.source = source;
+    this.imagePath = data.meta?.image ?? null;
+
+    const entries: [string, IAtlasFrameData][] = Array.isArray(data.frames)
+      ? data.frames.map((f, i) => [f.filename ?? String(i), f])
+      : Object.entries(data.frames);
+    for (const [name, entry] of entries) {
+      this._frames.set(name, parseFrame(name, entry));
+    }
+
+    for (const [name, frames] of Object.entries(data.animations ?? {})) {
+      this._addAnimation(name, frames, false);
+    }
+
+    const order = entries.map(([name]) => name);
+    for (const tag of data.meta?.frameTags ?? []) {
+      let frames = order.slice(tag.from, tag.to + 1);
+      if (tag.direction?.endsWith("reverse")) frames = frames.reverse();
+      this._addAnimation(tag.name, frames, !!tag.direction?.startsWith("ping"));
+    }
+  }
+
+  // ── Frames ──
+
+  /** Frame names in atlas order. */
+  get frameNames(): string[] {
+    return [...this._frames.keys()];
+  }
+
+  getFrame(name: string): IAtlasFrame | null {
+    return this._frames.get(name) ?? null;
+  }
+
+  hasFrame(name: string): boolean {
+    return this._frames.has(name);
+  }
+
+  /**
+   * Names of frames starting with `prefix`, in natural order — the
+   * TexturePacker convention for sequences (`walk_01.png`, `walk_02.png`…).
+   */
+  getFramesWithPrefix(prefix: string): string[] {
+    return this.frameNames
+      .filter((name) => name.startsWith(prefix))
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  }
+
+  // ── Animations ──
+
+  get animationNames(): string[] {
+    return [...this._animations.keys()];
+  }
+
+  getAnimation(name: string): IAtlasAnimation | null {
+    return this._animations.get(name) ?? null;
+  }
+
+  private _addAnimation(
+    name: string,
+    frames: string[],
+    pingPong: boolean,
+  ): void {
+    for (const frame of frames) {
+      if (!this._frames.has(frame)) {
+        throw new Error(
+          `TextureAtlas: animation "${name}" references unknown frame "${frame}"`,
+        );
+      }
+    }
+    this._animations.set(name, { name, frames, pingPong });
+  }
+}
+
+// ── Helpers ──
+
+function parseFrame(name: string, data: IAtlasFrameData): IAtlasFrame {
+  const f = data.frame;
+  if (!f) throw new Error(`TextureAtlas: frame "${name}" has no frame rect`);
+  const rotated = data.rotated ?? false;
+  const trim = data.spriteSourceSize ?? { x: 0, y: 0, w: f.w, h: f.h };
+  const size = data.sourceSize ?? { w: trim.w, h: trim.h };
+  return {
+    name,
+    // Rotated frames occupy a region with width and height swapped
+    region: rotated
+      ? { x: f.x, y: f.y, width: f.h, height: f.w }
+      : { x: f.x, y: f.y, width: f.w, height: f.h },
+    rotated,
+    trim: { x: trim.x, y: trim.y, width: trim.w, height: trim.h },
+    sourceWidth: size.w,
+    sourceHeight: size.h,
+    pivot: data.pivot ?? { x: 0.5, y: 0.5 },
+    duration: data.duration !== undefined ? data.duration / 1000 : null,
+  };
+}
+
+/**
+ * Draw an atlas frame so its original (untrimmed) bounds fill the given
+ * rectangle. Trimmed frames are offset within it; rotated frames are
+ * turned back upright.
+ */
+export function drawAtlasFrame(
+  ctx: IArena2DContext,
+  source: CanvasImageSource,
+  frame: IAtlasFrame,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+): void {
+  const sx = width / frame.sourceWidth;
+  const sy = height / frame.sourceHeight;
+  const dx = x + frame.trim.x * sx;
+  const dy = y + frame.trim.y * sy;
+  const dw = frame.trim.width * sx;
+  const dh = frame.trim.height * sy;
+  const r = frame.region;
+
+  if (!frame.rotated) {
+    ctx.drawImageRegion(source, r.x, r.y, r.width, r.height, dx, dy, dw, dh);
+    return;
+  }
+
+  // Undo the packer's clockwise quarter turn: the region's top-left lands
+  // at the frame's bottom-left
+  ctx.save();
+  ctx.raw.translate(dx, dy + dh);
+  ctx.raw.rotate(-Math.PI / 2);
+  ctx.drawImageRegion(source, r.x, r.y, r.width, r.height, 0, 0, dh, dw);
+  ctx.restore();
+}
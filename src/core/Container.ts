@@ -9,6 +9,7 @@
 
 import { Arena2D } from "../Arena2D";
 import { resolveLayout } from "../layout/LayoutResolver";
+import { playExitTransition } from "../layout/LayoutTransition";
 import { DirtyFlags } from "./DirtyFlags";
 import { Element, type IElement } from "./Element";
 import type { IArena2DContext } from "../rendering/Arena2DContext";
@@ -22,6 +23,7 @@ export interface IContainer extends IElement {
   addChild(child: IElement): void;
   addChildAt(child: IElement, index: number): void;
   removeChild(child: IElement): void;
+  removeChildAnimated(child: IElement): Promise<void>;
   removeAllChildren(): void;
   sortChildren(): void;
   getChildByID(id: string): IElement | null;
@@ -76,6 +78,16 @@ export class Container extends Element implements IContainer {
     this._removeChildInternal(child as Element, idx);
   }
 
+  /**
+   * Play the child's exit layout transition, then remove it. Siblings
+   * reflow into its space while it animates out. Without an `exit`
+   * transition the child is removed at once.
+   */
+  removeChildAnimated(child: IElement): Promise<void> {
+    if (child.parent !== this) return Promise.resolve();
+    return playExitTransition(child, this).then(() => this.removeChild(child));
+  }
+
   /**
    * Remove all children from this container, in reverse order.
    */
@@ -115,10 +127,12 @@ export class Container extends Element implements IContainer {
   /**
    * Hit-test self and children.
    * Checks children in reverse render order (top-most first).
-   * If no child is hit, checks self.
+   * If no child is hit, checks self. Nothing is hit where the mask hides.
    */
   override hitTest(globalX: number, globalY: number): IElement | null {
     if (!this.visible) return null;
+    // The mask also hides descendants
+    if (this.isMaskedOut(globalX, globalY)) return null;
 
     // 1. Check children (reverse order)
     for (let i = this._children.length - 1; i >= 0; i--) {
@@ -145,6 +159,7 @@ export class Container extends Element implements IContainer {
         // Adjust index if we removed before the target position
         const adjustedIndex = oldIdx < index ? index - 1 : index;
         this._children.splice(adjustedIndex, 0, child);
+        this.invalidate(DirtyFlags.Layout);
       }
       return;
     }
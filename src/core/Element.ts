@@ -11,6 +11,7 @@
 import { EventEmitter } from "../events/EventEmitter";
 import { type IStyle, createDefaultStyle } from "../layout/Style";
 import type { IRect } from "../math/aabb";
+import type { IFilter } from "../rendering/Filters";
 import {
   type MatrixArray,
   identity,
@@ -35,8 +36,35 @@ function clamp(value: number, min: number, max: number): number {
   return Math.min(max, Math.max(min, value));
 }
 
+/**
+ * Whether a mask, or any of its visible descendants, covers a global point.
+ */
+function maskContainsPoint(
+  mask: IElement,
+  globalX: number,
+  globalY: number,
+): boolean {
+  const inv = invert(mask.worldMatrix);
+  if (inv) {
+    const local = transformPoint(inv, globalX, globalY);
+    if (mask.containsPoint(local.x, local.y)) return true;
+  }
+  const children = (mask as { children?: readonly IElement[] }).children;
+  if (!children) return false;
+  return children.some(
+    (child) => child.visible && maskContainsPoint(child, globalX, globalY),
+  );
+}
+
 // ── IElement Interface ──
 
+/**
+ * How a mask limits an element: `"clip"` cuts along the mask's geometry
+ * (or its box), `"alpha"` keeps pixels where the mask paints, weighted by
+ * the mask's opacity.
+ */
+export type MaskMode = "clip" | "alpha";
+
 /**
  * Public interface for all elements in the scene graph.
  *
@@ -81,6 +109,10 @@ export interface IElement {
   zIndex: number;
   blendMode: GlobalCompositeOperation;
   cacheAsBitmap: boolean;
+  filters: IFilter[];
+  mask: IElement | null;
+  maskMode: MaskMode;
+  maskInverted: boolean;
 
   // Computed
   readonly effectiveAlpha: number;
@@ -98,6 +130,7 @@ export interface IElement {
   cursor: string;
   containsPoint(localX: number, localY: number): boolean;
   hitTest(globalX: number, globalY: number): IElement | null;
+  isMaskedOut(globalX: number, globalY: number): boolean;
 
   // Events
   // biome-ignore lint/suspicious/noExplicitAny: event data varies by event type
@@ -165,6 +198,12 @@ export class Element extends EventEmitter implements IElement {
   private _zIndex = 0;
   private _blendMode: GlobalCompositeOperation = "source-over";
   private _cacheAsBitmap = false;
+  private _filters: IFilter[] = [];
+  private _mask: Element | null = null;
+  private _maskMode: MaskMode = "clip";
+  private _maskInverted = false;
+  // Element whose space a mask outside the scene tree is positioned in
+  private _maskOwner: Element | null = null;
 
   // ── Interaction ──
   interactive = true;
@@ -207,9 +246,11 @@ export class Element extends EventEmitter implements IElement {
   /**
    * Tests if the given global coordinates hit this element.
    * Transforms global (x,y) to local space and checks containsPoint.
+   * Points hidden by the mask miss.
    */
   hitTest(globalX: number, globalY: number): IElement | null {
     if (!this.visible) return null; // Invisible elements are not interactive
+    if (this.isMaskedOut(globalX, globalY)) return null;
 
     // Invert world matrix to transform point to local space
     const inv = invert(this.worldMatrix);
@@ -224,6 +265,16 @@ export class Element extends EventEmitter implements IElement {
     return null;
   }
 
+  /**
+   * Whether this element's mask hides the given global point. Always false
+   * without a mask. Alpha masks are tested by shape, like clip masks.
+   */
+  isMaskedOut(globalX: number, globalY: number): boolean {
+    const mask = this._mask;
+    if (!mask) return false;
+    return maskContainsPoint(mask, globalX, globalY) === this._maskInverted;
+  }
+
   /**
    * Helper for numeric property validation.
    * @private
@@ -457,6 +508,69 @@ export class Element extends EventEmitter implements IElement {
     }
   }
 
+  /**
+   * Effects applied, in order, to this element and its descendants (see
+   * `Filters`). Assign a new array to change them; edits in place are not
+   * seen. Filters on descendants of a `cacheAsBitmap` container are not
+   * drawn into its cache.
+   */
+  get filters(): IFilter[] {
+    return this._filters;
+  }
+  set filters(value: IFilter[]) {
+    if (this._filters !== value) {
+      this._filters = value;
+      this.invalidate(DirtyFlags.Visual);
+    }
+  }
+
+  /**
+   * Element limiting where this element and its descendants show and can
+   * be hit. A mask outside the scene tree is positioned in this element's
+   * local space and updated with it; one inside the tree keeps its own
+   * place and is also drawn there, unless hidden. Masking ignores the
+   * mask's own `visible`, so a hidden mask still masks.
+   */
+  get mask(): IElement | null {
+    return this._mask;
+  }
+  set mask(value: IElement | null) {
+    if (value === this) {
+      throw new Error(`Element [${this.id}]: an element cannot mask itself`);
+    }
+    if (this._mask !== value) {
+      if (this._mask?._maskOwner === this) this._mask._maskOwner = null;
+      this._mask = value as Element | null;
+      if (this._mask) {
+        this._mask._maskOwner = this;
+        this._mask.invalidate(DirtyFlags.Transform);
+      }
+      this.invalidate(DirtyFlags.Visual);
+    }
+  }
+
+  /** How `mask` is applied. Default: `"clip"`. */
+  get maskMode(): MaskMode {
+    return this._maskMode;
+  }
+  set maskMode(value: MaskMode) {
+    if (this._maskMode !== value) {
+      this._maskMode = value;
+      this.invalidate(DirtyFlags.Visual);
+    }
+  }
+
+  /** Show only what the mask does not cover. Default: false. */
+  get maskInverted(): boolean {
+    return this._maskInverted;
+  }
+  set maskInverted(value: boolean) {
+    if (this._maskInverted !== value) {
+      this._maskInverted = value;
+      this.invalidate(DirtyFlags.Visual);
+    }
+  }
+
   // ── Alpha chain ──
 
   /**
@@ -556,14 +670,17 @@ export class Element extends EventEmitter implements IElement {
    *
    * If Transform is dirty, recomputes localMatrix and worldMatrix.
    */
-  update(_dt: number): void {
-    if (this._dirtyFlags & DirtyFlags.Transform) {
+  update(dt: number): void {
+    const moved = (this._dirtyFlags & DirtyFlags.Transform) !== 0;
+    if (moved) {
       this.updateLocalMatrix();
 
-      // Compute worldMatrix = parent.worldMatrix × localMatrix
-      if (this.parent && "worldMatrix" in this.parent) {
+      // Compute worldMatrix = parent.worldMatrix × localMatrix; a mask
+      // outside the tree takes the element it masks as its parent
+      const parent = this.parent ?? this._maskOwner;
+      if (parent && "worldMatrix" in parent) {
         multiply(
-          (this.parent as IElement).getWorldMatrixForChildren(),
+          (parent as IElement).getWorldMatrixForChildren(),
           this.localMatrix,
           this.worldMatrix,
         );
@@ -581,6 +698,13 @@ export class Element extends EventEmitter implements IElement {
       // Clear transform flag
       this._dirtyFlags &= ~DirtyFlags.Transform;
     }
+
+    // A mask outside the tree is updated by the element it masks
+    const mask = this._mask;
+    if (mask && !mask.parent && mask._maskOwner === this) {
+      if (moved) mask.invalidate(DirtyFlags.Transform);
+      mask.update(dt);
+    }
   }
 
   /**
@@ -647,9 +771,11 @@ export class Element extends EventEmitter implements IElement {
 
   /**
    * Release all resources.
-   * Clears dirty flags, removes all event listeners, and detaches from parent.
+   * Emits `destroy`, then clears dirty flags, removes all event listeners,
+   * and detaches from parent.
    */
   destroy(): void {
+    this.emit("destroy", { target: this });
     this._dirtyFlags = DirtyFlags.None;
     this.removeAllListeners();
     this.parent = null;
@@ -7,6 +7,9 @@
  * projections of the same scene (e.g. quad-view).
  */
 
+import { Tween } from "../animation/Tween";
+import type { EasingFunction, EasingName } from "../animation/types";
+import { EventEmitter } from "../events/EventEmitter";
 import {
   type IInteractionManager,
   InteractionManager,
@@ -16,13 +19,25 @@ import {
   computeAABB,
   intersect,
   rectIntersection,
+  rectUnion,
 } from "../math/aabb";
-import { Arena2DContext } from "../rendering/Arena2DContext";
+import {
+  Arena2DContext,
+  type CanvasContext,
+} from "../rendering/Arena2DContext";
+import {
+  applyColorMatrix,
+  expandFilterBounds,
+  getFilterPadding,
+  toCanvasFilter,
+} from "../rendering/Filters";
 import type { Container, IContainer } from "./Container";
 import { DirtyFlags } from "./DirtyFlags";
 import type { IElement } from "./Element";
 import { type ILayer, Layer } from "./Layer";
 import type { IScene, Scene } from "./Scene";
+import { Rectangle } from "../geometry/Rectangle";
+import type { IGeometry } from "../geometry/types";
 import type { MatrixArray } from "../math/matrix";
 
 // ── Types ──
@@ -30,6 +45,13 @@ import type { MatrixArray } from "../math/matrix";
 export interface IProjection {
   sourceRect: { x: number; y: number; width: number; height: number };
   destRect: { x: number; y: number; width: number; height: number };
+  /**
+   * Rotation (radians, clockwise) of the projected content around the
+   * destRect center. Updated by two-finger rotation when
+   * `enableTouchRotate` is set. The view renders, hit-tests and maps
+   * coordinates with the first projection's rotation. Default: `0`.
+   */
+  rotation?: number;
 }
 
 export type ViewAlignment = "center" | "top" | "bottom" | "left" | "right";
@@ -40,6 +62,41 @@ export interface LookAtOptions {
   animate?: boolean;
 }
 
+export interface ICameraAnimationOptions {
+  /** Duration in seconds. `0` jumps to the target immediately. Default: `0.5`. */
+  duration?: number;
+  /** Easing applied to the animation progress. Default: `"easeInOutCubic"`. */
+  easing?: EasingName | EasingFunction;
+}
+
+export interface ICameraTarget extends ICameraAnimationOptions {
+  /** Scene X to center in the view. Default: the current center. */
+  x?: number;
+  /** Scene Y to center in the view. Default: the current center. */
+  y?: number;
+  /** Target zoom. Default: the current zoom. */
+  zoom?: number;
+}
+
+export interface IFlyToOptions extends ICameraAnimationOptions {
+  /**
+   * How far the camera zooms out on the way (the rho parameter of the
+   * van Wijk–Nuij smooth zoom path). Default: `Math.SQRT2`.
+   */
+  curvature?: number;
+}
+
+export interface ICameraEvent {
+  type: "camerastart" | "cameraprogress" | "cameraend";
+  /** Linear animation progress, 0..1. */
+  progress: number;
+  panX: number;
+  panY: number;
+  zoom: number;
+  /** On `cameraend`: true if the animation was stopped before finishing. */
+  cancelled: boolean;
+}
+
 /**
  * Callback that decides whether a pointer event should initiate a pan.
  * Return `true` to start panning, `false` to ignore.
@@ -68,6 +125,17 @@ export interface ViewOptions {
    * Lower values reduce zoom sensitivity. Default: `1`.
    */
   wheelZoomScalar?: number;
+  /**
+   * Enable two-finger touch gestures: pan with the gesture centroid and
+   * pinch-zoom around it. Gestures act on the projection under the fingers,
+   * like mouse pan and wheel zoom. Default: `true`.
+   */
+  enableTouchGestures?: boolean;
+  /**
+   * Also rotate the projection when two fingers twist (see
+   * `IProjection.rotation`). Default: `false`.
+   */
+  enableTouchRotate?: boolean;
   constrainPan?: boolean;
   constrainZoom?: boolean;
   inertia?: boolean;
@@ -112,6 +180,15 @@ export interface IView {
 
   // Navigation
   lookAt(x: number, y: number, options?: LookAtOptions): void;
+  animateTo(target: ICameraTarget): void;
+  flyTo(x: number, y: number, zoom: number, options?: IFlyToOptions): void;
+  fitElement(
+    element: IElement,
+    padding?: number,
+    options?: ICameraAnimationOptions,
+  ): void;
+  stopCameraAnimation(): void;
+  readonly isCameraAnimating: boolean;
 
   // Projections
   addProjection(projection: IProjection): void;
@@ -129,7 +206,7 @@ export interface IView {
 
 // ── View Class ──
 
-export class View implements IView {
+export class View extends EventEmitter implements IView {
   readonly container: HTMLElement;
   readonly scene: Scene;
   readonly interaction: IInteractionManager;
@@ -174,6 +251,24 @@ export class View implements IView {
   private _activeProjection: IProjection | null = null;
   private _zoomModifierDown = false;
 
+  // Touch gestures
+  private _enableTouchGestures: boolean;
+  private _enableTouchRotate: boolean;
+  /** Active touch pointers in view-local coordinates, by pointerId. */
+  private _touches = new Map<number, { x: number; y: number }>();
+  private _gesture: {
+    projection: IProjection;
+    centroidX: number;
+    centroidY: number;
+    distance: number;
+    angle: number;
+    time: number;
+    velocityX: number;
+    velocityY: number;
+  } | null = null;
+  /** Projection receiving inertia after a touch gesture (null: view pan/zoom). */
+  private _inertiaProjection: IProjection | null = null;
+
   // Bound DOM handlers
   private _onPointerDown: (e: PointerEvent) => void;
   private _onPointerMove: (e: PointerEvent) => void;
@@ -183,15 +278,33 @@ export class View implements IView {
   private _onKeyUp: (e: KeyboardEvent) => void;
   private _onWindowBlur: () => void;
   private _onGesture: (e: Event) => void;
+  private _onTouchDown: (e: PointerEvent) => void;
+  private _onTouchMove: (e: PointerEvent) => void;
+  private _onTouchUp: (e: PointerEvent) => void;
 
   // Reusable Arena2DContext (avoids per-frame allocations)
   private _arenaCtx: Arena2DContext | null = null;
+  // Offscreen target of the filter/mask pass being painted, with its origin in
+  // layer device pixels; null when painting straight to layers
+  private _offscreenPass: {
+    ctx: CanvasContext;
+    originX: number;
+    originY: number;
+  } | null = null;
+  // Element whose filters and alpha mask the current pass applies
+  private _passRoot: IElement | null = null;
+  // Offscreen canvas pairs for passes, one per nesting depth
+  private _passBuffers: [OffscreenCanvas, OffscreenCanvas][] = [];
+  private _passDepth = 0;
   // Cached canvas rect to avoid layout thrashing from getBoundingClientRect
   private _cachedCanvasRect: DOMRect | null = null;
   // Stored window resize handler for cleanup
   private _onWindowResize: () => void;
+  // Running camera animation (animateTo / flyTo / fitElement)
+  private _cameraTween: Tween | null = null;
 
   constructor(container: HTMLElement, scene: Scene, options: ViewOptions = {}) {
+    super();
     this.container = container;
     this.scene = scene;
 
@@ -207,6 +320,8 @@ export class View implements IView {
       options.panTrigger ?? ((e: PointerEvent) => e.button === 0 && e.shiftKey);
     this._wheelPanScalar = options.wheelPanScalar ?? 1;
     this._wheelZoomScalar = options.wheelZoomScalar ?? 1;
+    this._enableTouchGestures = options.enableTouchGestures ?? true;
+    this._enableTouchRotate = options.enableTouchRotate ?? false;
     this._constrainPan = options.constrainPan ?? false;
     this._constrainZoom = options.constrainZoom ?? false;
     this._inertiaEnabled = options.inertia ?? false;
@@ -282,6 +397,16 @@ export class View implements IView {
     container.addEventListener("gesturechange", this._onGesture);
     container.addEventListener("gestureend", this._onGesture);
 
+    this._onTouchDown = this._handleTouchDown.bind(this);
+    this._onTouchMove = this._handleTouchMove.bind(this);
+    this._onTouchUp = this._handleTouchUp.bind(this);
+    if (this._enableTouchGestures) {
+      container.addEventListener("pointerdown", this._onTouchDown);
+      container.addEventListener("pointermove", this._onTouchMove);
+      container.addEventListener("pointerup", this._onTouchUp);
+      container.addEventListener("pointercancel", this._onTouchUp);
+    }
+
     if (this._enableMousePan) {
       container.addEventListener("pointerdown", this._onPointerDown);
       container.addEventListener("pointermove", this._onPointerMove);
@@ -553,18 +678,240 @@ export class View implements IView {
         break;
     }
 
-    if (animate && this._inertiaEnabled) {
-      this._velocityX = (targetPanX - this._panX) * 0.3;
-      this._velocityY = (targetPanY - this._panY) * 0.3;
-      this._velocityZoom = (targetZoom - this._zoom) * 0.3;
-      this._inertiaActive = true;
+    if (animate) {
+      this.animateTo({
+        x: (viewW / 2 - targetPanX) / targetZoom,
+        y: (viewH / 2 - targetPanY) / targetZoom,
+        zoom: targetZoom,
+      });
     } else {
+      this.stopCameraAnimation();
       this._panX = targetPanX;
       this._panY = targetPanY;
       this._zoom = targetZoom;
     }
   }
 
+  // ── Camera Animation ──
+
+  /** Whether an animateTo / flyTo / fitElement animation is running. */
+  get isCameraAnimating(): boolean {
+    return this._cameraTween !== null;
+  }
+
+  /**
+   * Animate the view-level camera so that scene point (`x`, `y`) ends up in
+   * the view center at `zoom`. The center moves linearly while the zoom is
+   * interpolated geometrically, so zooming feels uniform at any scale.
+   *
+   * Emits `camerastart`, `cameraprogress` (every frame) and `cameraend`.
+   * Starting another camera animation cancels this one.
+   */
+  animateTo(target: ICameraTarget): void {
+    const from = this._cameraCenter();
+    const toX = target.x ?? from.x;
+    const toY = target.y ?? from.y;
+    const fromZoom = this._zoom;
+    const toZoom = Math.max(0.01, target.zoom ?? fromZoom);
+
+    this._runCameraAnimation(
+      target.duration ?? 0.5,
+      target.easing ?? "easeInOutCubic",
+      (t) => {
+        this._setCamera(
+          from.x + (toX - from.x) * t,
+          from.y + (toY - from.y) * t,
+          fromZoom * (toZoom / fromZoom) ** t,
+        );
+      },
+    );
+  }
+
+  /**
+   * Fly to scene point (`x`, `y`) at `zoom`, zooming out and back in along
+   * the smooth zoom path of van Wijk & Nuij ("Smooth and efficient zooming
+   * and panning", 2003). Without an explicit `duration` the duration is
+   * proportional to the length of the path, so far jumps take longer.
+   */
+  flyTo(x: number, y: number, zoom: number, options: IFlyToOptions = {}): void {
+    const rho = Math.max(1e-3, options.curvature ?? Math.SQRT2);
+    const rho2 = rho * rho;
+    const rho4 = rho2 * rho2;
+
+    // Work in "visible width" (scene units across the view) instead of zoom
+    const size = Math.max(this._width, this._height, 1);
+    const from = this._cameraCenter();
+    const w0 = size / this._zoom;
+    const w1 = size / Math.max(0.01, zoom);
+    const dx = x - from.x;
+    const dy = y - from.y;
+    const d2 = dx * dx + dy * dy;
+
+    let pathLength: number;
+    let interpolate: (t: number) => { u: number; w: number };
+
+    if (d2 < 1e-12) {
+      // Same center: pure zoom, exponential in width
+      pathLength = Math.abs(Math.log(w1 / w0)) / rho;
+      const k = w1 < w0 ? -1 : 1;
+      interpolate = (t) => ({
+        u: t,
+        w: w0 * Math.exp(k * rho * pathLength * t),
+      });
+    } else {
+      const d1 = Math.sqrt(d2);
+      const b0 = (w1 * w1 - w0 * w0 + rho4 * d2) / (2 * w0 * rho2 * d1);
+      const b1 = (w1 * w1 - w0 * w0 - rho4 * d2) / (2 * w1 * rho2 * d1);
+      const r0 = Math.log(Math.sqrt(b0 * b0 + 1) - b0);
+      const r1 = Math.log(Math.sqrt(b1 * b1 + 1) - b1);
+      pathLength = (r1 - r0) / rho;
+      const coshR0 = Math.cosh(r0);
+      interpolate = (t) => {
+        const r = rho * pathLength * t + r0;
+        return {
+          u: (w0 / (rho2 * d1)) * (coshR0 * Math.tanh(r) - Math.sinh(r0)),
+          w: (w0 * coshR0) / Math.cosh(r),
+        };
+      };
+    }
+
+    const duration =
+      options.duration ?? Math.min(3, Math.max(0.3, pathLength * 0.8));
+
+    this._runCameraAnimation(
+      duration,
+      options.easing ?? "easeInOutQuad",
+      (t) => {
+        if (t >= 1) {
+          this._setCamera(x, y, Math.max(0.01, zoom));
+          return;
+        }
+        const { u, w } = interpolate(t);
+        this._setCamera(from.x + dx * u, from.y + dy * u, size / w);
+      },
+    );
+  }
+
+  /**
+   * Zoom and center the view-level camera on an element's world bounds,
+   * leaving `padding` view pixels around it. Animated with `animateTo`
+   * (pass `duration: 0` to jump).
+   */
+  fitElement(
+    element: IElement,
+    padding = 0,
+    options: ICameraAnimationOptions = {},
+  ): void {
+    const bounds = computeAABB(element.localBounds, element.worldMatrix);
+    const availW = this._width - padding * 2;
+    const availH = this._height - padding * 2;
+    if (availW <= 0 || availH <= 0) return;
+
+    let zoom = this._zoom;
+    if (bounds.width > 0 && bounds.height > 0) {
+      zoom = Math.min(availW / bounds.width, availH / bounds.height);
+    } else if (bounds.width > 0) {
+      zoom = availW / bounds.width;
+    } else if (bounds.height > 0) {
+      zoom = availH / bounds.height;
+    }
+
+    this.animateTo({
+      x: bounds.x + bounds.width / 2,
+      y: bounds.y + bounds.height / 2,
+      zoom,
+      ...options,
+    });
+  }
+
+  /**
+   * Stop the running camera animation, leaving the camera where it is.
+   * Emits `cameraend` with `cancelled: true`.
+   */
+  stopCameraAnimation(): void {
+    const tween = this._cameraTween;
+    if (!tween) return;
+    this._cameraTween = null;
+    tween.stop();
+    this._emitCameraEvent("cameraend", tween.progress, true);
+  }
+
+  /** Scene point currently in the view center. */
+  private _cameraCenter(): { x: number; y: number } {
+    return {
+      x: (this._width / 2 - this._panX) / this._zoom,
+      y: (this._height / 2 - this._panY) / this._zoom,
+    };
+  }
+
+  /** Center scene point (`x`, `y`) in the view at `zoom`. */
+  private _setCamera(x: number, y: number, zoom: number): void {
+    this._zoom = Math.max(0.01, zoom);
+    this._panX = this._width / 2 - x * this._zoom;
+    this._panY = this._height / 2 - y * this._zoom;
+  }
+
+  /**
+   * Drive `apply(easedProgress)` with a Tween on the scene ticker, replacing
+   * any running camera animation and emitting the camera events.
+   */
+  private _runCameraAnimation(
+    duration: number,
+    easing: EasingName | EasingFunction,
+    apply: (t: number) => void,
+  ): void {
+    this.stopCameraAnimation();
+    this._inertiaActive = false;
+    this._inertiaProjection = null;
+
+    if (duration <= 0) {
+      this._emitCameraEvent("camerastart", 0, false);
+      apply(1);
+      this._emitCameraEvent("cameraprogress", 1, false);
+      this._emitCameraEvent("cameraend", 1, false);
+      return;
+    }
+
+    const state = { t: 0 };
+    const tween = new Tween({
+      target: state,
+      properties: { t: [{ toValue: 1, duration }] },
+      easing,
+      ticker: this.scene.ticker,
+      autoStart: false,
+    });
+    tween.on("start", () => {
+      this._emitCameraEvent("camerastart", 0, false);
+    });
+    tween.on("update", () => {
+      apply(state.t);
+      this._emitCameraEvent("cameraprogress", tween.progress, false);
+    });
+    tween.on("complete", () => {
+      if (this._cameraTween !== tween) return;
+      this._cameraTween = null;
+      this._emitCameraEvent("cameraend", 1, false);
+    });
+    this._cameraTween = tween;
+    tween.start();
+  }
+
+  private _emitCameraEvent(
+    type: ICameraEvent["type"],
+    progress: number,
+    cancelled: boolean,
+  ): void {
+    const event: ICameraEvent = {
+      type,
+      progress,
+      panX: this._panX,
+      panY: this._panY,
+      zoom: this._zoom,
+      cancelled,
+    };
+    this.emit(type, event);
+  }
+
   // ── Projections ──
 
   addProjection(projection: IProjection): void {
@@ -586,12 +933,7 @@ export class View implements IView {
       rect = this.container.getBoundingClientRect();
       this._cachedCanvasRect = rect;
     }
-    const viewX = screenX - rect.left;
-    const viewY = screenY - rect.top;
-    return {
-      x: (viewX - this._panX) / this._zoom,
-      y: (viewY - this._panY) / this._zoom,
-    };
+    return this._viewToScene(screenX - rect.left, screenY - rect.top);
   }
 
   sceneToScreen(sceneX: number, sceneY: number): { x: number; y: number } {
@@ -601,9 +943,42 @@ export class View implements IView {
       rect = this.container.getBoundingClientRect();
       this._cachedCanvasRect = rect;
     }
+    const view = this._rotateViewPoint(
+      sceneX * this._zoom + this._panX,
+      sceneY * this._zoom + this._panY,
+    );
+    return { x: view.x + rect.left, y: view.y + rect.top };
+  }
+
+  /** Scene point shown at a view-local point. */
+  private _viewToScene(viewX: number, viewY: number): { x: number; y: number } {
+    const view = this._rotateViewPoint(viewX, viewY, true);
     return {
-      x: sceneX * this._zoom + this._panX + rect.left,
-      y: sceneY * this._zoom + this._panY + rect.top,
+      x: (view.x - this._panX) / this._zoom,
+      y: (view.y - this._panY) / this._zoom,
+    };
+  }
+
+  /**
+   * Rotate a view-local point about the first projection's destRect center
+   * by its rotation (or back, with `inverse`).
+   */
+  private _rotateViewPoint(
+    x: number,
+    y: number,
+    inverse = false,
+  ): { x: number; y: number } {
+    const proj = this._projections[0];
+    const rotation = proj?.rotation ?? 0;
+    if (rotation === 0) return { x, y };
+    const d = proj.destRect;
+    const cx = d.x + d.width / 2;
+    const cy = d.y + d.height / 2;
+    const cos = Math.cos(rotation);
+    const sin = inverse ? -Math.sin(rotation) : Math.sin(rotation);
+    return {
+      x: cx + (x - cx) * cos - (y - cy) * sin,
+      y: cy + (x - cx) * sin + (y - cy) * cos,
     };
   }
 
@@ -650,14 +1025,7 @@ export class View implements IView {
     // Skip frustum culling when the view has no meaningful dimensions
     // (e.g. test environments with mock containers).
     this._frustum =
-      this._width > 0 && this._height > 0
-        ? {
-            x: -this._panX / this._zoom,
-            y: -this._panY / this._zoom,
-            width: this._width / this._zoom,
-            height: this._height / this._zoom,
-          }
-        : null;
+      this._width > 0 && this._height > 0 ? this._viewRectToScene() : null;
 
     // Paint elements to their layers in scene-graph order
     this._paintRecursive(this.scene.root as IElement, this._frustum);
@@ -673,6 +1041,9 @@ export class View implements IView {
     if (this._isDestroyed) return;
     this._isDestroyed = true;
 
+    // Cancel any running camera animation
+    this.stopCameraAnimation();
+
     // Unregister from scene
     (this.scene as any)._unregisterView(this);
 
@@ -683,6 +1054,10 @@ export class View implements IView {
     this.container.removeEventListener("pointerdown", this._onPointerDown);
     this.container.removeEventListener("pointermove", this._onPointerMove);
     this.container.removeEventListener("pointerup", this._onPointerUp);
+    this.container.removeEventListener("pointerdown", this._onTouchDown);
+    this.container.removeEventListener("pointermove", this._onTouchMove);
+    this.container.removeEventListener("pointerup", this._onTouchUp);
+    this.container.removeEventListener("pointercancel", this._onTouchUp);
     this.container.removeEventListener("wheel", this._onWheel);
     this.container.removeEventListener("gesturestart", this._onGesture);
     this.container.removeEventListener("gesturechange", this._onGesture);
@@ -697,6 +1072,7 @@ export class View implements IView {
       layer.destroy();
     }
     this._layers.clear();
+    this._passBuffers.length = 0;
 
     // Disconnect ResizeObserver
     this._resizeObserver?.disconnect();
@@ -733,7 +1109,10 @@ export class View implements IView {
     } else if (!container) {
       const bounds = element.localBounds;
       if (bounds.width > 0 || bounds.height > 0) {
-        const worldAABB = computeAABB(bounds, element.worldMatrix);
+        const worldAABB = computeAABB(
+          expandFilterBounds(bounds, element.filters),
+          element.worldMatrix,
+        );
         return !intersect(worldAABB, frustum);
       }
     }
@@ -741,7 +1120,40 @@ export class View implements IView {
   }
 
   /**
-   * Applies world transform to a canvas context with pan/zoom scaling.
+   * Scene-space bounds of the view, covering its corners when the view
+   * is rotated.
+   * @private
+   */
+  private _viewRectToScene(): IRect {
+    if (!this._projections[0]?.rotation) {
+      return {
+        x: -this._panX / this._zoom,
+        y: -this._panY / this._zoom,
+        width: this._width / this._zoom,
+        height: this._height / this._zoom,
+      };
+    }
+    const corners = [
+      this._viewToScene(0, 0),
+      this._viewToScene(this._width, 0),
+      this._viewToScene(0, this._height),
+      this._viewToScene(this._width, this._height),
+    ];
+    const xs = corners.map((p) => p.x);
+    const ys = corners.map((p) => p.y);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    return {
+      x,
+      y,
+      width: Math.max(...xs) - x,
+      height: Math.max(...ys) - y,
+    };
+  }
+
+  /**
+   * Applies world transform to a canvas context with pan/zoom scaling and
+   * the view's rotation.
    * @private
    */
   private _applyWorldTransform(
@@ -752,13 +1164,29 @@ export class View implements IView {
     panX: number,
     panY: number,
   ): void {
+    const pass = this._offscreenPass;
+    const rotation = this._projections[0]?.rotation ?? 0;
+    if (rotation !== 0) {
+      const cos = Math.cos(rotation);
+      const sin = Math.sin(rotation);
+      const o = this._rotateViewPoint(zoom * m[4] + panX, zoom * m[5] + panY);
+      ctx.setTransform(
+        dpr * zoom * (cos * m[0] - sin * m[1]),
+        dpr * zoom * (sin * m[0] + cos * m[1]),
+        dpr * zoom * (cos * m[2] - sin * m[3]),
+        dpr * zoom * (sin * m[2] + cos * m[3]),
+        dpr * o.x - (pass ? pass.originX : 0),
+        dpr * o.y - (pass ? pass.originY : 0),
+      );
+      return;
+    }
     ctx.setTransform(
       dpr * zoom * m[0],
       dpr * zoom * m[1],
       dpr * zoom * m[2],
       dpr * zoom * m[3],
-      dpr * (zoom * m[4] + panX),
-      dpr * (zoom * m[5] + panY),
+      dpr * (zoom * m[4] + panX) - (pass ? pass.originX : 0),
+      dpr * (zoom * m[5] + panY) - (pass ? pass.originY : 0),
     );
   }
 
@@ -788,6 +1216,15 @@ export class View implements IView {
 
     if (frustum && this._shouldCull(element, container, frustum)) return;
 
+    const mask = element.mask;
+    if (
+      (element.filters.length > 0 || (mask && element.maskMode === "alpha")) &&
+      this._passRoot !== element
+    ) {
+      this._paintOffscreen(element, layer, frustum);
+      return;
+    }
+
     // Handle cacheAsBitmap
     if (container && container.cacheAsBitmap) {
       if (!container.isCacheValid) {
@@ -795,15 +1232,25 @@ export class View implements IView {
       }
     }
 
+    // Inside a pass, the whole subtree paints to its offscreen target
+    const target = this._offscreenPass ? this._offscreenPass.ctx : layer.ctx;
+
     // Reuse or create Arena2DContext
     if (!this._arenaCtx) {
-      this._arenaCtx = new Arena2DContext(layer.ctx);
+      this._arenaCtx = new Arena2DContext(target);
     } else {
-      this._arenaCtx.setContext(layer.ctx);
+      this._arenaCtx.setContext(target);
     }
     const ctx = this._arenaCtx;
 
-    layer.ctx.save();
+    // Clip masks hold for the whole subtree; a pass root clips when composited
+    const clipped = mask !== null && this._passRoot !== element;
+    if (clipped) {
+      target.save();
+      this._clipToMask(ctx, element);
+    }
+
+    target.save();
 
     // Apply pan/zoom + element transform with DPR scaling
     const m = element.worldMatrix;
@@ -812,10 +1259,12 @@ export class View implements IView {
     const px = this._panX;
     const py = this._panY;
 
-    this._applyWorldTransform(layer.ctx, m, dpr, z, px, py);
+    this._applyWorldTransform(target, m, dpr, z, px, py);
 
-    layer.ctx.globalAlpha = element.effectiveAlpha;
-    layer.ctx.globalCompositeOperation = element.blendMode;
+    target.globalAlpha = element.effectiveAlpha;
+    // A filtered element's blend mode applies when its pass is composited
+    target.globalCompositeOperation =
+      this._passRoot === element ? "source-over" : element.blendMode;
 
     if (
       "paint" in element &&
@@ -824,22 +1273,23 @@ export class View implements IView {
       (element as { paint: (ctx: Arena2DContext) => void }).paint(ctx);
     }
 
-    layer.ctx.restore();
+    target.restore();
 
     // If cached, skip children
     if (container && container.cacheAsBitmap && container.isCacheValid) {
+      if (clipped) target.restore();
       return;
     }
 
     // Paint children
     if (container) {
       if (container.clipContent) {
-        layer.ctx.save();
+        target.save();
         const cm = container.worldMatrix;
-        this._applyWorldTransform(layer.ctx, cm, dpr, z, px, py);
-        layer.ctx.beginPath();
-        layer.ctx.rect(0, 0, container.width, container.height);
-        layer.ctx.clip();
+        this._applyWorldTransform(target, cm, dpr, z, px, py);
+        target.beginPath();
+        target.rect(0, 0, container.width, container.height);
+        target.clip();
       }
 
       // Narrow frustum for children of clipped containers
@@ -861,9 +1311,317 @@ export class View implements IView {
       }
 
       if (container.clipContent) {
-        layer.ctx.restore();
+        target.restore();
       }
     }
+
+    if (clipped) target.restore();
+  }
+
+  /**
+   * Clip a context to an element's mask: the mask's geometry if it has
+   * one, otherwise its box. Leaves the context in the mask's transform.
+   * @private
+   */
+  private _clipToMask(ctx: Arena2DContext, element: IElement): void {
+    const mask = element.mask as IElement;
+    this._applyWorldTransform(
+      ctx.raw,
+      mask.worldMatrix,
+      this._dpr,
+      this._zoom,
+      this._panX,
+      this._panY,
+    );
+    let geometry = (mask as { geometry?: IGeometry }).geometry;
+    if (geometry) {
+      const m = geometry.localMatrix;
+      ctx.raw.transform(m[0], m[1], m[2], m[3], m[4], m[5]);
+    } else {
+      maskBox.width = mask.width;
+      maskBox.height = mask.height;
+      geometry = maskBox;
+    }
+    ctx.clipGeometry(geometry, element.maskInverted);
+  }
+
+  /**
+   * Paint an element and its descendants into an offscreen buffer, run its
+   * filter chain over the pixels, apply its mask, and composite the result
+   * with the element's blend mode. Descendants on other layers are drawn
+   * into the same pass.
+   * @private
+   */
+  private _paintOffscreen(
+    element: IElement,
+    layer: Layer,
+    frustum: IRect | null,
+  ): void {
+    const outer = this._offscreenPass;
+    const target = outer ? outer.ctx : layer.ctx;
+    const bounds = this._subtreeBounds(element);
+    if (!bounds) return;
+
+    // Device-space rect of the result, limited to what can reach the target
+    const dpr = this._dpr;
+    const z = this._zoom;
+    const wm = element.worldMatrix;
+    const rotation = this._projections[0]?.rotation ?? 0;
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const dm = [
+      dpr * z * (cos * wm[0] - sin * wm[1]),
+      dpr * z * (sin * wm[0] + cos * wm[1]),
+      dpr * z * (cos * wm[2] - sin * wm[3]),
+      dpr * z * (sin * wm[2] + cos * wm[3]),
+    ];
+    const pad = getFilterPadding(element.filters);
+    const reach =
+      Math.max(pad.left, pad.top, pad.right, pad.bottom) *
+      Math.sqrt(Math.abs(dm[0] * dm[3] - dm[1] * dm[2]));
+    const originX = outer ? outer.originX : 0;
+    const originY = outer ? outer.originY : 0;
+    let x0 = dpr * (z * bounds.x + this._panX) - originX;
+    let y0 = dpr * (z * bounds.y + this._panY) - originY;
+    let x1 = x0 + bounds.width * dpr * z;
+    let y1 = y0 + bounds.height * dpr * z;
+    if (rotation !== 0) {
+      // Cover the rotated corners
+      const xs: number[] = [];
+      const ys: number[] = [];
+      for (const [cx, cy] of [
+        [x0, y0],
+        [x1, y0],
+        [x0, y1],
+        [x1, y1],
+      ]) {
+        const p = this._rotateViewPoint(
+          (cx + originX) / dpr,
+          (cy + originY) / dpr,
+        );
+        xs.push(dpr * p.x - originX);
+        ys.push(dpr * p.y - originY);
+      }
+      x0 = Math.min(...xs);
+      y0 = Math.min(...ys);
+      x1 = Math.max(...xs);
+      y1 = Math.max(...ys);
+    }
+    const canvas = target.canvas as { width?: number; height?: number };
+    if (canvas?.width && canvas.height) {
+      x0 = Math.max(x0, -reach);
+      y0 = Math.max(y0, -reach);
+      x1 = Math.min(x1, canvas.width + reach);
+      y1 = Math.min(y1, canvas.height + reach);
+    }
+    x0 = Math.floor(x0);
+    y0 = Math.floor(y0);
+    const w = Math.ceil(x1) - x0;
+    const h = Math.ceil(y1) - y0;
+    if (w <= 0 || h <= 0) return;
+
+    // Grow-only buffers per nesting depth
+    const depth = this._passDepth;
+    let buffers = this._passBuffers[depth];
+    if (!buffers) {
+      buffers = [new OffscreenCanvas(w, h), new OffscreenCanvas(w, h)];
+      this._passBuffers[depth] = buffers;
+    }
+    for (const buffer of buffers) {
+      if (buffer.width < w) buffer.width = w;
+      if (buffer.height < h) buffer.height = h;
+    }
+    let src = getBufferContext(buffers[0]);
+    let dst = getBufferContext(buffers[1]);
+    src.clearRect(0, 0, w, h);
+
+    // Paint the subtree, letting content just outside the frustum blur in
+    const worldReach = reach / (dpr * z);
+    const passFrustum = frustum && {
+      x: frustum.x - worldReach,
+      y: frustum.y - worldReach,
+      width: frustum.width + worldReach * 2,
+      height: frustum.height + worldReach * 2,
+    };
+    const outerRoot = this._passRoot;
+    this._offscreenPass = {
+      ctx: src,
+      originX: originX + x0,
+      originY: originY + y0,
+    };
+    this._passRoot = element;
+    this._passDepth++;
+    try {
+      this._paintRecursive(element, passFrustum);
+    } finally {
+      this._offscreenPass = outer;
+      this._passRoot = outerRoot;
+      this._passDepth--;
+    }
+
+    // Run the chain; canvas filters are batched into one draw per run
+    let pending = "";
+    for (const filter of element.filters) {
+      const css = toCanvasFilter(filter, dm);
+      if (css !== null) {
+        pending = pending ? `${pending} ${css}` : css;
+        continue;
+      }
+      if (pending) {
+        dst.clearRect(0, 0, w, h);
+        dst.save();
+        dst.filter = pending;
+        dst.drawImage(src.canvas, 0, 0, w, h, 0, 0, w, h);
+        dst.restore();
+        [src, dst] = [dst, src];
+        pending = "";
+      }
+      if (filter.type === "colorMatrix") {
+        const pixels = src.getImageData(0, 0, w, h);
+        applyColorMatrix(pixels.data, filter.matrix);
+        src.putImageData(pixels, 0, 0);
+      }
+    }
+
+    // The mask cuts the filtered result
+    const mask = element.mask;
+    if (mask && element.maskMode === "alpha") {
+      if (pending) {
+        dst.clearRect(0, 0, w, h);
+        dst.save();
+        dst.filter = pending;
+        dst.drawImage(src.canvas, 0, 0, w, h, 0, 0, w, h);
+        dst.restore();
+        [src, dst] = [dst, src];
+        pending = "";
+      }
+      // Paint the whole mask first so overlapping shapes add up
+      dst.clearRect(0, 0, w, h);
+      this._offscreenPass = {
+        ctx: dst,
+        originX: originX + x0,
+        originY: originY + y0,
+      };
+      try {
+        this._paintMask(mask, dst, mask.alpha);
+      } finally {
+        this._offscreenPass = outer;
+      }
+      src.save();
+      src.setTransform(1, 0, 0, 1, 0, 0);
+      src.globalCompositeOperation = element.maskInverted
+        ? "destination-out"
+        : "destination-in";
+      src.drawImage(dst.canvas, 0, 0, w, h, 0, 0, w, h);
+      src.restore();
+    }
+
+    target.save();
+    if (mask && element.maskMode === "clip") {
+      if (!this._arenaCtx) {
+        this._arenaCtx = new Arena2DContext(target);
+      } else {
+        this._arenaCtx.setContext(target);
+      }
+      this._clipToMask(this._arenaCtx, element);
+    }
+    target.setTransform(1, 0, 0, 1, 0, 0);
+    target.globalAlpha = 1;
+    target.globalCompositeOperation = element.blendMode;
+    target.filter = pending || "none";
+    target.drawImage(src.canvas, 0, 0, w, h, x0, y0, w, h);
+    target.restore();
+  }
+
+  /**
+   * Paint a mask and its visible descendants into the current pass. The
+   * mask's own visibility and layer are ignored, and so are filters and
+   * masks within it.
+   * @private
+   */
+  private _paintMask(
+    element: IElement,
+    target: CanvasContext,
+    alpha: number,
+  ): void {
+    if (alpha <= 0 || element.display === "hidden") return;
+    if (!this._arenaCtx) {
+      this._arenaCtx = new Arena2DContext(target);
+    } else {
+      this._arenaCtx.setContext(target);
+    }
+    target.save();
+    this._applyWorldTransform(
+      target,
+      element.worldMatrix,
+      this._dpr,
+      this._zoom,
+      this._panX,
+      this._panY,
+    );
+    target.globalAlpha = alpha;
+    if (
+      "paint" in element &&
+      typeof (element as { paint: unknown }).paint === "function"
+    ) {
+      (element as { paint: (ctx: Arena2DContext) => void }).paint(
+        this._arenaCtx,
+      );
+    }
+    target.restore();
+
+    if ("children" in element) {
+      for (const child of (element as IContainer).children) {
+        if (child.visible) this._paintMask(child, target, alpha * child.alpha);
+      }
+    }
+  }
+
+  /**
+   * World-space bounds of what an element and its visible descendants
+   * paint, grown by their filters and limited by clipping containers.
+   * @private
+   */
+  private _subtreeBounds(element: IElement): IRect | null {
+    let result: IRect | null = null;
+    const own = element.localBounds;
+    if (own.width > 0 || own.height > 0) {
+      result = computeAABB(own, element.worldMatrix);
+    }
+
+    if ("children" in element) {
+      const container = element as Container;
+      let children: IRect | null = null;
+      for (const child of container.children) {
+        if (!child.visible || child.display === "hidden") continue;
+        const rect = this._subtreeBounds(child);
+        if (rect) children = children ? rectUnion(children, rect) : rect;
+      }
+      if (children && container.clipContent) {
+        children = rectIntersection(
+          children,
+          computeAABB(
+            { x: 0, y: 0, width: container.width, height: container.height },
+            container.worldMatrix,
+          ),
+        );
+      }
+      if (children) result = result ? rectUnion(result, children) : children;
+    }
+
+    if (!result || element.filters.length === 0) return result;
+    // Grow evenly by the furthest reach so rotated elements stay covered
+    const pad = getFilterPadding(element.filters);
+    const m = element.worldMatrix;
+    const reach =
+      Math.max(pad.left, pad.top, pad.right, pad.bottom) *
+      Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+    return {
+      x: result.x - reach,
+      y: result.y - reach,
+      width: result.width + reach * 2,
+      height: result.height + reach * 2,
+    };
   }
 
   /**
@@ -896,6 +1654,13 @@ export class View implements IView {
 
     if (frustum && this._shouldCull(element, container, frustum)) return;
 
+    // Masked-away regions are not interactive; alpha masks hit by shape
+    const masked = element.mask !== null;
+    if (masked) {
+      ctx.raw.save();
+      this._clipToMask(ctx, element);
+    }
+
     if (element.interactive) {
       const uid = (element as unknown as { uid: number }).uid;
       const r = (uid & 0xff0000) >> 16;
@@ -947,6 +1712,8 @@ export class View implements IView {
         this._paintHitRecursive(child, ctx, childFrustum);
       }
     }
+
+    if (masked) ctx.raw.restore();
   }
 
   /**
@@ -1104,7 +1871,7 @@ export class View implements IView {
   // ── Pan/Zoom Handlers ──
 
   private _handlePanStart(e: PointerEvent): void {
-    if (!this._panTrigger(e)) return;
+    if (this._gesture || !this._panTrigger(e)) return;
 
     let rect = this._cachedCanvasRect;
     if (!rect) {
@@ -1124,6 +1891,7 @@ export class View implements IView {
     this._velocityX = 0;
     this._velocityY = 0;
     this._inertiaActive = false;
+    this._inertiaProjection = null;
     this.container.style.cursor = "grabbing";
     e.preventDefault();
   }
@@ -1134,17 +1902,7 @@ export class View implements IView {
     const dx = e.clientX - this._lastPointerX;
     const dy = e.clientY - this._lastPointerY;
 
-    // Convert pixel delta from dest space to source space
-    const proj = this._activeProjection;
-    const scaleX = proj.sourceRect.width / proj.destRect.width;
-    const scaleY = proj.sourceRect.height / proj.destRect.height;
-
-    // Pan moves the sourceRect in the opposite direction
-    // (dragging right should reveal content to the left)
-    proj.sourceRect.x -= dx * scaleX;
-    proj.sourceRect.y -= dy * scaleY;
-
-    this._clampSourceRect(proj.sourceRect);
+    this._panProjectionBy(this._activeProjection, dx, dy);
 
     this._lastPointerX = e.clientX;
     this._lastPointerY = e.clientY;
@@ -1177,32 +1935,234 @@ export class View implements IView {
 
     if (this._zoomModifierDown || e.ctrlKey || e.metaKey) {
       // ── Ctrl / Meta + wheel = zoom ──
-      const tX = (mouseX - dst.x) / dst.width;
-      const tY = (mouseY - dst.y) / dst.height;
-      const sceneX = src.x + tX * src.width;
-      const sceneY = src.y + tY * src.height;
+      const anchor = this._viewToSource(proj, mouseX, mouseY);
 
       // Combine both axes into a single zoom delta and preserve magnitude
       // for smooth trackpad zooming. Normalise by 100 to keep the exponent
       // in a reasonable range for typical pixel-mode deltas.
       const combined = (e.deltaX + e.deltaY) / 100;
       const zoomFactor = Math.pow(1.1, combined * this._wheelZoomScalar);
-      const newW = src.width * zoomFactor;
-      const newH = src.height * zoomFactor;
-
-      src.x = sceneX - tX * newW;
-      src.y = sceneY - tY * newH;
-      src.width = newW;
-      src.height = newH;
+      src.width *= zoomFactor;
+      src.height *= zoomFactor;
+
+      // Keep the scene point under the cursor in place
+      const offset = this._viewDeltaToSource(
+        proj,
+        mouseX - (dst.x + dst.width / 2),
+        mouseY - (dst.y + dst.height / 2),
+      );
+      src.x = anchor.x - offset.x - src.width / 2;
+      src.y = anchor.y - offset.y - src.height / 2;
     } else {
       // ── Plain wheel = pan ──
-      const scaleX = src.width / dst.width;
-      const scaleY = src.height / dst.height;
-      src.x += e.deltaX * scaleX * this._wheelPanScalar;
-      src.y += e.deltaY * scaleY * this._wheelPanScalar;
+      const d = this._viewDeltaToSource(
+        proj,
+        e.deltaX * this._wheelPanScalar,
+        e.deltaY * this._wheelPanScalar,
+      );
+      src.x += d.x;
+      src.y += d.y;
+    }
+
+    this._clampSourceRect(src);
+  }
+
+  // ── Projection Mapping ──
+
+  /**
+   * Convert a delta in view pixels to source (scene) units for a
+   * projection, honouring its scale and rotation.
+   */
+  private _viewDeltaToSource(
+    proj: IProjection,
+    dx: number,
+    dy: number,
+  ): { x: number; y: number } {
+    const scaleX = proj.sourceRect.width / proj.destRect.width;
+    const scaleY = proj.sourceRect.height / proj.destRect.height;
+    const rotation = proj.rotation ?? 0;
+    if (rotation === 0) return { x: dx * scaleX, y: dy * scaleY };
+    const cos = Math.cos(-rotation);
+    const sin = Math.sin(-rotation);
+    return {
+      x: (dx * cos - dy * sin) * scaleX,
+      y: (dx * sin + dy * cos) * scaleY,
+    };
+  }
+
+  /** Scene point shown at a view-local point of a projection. */
+  private _viewToSource(
+    proj: IProjection,
+    viewX: number,
+    viewY: number,
+  ): { x: number; y: number } {
+    const src = proj.sourceRect;
+    const dst = proj.destRect;
+    const d = this._viewDeltaToSource(
+      proj,
+      viewX - (dst.x + dst.width / 2),
+      viewY - (dst.y + dst.height / 2),
+    );
+    return { x: src.x + src.width / 2 + d.x, y: src.y + src.height / 2 + d.y };
+  }
+
+  /**
+   * Move a projection's content by a view-pixel delta.
+   * Pan moves the sourceRect in the opposite direction
+   * (dragging right should reveal content to the left).
+   */
+  private _panProjectionBy(proj: IProjection, dx: number, dy: number): void {
+    const d = this._viewDeltaToSource(proj, dx, dy);
+    proj.sourceRect.x -= d.x;
+    proj.sourceRect.y -= d.y;
+    this._clampSourceRect(proj.sourceRect);
+  }
+
+  // ── Touch Gestures ──
+
+  private _handleTouchDown(e: PointerEvent): void {
+    if (e.pointerType !== "touch") return;
+    const p = this._toViewLocal(e);
+    this._touches.set(e.pointerId, p);
+    if (this._touches.size < 2) return;
+
+    // A second finger turns any single-pointer pan into a gesture
+    this._isPanning = false;
+    this._activeProjection = null;
+    this._inertiaActive = false;
+    this._beginGesture();
+    e.preventDefault();
+  }
+
+  private _handleTouchMove(e: PointerEvent): void {
+    const touch = this._touches.get(e.pointerId);
+    if (!touch) return;
+    const p = this._toViewLocal(e);
+    touch.x = p.x;
+    touch.y = p.y;
+    if (this._gesture) {
+      this._updateGesture();
+      e.preventDefault();
+    }
+  }
+
+  private _handleTouchUp(e: PointerEvent): void {
+    if (!this._touches.delete(e.pointerId)) return;
+    const gesture = this._gesture;
+    if (!gesture) return;
+
+    if (this._touches.size >= 2) {
+      // Re-baseline on the remaining fingers to avoid a jump
+      this._beginGesture();
+      return;
     }
 
+    this._gesture = null;
+    // Fingers that rested before lifting should not fling
+    const fresh = performance.now() - gesture.time < 100;
+    if (this._inertiaEnabled && fresh) {
+      this._inertiaProjection = gesture.projection;
+      this._velocityX = gesture.velocityX;
+      this._velocityY = gesture.velocityY;
+      this._velocityZoom = 0;
+      this._inertiaActive = true;
+    }
+  }
+
+  /** Centroid, distance and angle of the first two active touches. */
+  private _measureTouches(): {
+    x: number;
+    y: number;
+    distance: number;
+    angle: number;
+  } {
+    const [a, b] = this._touches.values();
+    return {
+      x: (a.x + b.x) / 2,
+      y: (a.y + b.y) / 2,
+      distance: Math.hypot(b.x - a.x, b.y - a.y),
+      angle: Math.atan2(b.y - a.y, b.x - a.x),
+    };
+  }
+
+  private _beginGesture(): void {
+    const m = this._measureTouches();
+    const projection =
+      this._gesture?.projection ?? this._hitTestProjection(m.x, m.y);
+    if (!projection) {
+      this._gesture = null;
+      return;
+    }
+    this._gesture = {
+      projection,
+      centroidX: m.x,
+      centroidY: m.y,
+      distance: m.distance,
+      angle: m.angle,
+      time: performance.now(),
+      velocityX: 0,
+      velocityY: 0,
+    };
+  }
+
+  /**
+   * Apply the change since the last gesture step: the scene point under the
+   * previous centroid stays under the new centroid while the projection
+   * scales with the finger distance (and rotates with their angle).
+   */
+  private _updateGesture(): void {
+    const g = this._gesture;
+    if (!g) return;
+    const m = this._measureTouches();
+    const proj = g.projection;
+    const src = proj.sourceRect;
+    const dst = proj.destRect;
+
+    const anchor = this._viewToSource(proj, g.centroidX, g.centroidY);
+
+    // Fingers moving apart magnify = smaller sourceRect
+    if (g.distance > 0 && m.distance > 0) {
+      const factor = g.distance / m.distance;
+      src.width *= factor;
+      src.height *= factor;
+    }
+
+    if (this._enableTouchRotate) {
+      let delta = m.angle - g.angle;
+      if (delta > Math.PI) delta -= Math.PI * 2;
+      else if (delta < -Math.PI) delta += Math.PI * 2;
+      proj.rotation = (proj.rotation ?? 0) + delta;
+    }
+
+    const offset = this._viewDeltaToSource(
+      proj,
+      m.x - (dst.x + dst.width / 2),
+      m.y - (dst.y + dst.height / 2),
+    );
+    src.x = anchor.x - offset.x - src.width / 2;
+    src.y = anchor.y - offset.y - src.height / 2;
     this._clampSourceRect(src);
+
+    // Track centroid velocity (view px per ~16ms frame) for inertia
+    const now = performance.now();
+    const dt = Math.max(1, now - g.time);
+    g.velocityX = ((m.x - g.centroidX) / dt) * 16;
+    g.velocityY = ((m.y - g.centroidY) / dt) * 16;
+
+    g.centroidX = m.x;
+    g.centroidY = m.y;
+    g.distance = m.distance;
+    g.angle = m.angle;
+    g.time = now;
+  }
+
+  private _toViewLocal(e: PointerEvent): { x: number; y: number } {
+    let rect = this._cachedCanvasRect;
+    if (!rect) {
+      rect = this.container.getBoundingClientRect();
+      this._cachedCanvasRect = rect;
+    }
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
   }
 
   // ── Inertia ──
@@ -1212,9 +2172,18 @@ export class View implements IView {
     this._velocityY *= this._friction;
     this._velocityZoom *= this._friction;
 
-    this._panX += this._velocityX;
-    this._panY += this._velocityY;
-    this._zoom += this._velocityZoom;
+    if (this._inertiaProjection) {
+      // Touch fling: keep panning the gesture's projection
+      this._panProjectionBy(
+        this._inertiaProjection,
+        this._velocityX,
+        this._velocityY,
+      );
+    } else {
+      this._panX += this._velocityX;
+      this._panY += this._velocityY;
+      this._zoom += this._velocityZoom;
+    }
 
     if (
       Math.abs(this._velocityX) < this._minVelocity &&
@@ -1225,6 +2194,7 @@ export class View implements IView {
       this._velocityY = 0;
       this._velocityZoom = 0;
       this._inertiaActive = false;
+      this._inertiaProjection = null;
     }
   }
 
@@ -1252,3 +2222,19 @@ export class View implements IView {
     }
   };
 }
+
+// ── Helpers ──
+
+/** Clip geometry for masks without one of their own; sized per use. */
+const maskBox = new Rectangle(0, 0, 1, 1);
+
+/**
+ * 2D context of an offscreen pass buffer.
+ */
+function getBufferContext(
+  canvas: OffscreenCanvas,
+): OffscreenCanvasRenderingContext2D {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("View: failed to get pass buffer context");
+  return ctx;
+}
@@ -0,0 +1,277 @@
+/**
+ * AnimatedSprite — An Image that plays a sequence of texture atlas frames.
+ *
+ * Playback advances in `update(dt)`, so it follows the Ticker: paused with
+ * it, scaled with its speed. Frames last `1 / fps` seconds, or their own
+ * atlas duration when `useFrameDurations` is set (Aseprite exports). A
+ * sequence can loop, play once, or ping-pong between its ends.
+ *
+ * Events:
+ * - `frame` `{ target, frame, name }` — the shown frame changed during playback
+ * - `loop` `{ target }` — a looping sequence finished a pass
+ * - `complete` `{ target }` — a non-looping sequence reached its end
+ *
+ * SPEC: §9 — Image & Texture Elements
+ *
+ * @module Elements
+ * @example
+ * ```typescript
+ * import { AnimatedSprite, TextureAtlas } from 'arena-2d';
+ *
+ * const atlas = new TextureAtlas(json, image);
+ * const hero = new AnimatedSprite(atlas, 'hero');
+ * hero.fps = 10;
+ * hero.play('walk');
+ * hero.on('complete', () => hero.play('idle'));
+ * ```
+ */
+
+import type { IAtlasFrame, TextureAtlas } from "../assets/TextureAtlas";
+import { Image } from "./Image";
+
+// ── AnimatedSprite Element ──
+
+export class AnimatedSprite extends Image {
+  /** Frames per second, unless the frames carry their own durations. */
+  fps = 12;
+  /** Whether the sequence starts over (or turns back) at its end. */
+  loop = true;
+  /**
+   * Play to the end, then back to the start, instead of wrapping. Atlas
+   * animations tagged ping-pong always play this way.
+   */
+  pingPong = false;
+  /** Playback rate multiplier; negative plays backwards. */
+  speed = 1;
+  /** Use per-frame atlas durations where present instead of `fps`. */
+  useFrameDurations = false;
+  /** Move the element's pivot to each frame's atlas pivot. */
+  usePivot = false;
+
+  private _atlas: TextureAtlas | null;
+  private _sequence: string | readonly string[] | null = null;
+  private _frames: IAtlasFrame[] = [];
+  /** Whether the atlas animation being played is tagged ping-pong. */
+  private _taggedPingPong = false;
+  private _index = 0;
+  /** +1 or -1: current step direction within a ping-pong sequence. */
+  private _direction = 1;
+  /** Seconds spent on the current frame. */
+  private _elapsed = 0;
+  private _playing = false;
+
+  /**
+   * Creates a new AnimatedSprite.
+   * @param atlas - Atlas the sequences' frames are looked up in.
+   * @param id - Optional element ID.
+   */
+  constructor(atlas: TextureAtlas | null = null, id?: string) {
+    super(id);
+    this._atlas = atlas;
+  }
+
+  // ── Sequence ──
+
+  get atlas(): TextureAtlas | null {
+    return this._atlas;
+  }
+
+  set atlas(value: TextureAtlas | null) {
+    this._atlas = value;
+  }
+
+  /** The sequence last set: an atlas animation name or frame names. */
+  get sequence(): string | readonly string[] | null {
+    return this._sequence;
+  }
+
+  /** Whether the sequence is advancing. */
+  get playing(): boolean {
+    return this._playing;
+  }
+
+  /** Index of the shown frame within the sequence. */
+  get currentFrame(): number {
+    return this._index;
+  }
+
+  /** Number of frames in the sequence. */
+  get totalFrames(): number {
+    return this._frames.length;
+  }
+
+  /**
+   * Set the frames to play without starting playback. `sequence` is an
+   * atlas animation name, or a list of frame names.
+   */
+  setSequence(sequence: string | readonly string[]): void {
+    const atlas = this._atlas;
+    if (!atlas) {
+      throw new Error(`AnimatedSprite [${this.id}]: no atlas to play from`);
+    }
+    let names = sequence;
+    this._taggedPingPong = false;
+    if (typeof sequence === "string") {
+      const animation = atlas.getAnimation(sequence);
+      if (!animation) {
+        throw new Error(
+          `AnimatedSprite [${this.id}]: atlas has no animation "${sequence}"`,
+        );
+      }
+      names = animation.frames;
+      this._taggedPingPong = animation.pingPong;
+    }
+    this._frames = (names as readonly string[]).map((name) => {
+      const frame = atlas.getFrame(name);
+      if (!frame) {
+        throw new Error(
+          `AnimatedSprite [${this.id}]: atlas has no frame "${name}"`,
+        );
+      }
+      return frame;
+    });
+    this._sequence = sequence;
+    this.source = atlas.source;
+    this._show(0);
+  }
+
+  // ── Playback ──
+
+  /**
+   * Start playing. With a sequence, switches to it from its first frame;
+   * without, resumes the current one.
+   */
+  play(sequence?: string | readonly string[]): void {
+    if (sequence !== undefined) this.setSequence(sequence);
+    if (this._frames.length === 0) return;
+    this._playing = true;
+  }
+
+  /** Pause on the current frame. */
+  stop(): void {
+    this._playing = false;
+  }
+
+  /** Show frame `index` of the sequence and pause there. */
+  gotoAndStop(index: number): void {
+    this._playing = false;
+    this._show(index);
+  }
+
+  /** Show frame `index` of the sequence and play on from there. */
+  gotoAndPlay(index: number): void {
+    this._show(index);
+    this.play();
+  }
+
+  /**
+   * Advances playback by `dt` seconds.
+   * @param dt - Delta time in seconds.
+   * @override
+   */
+  override update(dt: number): void {
+    if (this._playing && dt > 0 && this.speed !== 0) {
+      this._advance(dt * Math.abs(this.speed));
+    }
+    super.update(dt);
+  }
+
+  // ── Internal helpers ──
+
+  /**
+   * Step through as many frames as `time` covers.
+   * @private
+   */
+  private _advance(time: number): void {
+    const start = this._index;
+    this._elapsed += time;
+    let duration = this._frameDuration();
+    // Bounded: a long stall replays at most one pass of the sequence
+    let steps = 0;
+    while (this._elapsed >= duration && this._playing) {
+      this._elapsed -= duration;
+      if (!this._step()) break;
+      duration = this._frameDuration();
+      if (++steps >= this._frames.length * 2) {
+        this._elapsed %= duration;
+      }
+    }
+    if (this._index !== start) {
+      this._show(this._index, false);
+      const frame = this._frames[this._index];
+      this.emit("frame", {
+        target: this,
+        frame: this._index,
+        name: frame.name,
+      });
+    }
+  }
+
+  /**
+   * Move to the next frame in playback order. Returns false when a
+   * non-looping sequence has completed.
+   * @private
+   */
+  private _step(): boolean {
+    const last = this._frames.length - 1;
+    const pingPong = this.pingPong || this._taggedPingPong;
+    const direction = this._direction * Math.sign(this.speed);
+    const next = this._index + direction;
+    if (next >= 0 && next <= last) {
+      this._index = next;
+      return true;
+    }
+
+    if (!this.loop && (!pingPong || this._direction < 0)) {
+      this._playing = false;
+      this._elapsed = 0;
+      this.emit("complete", { target: this });
+      return false;
+    }
+
+    if (pingPong && last > 0) {
+      this._direction = -this._direction;
+      this._index -= direction;
+    } else {
+      this._index = next < 0 ? last : 0;
+    }
+    // A ping-pong pass ends back at the start
+    if (!pingPong || this._direction > 0) {
+      this.emit("loop", { target: this });
+    }
+    return true;
+  }
+
+  /**
+   * Seconds the current frame is shown for.
+   * @private
+   */
+  private _frameDuration(): number {
+    const frame = this._frames[this._index];
+    if (this.useFrameDurations && frame?.duration) return frame.duration;
+    return 1 / Math.max(this.fps, 1e-3);
+  }
+
+  /**
+   * Display frame `index`, optionally restarting its timing.
+   * @private
+   */
+  private _show(index: number, reset = true): void {
+    const count = this._frames.length;
+    if (count === 0) {
+      this.frame = undefined;
+      return;
+    }
+    this._index = Math.max(0, Math.min(Math.floor(index), count - 1));
+    if (reset) {
+      this._elapsed = 0;
+      this._direction = 1;
+    }
+    const frame = this._frames[this._index];
+    this.frame = frame;
+    if (this.usePivot) {
+      this.pivotX = frame.pivot.x * this.width;
+      this.pivotY = frame.pivot.y * this.height;
+    }
+  }
+}
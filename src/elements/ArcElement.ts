@@ -54,8 +54,9 @@ export class ArcElement extends GeometryElement<Arc> {
     raw.arc(this.geometry.cx, this.geometry.cy, this.geometry.radius,
       this.geometry.startAngle, this.geometry.endAngle, this.geometry.counterclockwise);
     // Arc is an open curve — stroke only, no fill
-    if (this._stroke !== undefined) {
-      raw.strokeStyle = this._stroke as string;
+    const stroke = this.resolveStroke(ctx);
+    if (stroke !== undefined) {
+      raw.strokeStyle = stroke;
       raw.stroke();
     }
   }
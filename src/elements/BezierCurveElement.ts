@@ -35,14 +35,15 @@ export class BezierCurveElement extends GeometryElement<BezierCurve> {
       raw.beginPath();
       raw.moveTo(cp[0].x, cp[0].y);
       raw.bezierCurveTo(cp[1].x, cp[1].y, cp[2].x, cp[2].y, cp[3].x, cp[3].y);
-      if (this._stroke !== undefined) {
-        raw.strokeStyle = this._stroke as string;
+      const stroke = this.resolveStroke(ctx);
+      if (stroke !== undefined) {
+        raw.strokeStyle = stroke;
         raw.stroke();
       }
     } else {
       // Higher-order — delegate to drawGeometry which handles sampling
       ctx.drawGeometry(this.geometry, {
-        strokeColor: this._stroke,
+        strokeColor: this.resolveStroke(ctx),
         lineWidth: this._lineWidth,
       });
     }
@@ -31,6 +31,6 @@ export class Circle extends GeometryElement<CircleGeometry> {
 
   override paint(ctx: IArena2DContext): void {
     ctx.drawCircle(this.geometry.cx, this.geometry.cy, this.geometry.radius,
-      { fillColor: this._fill, strokeColor: this._stroke, lineWidth: this._lineWidth });
+      { fillColor: this.resolveFill(ctx), strokeColor: this.resolveStroke(ctx), lineWidth: this._lineWidth });
   }
 }
@@ -35,6 +35,6 @@ export class EllipseElement extends GeometryElement<Ellipse> {
 
   override paint(ctx: IArena2DContext): void {
     ctx.drawEllipse(this.geometry.cx, this.geometry.cy, this.geometry.rx, this.geometry.ry,
-      { fillColor: this._fill, strokeColor: this._stroke, lineWidth: this._lineWidth });
+      { fillColor: this.resolveFill(ctx), strokeColor: this.resolveStroke(ctx), lineWidth: this._lineWidth });
   }
 }
@@ -91,8 +91,8 @@ export class GeometryElement<G extends Geometry = Geometry> extends ShapeElement
     raw.transform(m[0], m[1], m[2], m[3], m[4], m[5]);
 
     ctx.drawGeometry(this.geometry, {
-      fillColor: this._fill,
-      strokeColor: this._stroke,
+      fillColor: this.resolveFill(ctx),
+      strokeColor: this.resolveStroke(ctx),
       lineWidth: this._lineWidth,
     });
 
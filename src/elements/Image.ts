@@ -1,10 +1,15 @@
 /**
- * Image — Element for displaying bitmaps with optional nine-slice scaling
- * and sprite sheet sub-regions.
+ * Image — Element for displaying bitmaps with optional nine-slice scaling,
+ * sprite sheet sub-regions and texture atlas frames.
  *
  * SPEC: §9 — Image & Texture Elements
  */
 
+import {
+  type IAtlasFrame,
+  type TextureAtlas,
+  drawAtlasFrame,
+} from "../assets/TextureAtlas";
 import { DirtyFlags } from "../core/DirtyFlags";
 import { Element } from "../core/Element";
 import type { IRect } from "../math/aabb";
@@ -17,6 +22,7 @@ export class Image extends Element {
   private _sourceRect: IRect | undefined;
   private _nineSlice: [number, number, number, number] | undefined;
   private _tint: string | undefined;
+  private _frame: IAtlasFrame | undefined;
 
   // ── Source ──
 
@@ -42,6 +48,35 @@ export class Image extends Element {
     this.invalidate(DirtyFlags.Visual);
   }
 
+  // ── Atlas frame ──
+
+  /**
+   * The texture atlas frame shown, drawn from `source`. Takes precedence
+   * over `sourceRect` and `nineSlice`.
+   */
+  get frame(): IAtlasFrame | undefined {
+    return this._frame;
+  }
+
+  set frame(value: IAtlasFrame | undefined) {
+    if (this._frame !== value) {
+      this._frame = value;
+      this.invalidate(DirtyFlags.Visual | DirtyFlags.Layout);
+    }
+  }
+
+  /**
+   * Show the named frame of an atlas, taking the atlas image as source.
+   */
+  setFrame(atlas: TextureAtlas, name: string): void {
+    const frame = atlas.getFrame(name);
+    if (!frame) {
+      throw new Error(`Image [${this.id}]: atlas has no frame "${name}"`);
+    }
+    this.source = atlas.source;
+    this.frame = frame;
+  }
+
   // ── Nine-slice insets ──
 
   get nineSlice(): [number, number, number, number] | undefined {
@@ -69,14 +104,21 @@ export class Image extends Element {
   // ── Intrinsic sizing ──
 
   /**
-   * Returns the natural dimensions of the source image (or sourceRect if set).
-   * Used by the layout engine for auto-sizing.
+   * Returns the natural dimensions of the source image (or the untrimmed
+   * frame or sourceRect if set). Used by the layout engine for auto-sizing.
    */
   getIntrinsicSize(): { width: number; height: number } {
     if (!this._source) {
       return { width: 0, height: 0 };
     }
 
+    if (this._frame) {
+      return {
+        width: this._frame.sourceWidth,
+        height: this._frame.sourceHeight,
+      };
+    }
+
     if (this._sourceRect) {
       return {
         width: this._sourceRect.width,
@@ -107,7 +149,9 @@ export class Image extends Element {
     const h = this.height;
     if (w <= 0 || h <= 0) return;
 
-    if (this._nineSlice) {
+    if (this._frame) {
+      drawAtlasFrame(ctx, this._source, this._frame, 0, 0, w, h);
+    } else if (this._nineSlice) {
       this._paintNineSlice(ctx, w, h);
     } else if (this._sourceRect) {
       const sr = this._sourceRect;
@@ -49,6 +49,6 @@ export class LineElement extends GeometryElement<Line> {
 
   override paint(ctx: IArena2DContext): void {
     ctx.drawLine(this.geometry.x1, this.geometry.y1, this.geometry.x2, this.geometry.y2,
-      { strokeColor: this._stroke, lineWidth: this._lineWidth });
+      { strokeColor: this.resolveStroke(ctx), lineWidth: this._lineWidth });
   }
 }
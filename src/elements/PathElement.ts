@@ -33,12 +33,14 @@ export class PathElement extends GeometryElement<Path> {
 
     // Only fill if the path contains a closePath segment
     const isClosed = segments.some(s => s.type === "closePath");
-    if (isClosed && this._fill !== undefined) {
-      raw.fillStyle = this._fill as string;
+    const fill = isClosed ? this.resolveFill(ctx) : undefined;
+    if (fill !== undefined) {
+      raw.fillStyle = fill;
       raw.fill();
     }
-    if (this._stroke !== undefined) {
-      raw.strokeStyle = this._stroke as string;
+    const stroke = this.resolveStroke(ctx);
+    if (stroke !== undefined) {
+      raw.strokeStyle = stroke;
       raw.stroke();
     }
   }
@@ -32,8 +32,8 @@ export class PolygonElement extends GeometryElement<Polygon> {
   override paint(ctx: IArena2DContext): void {
     // Only fill closed polygons; open polylines render stroke only
     ctx.drawPolygon(this.geometry.points, {
-      fillColor: this.geometry.closed ? this._fill : undefined,
-      strokeColor: this._stroke,
+      fillColor: this.geometry.closed ? this.resolveFill(ctx) : undefined,
+      strokeColor: this.resolveStroke(ctx),
       lineWidth: this._lineWidth,
     }, this.geometry.closed);
   }
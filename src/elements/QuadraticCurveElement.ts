@@ -70,8 +70,9 @@ export class QuadraticCurveElement extends GeometryElement<QuadraticCurve> {
     raw.moveTo(this.geometry.x0, this.geometry.y0);
     raw.quadraticCurveTo(this.geometry.cpx, this.geometry.cpy, this.geometry.x1, this.geometry.y1);
     // Open curve — stroke only, no fill
-    if (this._stroke !== undefined) {
-      raw.strokeStyle = this._stroke as string;
+    const stroke = this.resolveStroke(ctx);
+    if (stroke !== undefined) {
+      raw.strokeStyle = stroke;
       raw.stroke();
     }
   }
@@ -40,7 +40,7 @@ export class Rect extends GeometryElement<Rectangle> {
   override get height(): number { return super.height; }
 
   override paint(ctx: IArena2DContext): void {
-    const style = { fillColor: this._fill, strokeColor: this._stroke, lineWidth: this._lineWidth };
+    const style = { fillColor: this.resolveFill(ctx), strokeColor: this.resolveStroke(ctx), lineWidth: this._lineWidth };
 
     if (this._radius === 0 || (Array.isArray(this._radius) && this._radius.every(r => r === 0))) {
       ctx.drawRect(0, 0, this.width, this.height, style);
@@ -5,6 +5,12 @@
  * velocity-based inertial scrolling, and automatic content bounds tracking.
  * Children are clipped to the container bounds and translated based on scroll position.
  *
+ * Wheel and drag scrolling that runs past this container's limits is handed
+ * on to the nearest ancestor ScrollContainer (`scrollChaining`). What no
+ * ancestor can take becomes rubber-band overscroll that springs back
+ * (`bounceEnabled`). `scrollSnap` settles the position on child edges or
+ * whole pages once a gesture ends.
+ *
  * @module Elements
  * @example
  * ```typescript
@@ -33,6 +39,40 @@ import {
 } from "../math/matrix";
 import type { IPointerEvent } from "../interaction/InteractionManager";
 
+/** Where a target ends up in the viewport when scrolled into view. */
+export type ScrollAlign = "start" | "center" | "end" | "nearest";
+
+/**
+ * Snap points for a ScrollContainer.
+ */
+export interface IScrollSnap {
+  /** Snap to the edges of children, or to multiples of the viewport size. */
+  type: "items" | "page";
+  /**
+   * `"mandatory"` always settles on a snap point; `"proximity"` only when
+   * one is within `proximity` pixels. Default: `"mandatory"`.
+   */
+  strictness?: "mandatory" | "proximity";
+  /** Which edge of a child to align with the viewport. Default: `"start"`. */
+  align?: "start" | "center" | "end";
+  /** Snap distance for `"proximity"`, in pixels. Default: 50. */
+  proximity?: number;
+}
+
+/**
+ * Options for `scrollIntoView`.
+ */
+export interface IScrollIntoViewOptions {
+  /** Horizontal alignment. Default: `"nearest"`. */
+  alignX?: ScrollAlign;
+  /** Vertical alignment. Default: `"nearest"`. */
+  alignY?: ScrollAlign;
+  /** Space to keep around the element, in pixels. Default: 0. */
+  margin?: number;
+  /** Ease to the new position instead of jumping. Default: false. */
+  animate?: boolean;
+}
+
 /**
  * Interface for a scrollable container element.
  */
@@ -52,6 +92,12 @@ export interface IScrollContainer extends IContainer {
    * @param animate - Whether to animate the scroll.
    */
   scrollBy(dx: number, dy: number, animate?: boolean): void;
+  /**
+   * Scrolls a descendant into view, along with any ancestor scrollers.
+   * @param element - A descendant element.
+   * @param options - Alignment, margin and animation.
+   */
+  scrollIntoView(element: IElement, options?: IScrollIntoViewOptions): void;
 }
 
 /**
@@ -107,6 +153,30 @@ export class ScrollContainer extends Container implements IScrollContainer {
   private _windowDragOnUp: (() => void) | null = null;
   /** Dirty flag for content bounds (set when children change). */
   private _contentBoundsDirty = true;
+  /** Whether scrolling past our limits carries on in ancestor scrollers. */
+  private _scrollChaining = true;
+  /** Whether gestures can overscroll the edges with a rubber-band effect. */
+  private _bounceEnabled = false;
+  /** Largest visible overscroll distance (in scene units). */
+  private _overscrollLimit = 80;
+  /** Raw horizontal overscroll, before rubber-band damping. */
+  private _overscrollX = 0;
+  /** Raw vertical overscroll, before rubber-band damping. */
+  private _overscrollY = 0;
+  /** Snap points to settle on, or null. */
+  private _scrollSnap: IScrollSnap | null = null;
+  /** Whether a gesture has ended that may need snapping. */
+  private _snapPending = false;
+  /** Seconds since the last wheel event. */
+  private _wheelIdleTime = 0;
+  /** Position being eased to, or null. */
+  private _scrollTarget: { x: number; y: number } | null = null;
+  /** Fraction of the remaining distance covered per frame when easing. */
+  private static readonly EASE_FACTOR = 0.2;
+  /** Fraction of the overscroll kept per frame while springing back. */
+  private static readonly SPRING_BACK = 0.8;
+  /** Seconds without wheel events before a wheel gesture counts as ended. */
+  private static readonly WHEEL_IDLE = 0.15;
 
   /**
    * Creates a new ScrollContainer.
@@ -138,11 +208,7 @@ export class ScrollContainer extends Container implements IScrollContainer {
     const clamped = this._clampX(v);
     if (this._scrollX !== clamped) {
       this._scrollX = clamped;
-      this.invalidate(DirtyFlags.Visual | DirtyFlags.Spatial);
-      // Invalidate children transform because their worldMatrix depends on our scroll
-      for (const child of this.children) {
-        child.invalidate(DirtyFlags.Transform);
-      }
+      this._invalidateScroll();
       this.emit("scroll", { target: this, x: this._scrollX, y: this._scrollY });
     }
   }
@@ -161,11 +227,7 @@ export class ScrollContainer extends Container implements IScrollContainer {
     const clamped = this._clampY(v);
     if (this._scrollY !== clamped) {
       this._scrollY = clamped;
-      this.invalidate(DirtyFlags.Visual | DirtyFlags.Spatial);
-      // Invalidate children transform because their worldMatrix depends on our scroll
-      for (const child of this.children) {
-        child.invalidate(DirtyFlags.Transform);
-      }
+      this._invalidateScroll();
       this.emit("scroll", { target: this, x: this._scrollX, y: this._scrollY });
     }
   }
@@ -240,6 +302,82 @@ export class ScrollContainer extends Container implements IScrollContainer {
     this._clickDeferralThreshold = Math.max(0, v);
   }
 
+  /**
+   * Gets whether scrolling past this container's limits carries on in
+   * ancestor ScrollContainers.
+   */
+  get scrollChaining(): boolean {
+    return this._scrollChaining;
+  }
+
+  /**
+   * Sets whether scrolling past this container's limits carries on in
+   * ancestor ScrollContainers.
+   */
+  set scrollChaining(v: boolean) {
+    this._scrollChaining = v;
+  }
+
+  /**
+   * Gets whether gestures can overscroll the edges with a rubber-band effect.
+   */
+  get bounceEnabled(): boolean {
+    return this._bounceEnabled;
+  }
+
+  /**
+   * Sets whether gestures can overscroll the edges with a rubber-band effect.
+   */
+  set bounceEnabled(v: boolean) {
+    this._bounceEnabled = v;
+    if (!v) this._setOverscroll(0, 0);
+  }
+
+  /**
+   * Gets the largest visible overscroll distance.
+   */
+  get overscrollLimit(): number {
+    return this._overscrollLimit;
+  }
+
+  /**
+   * Sets the largest visible overscroll distance.
+   */
+  set overscrollLimit(v: number) {
+    this._overscrollLimit = Math.max(0, v);
+  }
+
+  /**
+   * Gets the visible horizontal overscroll: negative past the left edge,
+   * positive past the right.
+   */
+  get overscrollX(): number {
+    return this._rubberBand(this._overscrollX);
+  }
+
+  /**
+   * Gets the visible vertical overscroll: negative past the top edge,
+   * positive past the bottom.
+   */
+  get overscrollY(): number {
+    return this._rubberBand(this._overscrollY);
+  }
+
+  /**
+   * Gets the snap points, or null when snapping is off.
+   */
+  get scrollSnap(): IScrollSnap | null {
+    return this._scrollSnap;
+  }
+
+  /**
+   * Sets the snap points, or null to turn snapping off.
+   */
+  set scrollSnap(v: IScrollSnap | null) {
+    this._scrollSnap = v;
+    this._snapPending = v !== null;
+  }
+
   /**
    * Gets the bounds of the scrollable content.
    */
@@ -258,8 +396,14 @@ export class ScrollContainer extends Container implements IScrollContainer {
    * Scrolls to the specified position.
    * @param x - Target horizontal scroll position.
    * @param y - Target vertical scroll position.
+   * @param animate - Whether to ease to the position over a few frames.
    */
-  scrollTo(x: number, y: number): void {
+  scrollTo(x: number, y: number, animate = false): void {
+    if (animate) {
+      this._scrollTarget = { x: this._clampX(x), y: this._clampY(y) };
+      return;
+    }
+    this._scrollTarget = null;
     this.scrollX = x;
     this.scrollY = y;
   }
@@ -268,10 +412,47 @@ export class ScrollContainer extends Container implements IScrollContainer {
    * Scrolls by the specified offset.
    * @param dx - Horizontal displacement.
    * @param dy - Vertical displacement.
+   * @param animate - Whether to ease to the position over a few frames.
    */
-  scrollBy(dx: number, dy: number): void {
-    this.scrollX += dx;
-    this.scrollY += dy;
+  scrollBy(dx: number, dy: number, animate = false): void {
+    const from = this._scrollTarget ?? { x: this._scrollX, y: this._scrollY };
+    this.scrollTo(from.x + dx, from.y + dy, animate);
+  }
+
+  /**
+   * Scrolls a descendant into view. Ancestor ScrollContainers are scrolled
+   * too, so the element ends up visible on screen.
+   * @param element - A descendant element.
+   * @param options - Alignment, margin and animation.
+   */
+  scrollIntoView(
+    element: IElement,
+    options: IScrollIntoViewOptions = {},
+  ): void {
+    const bounds = this._boundsInContent(element);
+    if (bounds) {
+      const margin = options.margin ?? 0;
+      const target = this._scrollTarget ?? {
+        x: this._scrollX,
+        y: this._scrollY,
+      };
+      const x = this.alignedOffset(
+        target.x,
+        bounds.x - margin,
+        bounds.width + 2 * margin,
+        this.width,
+        options.alignX ?? "nearest",
+      );
+      const y = this.alignedOffset(
+        target.y,
+        bounds.y - margin,
+        bounds.height + 2 * margin,
+        this.height,
+        options.alignY ?? "nearest",
+      );
+      this.scrollTo(x, y, options.animate);
+    }
+    this._scrollParent()?.scrollIntoView(element, options);
   }
 
   /**
@@ -315,13 +496,17 @@ export class ScrollContainer extends Container implements IScrollContainer {
    * @override
    */
   override getWorldMatrixForChildren(): MatrixArray {
-    const scrollM = translate(-this._scrollX, -this._scrollY);
+    const scrollM = translate(
+      -this._scrollX - this.overscrollX,
+      -this._scrollY - this.overscrollY,
+    );
     return multiply(this.worldMatrix, scrollM);
   }
 
   /**
-   * Updates scroll inertia and scrollbar fade animation.
-   * @param dt - Delta time in milliseconds.
+   * Updates scroll inertia, eased scrolling, overscroll spring-back and
+   * snapping.
+   * @param dt - Delta time in seconds.
    * @override
    */
   override update(dt: number): void {
@@ -333,16 +518,58 @@ export class ScrollContainer extends Container implements IScrollContainer {
       this._contentBoundsDirty = false;
     }
 
-    // Inertia (dt is in seconds)
-    if (
+    const frames = dt * 60;
+    let coasting = false;
+
+    if (this._scrollTarget) {
+      // Eased scrolling (animated scrollTo, snapping)
+      const target = this._scrollTarget;
+      const k = 1 - (1 - ScrollContainer.EASE_FACTOR) ** frames;
+      const dx = target.x - this._scrollX;
+      const dy = target.y - this._scrollY;
+      if (Math.abs(dx) < 0.5 && Math.abs(dy) < 0.5) {
+        this._scrollTarget = null;
+        this.scrollX = target.x;
+        this.scrollY = target.y;
+      } else {
+        this.scrollX = this._scrollX + dx * k;
+        this.scrollY = this._scrollY + dy * k;
+      }
+    } else if (
       !this._isDragging &&
       this._inertiaEnabled &&
       (Math.abs(this._velocityX) > 0.1 || Math.abs(this._velocityY) > 0.1)
     ) {
-      if (this._scrollEnabledX) this.scrollX -= this._velocityX;
-      if (this._scrollEnabledY) this.scrollY -= this._velocityY;
-      this._velocityX *= Math.pow(this._friction, dt * 60);
-      this._velocityY *= Math.pow(this._friction, dt * 60);
+      // Inertia (dt is in seconds)
+      coasting = true;
+      if (this._scrollEnabledX) {
+        this._velocityX = this._coastAxis("x", this._velocityX);
+      }
+      if (this._scrollEnabledY) {
+        this._velocityY = this._coastAxis("y", this._velocityY);
+      }
+      this._velocityX *= this._friction ** frames;
+      this._velocityY *= this._friction ** frames;
+    }
+
+    // Spring back from overscroll once the gesture lets go
+    if (!this._isDragging && (this._overscrollX || this._overscrollY)) {
+      const keep = ScrollContainer.SPRING_BACK ** frames;
+      const settle = (v: number) => (Math.abs(v * keep) < 0.5 ? 0 : v * keep);
+      this._setOverscroll(settle(this._overscrollX), settle(this._overscrollY));
+    }
+
+    // Snap once the gesture has ended and motion has settled
+    this._wheelIdleTime += dt;
+    if (
+      this._snapPending &&
+      !this._isDragging &&
+      !coasting &&
+      !this._scrollTarget &&
+      this._wheelIdleTime >= ScrollContainer.WHEEL_IDLE
+    ) {
+      this._snapPending = false;
+      this._snapTo(this._scrollX, this._scrollY);
     }
   }
 
@@ -372,11 +599,52 @@ export class ScrollContainer extends Container implements IScrollContainer {
     return super.hitTest(globalX, globalY);
   }
 
+  /**
+   * Scroll position that aligns a span of content with the viewport.
+   * @param current - Current scroll position.
+   * @param start - Start of the span in content coordinates.
+   * @param size - Length of the span.
+   * @param viewport - Length of the viewport.
+   * @param align - Where to put the span. `"nearest"` moves as little as
+   *   possible and leaves a span already in view where it is.
+   * @returns The (unclamped) scroll position.
+   */
+  protected alignedOffset(
+    current: number,
+    start: number,
+    size: number,
+    viewport: number,
+    align: ScrollAlign,
+  ): number {
+    switch (align) {
+      case "start":
+        return start;
+      case "end":
+        return start + size - viewport;
+      case "center":
+        return start + (size - viewport) / 2;
+      default:
+        if (start < current || size > viewport) return start;
+        if (start + size > current + viewport) return start + size - viewport;
+        return current;
+    }
+  }
+
   /**
    * Recalculates the bounds of all children content.
    * @private
    */
   private _updateContentBounds(): void {
+    this._contentBounds = this.computeContentBounds();
+  }
+
+  /**
+   * Computes the bounds of the scrollable content. By default this is the
+   * union of the children's bounds; subclasses that lay out content
+   * virtually override it.
+   * @returns The content bounds in local coordinates.
+   */
+  protected computeContentBounds(): IRect {
     let minX = 0;
     let minY = 0;
     let maxX = 0;
@@ -391,7 +659,7 @@ export class ScrollContainer extends Container implements IScrollContainer {
       maxY = Math.max(maxY, aabb.y + aabb.height);
     }
 
-    this._contentBounds = {
+    return {
       x: minX,
       y: minY,
       width: maxX - minX,
@@ -399,6 +667,232 @@ export class ScrollContainer extends Container implements IScrollContainer {
     };
   }
 
+  /**
+   * Recomputes the content bounds immediately and re-clamps the scroll
+   * position to them.
+   */
+  protected refreshContentBounds(): void {
+    this._updateContentBounds();
+    this._contentBoundsDirty = false;
+    this.scrollX = this._scrollX;
+    this.scrollY = this._scrollY;
+  }
+
+  /**
+   * Invalidates what depends on the scroll offset.
+   * @private
+   */
+  private _invalidateScroll(): void {
+    this.invalidate(DirtyFlags.Visual | DirtyFlags.Spatial);
+    // Invalidate children transform because their worldMatrix depends on our scroll
+    for (const child of this.children) {
+      child.invalidate(DirtyFlags.Transform);
+    }
+  }
+
+  /**
+   * Sets the raw overscroll distances.
+   * @private
+   */
+  private _setOverscroll(x: number, y: number): void {
+    if (x === this._overscrollX && y === this._overscrollY) return;
+    this._overscrollX = x;
+    this._overscrollY = y;
+    this._invalidateScroll();
+  }
+
+  /**
+   * Damps a raw overscroll distance so it approaches `overscrollLimit`.
+   * @private
+   */
+  private _rubberBand(raw: number): number {
+    const limit = this._overscrollLimit;
+    if (raw === 0 || limit === 0) return 0;
+    return (Math.sign(raw) * limit * Math.abs(raw)) / (Math.abs(raw) + limit);
+  }
+
+  /**
+   * Gets the nearest ancestor ScrollContainer.
+   * @private
+   */
+  private _scrollParent(): ScrollContainer | null {
+    let node = this.parent;
+    while (node) {
+      if (node instanceof ScrollContainer) return node;
+      node = node.parent;
+    }
+    return null;
+  }
+
+  /**
+   * Scrolls one axis by as much of `delta` as fits.
+   * @private
+   * @returns The part of `delta` that was not consumed.
+   */
+  private _consume(axis: "x" | "y", delta: number): number {
+    if (delta === 0) return 0;
+    if (axis === "x") {
+      if (!this._scrollEnabledX) return delta;
+      const before = this._scrollX;
+      this.scrollX = before + delta;
+      return delta - (this._scrollX - before);
+    }
+    if (!this._scrollEnabledY) return delta;
+    const before = this._scrollY;
+    this.scrollY = before + delta;
+    return delta - (this._scrollY - before);
+  }
+
+  /**
+   * Consumes a scroll delta here, then in ancestors if chaining is on.
+   * @private
+   * @returns The part of the delta nothing could consume.
+   */
+  private _chainScroll(dx: number, dy: number): [number, number] {
+    const rx = this._consume("x", dx);
+    const ry = this._consume("y", dy);
+    if ((rx || ry) && this._scrollChaining) {
+      const parent = this._scrollParent();
+      if (parent) return parent._chainScroll(rx, ry);
+    }
+    return [rx, ry];
+  }
+
+  /**
+   * Applies a wheel or drag delta: first unwinding any overscroll, then
+   * scrolling this container and its ancestors, then overscrolling.
+   * @private
+   */
+  private _gestureScroll(dx: number, dy: number): void {
+    this._scrollTarget = null;
+    let ox = this._overscrollX;
+    let oy = this._overscrollY;
+    let restX = dx;
+    let restY = dy;
+    // Moving back towards the content takes up overscroll first
+    if (ox && Math.sign(restX) !== Math.sign(ox)) {
+      const take = Math.sign(ox) * Math.min(Math.abs(ox), Math.abs(restX));
+      ox -= take;
+      restX += take;
+    }
+    if (oy && Math.sign(restY) !== Math.sign(oy)) {
+      const take = Math.sign(oy) * Math.min(Math.abs(oy), Math.abs(restY));
+      oy -= take;
+      restY += take;
+    }
+
+    const [rx, ry] = this._chainScroll(restX, restY);
+    if (this._bounceEnabled) {
+      if (this._scrollEnabledX) ox += rx;
+      if (this._scrollEnabledY) oy += ry;
+    }
+    this._setOverscroll(ox, oy);
+  }
+
+  /**
+   * Advances inertia on one axis, overscrolling (or stopping) at the edge.
+   * @private
+   * @returns The velocity to carry on with.
+   */
+  private _coastAxis(axis: "x" | "y", velocity: number): number {
+    const rest = this._consume(axis, -velocity);
+    if (rest === 0) return velocity;
+    if (!this._bounceEnabled) return 0;
+    if (axis === "x") {
+      this._setOverscroll(this._overscrollX + rest, this._overscrollY);
+    } else {
+      this._setOverscroll(this._overscrollX, this._overscrollY + rest);
+    }
+    // Overscroll brakes hard
+    return velocity * 0.5;
+  }
+
+  /**
+   * Eases to the snap point nearest a resting position, if any applies.
+   * @private
+   * @returns Whether a snap point was chosen.
+   */
+  private _snapTo(restX: number, restY: number): boolean {
+    const snap = this._scrollSnap;
+    if (!snap) return false;
+    const x = this._scrollEnabledX ? this._snapAxis("x", restX, snap) : null;
+    const y = this._scrollEnabledY ? this._snapAxis("y", restY, snap) : null;
+    if (x === null && y === null) return false;
+    this.scrollTo(x ?? this._scrollX, y ?? this._scrollY, true);
+    return true;
+  }
+
+  /**
+   * Picks the snap point on one axis nearest `rest`.
+   * @private
+   * @returns The snap position, or null if none applies.
+   */
+  private _snapAxis(
+    axis: "x" | "y",
+    rest: number,
+    snap: IScrollSnap,
+  ): number | null {
+    const viewport = axis === "x" ? this.width : this.height;
+    const clamp = (v: number) =>
+      axis === "x" ? this._clampX(v) : this._clampY(v);
+    const points: number[] = [];
+
+    if (snap.type === "page") {
+      const max = clamp(Number.POSITIVE_INFINITY);
+      for (let p = 0; p < max && viewport > 0; p += viewport) points.push(p);
+      points.push(max);
+    } else {
+      const align = snap.align ?? "start";
+      for (const child of this.children) {
+        if (!child.visible) continue;
+        const aabb = computeAABB(child.localBounds, child.localMatrix);
+        const start = axis === "x" ? aabb.x : aabb.y;
+        const size = axis === "x" ? aabb.width : aabb.height;
+        points.push(clamp(this.alignedOffset(0, start, size, viewport, align)));
+      }
+    }
+
+    let best: number | null = null;
+    for (const p of points) {
+      if (best === null || Math.abs(p - rest) < Math.abs(best - rest)) best = p;
+    }
+    if (best === null) return null;
+    if (
+      snap.strictness === "proximity" &&
+      Math.abs(best - rest) > (snap.proximity ?? 50)
+    ) {
+      return null;
+    }
+    return best;
+  }
+
+  /**
+   * Bounds of a descendant in this container's content coordinates.
+   * @private
+   * @returns The bounds, or null if `element` is not a descendant.
+   */
+  private _boundsInContent(element: IElement): IRect | null {
+    element.updateLocalMatrix();
+    let m = element.localMatrix;
+    let node = element.parent;
+    while (node && node !== this) {
+      if (node instanceof ScrollContainer) {
+        m = multiply(
+          translate(
+            -node._scrollX - node.overscrollX,
+            -node._scrollY - node.overscrollY,
+          ),
+          m,
+        );
+      }
+      node.updateLocalMatrix();
+      m = multiply(node.localMatrix, m);
+      node = node.parent;
+    }
+    if (node !== this) return null;
+    return computeAABB(element.localBounds, m);
+  }
+
   /**
    * Clamps horizontal scroll position to valid range.
    * @private
@@ -472,6 +966,7 @@ export class ScrollContainer extends Container implements IScrollContainer {
     this._lastPointerY = e.sceneY;
     this._velocityX = 0;
     this._velocityY = 0;
+    this._scrollTarget = null;
 
     // Clean up any existing window listeners from interrupted drag
     this._cleanupWindowDragListeners();
@@ -506,14 +1001,9 @@ export class ScrollContainer extends Container implements IScrollContainer {
       const scrollDx = pos.x - this._lastPointerX;
       const scrollDy = pos.y - this._lastPointerY;
 
-      if (this._scrollEnabledX) {
-        this.scrollX -= scrollDx;
-        this._velocityX = scrollDx;
-      }
-      if (this._scrollEnabledY) {
-        this.scrollY -= scrollDy;
-        this._velocityY = scrollDy;
-      }
+      this._gestureScroll(-scrollDx, -scrollDy);
+      if (this._scrollEnabledX) this._velocityX = scrollDx;
+      if (this._scrollEnabledY) this._velocityY = scrollDy;
 
       this._lastPointerX = pos.x;
       this._lastPointerY = pos.y;
@@ -521,6 +1011,7 @@ export class ScrollContainer extends Container implements IScrollContainer {
 
     const onUp = () => {
       this._isDragging = false;
+      this._releaseDrag();
       // If click deferral timer is still pending, fire the click event to child
       if (this._clickDeferralTimer !== null) {
         window.clearTimeout(this._clickDeferralTimer);
@@ -555,13 +1046,34 @@ export class ScrollContainer extends Container implements IScrollContainer {
     window.addEventListener("pointerup", onUp);
   }
 
+  /**
+   * Ends a drag. With snapping, a fling settles on the snap point nearest
+   * where inertia would have come to rest.
+   * @private
+   */
+  private _releaseDrag(): void {
+    if (!this._scrollSnap) return;
+    const coast = this._inertiaEnabled ? 1 / (1 - this._friction) : 0;
+    const restX = this._scrollX - this._velocityX * coast;
+    const restY = this._scrollY - this._velocityY * coast;
+    if (this._snapTo(restX, restY)) {
+      this._velocityX = 0;
+      this._velocityY = 0;
+    } else {
+      this._snapPending = true;
+    }
+  }
+
   /**
    * Handles mouse wheel scroll events.
    * @private
    */
   private _handleWheel(e: IPointerEvent): void {
-    if (this._scrollEnabledX) this.scrollX += e.deltaX;
-    if (this._scrollEnabledY) this.scrollY += e.deltaY;
+    this._gestureScroll(e.deltaX, e.deltaY);
+    this._velocityX = 0;
+    this._velocityY = 0;
+    this._wheelIdleTime = 0;
+    this._snapPending = this._scrollSnap !== null;
     e.stopPropagation();
     (e as any).preventDefault?.();
   }
@@ -1,28 +1,54 @@
 import { Element } from "../core/Element";
 import { DirtyFlags } from "../core/DirtyFlags";
-import type { FillStyle } from "../rendering/Arena2DContext";
+import type { FillStyle, IArena2DContext } from "../rendering/Arena2DContext";
+import {
+  type IFill,
+  type ShapePaint,
+  createFillStyle,
+  isFill,
+} from "../rendering/Fills";
+
+/** A descriptor's built canvas paint and what it was built for. */
+interface IPaintCache {
+  fill: IFill;
+  context: unknown;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  style: FillStyle | undefined;
+}
 
 /**
  * ShapeElement — Base class for shape elements with fill, stroke, and lineWidth.
  *
  * Extends Element to provide common rendering properties used by shapes like
- * Rect and Circle. Subclasses should override paint() to define their rendering logic.
+ * Rect and Circle. Subclasses should override paint() to define their rendering logic,
+ * painting with `resolveFill()` / `resolveStroke()`.
  */
 export abstract class ShapeElement extends Element {
-  protected _fill: FillStyle | undefined;
-  protected _stroke: FillStyle | undefined;
+  protected _fill: ShapePaint | undefined;
+  protected _stroke: ShapePaint | undefined;
   protected _lineWidth: number = 1;
+  private _fillCache: IPaintCache | null = null;
+  private _strokeCache: IPaintCache | null = null;
 
-  get fill(): FillStyle | undefined { return this._fill; }
-  set fill(value: FillStyle | undefined) {
+  /**
+   * A color, canvas gradient/pattern, or a fill descriptor (see `Fills`)
+   * placed relative to the local bounds. Assign a new descriptor to change
+   * it; edits in place are not seen.
+   */
+  get fill(): ShapePaint | undefined { return this._fill; }
+  set fill(value: ShapePaint | undefined) {
     if (this._fill !== value) {
       this._fill = value;
       this.invalidate(DirtyFlags.Visual);
     }
   }
 
-  get stroke(): FillStyle | undefined { return this._stroke; }
-  set stroke(value: FillStyle | undefined) {
+  /** Like `fill`, for the outline. */
+  get stroke(): ShapePaint | undefined { return this._stroke; }
+  set stroke(value: ShapePaint | undefined) {
     if (this._stroke !== value) {
       this._stroke = value;
       this.invalidate(DirtyFlags.Visual);
@@ -36,4 +62,56 @@ export abstract class ShapeElement extends Element {
       this.invalidate(DirtyFlags.Visual);
     }
   }
+
+  /**
+   * Canvas paint for `fill`. Descriptors are built on first use and rebuilt
+   * when the descriptor, the local bounds or the kind of context change.
+   */
+  protected resolveFill(ctx: IArena2DContext): FillStyle | undefined {
+    const paint = this._fill;
+    if (!isFill(paint)) return paint;
+    this._fillCache = this._buildPaint(ctx, paint, this._fillCache);
+    return this._fillCache.style;
+  }
+
+  /** Canvas paint for `stroke`; see `resolveFill()`. */
+  protected resolveStroke(ctx: IArena2DContext): FillStyle | undefined {
+    const paint = this._stroke;
+    if (!isFill(paint)) return paint;
+    this._strokeCache = this._buildPaint(ctx, paint, this._strokeCache);
+    return this._strokeCache.style;
+  }
+
+  private _buildPaint(
+    ctx: IArena2DContext,
+    fill: IFill,
+    cache: IPaintCache | null,
+  ): IPaintCache {
+    let bounds = this.localBounds;
+    if (bounds.width <= 0 && bounds.height <= 0) {
+      bounds = { x: 0, y: 0, width: this.width, height: this.height };
+    }
+    // Paints from one canvas work in any other, but not in an SVG export
+    const context = ctx.raw.constructor;
+    if (
+      cache &&
+      cache.fill === fill &&
+      cache.context === context &&
+      cache.x === bounds.x &&
+      cache.y === bounds.y &&
+      cache.width === bounds.width &&
+      cache.height === bounds.height
+    ) {
+      return cache;
+    }
+    return {
+      fill,
+      context,
+      x: bounds.x,
+      y: bounds.y,
+      width: bounds.width,
+      height: bounds.height,
+      style: createFillStyle(ctx.raw, fill, bounds) ?? undefined,
+    };
+  }
 }
@@ -7,6 +7,14 @@
  * Integrates with the Layout Engine (Layer 8) via getIntrinsicSize()
  * to provide proper min-content / max-content measurements.
  *
+ * Rich text: set `runs` to give spans of the text their own font, color,
+ * decoration and background. Runs wrap together as one paragraph and share
+ * a baseline per line.
+ *
+ * Overflow: `maxLines`, `overflow` and `whiteSpace` bound long labels to
+ * the element's width and a number of lines; `truncated` reports whether
+ * anything was cut (e.g. to show the full text in a tooltip).
+ *
  * SPEC: §6.1–6.3
  */
 import { DirtyFlags } from "../core/DirtyFlags";
@@ -16,11 +24,19 @@ import type {
   IRenderTextStyle,
 } from "../rendering/Arena2DContext";
 import {
+  type ILayoutTextStyle,
+  type IRichTextLayout,
   type ITextLayout,
+  type ITextLine,
+  type ITextRun,
+  type TextOverflow,
+  type TextWhiteSpace,
   computeMaxContentWidth,
   computeMinContentWidth,
+  computeRichTextLayout,
   computeTextLayout,
 } from "../text/TextLayout";
+import type { TextDirection } from "../text/bidi";
 
 // ── Text Style ──
 
@@ -38,6 +54,17 @@ export interface ITextStyle {
   textAlign: "left" | "center" | "right";
   selectionColor: string;
   placeholderColor?: string;
+  /** Paragraph direction for bidi text. Default: `"auto"`. */
+  direction?: TextDirection;
+  /** Whitespace collapsing and wrapping, as in CSS. Default: `"pre-wrap"`. */
+  whiteSpace?: TextWhiteSpace;
+  /** Maximum number of lines shown. Default: unlimited. */
+  maxLines?: number;
+  /**
+   * How cut-off text ends. When set, drawing is also clipped to the
+   * element's width. Default: wide lines overflow the element.
+   */
+  overflow?: TextOverflow;
 }
 
 /**
@@ -56,10 +83,21 @@ export function createDefaultTextStyle(): ITextStyle {
   };
 }
 
+// ── Constants ──
+
+/** Directional overrides that pin a resolved bidi run's visual order. */
+const LTR_OVERRIDE = "\u202D";
+const RTL_OVERRIDE = "\u202E";
+const POP_DIRECTIONAL = "\u202C";
+
+/** Length of the `"fade"` overflow gradient, in ems. */
+const FADE_EMS = 2;
+
 // ── Text Element ──
 
 export class Text extends Element {
   private _text = "";
+  private _runs: ITextRun[] | null = null;
   private _textStyle: ITextStyle = createDefaultTextStyle();
   protected _textLayout: ITextLayout | null = null;
   protected _layoutDirty = true;
@@ -70,14 +108,33 @@ export class Text extends Element {
     return this._text;
   }
 
+  /** Setting plain text replaces any rich text runs. */
   set text(value: string) {
-    if (this._text !== value) {
+    if (this._text !== value || this._runs) {
       this._text = value;
+      this._runs = null;
       this._layoutDirty = true;
       this.invalidate(DirtyFlags.Layout | DirtyFlags.Visual);
     }
   }
 
+  // ── Rich text ──
+
+  /**
+   * Styled runs, or null for plain text. Runs inherit unset properties from
+   * `textStyle`; `text` becomes the concatenation of the run texts.
+   */
+  get runs(): ReadonlyArray<ITextRun> | null {
+    return this._runs;
+  }
+
+  set runs(value: ITextRun[] | null) {
+    this._runs = value ? value.map((run) => ({ ...run })) : null;
+    this._text = value ? value.map((run) => run.text).join("") : "";
+    this._layoutDirty = true;
+    this.invalidate(DirtyFlags.Layout | DirtyFlags.Visual);
+  }
+
   // ── Text style ──
 
   get textStyle(): ITextStyle {
@@ -114,24 +171,27 @@ export class Text extends Element {
     return this._textLayout as ITextLayout;
   }
 
+  /** True if `maxLines` or `overflow` cut off part of the text. */
+  get truncated(): boolean {
+    return this.textLayout.truncated ?? false;
+  }
+
   /**
    * Recompute text layout using the current text, style, and available width.
    */
   protected _recomputeLayout(): void {
     const availableWidth =
       this.width > 0 ? this.width : Number.POSITIVE_INFINITY;
-    this._textLayout = computeTextLayout(
-      this._text,
-      this._renderStyle(),
-      availableWidth,
-    );
+    this._textLayout = this._runs
+      ? computeRichTextLayout(this._runs, this._renderStyle(), availableWidth)
+      : computeTextLayout(this._text, this._renderStyle(), availableWidth);
     this._layoutDirty = false;
   }
 
   /**
    * Convert our ITextStyle to the Arena2DContext's ITextStyle for measurement and rendering.
    */
-  private _renderStyle(): IRenderTextStyle & { lineHeight: number } {
+  protected _renderStyle(): ILayoutTextStyle & { lineHeight: number } {
     return {
       fontSize: this._textStyle.fontSize,
       fontFamily: this._textStyle.fontFamily,
@@ -141,6 +201,10 @@ export class Text extends Element {
       textBaseline: "top",
       textAlign: "left",
       lineHeight: this._textStyle.lineHeight,
+      direction: this._textStyle.direction,
+      whiteSpace: this._textStyle.whiteSpace,
+      maxLines: this._textStyle.maxLines,
+      overflow: this._textStyle.overflow,
     };
   }
 
@@ -164,14 +228,20 @@ export class Text extends Element {
    * Get min-content width (widest single word).
    */
   getMinContentWidth(): number {
-    return computeMinContentWidth(this._text, this._renderStyle());
+    return computeMinContentWidth(
+      this._runs ?? this._text,
+      this._renderStyle(),
+    );
   }
 
   /**
    * Get max-content width (full single line, no wrapping).
    */
   getMaxContentWidth(): number {
-    return computeMaxContentWidth(this._text, this._renderStyle());
+    return computeMaxContentWidth(
+      this._runs ?? this._text,
+      this._renderStyle(),
+    );
   }
 
   // ── Alignment helpers ──
@@ -202,6 +272,11 @@ export class Text extends Element {
   // ── Rendering ──
 
   override paint(ctx: IArena2DContext): void {
+    if (this._runs) {
+      this._paintRuns(ctx, this.textLayout as IRichTextLayout);
+      return;
+    }
+
     const layout = this.textLayout;
     const style = this._textStyle;
     const lineHeight = style.lineHeight;
@@ -213,6 +288,7 @@ export class Text extends Element {
     ctx.setFont({ fontSize: style.fontSize, fontFamily: style.fontFamily, fontWeight: weight, fontStyle });
     ctx.setFillStyle(style.color);
     ctx.setTextBaseline("top");
+    const clipped = this._beginOverflowClip(ctx, layout);
 
     for (let i = 0; i < layout.lines.length; i++) {
       const line = layout.lines[i];
@@ -221,8 +297,132 @@ export class Text extends Element {
       // Compute x offset based on text alignment
       const x = this._alignOffsetX(style.textAlign, elementWidth, line.width);
 
+      if (line.truncated && style.overflow === "fade") {
+        ctx.setFillStyle(this._fadeFill(ctx, line, x, style.color));
+        this._fillLine(ctx, line, x, y);
+        ctx.setFillStyle(style.color);
+      } else {
+        this._fillLine(ctx, line, x, y);
+      }
+    }
+
+    if (clipped) ctx.restore();
+  }
+
+  /**
+   * Clip drawing to the element's width when `overflow` is set.
+   * @returns True if a clip was pushed (pair with `ctx.restore()`).
+   */
+  private _beginOverflowClip(
+    ctx: IArena2DContext,
+    layout: ITextLayout,
+  ): boolean {
+    if (!this._textStyle.overflow || this.width <= 0) return false;
+    ctx.save();
+    ctx.clipRect(0, 0, this.width, layout.totalHeight);
+    return true;
+  }
+
+  /**
+   * A fill that fades `color` out over the visible end of a cut line: the
+   * right end, or the left end in a right-to-left paragraph.
+   */
+  private _fadeFill(
+    ctx: IArena2DContext,
+    line: ITextLine,
+    x: number,
+    color: string,
+  ): CanvasGradient {
+    const left = Math.max(x, 0);
+    const right =
+      this.width > 0 ? Math.min(x + line.width, this.width) : x + line.width;
+    const fade = Math.min(this._textStyle.fontSize * FADE_EMS, right - left);
+    const stops = [
+      { offset: 0, color },
+      { offset: 1, color: "rgba(0, 0, 0, 0)" },
+    ];
+    return (line.bidi?.baseLevel ?? 0) % 2 === 1
+      ? ctx.createLinearGradient(left + fade, 0, left, 0, stops)
+      : ctx.createLinearGradient(right - fade, 0, right, 0, stops);
+  }
+
+  /**
+   * Draw one laid-out line. Bidi lines are drawn run by run, each wrapped in
+   * a directional override so the canvas keeps the resolved visual order.
+   */
+  protected _fillLine(
+    ctx: IArena2DContext,
+    line: ITextLine,
+    x: number,
+    y: number,
+  ): void {
+    if (!line.bidi) {
       ctx.fillText(line.text, x, y);
+      return;
+    }
+    for (const run of line.bidi.runs) {
+      const override = run.level % 2 === 1 ? RTL_OVERRIDE : LTR_OVERRIDE;
+      const runText = line.text.slice(run.start, run.end);
+      ctx.fillText(override + runText + POP_DIRECTIONAL, x + run.x, y);
+    }
+  }
+
+  /**
+   * Paint rich text line by line: backgrounds first, then each fragment's
+   * glyphs on the shared baseline, then underline/strikethrough.
+   */
+  private _paintRuns(ctx: IArena2DContext, layout: IRichTextLayout): void {
+    const style = this._textStyle;
+    ctx.setTextBaseline("alphabetic");
+    const clipped = this._beginOverflowClip(ctx, layout);
+
+    for (const line of layout.lines) {
+      const lineX = this._alignOffsetX(style.textAlign, this.width, line.width);
+      const baselineY = line.y + line.baseline;
+
+      for (const fragment of line.fragments) {
+        if (!fragment.background) continue;
+        ctx.setFillStyle(fragment.background);
+        ctx.fillRect(
+          lineX + fragment.x,
+          baselineY - fragment.ascent,
+          fragment.width,
+          fragment.ascent + fragment.descent,
+        );
+      }
+
+      const fade = line.truncated && style.overflow === "fade";
+      for (const fragment of line.fragments) {
+        const x = lineX + fragment.x;
+        ctx.setFont(fragment.font);
+        ctx.setFillStyle(
+          fade
+            ? this._fadeFill(ctx, line, lineX, fragment.color)
+            : fragment.color,
+        );
+        ctx.fillText(fragment.text, x, baselineY);
+
+        const thickness = Math.max(1, fragment.font.fontSize / 14);
+        if (fragment.underline) {
+          ctx.fillRect(
+            x,
+            baselineY + fragment.descent * 0.4,
+            fragment.width,
+            thickness,
+          );
+        }
+        if (fragment.strikethrough) {
+          ctx.fillRect(
+            x,
+            baselineY - fragment.ascent * 0.35,
+            fragment.width,
+            thickness,
+          );
+        }
+      }
     }
+
+    if (clipped) ctx.restore();
   }
 
   // ── Dirty tracking ──
@@ -4,18 +4,61 @@
  * Extends Text with editing capabilities per SPEC §6.3–6.4.
  * Uses a hidden 1×1 <textarea> for IME bridge and clipboard delegation.
  *
+ * The caret moves, deletes and hit-tests by grapheme cluster, so emoji,
+ * combining marks and ZWJ sequences behave as single characters. In bidi
+ * text, Left/Right arrows move visually and selections highlight every
+ * visual range the logical selection covers.
+ *
+ * Each input keeps its own undo/redo history (`history`). Consecutive
+ * typing and single-character deletes coalesce into one step; pastes,
+ * cuts, word/line deletes and whole IME composition sessions are one
+ * step each.
+ *
  * SPEC: §6 (ITextInput, IME bridge)
  */
 
 import { DirtyFlags } from "../core/DirtyFlags";
+import {
+  CommandHistory,
+  type IHistoryChangeEvent,
+} from "../history/CommandHistory";
+import { type ITextEditState, TextEditCommand } from "../history/commands";
 import type { IKeyboardEvent } from "../interaction/InteractionManager";
 import type { IArena2DContext } from "../rendering/Arena2DContext";
+import {
+  type ILayoutTextStyle,
+  type ITextLayout,
+  getCaretX,
+  getIndexAtX,
+  getSelectionRanges,
+} from "../text/TextLayout";
+import {
+  graphemeBoundaries,
+  nextGraphemeBoundary,
+  prevGraphemeBoundary,
+} from "../text/graphemes";
 import { Text } from "./Text";
 
 // ── Constants ──
 
 const CARET_BLINK_MS = 500;
 const PASSWORD_CHAR = "\u2022"; // bullet
+/** Typing pauses longer than this start a new undo step. */
+const TYPING_MERGE_MS = 1000;
+
+// ── Types ──
+
+/** How an edit is recorded in the undo history. */
+type EditKind = "typing" | "delete" | "paste" | "cut" | "compose" | "edit";
+
+const EDIT_LABELS: Record<EditKind, string> = {
+  typing: "Typing",
+  delete: "Delete",
+  paste: "Paste",
+  cut: "Cut",
+  compose: "Compose",
+  edit: "Edit",
+};
 
 // ── TextInput Class ──
 
@@ -46,14 +89,27 @@ export class TextInput extends Text {
   private _boundOnCompositionStart: (() => void) | null = null;
   private _boundOnCompositionEnd: ((e: CompositionEvent) => void) | null = null;
   private _isComposing = false;
+  /** Text and selection when the current composition started. */
+  private _compositionBefore: ITextEditState | null = null;
   private _isDragging = false;
   private _hasDragged = false;
 
+  // Undo/redo
+  private _history = new CommandHistory();
+
   constructor(id?: string) {
     super(id);
     this.focusable = true;
     this.cursor = "text";
 
+    // Undo/redo assigns text and selection directly; report it like an edit
+    this._history.on("change", (e: IHistoryChangeEvent) => {
+      if (e.action !== "undo" && e.action !== "redo") return;
+      this._resetCaretBlink();
+      this.emit("change", { value: this.text });
+      this._syncTextareaValue();
+    });
+
     // Listen for focus/blur from InteractionManager
     this.on("focus", () => this._onFocus());
     this.on("blur", () => this._onBlur());
@@ -173,6 +229,41 @@ export class TextInput extends Text {
     this.invalidate(DirtyFlags.Visual);
   }
 
+  // ── Undo / Redo ──
+
+  /**
+   * This input's edit history. Only user edits are recorded; assigning
+   * `text` directly is not, so call `history.clear()` after replacing the
+   * value programmatically.
+   */
+  get history(): CommandHistory {
+    return this._history;
+  }
+
+  get canUndo(): boolean {
+    return this._history.canUndo;
+  }
+
+  get canRedo(): boolean {
+    return this._history.canRedo;
+  }
+
+  /**
+   * Revert the last edit step.
+   * @returns True if an edit was undone.
+   */
+  undo(): boolean {
+    return this._history.undo() !== null;
+  }
+
+  /**
+   * Re-apply the last undone edit step.
+   * @returns True if an edit was redone.
+   */
+  redo(): boolean {
+    return this._history.redo() !== null;
+  }
+
   // ── Text override (display text for password mode) ──
 
   private _getDisplayText(): string {
@@ -189,17 +280,22 @@ export class TextInput extends Text {
       // 0.6 is a common rough width ratio for dots in many fonts
       const charWidth = Math.ceil(style.fontSize * 0.6);
       const text = this._getDisplayText();
+      // One dot per grapheme cluster of the real text
+      const graphemes = graphemeBoundaries(this.text);
       const advancements: number[] = [];
-      for (let i = 0; i < text.length; i++) {
-        advancements.push(i * charWidth);
+      for (let b = 0; b < graphemes.length - 1; b++) {
+        for (let i = graphemes[b]; i < graphemes[b + 1]; i++) {
+          advancements.push(b * charWidth);
+        }
       }
 
       this._textLayout = {
         lines: [
           {
             text,
-            width: text.length * charWidth,
+            width: (graphemes.length - 1) * charWidth,
             advancements,
+            graphemes,
           },
         ],
         totalHeight: style.lineHeight,
@@ -210,6 +306,21 @@ export class TextInput extends Text {
     }
   }
 
+  /**
+   * Editing needs every character laid out at its text index, so inputs
+   * keep whitespace and never truncate.
+   */
+  protected override _renderStyle(): ILayoutTextStyle & {
+    lineHeight: number;
+  } {
+    return {
+      ...super._renderStyle(),
+      whiteSpace: "pre-wrap",
+      maxLines: undefined,
+      overflow: undefined,
+    };
+  }
+
   private _getTextLength(): number {
     return this.text.length;
   }
@@ -291,7 +402,6 @@ export class TextInput extends Text {
     }
 
     const line = layout.lines[lineIdx];
-    const adv = line.advancements;
 
     // Compute alignment offset
     const alignOffsetX = this._alignOffsetX(
@@ -300,21 +410,8 @@ export class TextInput extends Text {
       line.width,
     );
 
-    const adjustedX = localX - alignOffsetX;
-
-    if (adv.length === 0) return charOffset;
-
-    // Find closest character boundary
-    for (let i = 0; i < adv.length; i++) {
-      const charLeft = adv[i];
-      const charRight = i + 1 < adv.length ? adv[i + 1] : line.width;
-      const mid = (charLeft + charRight) / 2;
-      if (adjustedX < mid) {
-        return charOffset + i;
-      }
-    }
-
-    return charOffset + line.text.length;
+    // Closest grapheme boundary (visual order for bidi lines)
+    return charOffset + getIndexAtX(line, localX - alignOffsetX);
   }
 
   // ── Focus / Blur ──
@@ -393,6 +490,7 @@ export class TextInput extends Text {
     this._boundOnPaste = (e: ClipboardEvent) => this._onPaste(e);
     this._boundOnCompositionStart = () => {
       this._isComposing = true;
+      this._compositionBefore = this._getEditState();
     };
     this._boundOnCompositionEnd = (e: CompositionEvent) => {
       this._isComposing = false;
@@ -466,12 +564,23 @@ export class TextInput extends Text {
         e.preventDefault();
       }
     }
+
+    // The textarea's native undo would bypass our history
+    if (
+      (e.metaKey || e.ctrlKey) &&
+      (e.key === "z" || e.key === "Z" || e.key === "y")
+    ) {
+      e.preventDefault();
+    }
   }
 
   private _handleCompositionEnd(_e: CompositionEvent): void {
     if (!this._textarea) return;
-    // Accept composed text from IME
+    const before = this._compositionBefore ?? this._getEditState();
+    this._compositionBefore = null;
+    // Accept composed text from IME; the whole session is one undo step
     this._syncFromTextarea();
+    if (!this._readOnly) this._recordEdit(before, "compose");
   }
 
   private _syncTextareaValue(): void {
@@ -511,7 +620,7 @@ export class TextInput extends Text {
       ? PASSWORD_CHAR.repeat(this.selectedText.length)
       : this.selectedText;
     e.clipboardData?.setData("text/plain", textToCopy);
-    this._deleteSelection();
+    this._deleteSelection("cut");
   }
 
   private _onPaste(e: ClipboardEvent): void {
@@ -519,22 +628,26 @@ export class TextInput extends Text {
     e.preventDefault();
     const pasteText = e.clipboardData?.getData("text/plain") ?? "";
     if (pasteText) {
-      this._insertText(pasteText);
+      this._insertText(pasteText, "paste");
     }
   }
 
   // ── Keyboard handling (from InteractionManager keydown) ──
 
   private _onKeyDown(e: IKeyboardEvent): void {
-    const { key, shiftKey, metaKey, altKey } = e;
+    const { key, shiftKey, metaKey, altKey, ctrlKey } = e;
+    // Word-wise with Alt (macOS) or Ctrl (Windows/Linux), line-wise with Cmd
+    const byWord = altKey || ctrlKey;
 
     // Intercept browser defaults for navigation shortcuts
-    if (metaKey || altKey) {
+    if (metaKey || byWord) {
       if (
         key === "ArrowLeft" ||
         key === "ArrowRight" ||
         key === "ArrowUp" ||
-        key === "ArrowDown"
+        key === "ArrowDown" ||
+        key === "Home" ||
+        key === "End"
       ) {
         e.preventDefault();
       }
@@ -544,7 +657,7 @@ export class TextInput extends Text {
     if (key === "ArrowLeft") {
       if (metaKey) {
         this._moveTo(this._getLineStart(this._selectionEnd), shiftKey);
-      } else if (altKey) {
+      } else if (byWord) {
         this._moveTo(this._getWordBoundaryLeft(this._selectionEnd), shiftKey);
       } else {
         this._moveLeft(shiftKey);
@@ -555,7 +668,7 @@ export class TextInput extends Text {
     if (key === "ArrowRight") {
       if (metaKey) {
         this._moveTo(this._getLineEnd(this._selectionEnd), shiftKey);
-      } else if (altKey) {
+      } else if (byWord) {
         this._moveTo(this._getWordBoundaryRight(this._selectionEnd), shiftKey);
       } else {
         this._moveRight(shiftKey);
@@ -581,39 +694,54 @@ export class TextInput extends Text {
       return;
     }
 
+    // Home/End: visual line in multiline inputs, Ctrl/Cmd for the whole text
     if (key === "Home") {
-      this._moveTo(this._getLineStart(this._selectionEnd), shiftKey);
+      const lineStart =
+        this._multiline && !metaKey && !ctrlKey
+          ? this._getLineStart(this._selectionEnd)
+          : 0;
+      this._moveTo(lineStart, shiftKey);
       return;
     }
 
     if (key === "End") {
-      this._moveTo(this._getLineEnd(this._selectionEnd), shiftKey);
+      const lineEnd =
+        this._multiline && !metaKey && !ctrlKey
+          ? this._getLineEnd(this._selectionEnd)
+          : this._getTextLength();
+      this._moveTo(lineEnd, shiftKey);
+      return;
+    }
+
+    if (key === "PageUp" || key === "PageDown") {
+      e.preventDefault();
+      this._movePage(key === "PageUp" ? -1 : 1, shiftKey);
       return;
     }
 
     // Select all
-    if ((metaKey || e.ctrlKey) && key === "a") {
+    if ((metaKey || ctrlKey) && key === "a") {
       e.preventDefault();
       this.selectAll();
       return;
     }
 
     // Copy/Cut/Paste via keyboard (these also go through textarea clipboard events)
-    if ((metaKey || e.ctrlKey) && key === "c") {
+    if ((metaKey || ctrlKey) && key === "c") {
       // Let the textarea handle it naturally
       this._syncTextareaValue();
       this._textarea?.focus();
       return;
     }
 
-    if ((metaKey || e.ctrlKey) && key === "x") {
+    if ((metaKey || ctrlKey) && key === "x") {
       if (this._readOnly) return;
       this._syncTextareaValue();
       this._textarea?.focus();
       return;
     }
 
-    if ((metaKey || e.ctrlKey) && key === "v") {
+    if ((metaKey || ctrlKey) && key === "v") {
       if (this._readOnly) return;
       this._textarea?.focus();
       return;
@@ -622,15 +750,32 @@ export class TextInput extends Text {
     // Editing keys
     if (this._readOnly) return;
 
+    // Undo: Cmd/Ctrl+Z. Redo: Cmd/Ctrl+Shift+Z or Ctrl+Y
+    if ((metaKey || ctrlKey) && (key === "z" || key === "Z")) {
+      e.preventDefault();
+      if (shiftKey) {
+        this.redo();
+      } else {
+        this.undo();
+      }
+      return;
+    }
+
+    if (ctrlKey && key === "y") {
+      e.preventDefault();
+      this.redo();
+      return;
+    }
+
     if (key === "Backspace") {
       e.preventDefault();
-      this._handleBackspace(altKey, metaKey);
+      this._handleBackspace(byWord, metaKey);
       return;
     }
 
     if (key === "Delete") {
       e.preventDefault();
-      this._handleDelete(altKey, metaKey);
+      this._handleDelete(byWord, metaKey);
       return;
     }
 
@@ -645,7 +790,7 @@ export class TextInput extends Text {
     }
 
     // Printable characters
-    if (key.length === 1 && !metaKey && !e.ctrlKey) {
+    if (key.length === 1 && !metaKey && !ctrlKey) {
       e.preventDefault();
       this._insertText(key);
       return;
@@ -695,8 +840,9 @@ export class TextInput extends Text {
     return newText;
   }
 
-  _insertText(str: string): void {
+  _insertText(str: string, kind: EditKind = "typing"): void {
     if (this._readOnly) return;
+    const previous = this._getEditState();
 
     const start = Math.min(this._selectionStart, this._selectionEnd);
     const end = Math.max(this._selectionStart, this._selectionEnd);
@@ -734,10 +880,12 @@ export class TextInput extends Text {
     this.emit("change", { value: this.text });
     this.invalidate(DirtyFlags.Visual);
     this._syncTextareaValue();
+    this._recordEdit(previous, kind);
   }
 
-  private _deleteSelection(): void {
+  private _deleteSelection(kind: EditKind = "edit"): void {
     if (!this.hasSelection) return;
+    const before = this._getEditState();
     const start = Math.min(this._selectionStart, this._selectionEnd);
     const end = Math.max(this._selectionStart, this._selectionEnd);
     const newText = this.text.substring(0, start) + this.text.substring(end);
@@ -748,9 +896,10 @@ export class TextInput extends Text {
     this.emit("change", { value: this.text });
     this.invalidate(DirtyFlags.Visual);
     this._syncTextareaValue();
+    this._recordEdit(before, kind);
   }
 
-  private _handleBackspace(altKey: boolean, metaKey: boolean): void {
+  private _handleBackspace(byWord: boolean, metaKey: boolean): void {
     if (this.hasSelection) {
       this._deleteSelection();
       return;
@@ -759,13 +908,14 @@ export class TextInput extends Text {
     const pos = this._selectionEnd;
     if (pos === 0) return;
 
+    const before = this._getEditState();
     let deleteFrom: number;
     if (metaKey) {
       deleteFrom = this._getLineStart(pos);
-    } else if (altKey) {
+    } else if (byWord) {
       deleteFrom = this._getWordBoundaryLeft(pos);
     } else {
-      deleteFrom = pos - 1;
+      deleteFrom = prevGraphemeBoundary(this.text, pos);
     }
 
     const newText =
@@ -777,9 +927,10 @@ export class TextInput extends Text {
     this.emit("change", { value: this.text });
     this.invalidate(DirtyFlags.Visual);
     this._syncTextareaValue();
+    this._recordEdit(before, metaKey || byWord ? "edit" : "delete");
   }
 
-  private _handleDelete(altKey: boolean, metaKey: boolean): void {
+  private _handleDelete(byWord: boolean, metaKey: boolean): void {
     if (this.hasSelection) {
       this._deleteSelection();
       return;
@@ -788,13 +939,14 @@ export class TextInput extends Text {
     const pos = this._selectionEnd;
     if (pos >= this._getTextLength()) return;
 
+    const before = this._getEditState();
     let deleteTo: number;
     if (metaKey) {
       deleteTo = this._getLineEnd(pos);
-    } else if (altKey) {
+    } else if (byWord) {
       deleteTo = this._getWordBoundaryRight(pos);
     } else {
-      deleteTo = pos + 1;
+      deleteTo = nextGraphemeBoundary(this.text, pos);
     }
 
     const newText = this.text.substring(0, pos) + this.text.substring(deleteTo);
@@ -805,6 +957,34 @@ export class TextInput extends Text {
     this.emit("change", { value: this.text });
     this.invalidate(DirtyFlags.Visual);
     this._syncTextareaValue();
+    this._recordEdit(before, metaKey || byWord ? "edit" : "delete");
+  }
+
+  private _getEditState(): ITextEditState {
+    return {
+      text: this.text,
+      selectionStart: this._selectionStart,
+      selectionEnd: this._selectionEnd,
+    };
+  }
+
+  /**
+   * Record the change from `before` to the current state as an undo step.
+   * Typing and single deletes merge into the previous step of that kind.
+   */
+  private _recordEdit(before: ITextEditState, kind: EditKind): void {
+    if (before.text === this.text) return;
+    this._history.record(
+      new TextEditCommand(
+        this,
+        before,
+        this._getEditState(),
+        EDIT_LABELS[kind],
+        kind === "typing" || kind === "delete",
+        performance.now(),
+        TYPING_MERGE_MS,
+      ),
+    );
   }
 
   // ── Cursor movement ──
@@ -816,8 +996,7 @@ export class TextInput extends Text {
       this._selectionStart = pos;
       this._selectionEnd = pos;
     } else {
-      const newPos = Math.max(0, this._selectionEnd - 1);
-      this._moveTo(newPos, extend);
+      this._moveTo(this._visualNeighbor(this._selectionEnd, -1), extend);
     }
     this._resetCaretBlink();
     this.invalidate(DirtyFlags.Visual);
@@ -830,22 +1009,18 @@ export class TextInput extends Text {
       this._selectionStart = pos;
       this._selectionEnd = pos;
     } else {
-      const newPos = Math.min(this._getTextLength(), this._selectionEnd + 1);
-      this._moveTo(newPos, extend);
+      this._moveTo(this._visualNeighbor(this._selectionEnd, 1), extend);
     }
     this._resetCaretBlink();
     this.invalidate(DirtyFlags.Visual);
   }
 
   private _moveUp(extend: boolean): void {
-    const { lineIdx, colIdx } = this._getLineAndCol(this._selectionEnd);
+    const { lineIdx } = this._getLineAndCol(this._selectionEnd);
     if (lineIdx === 0) {
       this._moveTo(0, extend);
     } else {
-      const prevLine = this.textLayout.lines[lineIdx - 1];
-      const newCol = Math.min(colIdx, prevLine.text.length);
-      const newPos = this._getCharOffset(lineIdx - 1) + newCol;
-      this._moveTo(newPos, extend);
+      this._moveTo(this._verticalNeighbor(lineIdx - 1), extend);
     }
     this._resetCaretBlink();
     this.invalidate(DirtyFlags.Visual);
@@ -853,19 +1028,93 @@ export class TextInput extends Text {
 
   private _moveDown(extend: boolean): void {
     const layout = this.textLayout;
-    const { lineIdx, colIdx } = this._getLineAndCol(this._selectionEnd);
+    const { lineIdx } = this._getLineAndCol(this._selectionEnd);
     if (lineIdx >= layout.lines.length - 1) {
       this._moveTo(this._getTextLength(), extend);
     } else {
-      const nextLine = layout.lines[lineIdx + 1];
-      const newCol = Math.min(colIdx, nextLine.text.length);
-      const newPos = this._getCharOffset(lineIdx + 1) + newCol;
-      this._moveTo(newPos, extend);
+      this._moveTo(this._verticalNeighbor(lineIdx + 1), extend);
     }
     this._resetCaretBlink();
     this.invalidate(DirtyFlags.Visual);
   }
 
+  /**
+   * Move the caret by one page: as many lines as fit in the element's
+   * height, keeping its x position. Single-line inputs jump to either end.
+   */
+  private _movePage(dir: -1 | 1, extend: boolean): void {
+    const layout = this.textLayout;
+    const { lineIdx } = this._getLineAndCol(this._selectionEnd);
+    const pageLines = Math.max(
+      1,
+      Math.floor(this.height / this.textStyle.lineHeight),
+    );
+    const target = lineIdx + dir * pageLines;
+
+    if (!this._multiline || target < 0) {
+      this._moveTo(dir < 0 ? 0 : this._getTextLength(), extend);
+    } else if (target > layout.lines.length - 1) {
+      this._moveTo(this._getTextLength(), extend);
+    } else {
+      this._moveTo(this._verticalNeighbor(target), extend);
+    }
+  }
+
+  /**
+   * The caret index one grapheme to the left (`dir = -1`) or right
+   * (`dir = 1`) of `pos` on screen. Within a bidi line this follows the
+   * visual order of its runs; elsewhere it steps one grapheme logically.
+   */
+  private _visualNeighbor(pos: number, dir: -1 | 1): number {
+    const text = this.text;
+    const { lineIdx, colIdx } = this._getLineAndCol(pos);
+    const line = this.textLayout.lines[lineIdx];
+
+    if (line.bidi) {
+      const currentX = getCaretX(line, colIdx);
+      let best = -1;
+      let bestX = 0;
+      for (const boundary of line.graphemes ?? graphemeBoundaries(line.text)) {
+        const x = getCaretX(line, boundary);
+        if ((x - currentX) * dir <= 1e-6) continue;
+        if (best === -1 || (x - bestX) * dir < 0) {
+          best = boundary;
+          bestX = x;
+        }
+      }
+      const lineStart = this._getCharOffset(lineIdx);
+      if (best !== -1) return lineStart + best;
+
+      // Past the line's visual edge: continue on the neighbouring line
+      const forward = (dir === 1) === (line.bidi.baseLevel % 2 === 0);
+      return forward
+        ? nextGraphemeBoundary(text, lineStart + line.text.length)
+        : prevGraphemeBoundary(text, lineStart);
+    }
+
+    return dir === 1
+      ? nextGraphemeBoundary(text, pos)
+      : prevGraphemeBoundary(text, pos);
+  }
+
+  /**
+   * The caret index on `targetLine` closest to the caret's current x.
+   */
+  private _verticalNeighbor(targetLine: number): number {
+    const layout = this.textLayout;
+    const style = this.textStyle;
+    const { lineIdx, colIdx } = this._getLineAndCol(this._selectionEnd);
+    const line = layout.lines[lineIdx];
+    const target = layout.lines[targetLine];
+
+    const x =
+      this._alignOffsetX(style.textAlign, this.width, line.width) +
+      getCaretX(line, colIdx);
+    const targetX =
+      x - this._alignOffsetX(style.textAlign, this.width, target.width);
+    return this._getCharOffset(targetLine) + getIndexAtX(target, targetX);
+  }
+
   private _moveTo(pos: number, extend: boolean): void {
     const clamped = Math.max(0, Math.min(pos, this._getTextLength()));
     if (extend) {
@@ -883,7 +1132,7 @@ export class TextInput extends Text {
 
   private _getCat(ch: string): "space" | "word" | "punct" {
     if (/\s/.test(ch)) return "space";
-    if (/[a-zA-Z0-9]/.test(ch)) return "word";
+    if (/[\p{L}\p{N}\p{M}]/u.test(ch)) return "word";
     return "punct";
   }
 
@@ -931,9 +1180,16 @@ export class TextInput extends Text {
 
   _getLineEnd(pos: number): number {
     const { lineIdx } = this._getLineAndCol(pos);
-    return (
-      this._getCharOffset(lineIdx) + this.textLayout.lines[lineIdx].text.length
-    );
+    const lines = this.textLayout.lines;
+    const lineEnd = this._getCharOffset(lineIdx) + lines[lineIdx].text.length;
+    // Stop before the whitespace a soft wrap broke at, so the caret stays
+    // on this line rather than the start of the next
+    const softWrapped =
+      lineIdx < lines.length - 1 &&
+      this._getCharOffset(lineIdx + 1) === lineEnd;
+    return softWrapped && /\s/.test(this.text[lineEnd - 1] ?? "")
+      ? lineEnd - 1
+      : lineEnd;
   }
 
   /**
@@ -956,7 +1212,12 @@ export class TextInput extends Text {
         }
       }
 
-      if (pos <= nextOffset || i === layout.lines.length - 1) {
+      // A soft-wrap boundary belongs to the start of the next line
+      if (
+        pos < nextOffset ||
+        (pos === nextOffset && separatorLen > 0) ||
+        i === layout.lines.length - 1
+      ) {
         return { lineIdx: i, colIdx: pos - offset };
       }
 
@@ -1034,14 +1295,14 @@ export class TextInput extends Text {
         }
 
         if (this._isPassword) {
-          // Draw bullets individually at precise advancement positions
-          for (let j = 0; j < line.text.length; j++) {
-            const charX =
-              j < line.advancements.length ? line.advancements[j] : line.width;
+          // Draw one bullet per grapheme cluster at its advancement
+          const graphemes = line.graphemes ?? graphemeBoundaries(line.text);
+          for (let b = 0; b < graphemes.length - 1; b++) {
+            const charX = line.advancements[graphemes[b]];
             ctx.fillText(PASSWORD_CHAR, x + charX, y);
           }
         } else {
-          ctx.fillText(line.text, x, y);
+          this._fillLine(ctx, line, x, y);
         }
       }
     }
@@ -1053,9 +1314,7 @@ export class TextInput extends Text {
 
   private _paintSelection(
     ctx: IArena2DContext,
-    layout: {
-      lines: { text: string; width: number; advancements: number[] }[];
-    },
+    layout: ITextLayout,
     lineHeight: number,
     elementWidth: number,
     style: { textAlign: string; selectionColor: string },
@@ -1083,17 +1342,15 @@ export class TextInput extends Text {
           line.width,
         );
 
-        const startX =
-          localSelStart < line.advancements.length
-            ? line.advancements[localSelStart]
-            : line.width;
-        const endX =
-          localSelEnd < line.advancements.length
-            ? line.advancements[localSelEnd]
-            : line.width;
-
+        // Bidi lines can split one logical range into several visual ones
         const y = i * lineHeight;
-        ctx.fillRect(alignOffsetX + startX, y, endX - startX, lineHeight);
+        for (const range of getSelectionRanges(
+          line,
+          localSelStart,
+          localSelEnd,
+        )) {
+          ctx.fillRect(alignOffsetX + range.x, y, range.width, lineHeight);
+        }
       }
 
       charOffset += line.text.length;
@@ -1109,9 +1366,7 @@ export class TextInput extends Text {
 
   private _paintCaret(
     ctx: IArena2DContext,
-    layout: {
-      lines: { text: string; width: number; advancements: number[] }[];
-    },
+    layout: ITextLayout,
     lineHeight: number,
     elementWidth: number,
     style: { textAlign: string; color: string },
@@ -1126,10 +1381,7 @@ export class TextInput extends Text {
       line.width,
     );
 
-    const caretX =
-      colIdx < line.advancements.length
-        ? line.advancements[colIdx]
-        : line.width;
+    const caretX = getCaretX(line, colIdx);
 
     const y = lineIdx * lineHeight;
 
@@ -0,0 +1,443 @@
+/**
+ * TextOnPath — Text laid out along the outline of a geometry.
+ *
+ * Places each grapheme cluster of a single-line string at a distance along
+ * any IGeometry and rotates it to the path's tangent, for curved connector
+ * labels and circular badges. The geometry's `pointAt()` output is taken as
+ * this element's local space.
+ *
+ * `pointAt(t)` is not proportional to distance for curves and multi-segment
+ * paths, so the geometry is sampled into an arc-length table (sized from its
+ * `perimeter`) and glyph distances are mapped back to `t` through it.
+ * Closed outlines (circles, closed paths) wrap text past the end; on open
+ * ones, glyphs that fall off either end are dropped.
+ *
+ * Hit testing follows the glyphs: `containsPoint()` tests each glyph's
+ * rotated em box, and `width`/`height` track the glyph bounds so the
+ * interaction system's spatial hash finds the element.
+ */
+import { DirtyFlags } from "../core/DirtyFlags";
+import { Element } from "../core/Element";
+import type { IGeometry } from "../geometry/types";
+import type { IRect } from "../math/aabb";
+import type { IArena2DContext } from "../rendering/Arena2DContext";
+import { computeTextLayout } from "../text/TextLayout";
+import { graphemeBoundaries } from "../text/graphemes";
+import { type ITextStyle, createDefaultTextStyle } from "./Text";
+
+// ── Types ──
+
+/** Where the text sits along the path, relative to `startOffset`. */
+export type TextPathAlign = "start" | "center" | "end";
+
+/** Which side of the path the glyphs sit on, relative to its direction. */
+export type TextPathSide = "above" | "below";
+
+/** One grapheme cluster placed on the path. */
+export interface IPathGlyph {
+  /** The cluster's text */
+  text: string;
+  /** UTF-16 offset of the cluster in `text` */
+  index: number;
+  /** Baseline center of the glyph, in local coordinates */
+  x: number;
+  y: number;
+  /** Rotation of the glyph in radians (the path's tangent angle) */
+  rotation: number;
+  /** Advance width of the cluster */
+  width: number;
+  /** Distance of the glyph center along the path */
+  distance: number;
+}
+
+// ── Constants ──
+
+/** Arc-length table resolution: one sample per this many pixels of path. */
+const SAMPLE_SPACING = 4;
+const MIN_SAMPLES = 32;
+const MAX_SAMPLES = 1024;
+
+/** Em box of a glyph drawn on an alphabetic baseline, in ems. */
+const ASCENT = 0.8;
+const DESCENT = 0.2;
+
+// ── Arc length ──
+
+interface IArcTable {
+  /** Curve parameter of each sample */
+  t: number[];
+  /** Cumulative distance at each sample */
+  s: number[];
+  length: number;
+  closed: boolean;
+}
+
+function sampleArcLength(geometry: IGeometry): IArcTable {
+  const count = Math.min(
+    MAX_SAMPLES,
+    Math.max(MIN_SAMPLES, Math.ceil(geometry.perimeter / SAMPLE_SPACING)),
+  );
+  const t: number[] = [0];
+  const s: number[] = [0];
+  let prev = geometry.pointAt(0);
+  let length = 0;
+  for (let i = 1; i <= count; i++) {
+    const ti = i / count;
+    const pt = geometry.pointAt(ti);
+    length += Math.hypot(pt.x - prev.x, pt.y - prev.y);
+    t.push(ti);
+    s.push(length);
+    prev = pt;
+  }
+  const first = geometry.pointAt(0);
+  const closed =
+    length > 0 && Math.hypot(prev.x - first.x, prev.y - first.y) < 1e-3;
+  return { t, s, length, closed };
+}
+
+/** The curve parameter at `distance` along the path (within [0, length]). */
+function paramAtDistance(table: IArcTable, distance: number): number {
+  const { t, s } = table;
+  let lo = 0;
+  let hi = s.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (s[mid] < distance) lo = mid;
+    else hi = mid;
+  }
+  const span = s[hi] - s[lo];
+  const f = span > 0 ? (distance - s[lo]) / span : 0;
+  return t[lo] + (t[hi] - t[lo]) * f;
+}
+
+// ── TextOnPath Element ──
+
+export class TextOnPath extends Element {
+  private _geometry: IGeometry | null;
+  private _text: string;
+  private _textStyle: ITextStyle = createDefaultTextStyle();
+  private _startOffset = 0;
+  private _align: TextPathAlign = "start";
+  private _side: TextPathSide = "above";
+  private _letterSpacing = 0;
+  private _glyphs: IPathGlyph[] = [];
+  private _pathLength = 0;
+  private _glyphsDirty = true;
+
+  /**
+   * @param geometry - The path to follow, in local coordinates.
+   * @param text - Single-line text; line breaks are laid out as spaces.
+   * @param id - Optional element ID.
+   */
+  constructor(geometry: IGeometry | null = null, text = "", id?: string) {
+    super(id);
+    this._geometry = geometry;
+    this._text = text;
+  }
+
+  // ── Content ──
+
+  get geometry(): IGeometry | null {
+    return this._geometry;
+  }
+
+  set geometry(value: IGeometry | null) {
+    if (this._geometry !== value) {
+      this._geometry = value;
+      this.invalidatePath();
+    }
+  }
+
+  get text(): string {
+    return this._text;
+  }
+
+  set text(value: string) {
+    if (this._text !== value) {
+      this._text = value;
+      this.invalidatePath();
+    }
+  }
+
+  get textStyle(): ITextStyle {
+    return this._textStyle;
+  }
+
+  set textStyle(value: ITextStyle) {
+    this._textStyle = value;
+    this.invalidatePath();
+  }
+
+  /**
+   * Merge partial text style changes. Only the font and color apply;
+   * line and paragraph properties are ignored on a path.
+   */
+  updateTextStyle(changes: Partial<ITextStyle>): void {
+    Object.assign(this._textStyle, changes);
+    if (changes.fontSize !== undefined && changes.lineHeight === undefined) {
+      this._textStyle.lineHeight = Math.ceil(this._textStyle.fontSize * 1.2);
+    }
+    this.invalidatePath();
+  }
+
+  // ── Placement ──
+
+  /**
+   * Distance in pixels from the aligned end of the path: from the start for
+   * `"start"`, from the middle for `"center"` and back from the end for
+   * `"end"`. Default: 0.
+   */
+  get startOffset(): number {
+    return this._startOffset;
+  }
+
+  set startOffset(value: number) {
+    if (this._startOffset !== value) {
+      this._startOffset = value;
+      this.invalidatePath();
+    }
+  }
+
+  /** Default: `"start"`. */
+  get align(): TextPathAlign {
+    return this._align;
+  }
+
+  set align(value: TextPathAlign) {
+    if (this._align !== value) {
+      this._align = value;
+      this.invalidatePath();
+    }
+  }
+
+  /**
+   * `"above"` stands glyphs on the path (left of its direction of travel);
+   * `"below"` hangs them from it. Default: `"above"`.
+   */
+  get side(): TextPathSide {
+    return this._side;
+  }
+
+  set side(value: TextPathSide) {
+    if (this._side !== value) {
+      this._side = value;
+      this.invalidatePath();
+    }
+  }
+
+  /** Extra space between grapheme clusters, in pixels. Default: 0. */
+  get letterSpacing(): number {
+    return this._letterSpacing;
+  }
+
+  set letterSpacing(value: number) {
+    if (this._letterSpacing !== value) {
+      this._letterSpacing = value;
+      this.invalidatePath();
+    }
+  }
+
+  /**
+   * Re-place the glyphs on the next frame. Call after mutating the geometry
+   * in place (e.g. moving a connector's control points).
+   */
+  invalidatePath(): void {
+    this._glyphsDirty = true;
+    this.invalidate(DirtyFlags.Visual);
+  }
+
+  // ── Glyph layout (computed) ──
+
+  /** Glyphs in visual order along the path. */
+  get glyphs(): ReadonlyArray<IPathGlyph> {
+    if (this._glyphsDirty) this._layoutGlyphs();
+    return this._glyphs;
+  }
+
+  /** Arc length of the geometry. */
+  get pathLength(): number {
+    if (this._glyphsDirty) this._layoutGlyphs();
+    return this._pathLength;
+  }
+
+  private _layoutGlyphs(): void {
+    this._glyphsDirty = false;
+    this._glyphs = [];
+    this._pathLength = 0;
+
+    const geometry = this._geometry;
+    const text = this._text.replace(/\r\n|[\r\n]/g, " ");
+    if (geometry) {
+      const table = sampleArcLength(geometry);
+      this._pathLength = table.length;
+      if (text && table.length > 0) this._placeGlyphs(geometry, table, text);
+    }
+    this._updateBounds();
+  }
+
+  private _placeGlyphs(
+    geometry: IGeometry,
+    table: IArcTable,
+    text: string,
+  ): void {
+    const style = this._textStyle;
+    const line = computeTextLayout(
+      text,
+      {
+        fontSize: style.fontSize,
+        fontFamily: style.fontFamily,
+        fontWeight: style.fontWeight,
+        fontStyle: style.fontStyle,
+        direction: style.direction,
+        whiteSpace: "pre",
+      },
+      Number.POSITIVE_INFINITY,
+    ).lines[0];
+
+    // Clusters sorted by their visual position, so bidi text reads correctly
+    const boundaries = graphemeBoundaries(text);
+    const clusters: { index: number; end: number; x: number; width: number }[] =
+      [];
+    for (let b = 0; b < boundaries.length - 1; b++) {
+      const index = boundaries[b];
+      const end = boundaries[b + 1];
+      const x = line.advancements[index];
+      const width = line.bidi
+        ? line.bidi.widths[index]
+        : (end < text.length ? line.advancements[end] : line.width) - x;
+      clusters.push({ index, end, x, width });
+    }
+    clusters.sort((a, b) => a.x - b.x);
+
+    const spacing = this._letterSpacing;
+    const total = line.width + spacing * (clusters.length - 1);
+    const length = table.length;
+    let start = this._startOffset;
+    if (this._align === "center") start += (length - total) / 2;
+    else if (this._align === "end") start = length - this._startOffset - total;
+
+    for (let i = 0; i < clusters.length; i++) {
+      const cluster = clusters[i];
+      let distance = start + cluster.x + i * spacing + cluster.width / 2;
+      if (table.closed) {
+        distance = ((distance % length) + length) % length;
+      } else if (distance < 0 || distance > length) {
+        continue;
+      }
+
+      const t = paramAtDistance(table, distance);
+      const point = geometry.pointAt(t);
+      const tangent = geometry.tangentAt(t);
+      this._glyphs.push({
+        text: text.slice(cluster.index, cluster.end),
+        index: cluster.index,
+        x: point.x,
+        y: point.y,
+        rotation: Math.atan2(tangent.y, tangent.x),
+        width: cluster.width,
+        distance,
+      });
+    }
+  }
+
+  /** Vertical extent of a glyph box around its baseline, in glyph space. */
+  private _glyphExtent(): { top: number; bottom: number } {
+    const size = this._textStyle.fontSize;
+    return this._side === "below"
+      ? { top: 0, bottom: size }
+      : { top: -size * ASCENT, bottom: size * DESCENT };
+  }
+
+  /**
+   * Size the element to the glyphs. `width`/`height` reach the far corner of
+   * the glyph bounds (the spatial hash indexes `0,0 → width,height`);
+   * `localBounds` is the exact glyph box.
+   */
+  private _updateBounds(): void {
+    let minX = Number.POSITIVE_INFINITY;
+    let minY = Number.POSITIVE_INFINITY;
+    let maxX = Number.NEGATIVE_INFINITY;
+    let maxY = Number.NEGATIVE_INFINITY;
+    const { top, bottom } = this._glyphExtent();
+
+    for (const glyph of this._glyphs) {
+      const cos = Math.cos(glyph.rotation);
+      const sin = Math.sin(glyph.rotation);
+      const half = glyph.width / 2;
+      for (const u of [-half, half]) {
+        for (const v of [top, bottom]) {
+          const x = glyph.x + u * cos - v * sin;
+          const y = glyph.y + u * sin + v * cos;
+          minX = Math.min(minX, x);
+          minY = Math.min(minY, y);
+          maxX = Math.max(maxX, x);
+          maxY = Math.max(maxY, y);
+        }
+      }
+    }
+
+    const bounds: IRect =
+      this._glyphs.length > 0
+        ? { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+        : { x: 0, y: 0, width: 0, height: 0 };
+    this.width = Math.max(0, bounds.x + bounds.width);
+    this.height = Math.max(0, bounds.y + bounds.height);
+    this.localBounds = bounds;
+  }
+
+  // ── Interaction ──
+
+  /** True if the point lies inside any glyph's rotated em box. */
+  override containsPoint(localX: number, localY: number): boolean {
+    const { top, bottom } = this._glyphExtent();
+    for (const glyph of this.glyphs) {
+      const dx = localX - glyph.x;
+      const dy = localY - glyph.y;
+      const cos = Math.cos(glyph.rotation);
+      const sin = Math.sin(glyph.rotation);
+      const u = dx * cos + dy * sin;
+      const v = -dx * sin + dy * cos;
+      if (Math.abs(u) <= glyph.width / 2 && v >= top && v <= bottom) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // ── Frame loop ──
+
+  override update(dt: number): void {
+    if (this._glyphsDirty) this._layoutGlyphs();
+    super.update(dt);
+  }
+
+  // ── Rendering ──
+
+  override paint(ctx: IArena2DContext): void {
+    const glyphs = this.glyphs;
+    if (glyphs.length === 0) return;
+
+    const style = this._textStyle;
+    const weight = style.fontWeight;
+    const fontStyle = style.fontStyle;
+    ctx.setFont({
+      fontSize: style.fontSize,
+      fontFamily: style.fontFamily,
+      fontWeight: weight,
+      fontStyle,
+    });
+    ctx.setFillStyle(style.color);
+    ctx.setTextBaseline(this._side === "below" ? "top" : "alphabetic");
+    ctx.setTextAlign("center");
+
+    const raw = ctx.raw;
+    for (const glyph of glyphs) {
+      const cos = Math.cos(glyph.rotation);
+      const sin = Math.sin(glyph.rotation);
+      raw.save();
+      raw.transform(cos, sin, -sin, cos, glyph.x, glyph.y);
+      ctx.fillText(glyph.text, 0, 0);
+      raw.restore();
+    }
+  }
+}
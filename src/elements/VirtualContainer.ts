@@ -0,0 +1,443 @@
+/**
+ * VirtualContainer — Base class for scroll containers that only create
+ * elements for the items in view.
+ *
+ * Items are identified by index; the data lives with the caller. The
+ * container asks `createItem` for an element when it needs one, hands it to
+ * `bindItem` with the index to show, and recycles it once that item scrolls
+ * out of the visible range plus `overscan`. Only a screenful of elements
+ * ever exists, however many items there are.
+ *
+ * When items are inserted, removed or change size, the first visible item
+ * keeps its on-screen position so the content does not jump.
+ *
+ * Subclasses decide where items go by implementing `offsetOf`, `sizeOf`,
+ * `indexAt`, `placeItem` and `computeContentBounds`.
+ *
+ * @module Elements
+ */
+
+import type { IElement } from "../core/Element";
+import { type ScrollAlign, ScrollContainer } from "./ScrollContainer";
+
+/** Creates a new, unbound item element. */
+export type VirtualItemFactory<E extends IElement> = () => E;
+
+/** Fills an item element with the data at `index`. */
+export type VirtualItemBinder<E extends IElement> = (
+  element: E,
+  index: number,
+) => void;
+
+/**
+ * Scroll container that binds a recycled pool of elements to the visible
+ * range of an indexed item set.
+ */
+export abstract class VirtualContainer<
+  E extends IElement = IElement,
+> extends ScrollContainer {
+  /** Creates item elements. Must be set before any item is shown. */
+  createItem: VirtualItemFactory<E> | null = null;
+  /** Binds an item element to the item at an index. */
+  bindItem: VirtualItemBinder<E> | null = null;
+
+  /** Number of items. */
+  private _itemCount = 0;
+  /** Extra items bound beyond each edge of the viewport. */
+  private _overscan = 3;
+  /** Bound elements by item index. */
+  private _active = new Map<number, E>();
+  /** Hidden elements ready for reuse. */
+  private _pool: E[] = [];
+  /** Bound items to bind again on the next sync. */
+  private _stale = new Set<number>();
+  /** Whether the bound range must be brought up to date. */
+  private _needsSync = true;
+  /** Set while syncing, so our own scroll adjustments are not echoed. */
+  private _syncing = false;
+  /** Viewport size at the last sync. */
+  private _syncedWidth = -1;
+  private _syncedHeight = -1;
+
+  /**
+   * Creates a new VirtualContainer.
+   * @param id - Optional element ID.
+   */
+  constructor(id?: string) {
+    super(id);
+    this.on("scroll", () => {
+      if (!this._syncing) this._needsSync = true;
+    });
+  }
+
+  /**
+   * Gets the number of items.
+   */
+  get itemCount(): number {
+    return this._itemCount;
+  }
+
+  /**
+   * Sets the number of items. Items are added or dropped at the end.
+   */
+  set itemCount(v: number) {
+    const count = Math.max(0, Math.floor(v));
+    if (count > this._itemCount) {
+      this.insertItems(this._itemCount, count - this._itemCount);
+    } else if (count < this._itemCount) {
+      this.removeItems(count, this._itemCount - count);
+    }
+  }
+
+  /**
+   * Gets the number of extra items bound beyond each edge of the viewport.
+   */
+  get overscan(): number {
+    return this._overscan;
+  }
+
+  /**
+   * Sets the number of extra items bound beyond each edge of the viewport.
+   */
+  set overscan(v: number) {
+    this._overscan = Math.max(0, Math.floor(v));
+    this._needsSync = true;
+  }
+
+  /**
+   * Gets the range of bound items as `[start, end)`.
+   */
+  get boundRange(): [number, number] {
+    let start = this._itemCount;
+    let end = 0;
+    for (const index of this._active.keys()) {
+      start = Math.min(start, index);
+      end = Math.max(end, index + 1);
+    }
+    return start < end ? [start, end] : [0, 0];
+  }
+
+  /**
+   * Gets the element currently bound to an item, if it is in range.
+   * @param index - Item index.
+   */
+  getItemElement(index: number): E | null {
+    if (this._needsSync) this._sync();
+    return this._active.get(index) ?? null;
+  }
+
+  /**
+   * Gets the item index an element is bound to, or -1.
+   * @param element - An item element.
+   */
+  getItemIndex(element: IElement): number {
+    for (const [index, el] of this._active) {
+      if (el === element) return index;
+    }
+    return -1;
+  }
+
+  // ── Item changes ──
+
+  /**
+   * Inserts items. Bound elements after `index` move with their items, so
+   * they are not bound again.
+   * @param index - Index of the first new item.
+   * @param count - Number of items to insert.
+   */
+  insertItems(index: number, count = 1): void {
+    if (count <= 0) return;
+    const at = Math.max(0, Math.min(index, this._itemCount));
+    this._preserveAnchor(
+      (i) => (i >= at ? i + count : i),
+      () => {
+        this._itemCount += count;
+        this._shiftItems(at, count);
+        this.onItemsInserted(at, count);
+      },
+    );
+  }
+
+  /**
+   * Removes items. Their elements are recycled.
+   * @param index - Index of the first item to remove.
+   * @param count - Number of items to remove.
+   */
+  removeItems(index: number, count = 1): void {
+    const at = Math.max(0, index);
+    const n = Math.min(count, this._itemCount - at);
+    if (n <= 0) return;
+    this._preserveAnchor(
+      (i) => (i < at ? i : Math.max(at, i - n)),
+      () => {
+        for (let i = at; i < at + n; i++) this._release(i);
+        this._itemCount -= n;
+        this._shiftItems(at + n, -n);
+        this.onItemsRemoved(at, n);
+      },
+    );
+  }
+
+  /**
+   * Binds items again, e.g. after their data changed in place.
+   * @param start - First item to refresh. Defaults to 0.
+   * @param end - Item after the last to refresh. Defaults to all items.
+   */
+  refreshItems(start = 0, end = this._itemCount): void {
+    for (const index of this._active.keys()) {
+      if (index >= start && index < end) this._stale.add(index);
+    }
+    this.onItemsRefreshed(start, end);
+    this._needsSync = true;
+  }
+
+  // ── Scrolling ──
+
+  /**
+   * Scrolls so the item at `index` is in view.
+   * @param index - Item index.
+   * @param align - Where to put the item. `"nearest"` scrolls as little as
+   *   possible. Defaults to `"start"`.
+   */
+  scrollToIndex(index: number, align: ScrollAlign = "start"): void {
+    if (this._itemCount === 0) return;
+    const i = Math.max(0, Math.min(Math.floor(index), this._itemCount - 1));
+    // Sizes of items far from view are estimates until they are bound, so
+    // settle the position over a few passes
+    for (let pass = 0; pass < 3; pass++) {
+      const y = this.alignedOffset(
+        this.scrollY,
+        this.offsetOf(i),
+        this.sizeOf(i),
+        this.height,
+        align,
+      );
+      if (pass > 0 && y === this.scrollY) break;
+      this.scrollTo(this.scrollX, y);
+      this._sync();
+    }
+  }
+
+  // ── Layout hooks ──
+
+  /**
+   * Top edge of the item at `index`.
+   */
+  protected abstract offsetOf(index: number): number;
+
+  /**
+   * Height of the item at `index`.
+   */
+  protected abstract sizeOf(index: number): number;
+
+  /**
+   * The first item whose extent reaches below `y`.
+   */
+  protected abstract indexAt(y: number): number;
+
+  /**
+   * Positions and sizes an item element. Called before binding and again
+   * once the bound range has settled.
+   */
+  protected abstract placeItem(element: E, index: number): void;
+
+  /**
+   * Range of items to bind, as `[start, end)`.
+   */
+  protected visibleRange(): [number, number] {
+    if (this._itemCount === 0) return [0, 0];
+    const first = this.indexAt(this.scrollY);
+    const last = this.indexAt(this.scrollY + this.height);
+    return [
+      Math.max(0, first - this._overscan),
+      Math.min(this._itemCount, last + 1 + this._overscan),
+    ];
+  }
+
+  /**
+   * Records the size of a freshly bound item.
+   * @returns Whether the item's size differs from what was assumed.
+   */
+  protected measureItem(_element: E, _index: number): boolean {
+    return false;
+  }
+
+  /** Called after items are inserted, before the anchor is restored. */
+  protected onItemsInserted(_index: number, _count: number): void {}
+
+  /** Called after items are removed, before the anchor is restored. */
+  protected onItemsRemoved(_index: number, _count: number): void {}
+
+  /** Called when items are marked for binding again. */
+  protected onItemsRefreshed(_start: number, _end: number): void {}
+
+  /**
+   * Applies a change to the item layout (sizes, columns, ...). Content
+   * bounds are recomputed and the first visible item keeps its position.
+   * @param change - Applies the change.
+   */
+  protected changeLayout(change: () => void): void {
+    this._preserveAnchor((i) => i, change);
+  }
+
+  // ── Frame loop ──
+
+  /**
+   * Brings the bound elements up to date before updating children.
+   * @param dt - Delta time in seconds.
+   * @override
+   */
+  override update(dt: number): void {
+    if (
+      this._needsSync ||
+      this.width !== this._syncedWidth ||
+      this.height !== this._syncedHeight
+    ) {
+      this._sync();
+    }
+    super.update(dt);
+  }
+
+  /**
+   * Drops the pool; bound and pooled elements are children and are
+   * destroyed with the container.
+   * @override
+   */
+  override destroy(): void {
+    this._active.clear();
+    this._stale.clear();
+    this._pool.length = 0;
+    super.destroy();
+  }
+
+  // ── Internal helpers ──
+
+  /**
+   * Binds the visible range, recycling elements outside it, and keeps the
+   * first visible item in place while measured sizes settle.
+   * @private
+   */
+  private _sync(): void {
+    this._syncing = true;
+    this._needsSync = false;
+    this._syncedWidth = this.width;
+    this._syncedHeight = this.height;
+    this.refreshContentBounds();
+
+    for (let pass = 0; pass < 4; pass++) {
+      const anchor = this._anchor();
+      const [start, end] = this.visibleRange();
+      for (const index of [...this._active.keys()]) {
+        if (index < start || index >= end) this._release(index);
+      }
+
+      let resized = false;
+      for (let i = start; i < end; i++) {
+        let el = this._active.get(i);
+        if (el && !this._stale.has(i)) continue;
+        el ??= this._acquire(i);
+        this.placeItem(el, i);
+        this.bindItem?.(el, i);
+        if (this.measureItem(el, i)) resized = true;
+      }
+      this._stale.clear();
+      if (!resized) break;
+
+      this.refreshContentBounds();
+      this._restoreAnchor(anchor);
+    }
+
+    for (const [index, el] of this._active) this.placeItem(el, index);
+    this._syncing = false;
+  }
+
+  /**
+   * The first visible item and how far the viewport top is into it.
+   * @private
+   */
+  private _anchor(): { index: number; within: number } | null {
+    if (this._itemCount === 0) return null;
+    const index = this.indexAt(this.scrollY);
+    return { index, within: this.scrollY - this.offsetOf(index) };
+  }
+
+  /**
+   * Scrolls the anchor item back to where it was in the viewport.
+   * @private
+   * @param index - The anchor item's (possibly new) index.
+   */
+  private _restoreAnchor(
+    anchor: { index: number; within: number } | null,
+    index = anchor?.index ?? 0,
+  ): void {
+    if (!anchor || this._itemCount === 0) return;
+    const i = Math.min(index, this._itemCount - 1);
+    this.scrollY = this.offsetOf(i) + anchor.within;
+  }
+
+  /**
+   * Applies an item change, keeping the first visible item in place.
+   * @private
+   * @param mapIndex - Maps an old item index to its new one.
+   * @param change - Applies the change.
+   */
+  private _preserveAnchor(
+    mapIndex: (index: number) => number,
+    change: () => void,
+  ): void {
+    const anchor = this._anchor();
+    change();
+    this.refreshContentBounds();
+    if (anchor) this._restoreAnchor(anchor, mapIndex(anchor.index));
+    this._needsSync = true;
+  }
+
+  /**
+   * Moves bound elements at or after `from` by `delta` indices.
+   * @private
+   */
+  private _shiftItems(from: number, delta: number): void {
+    const moved: [number, E][] = [];
+    for (const [index, el] of this._active) {
+      if (index >= from) moved.push([index + delta, el]);
+    }
+    for (const [index] of moved) this._active.delete(index - delta);
+    for (const [index, el] of moved) this._active.set(index, el);
+
+    const stale = [...this._stale].map((i) => (i >= from ? i + delta : i));
+    this._stale = new Set(stale);
+  }
+
+  /**
+   * Takes an element from the pool (or creates one) for item `index`.
+   * @private
+   */
+  private _acquire(index: number): E {
+    let el = this._pool.pop();
+    if (!el) {
+      if (!this.createItem) {
+        throw new Error(
+          `VirtualContainer [${this.id}]: createItem must be set before items are shown`,
+        );
+      }
+      el = this.createItem();
+      this.addChild(el);
+    }
+    el.visible = true;
+    this._active.set(index, el);
+    return el;
+  }
+
+  /**
+   * Hides the element bound to item `index` and returns it to the pool.
+   * @private
+   */
+  private _release(index: number): void {
+    const el = this._active.get(index);
+    if (!el) return;
+    this._active.delete(index);
+    this._stale.delete(index);
+    el.visible = false;
+    this._pool.push(el);
+  }
+}
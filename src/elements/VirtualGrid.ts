@@ -0,0 +1,215 @@
+/**
+ * VirtualGrid — A grid of equally sized cells that only creates elements for
+ * the rows in view.
+ *
+ * Items fill the grid row by row. The column count is either fixed or, with
+ * `columns: "auto"`, as many cells as fit the grid's width. `overscan` counts
+ * rows rather than items.
+ *
+ * @module Elements
+ * @example
+ * ```typescript
+ * import { Image, VirtualGrid } from 'arena-2d';
+ *
+ * const gallery = new VirtualGrid<Image>('gallery');
+ * gallery.width = 640;
+ * gallery.height = 480;
+ * gallery.cellWidth = 120;
+ * gallery.cellHeight = 120;
+ * gallery.gap = 8;
+ * gallery.createItem = () => new Image();
+ * gallery.bindItem = (cell, index) => { cell.source = thumbnails[index]; };
+ * gallery.itemCount = thumbnails.length;
+ * ```
+ */
+
+import type { IElement } from "../core/Element";
+import type { IRect } from "../math/aabb";
+import { VirtualContainer } from "./VirtualContainer";
+
+/**
+ * Virtualized grid of fixed-size cells.
+ */
+export class VirtualGrid<
+  E extends IElement = IElement,
+> extends VirtualContainer<E> {
+  /** Cell width. */
+  private _cellWidth = 100;
+  /** Cell height. */
+  private _cellHeight = 100;
+  /** Space between cells, both ways. */
+  private _gap = 0;
+  /** Fixed column count, or "auto" to fit the width. */
+  private _columns: number | "auto" = "auto";
+  /** Column count the current layout uses. */
+  private _layoutColumns = 1;
+
+  /**
+   * Creates a new VirtualGrid.
+   * @param id - Optional element ID.
+   */
+  constructor(id?: string) {
+    super(id);
+    this.scrollEnabledX = false;
+  }
+
+  /**
+   * Gets the cell width.
+   */
+  get cellWidth(): number {
+    return this._cellWidth;
+  }
+
+  /**
+   * Sets the cell width.
+   */
+  set cellWidth(v: number) {
+    this.changeLayout(() => {
+      this._cellWidth = Math.max(1, v);
+      this._layoutColumns = this._fitColumns();
+    });
+  }
+
+  /**
+   * Gets the cell height.
+   */
+  get cellHeight(): number {
+    return this._cellHeight;
+  }
+
+  /**
+   * Sets the cell height.
+   */
+  set cellHeight(v: number) {
+    this.changeLayout(() => {
+      this._cellHeight = Math.max(1, v);
+    });
+  }
+
+  /**
+   * Gets the space between cells.
+   */
+  get gap(): number {
+    return this._gap;
+  }
+
+  /**
+   * Sets the space between cells.
+   */
+  set gap(v: number) {
+    this.changeLayout(() => {
+      this._gap = Math.max(0, v);
+      this._layoutColumns = this._fitColumns();
+    });
+  }
+
+  /**
+   * Gets the column setting: a fixed count, or "auto" to fit the width.
+   */
+  get columns(): number | "auto" {
+    return this._columns;
+  }
+
+  /**
+   * Sets the column setting: a fixed count, or "auto" to fit the width.
+   */
+  set columns(v: number | "auto") {
+    this.changeLayout(() => {
+      this._columns = v === "auto" ? v : Math.max(1, Math.floor(v));
+      this._layoutColumns = this._fitColumns();
+    });
+  }
+
+  /**
+   * Gets the number of columns in the current layout.
+   */
+  get columnCount(): number {
+    return this._layoutColumns;
+  }
+
+  /**
+   * Re-flows the cells when the width changes the column count.
+   * @param dt - Delta time in seconds.
+   * @override
+   */
+  override update(dt: number): void {
+    const columns = this._fitColumns();
+    if (columns !== this._layoutColumns) {
+      this.changeLayout(() => {
+        this._layoutColumns = columns;
+      });
+    }
+    super.update(dt);
+  }
+
+  // ── Layout hooks ──
+
+  protected override offsetOf(index: number): number {
+    const row = Math.floor(index / this._layoutColumns);
+    return row * (this._cellHeight + this._gap);
+  }
+
+  protected override sizeOf(_index: number): number {
+    return this._cellHeight;
+  }
+
+  protected override indexAt(y: number): number {
+    const rows = this._rowCount();
+    if (rows === 0) return 0;
+    const row = Math.floor(y / (this._cellHeight + this._gap));
+    return Math.max(0, Math.min(row, rows - 1)) * this._layoutColumns;
+  }
+
+  protected override visibleRange(): [number, number] {
+    const rows = this._rowCount();
+    if (rows === 0) return [0, 0];
+    const pitch = this._cellHeight + this._gap;
+    const first = Math.floor(this.scrollY / pitch) - this.overscan;
+    const last =
+      Math.floor((this.scrollY + this.height) / pitch) + this.overscan;
+    const columns = this._layoutColumns;
+    return [
+      Math.max(0, first) * columns,
+      Math.min(this.itemCount, (Math.min(last, rows - 1) + 1) * columns),
+    ];
+  }
+
+  protected override placeItem(element: E, index: number): void {
+    const column = index % this._layoutColumns;
+    element.x = column * (this._cellWidth + this._gap);
+    element.y = this.offsetOf(index);
+    element.width = this._cellWidth;
+    element.height = this._cellHeight;
+  }
+
+  protected override computeContentBounds(): IRect {
+    const rows = this._rowCount();
+    const columns = Math.min(this._layoutColumns, this.itemCount);
+    return {
+      x: 0,
+      y: 0,
+      width: Math.max(0, columns * (this._cellWidth + this._gap) - this._gap),
+      height: Math.max(0, rows * (this._cellHeight + this._gap) - this._gap),
+    };
+  }
+
+  // ── Internal helpers ──
+
+  /**
+   * Column count for the current settings and width.
+   * @private
+   */
+  private _fitColumns(): number {
+    if (this._columns !== "auto") return this._columns;
+    const pitch = this._cellWidth + this._gap;
+    return Math.max(1, Math.floor((this.width + this._gap) / pitch));
+  }
+
+  /**
+   * Number of rows the items fill.
+   * @private
+   */
+  private _rowCount(): number {
+    return Math.ceil(this.itemCount / this._layoutColumns);
+  }
+}
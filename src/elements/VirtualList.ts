@@ -0,0 +1,223 @@
+/**
+ * VirtualList — A vertical list that only creates elements for the rows in
+ * view.
+ *
+ * Rows span the list's width and stack top to bottom. Row heights are either
+ * given up front (`itemHeight`) or measured: each row is assumed to be
+ * `estimatedItemHeight` tall until it is first bound, then its element's
+ * height is cached. Measurements are dropped when the row is refreshed or
+ * the list's width changes.
+ *
+ * @module Elements
+ * @example
+ * ```typescript
+ * import { Text, VirtualList } from 'arena-2d';
+ *
+ * const list = new VirtualList<Text>('rows');
+ * list.width = 300;
+ * list.height = 400;
+ * list.createItem = () => new Text();
+ * list.bindItem = (row, index) => { row.text = rows[index].label; };
+ * list.itemCount = rows.length;
+ * list.scrollToIndex(500, 'center');
+ * ```
+ */
+
+import type { IElement } from "../core/Element";
+import type { IRect } from "../math/aabb";
+import { VirtualContainer } from "./VirtualContainer";
+
+/**
+ * Virtualized vertical list with fixed or measured row heights.
+ */
+export class VirtualList<
+  E extends IElement = IElement,
+> extends VirtualContainer<E> {
+  /** Fixed row height, per-row height function, or null to measure. */
+  private _itemHeight: number | ((index: number) => number) | null = null;
+  /** Height assumed for rows that have not been measured. */
+  private _estimatedItemHeight = 32;
+  /** Vertical space between rows. */
+  private _gap = 0;
+  /** Measured row heights; NaN where unmeasured. */
+  private _measured: number[] = [];
+  /** Row tops: `_offsets[i]` is the top of row i. */
+  private _offsets: number[] = [0];
+  /** Number of rows whose following offset is up to date. */
+  private _validOffsets = 0;
+  /** Width the cached measurements were taken at. */
+  private _measuredWidth = -1;
+
+  /**
+   * Creates a new VirtualList.
+   * @param id - Optional element ID.
+   */
+  constructor(id?: string) {
+    super(id);
+    this.scrollEnabledX = false;
+  }
+
+  /**
+   * Gets the row height: a fixed number, a function of the row index, or
+   * null when rows are measured.
+   */
+  get itemHeight(): number | ((index: number) => number) | null {
+    return this._itemHeight;
+  }
+
+  /**
+   * Sets the row height. Fixed heights are applied to row elements before
+   * binding; with null, rows are measured after binding.
+   */
+  set itemHeight(v: number | ((index: number) => number) | null) {
+    this.changeLayout(() => {
+      this._itemHeight = v;
+      this._validOffsets = 0;
+    });
+  }
+
+  /**
+   * Gets the height assumed for rows that have not been measured.
+   */
+  get estimatedItemHeight(): number {
+    return this._estimatedItemHeight;
+  }
+
+  /**
+   * Sets the height assumed for rows that have not been measured.
+   */
+  set estimatedItemHeight(v: number) {
+    this.changeLayout(() => {
+      this._estimatedItemHeight = Math.max(1, v);
+      this._validOffsets = 0;
+    });
+  }
+
+  /**
+   * Gets the vertical space between rows.
+   */
+  get gap(): number {
+    return this._gap;
+  }
+
+  /**
+   * Sets the vertical space between rows.
+   */
+  set gap(v: number) {
+    this.changeLayout(() => {
+      this._gap = Math.max(0, v);
+      this._validOffsets = 0;
+    });
+  }
+
+  /**
+   * Re-measures rows when the width changes.
+   * @param dt - Delta time in seconds.
+   * @override
+   */
+  override update(dt: number): void {
+    if (this.width !== this._measuredWidth) {
+      this._measuredWidth = this.width;
+      if (this._itemHeight === null) {
+        this.changeLayout(() => this.refreshItems());
+      }
+    }
+    super.update(dt);
+  }
+
+  // ── Layout hooks ──
+
+  protected override offsetOf(index: number): number {
+    this._ensureOffsets(index);
+    return this._offsets[index];
+  }
+
+  protected override sizeOf(index: number): number {
+    return this._heightOf(index);
+  }
+
+  protected override indexAt(y: number): number {
+    const count = this.itemCount;
+    if (count === 0) return 0;
+    this._ensureOffsets(count);
+    // Last row whose top is at or above y
+    let lo = 0;
+    let hi = count - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (this._offsets[mid] <= y) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo;
+  }
+
+  protected override placeItem(element: E, index: number): void {
+    element.x = 0;
+    element.y = this.offsetOf(index);
+    element.width = this.width;
+    if (this._itemHeight !== null) element.height = this._heightOf(index);
+  }
+
+  protected override measureItem(element: E, index: number): boolean {
+    if (this._itemHeight !== null) return false;
+    const assumed = this._heightOf(index);
+    this._measured[index] = element.height;
+    if (element.height === assumed) return false;
+    this._validOffsets = Math.min(this._validOffsets, index);
+    return true;
+  }
+
+  protected override computeContentBounds(): IRect {
+    const count = this.itemCount;
+    const height = count > 0 ? this.offsetOf(count) - this._gap : 0;
+    return { x: 0, y: 0, width: this.width, height };
+  }
+
+  protected override onItemsInserted(index: number, count: number): void {
+    // Rows past the measured ones need no shifting
+    if (index < this._measured.length) {
+      const tail = this._measured.splice(index);
+      const added = new Array<number>(count).fill(Number.NaN);
+      this._measured = this._measured.concat(added, tail);
+    }
+    this._validOffsets = Math.min(this._validOffsets, index);
+  }
+
+  protected override onItemsRemoved(index: number, count: number): void {
+    this._measured.splice(index, count);
+    this._validOffsets = Math.min(this._validOffsets, index);
+  }
+
+  protected override onItemsRefreshed(start: number, end: number): void {
+    const stop = Math.min(end, this._measured.length);
+    for (let i = start; i < stop; i++) this._measured[i] = Number.NaN;
+    this._validOffsets = Math.min(this._validOffsets, start);
+  }
+
+  // ── Internal helpers ──
+
+  /**
+   * Height of row `index`: fixed, measured or estimated.
+   * @private
+   */
+  private _heightOf(index: number): number {
+    const fixed = this._itemHeight;
+    if (typeof fixed === "number") return fixed;
+    if (fixed) return fixed(index);
+    const measured = this._measured[index];
+    return measured >= 0 ? measured : this._estimatedItemHeight;
+  }
+
+  /**
+   * Brings row tops up to date through row `index`.
+   * @private
+   */
+  private _ensureOffsets(index: number): void {
+    const upTo = Math.min(index, this.itemCount);
+    this._offsets.length = this.itemCount + 1;
+    for (let i = this._validOffsets; i < upTo; i++) {
+      this._offsets[i + 1] = this._offsets[i] + this._heightOf(i) + this._gap;
+    }
+    this._validOffsets = Math.max(this._validOffsets, upTo);
+  }
+}
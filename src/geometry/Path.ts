@@ -27,6 +27,7 @@ import { Line } from './Line';
 import { QuadraticCurve } from './QuadraticCurve';
 import { BezierCurve } from './BezierCurve';
 import { Arc } from './Arc';
+import { parsePathData, pathToPathData } from './pathData';
 
 /**
  * Concrete implementation of a path geometry.
@@ -40,6 +41,23 @@ export class Path extends Geometry implements IPath {
   /** Cached perimeter value for performance. */
   private cachedPerimeter: number | null = null;
 
+  /**
+   * Creates a path from SVG path data (the contents of a `d` attribute).
+   * @param d - The SVG path data string.
+   * @throws Error if the data is malformed.
+   */
+  static fromPathData(d: string): Path {
+    return parsePathData(d, new Path());
+  }
+
+  /**
+   * Serializes this path to an SVG path data string.
+   * @param precision - Maximum number of decimals written. Default: 4.
+   */
+  toPathData(precision?: number): string {
+    return pathToPathData(this, precision);
+  }
+
   /** @inheritdoc */
   public getLocalBounds(): IRect {
     if (this.segments.length === 0) {
@@ -0,0 +1,697 @@
+/**
+ * Boolean operations (union, intersection, difference, xor) on closed geometry.
+ *
+ * Operands are flattened to polygonal contours in world space (curves and arcs
+ * are subdivided until they deviate from the true outline by at most
+ * `tolerance`), every edge is split where it meets another edge, and each
+ * resulting piece is kept when the operation's result is filled on exactly
+ * one side of it. The kept pieces are then linked back into closed contours.
+ *
+ * Fill semantics match canvas rendering: a Path fills its subpaths with the
+ * nonzero rule, and a CompositeGeometry is the union of its children.
+ *
+ * @module Geometry
+ * @example
+ * ```typescript
+ * import { Rectangle, Circle, booleanDifference } from 'arena-2d';
+ *
+ * const plate = new Rectangle(0, 0, 100, 100);
+ * const hole = new Circle(50, 50, 20);
+ * const result = booleanDifference(plate, hole); // Path with an outer and a hole contour
+ * ```
+ */
+
+import { transformPoint } from "../math/matrix";
+import { Circle } from "./Circle";
+import { CompositeGeometry } from "./CompositeGeometry";
+import { Ellipse } from "./Ellipse";
+import type { Geometry } from "./Geometry";
+import { Path } from "./Path";
+import { Polygon } from "./Polygon";
+import { Rectangle } from "./Rectangle";
+import { normalizeArcSweep } from "./pathData";
+
+/** The supported boolean operations. */
+export type BooleanOperation = "union" | "intersection" | "difference" | "xor";
+
+/** Options for boolean operations. */
+export interface IBooleanOptions {
+  /**
+   * Maximum distance (in world units) between a curve and the line segments
+   * that approximate it. Default: 0.25.
+   */
+  tolerance?: number;
+}
+
+/** Geometry types accepted as boolean operands. */
+export type BooleanOperand =
+  | Polygon
+  | Path
+  | CompositeGeometry
+  | Rectangle
+  | Circle
+  | Ellipse;
+
+const DEFAULT_TOLERANCE = 0.25;
+const MAX_CURVE_STEPS = 1024;
+
+type Pt = { x: number; y: number };
+/** A closed contour (the closing edge is implicit). */
+type Ring = Pt[];
+/** A set of rings filled together with the nonzero rule. */
+type Shape = Ring[];
+
+interface IVertex {
+  x: number;
+  y: number;
+  id: number;
+}
+
+interface ISegment {
+  a: IVertex;
+  b: IVertex;
+  splits: IVertex[];
+}
+
+interface IEdge {
+  from: IVertex;
+  to: IVertex;
+  used: boolean;
+}
+
+// ── Public API ──
+
+/**
+ * Combines two geometries with the given boolean operation.
+ *
+ * Both operands are read in world space (through their `worldMatrix`), so
+ * call `updateWorldMatrix()` on transformed geometry first. The inputs are
+ * not modified. The result has an identity transform and its coordinates are
+ * in world space: a single contour is returned as a closed Polygon, anything
+ * else (holes, disjoint pieces or an empty result) as a Path with one closed
+ * subpath per contour. Holes wind opposite to their outer contour, so the
+ * Path renders correctly with the default nonzero fill rule.
+ *
+ * @param op - The operation to perform.
+ * @param a - The first operand (the subject for `difference`).
+ * @param b - The second operand.
+ * @param options - Flattening options.
+ * @returns A new Polygon or Path.
+ * @throws If an operand is not a closed geometry type.
+ */
+export function booleanOperation(
+  op: BooleanOperation,
+  a: Geometry,
+  b: Geometry,
+  options: IBooleanOptions = {},
+): Polygon | Path {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  if (!(tolerance > 0)) {
+    throw new Error(`Boolean tolerance must be positive, got ${tolerance}`);
+  }
+
+  const shapesA = flattenOperand(a, tolerance);
+  const shapesB = flattenOperand(b, tolerance);
+  const rings = computeBoolean(op, shapesA, shapesB);
+
+  if (rings.length === 1) return new Polygon(rings[0], true);
+
+  const path = new Path();
+  for (const ring of rings) {
+    path.addMoveTo(ring[0].x, ring[0].y);
+    for (let i = 1; i < ring.length; i++) path.addLineTo(ring[i].x, ring[i].y);
+    path.closePath();
+  }
+  return path;
+}
+
+/**
+ * Area covered by either operand.
+ * @see booleanOperation
+ */
+export function booleanUnion(
+  a: Geometry,
+  b: Geometry,
+  options?: IBooleanOptions,
+): Polygon | Path {
+  return booleanOperation("union", a, b, options);
+}
+
+/**
+ * Area covered by both operands.
+ * @see booleanOperation
+ */
+export function booleanIntersection(
+  a: Geometry,
+  b: Geometry,
+  options?: IBooleanOptions,
+): Polygon | Path {
+  return booleanOperation("intersection", a, b, options);
+}
+
+/**
+ * Area covered by `a` but not by `b`.
+ * @see booleanOperation
+ */
+export function booleanDifference(
+  a: Geometry,
+  b: Geometry,
+  options?: IBooleanOptions,
+): Polygon | Path {
+  return booleanOperation("difference", a, b, options);
+}
+
+/**
+ * Area covered by exactly one of the operands.
+ * @see booleanOperation
+ */
+export function booleanXor(
+  a: Geometry,
+  b: Geometry,
+  options?: IBooleanOptions,
+): Polygon | Path {
+  return booleanOperation("xor", a, b, options);
+}
+
+// ── Flattening ──
+
+function flattenOperand(geometry: Geometry, tolerance: number): Shape[] {
+  if (geometry instanceof CompositeGeometry) {
+    const shapes: Shape[] = [];
+    for (const child of geometry.children) {
+      shapes.push(...flattenOperand(child, tolerance));
+    }
+    return shapes;
+  }
+
+  if (!isOperand(geometry)) {
+    throw new Error(
+      `Boolean operations require closed geometry, got "${geometry.type}"`,
+    );
+  }
+
+  const matrix = geometry.worldMatrix;
+  const det = Math.abs(matrix[0] * matrix[3] - matrix[1] * matrix[2]);
+  // A degenerate transform collapses the shape to nothing
+  if (det < 1e-12) return [];
+
+  // Flatten in local space with the tolerance scaled into that space
+  const localTolerance = tolerance / Math.sqrt(det);
+  const rings = flattenLocal(geometry, localTolerance)
+    .map((ring) => ring.map((p) => transformPoint(matrix, p.x, p.y)))
+    .filter((ring) => ring.length >= 3);
+  return rings.length > 0 ? [rings] : [];
+}
+
+function isOperand(geometry: Geometry): geometry is BooleanOperand {
+  return (
+    geometry instanceof Polygon ||
+    geometry instanceof Path ||
+    geometry instanceof Rectangle ||
+    geometry instanceof Circle ||
+    geometry instanceof Ellipse
+  );
+}
+
+function flattenLocal(geometry: BooleanOperand, tolerance: number): Ring[] {
+  if (geometry instanceof Polygon) {
+    // Open polylines have no area (see Polygon.containsPoint)
+    return geometry.closed
+      ? [geometry.points.map((p) => ({ x: p.x, y: p.y }))]
+      : [];
+  }
+  if (geometry instanceof Rectangle) {
+    const { rectX: x, rectY: y, width: w, height: h } = geometry;
+    return [
+      [
+        { x, y },
+        { x: x + w, y },
+        { x: x + w, y: y + h },
+        { x, y: y + h },
+      ],
+    ];
+  }
+  if (geometry instanceof Circle) {
+    return [
+      flattenEllipse(
+        geometry.cx,
+        geometry.cy,
+        geometry.radius,
+        geometry.radius,
+        tolerance,
+      ),
+    ];
+  }
+  if (geometry instanceof Ellipse) {
+    return [
+      flattenEllipse(
+        geometry.cx,
+        geometry.cy,
+        geometry.rx,
+        geometry.ry,
+        tolerance,
+      ),
+    ];
+  }
+  if (geometry instanceof Path) return flattenPath(geometry, tolerance);
+  return [];
+}
+
+/** Number of chords needed to keep an arc of `radius` within `tolerance`. */
+function arcSteps(radius: number, sweep: number, tolerance: number): number {
+  if (radius <= tolerance)
+    return Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2)));
+  const step = 2 * Math.acos(1 - tolerance / radius);
+  return Math.min(
+    MAX_CURVE_STEPS,
+    Math.max(1, Math.ceil(Math.abs(sweep) / step)),
+  );
+}
+
+function flattenEllipse(
+  cx: number,
+  cy: number,
+  rx: number,
+  ry: number,
+  tolerance: number,
+): Ring {
+  const steps = Math.max(8, arcSteps(Math.max(rx, ry), Math.PI * 2, tolerance));
+  const ring: Ring = [];
+  for (let i = 0; i < steps; i++) {
+    const angle = (Math.PI * 2 * i) / steps;
+    ring.push({ x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) });
+  }
+  return ring;
+}
+
+/**
+ * Flattens a path into one ring per subpath, following canvas semantics:
+ * every subpath is implicitly closed for filling, `closePath` starts a new
+ * subpath at the previous start point, and arcs connect to the current point.
+ */
+function flattenPath(path: Path, tolerance: number): Ring[] {
+  const rings: Ring[] = [];
+  let ring: Ring = [];
+  let curX = 0;
+  let curY = 0;
+  let startX = 0;
+  let startY = 0;
+  let hasPoint = false;
+
+  const begin = (x: number, y: number) => {
+    if (ring.length >= 3) rings.push(ring);
+    ring = [{ x, y }];
+    curX = startX = x;
+    curY = startY = y;
+    hasPoint = true;
+  };
+  const lineTo = (x: number, y: number) => {
+    ring.push({ x, y });
+    curX = x;
+    curY = y;
+  };
+
+  for (const seg of path.segments) {
+    switch (seg.type) {
+      case "moveTo":
+        begin(seg.x, seg.y);
+        break;
+      case "lineTo":
+        if (!hasPoint) begin(seg.x, seg.y);
+        else lineTo(seg.x, seg.y);
+        break;
+      case "quadraticCurveTo": {
+        if (!hasPoint) begin(seg.cpx, seg.cpy);
+        const x0 = curX;
+        const y0 = curY;
+        const dd = Math.hypot(
+          x0 - 2 * seg.cpx + seg.x,
+          y0 - 2 * seg.cpy + seg.y,
+        );
+        const steps = curveSteps(dd / (4 * tolerance));
+        for (let i = 1; i <= steps; i++) {
+          const t = i / steps;
+          const mt = 1 - t;
+          lineTo(
+            mt * mt * x0 + 2 * mt * t * seg.cpx + t * t * seg.x,
+            mt * mt * y0 + 2 * mt * t * seg.cpy + t * t * seg.y,
+          );
+        }
+        break;
+      }
+      case "bezierCurveTo": {
+        if (!hasPoint) begin(seg.cp1x, seg.cp1y);
+        const x0 = curX;
+        const y0 = curY;
+        const dd = Math.max(
+          Math.hypot(
+            x0 - 2 * seg.cp1x + seg.cp2x,
+            y0 - 2 * seg.cp1y + seg.cp2y,
+          ),
+          Math.hypot(
+            seg.cp1x - 2 * seg.cp2x + seg.x,
+            seg.cp1y - 2 * seg.cp2y + seg.y,
+          ),
+        );
+        const steps = curveSteps((3 * dd) / (4 * tolerance));
+        for (let i = 1; i <= steps; i++) {
+          const t = i / steps;
+          const mt = 1 - t;
+          const a = mt * mt * mt;
+          const b = 3 * mt * mt * t;
+          const c = 3 * mt * t * t;
+          const d = t * t * t;
+          lineTo(
+            a * x0 + b * seg.cp1x + c * seg.cp2x + d * seg.x,
+            a * y0 + b * seg.cp1y + c * seg.cp2y + d * seg.y,
+          );
+        }
+        break;
+      }
+      case "arc": {
+        const sx = seg.cx + seg.radius * Math.cos(seg.startAngle);
+        const sy = seg.cy + seg.radius * Math.sin(seg.startAngle);
+        if (!hasPoint) begin(sx, sy);
+        else lineTo(sx, sy);
+        const sweep = normalizeArcSweep(
+          seg.endAngle - seg.startAngle,
+          seg.counterclockwise,
+        );
+        if (sweep === 0 || seg.radius <= 0) break;
+        const steps = arcSteps(seg.radius, sweep, tolerance);
+        for (let i = 1; i <= steps; i++) {
+          const angle = seg.startAngle + (sweep * i) / steps;
+          lineTo(
+            seg.cx + seg.radius * Math.cos(angle),
+            seg.cy + seg.radius * Math.sin(angle),
+          );
+        }
+        break;
+      }
+      case "closePath":
+        if (hasPoint) begin(startX, startY);
+        break;
+    }
+  }
+  if (ring.length >= 3) rings.push(ring);
+  return rings;
+}
+
+function curveSteps(squared: number): number {
+  return Math.min(MAX_CURVE_STEPS, Math.max(1, Math.ceil(Math.sqrt(squared))));
+}
+
+// ── Clipping ──
+
+/**
+ * Merges points closer than `eps` so that intersections shared by several
+ * edges resolve to a single vertex.
+ */
+class VertexPool {
+  private readonly cells = new Map<string, IVertex[]>();
+  private nextId = 0;
+
+  constructor(private readonly eps: number) {}
+
+  get(x: number, y: number): IVertex {
+    const eps = this.eps;
+    const cx = Math.floor(x / eps);
+    const cy = Math.floor(y / eps);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const cell = this.cells.get(`${cx + dx},${cy + dy}`);
+        if (!cell) continue;
+        for (const v of cell) {
+          if (Math.abs(v.x - x) <= eps && Math.abs(v.y - y) <= eps) return v;
+        }
+      }
+    }
+    const vertex = { x, y, id: this.nextId++ };
+    const key = `${cx},${cy}`;
+    const cell = this.cells.get(key);
+    if (cell) cell.push(vertex);
+    else this.cells.set(key, [vertex]);
+    return vertex;
+  }
+}
+
+function computeBoolean(
+  op: BooleanOperation,
+  shapesA: Shape[],
+  shapesB: Shape[],
+): Ring[] {
+  const all = [...shapesA, ...shapesB];
+  let scale = 0;
+  for (const shape of all) {
+    for (const ring of shape) {
+      for (const p of ring)
+        scale = Math.max(scale, Math.abs(p.x), Math.abs(p.y));
+    }
+  }
+  if (scale === 0) return [];
+  const eps = scale * 1e-9;
+
+  // 1. Collect every edge, snapping shared points to one vertex
+  const pool = new VertexPool(eps);
+  const segments: ISegment[] = [];
+  for (const shape of all) {
+    for (const ring of shape) {
+      const verts = ring.map((p) => pool.get(p.x, p.y));
+      for (let i = 0; i < verts.length; i++) {
+        const a = verts[i];
+        const b = verts[(i + 1) % verts.length];
+        if (a !== b) segments.push({ a, b, splits: [] });
+      }
+    }
+  }
+
+  // 2. Split edges at every crossing, touch and collinear overlap
+  for (let i = 0; i < segments.length; i++) {
+    for (let j = i + 1; j < segments.length; j++) {
+      intersectSegments(segments[i], segments[j], pool, eps);
+    }
+  }
+
+  // 3. Break segments into unique pieces
+  const pieces = new Map<string, [IVertex, IVertex]>();
+  for (const seg of segments) {
+    const dx = seg.b.x - seg.a.x;
+    const dy = seg.b.y - seg.a.y;
+    const param = (v: IVertex) => (v.x - seg.a.x) * dx + (v.y - seg.a.y) * dy;
+    const chain = [
+      seg.a,
+      ...seg.splits.sort((p, q) => param(p) - param(q)),
+      seg.b,
+    ];
+    for (let k = 0; k < chain.length - 1; k++) {
+      const p = chain[k];
+      const q = chain[k + 1];
+      if (p === q) continue;
+      const key = p.id < q.id ? `${p.id}:${q.id}` : `${q.id}:${p.id}`;
+      if (!pieces.has(key)) pieces.set(key, [p, q]);
+    }
+  }
+
+  // 4. Keep pieces with the result on exactly one side, oriented so the
+  //    result lies to their left
+  const inResult = (x: number, y: number) => {
+    const inA = insideShapes(shapesA, x, y);
+    const inB = insideShapes(shapesB, x, y);
+    switch (op) {
+      case "union":
+        return inA || inB;
+      case "intersection":
+        return inA && inB;
+      case "difference":
+        return inA && !inB;
+      case "xor":
+        return inA !== inB;
+    }
+  };
+
+  const outgoing = new Map<number, IEdge[]>();
+  const edges: IEdge[] = [];
+  for (const [p, q] of pieces.values()) {
+    const dx = q.x - p.x;
+    const dy = q.y - p.y;
+    const len = Math.hypot(dx, dy);
+    const offset = Math.max(Math.min(len * 1e-3, scale * 1e-6), eps * 10);
+    const nx = (-dy / len) * offset;
+    const ny = (dx / len) * offset;
+    const mx = (p.x + q.x) / 2;
+    const my = (p.y + q.y) / 2;
+    const left = inResult(mx + nx, my + ny);
+    const right = inResult(mx - nx, my - ny);
+    if (left === right) continue;
+    const edge = left
+      ? { from: p, to: q, used: false }
+      : { from: q, to: p, used: false };
+    edges.push(edge);
+    const list = outgoing.get(edge.from.id);
+    if (list) list.push(edge);
+    else outgoing.set(edge.from.id, [edge]);
+  }
+
+  // 5. Link the kept edges into closed contours
+  const rings: Ring[] = [];
+  for (const first of edges) {
+    if (first.used) continue;
+    const verts: IVertex[] = [];
+    let edge = first;
+    for (;;) {
+      edge.used = true;
+      verts.push(edge.from);
+      if (edge.to === first.from) break;
+      const next = nextEdge(edge, outgoing.get(edge.to.id));
+      if (!next) {
+        verts.length = 0;
+        break;
+      }
+      edge = next;
+    }
+    const ring = simplifyRing(verts, eps);
+    if (ring.length >= 3 && Math.abs(signedArea(ring)) > eps * scale)
+      rings.push(ring);
+  }
+  return rings;
+}
+
+function intersectSegments(
+  s: ISegment,
+  o: ISegment,
+  pool: VertexPool,
+  eps: number,
+): void {
+  if (
+    Math.max(s.a.x, s.b.x) < Math.min(o.a.x, o.b.x) - eps ||
+    Math.max(o.a.x, o.b.x) < Math.min(s.a.x, s.b.x) - eps ||
+    Math.max(s.a.y, s.b.y) < Math.min(o.a.y, o.b.y) - eps ||
+    Math.max(o.a.y, o.b.y) < Math.min(s.a.y, s.b.y) - eps
+  ) {
+    return;
+  }
+
+  const d1x = s.b.x - s.a.x;
+  const d1y = s.b.y - s.a.y;
+  const d2x = o.b.x - o.a.x;
+  const d2y = o.b.y - o.a.y;
+  const len1 = Math.hypot(d1x, d1y);
+  const len2 = Math.hypot(d2x, d2y);
+  const denom = d1x * d2y - d1y * d2x;
+  const wx = o.a.x - s.a.x;
+  const wy = o.a.y - s.a.y;
+
+  if (Math.abs(denom) > 1e-12 * len1 * len2) {
+    const t = (wx * d2y - wy * d2x) / denom;
+    const u = (wx * d1y - wy * d1x) / denom;
+    const et = eps / len1;
+    const eu = eps / len2;
+    if (t < -et || t > 1 + et || u < -eu || u > 1 + eu) return;
+    const v = pool.get(s.a.x + t * d1x, s.a.y + t * d1y);
+    addSplit(s, v);
+    addSplit(o, v);
+    return;
+  }
+
+  // Parallel: only collinear overlaps split anything
+  if (Math.abs(wx * d1y - wy * d1x) / len1 > eps) return;
+  for (const v of [o.a, o.b]) if (onSegment(s, v, len1, eps)) addSplit(s, v);
+  for (const v of [s.a, s.b]) if (onSegment(o, v, len2, eps)) addSplit(o, v);
+}
+
+function onSegment(
+  seg: ISegment,
+  v: IVertex,
+  len: number,
+  eps: number,
+): boolean {
+  const t =
+    ((v.x - seg.a.x) * (seg.b.x - seg.a.x) +
+      (v.y - seg.a.y) * (seg.b.y - seg.a.y)) /
+    (len * len);
+  return t > -eps / len && t < 1 + eps / len;
+}
+
+function addSplit(seg: ISegment, v: IVertex): void {
+  if (v !== seg.a && v !== seg.b && !seg.splits.includes(v)) seg.splits.push(v);
+}
+
+/**
+ * Picks the unused edge leaving `edge.to` that turns furthest towards the
+ * filled side, which keeps regions that only touch at a point separate.
+ */
+function nextEdge(edge: IEdge, candidates: IEdge[] | undefined): IEdge | null {
+  if (!candidates) return null;
+  const inX = edge.to.x - edge.from.x;
+  const inY = edge.to.y - edge.from.y;
+  let best: IEdge | null = null;
+  let bestTurn = Number.NEGATIVE_INFINITY;
+  for (const candidate of candidates) {
+    if (candidate.used) continue;
+    const outX = candidate.to.x - candidate.from.x;
+    const outY = candidate.to.y - candidate.from.y;
+    const turn = Math.atan2(inX * outY - inY * outX, inX * outX + inY * outY);
+    if (turn > bestTurn) {
+      bestTurn = turn;
+      best = candidate;
+    }
+  }
+  return best;
+}
+
+/** Removes vertices that lie on the line through their neighbours. */
+function simplifyRing(verts: IVertex[], eps: number): Ring {
+  const ring: Ring = verts.map((v) => ({ x: v.x, y: v.y }));
+  let changed = true;
+  while (changed && ring.length >= 3) {
+    changed = false;
+    for (let i = 0; i < ring.length && ring.length >= 3; i++) {
+      const prev = ring[(i + ring.length - 1) % ring.length];
+      const cur = ring[i];
+      const next = ring[(i + 1) % ring.length];
+      const dx = next.x - prev.x;
+      const dy = next.y - prev.y;
+      const len = Math.hypot(dx, dy);
+      const cross = (cur.x - prev.x) * dy - (cur.y - prev.y) * dx;
+      if (len === 0 || Math.abs(cross) <= eps * len) {
+        ring.splice(i, 1);
+        i--;
+        changed = true;
+      }
+    }
+  }
+  return ring;
+}
+
+function signedArea(ring: Ring): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const p = ring[i];
+    const q = ring[(i + 1) % ring.length];
+    sum += p.x * q.y - q.x * p.y;
+  }
+  return sum / 2;
+}
+
+// ── Point Classification ──
+
+function insideShapes(shapes: Shape[], x: number, y: number): boolean {
+  return shapes.some((shape) => windingNumber(shape, x, y) !== 0);
+}
+
+function windingNumber(shape: Shape, x: number, y: number): number {
+  let winding = 0;
+  for (const ring of shape) {
+    for (let i = 0; i < ring.length; i++) {
+      const p = ring[i];
+      const q = ring[(i + 1) % ring.length];
+      const side = (q.x - p.x) * (y - p.y) - (x - p.x) * (q.y - p.y);
+      if (p.y <= y) {
+        if (q.y > y && side > 0) winding++;
+      } else if (q.y <= y && side < 0) {
+        winding--;
+      }
+    }
+  }
+  return winding;
+}
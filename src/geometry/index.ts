@@ -36,3 +36,16 @@ export { QuadraticCurve } from './QuadraticCurve';
 export { BezierCurve } from './BezierCurve';
 export { Path } from './Path';
 export { CompositeGeometry } from './CompositeGeometry';
+
+// SVG path data
+export { parsePathData, pathToPathData } from './pathData';
+
+// Boolean operations
+export {
+  booleanOperation,
+  booleanUnion,
+  booleanIntersection,
+  booleanDifference,
+  booleanXor,
+} from './boolean';
+export type { BooleanOperation, BooleanOperand, IBooleanOptions } from './boolean';
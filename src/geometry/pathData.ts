@@ -0,0 +1,471 @@
+/**
+ * SVG path data (`d` attribute) parsing and serialization.
+ *
+ * Parses every SVG path command — absolute and relative M/L/H/V/C/S/Q/T/A/Z —
+ * into the segment vocabulary of `IPath`. H/V become lines, smooth S/T curves
+ * are expanded with their reflected control points, circular arcs become
+ * `arc` segments and elliptical arcs are approximated with cubic Bézier
+ * segments. Serialization writes absolute commands back out.
+ *
+ * @module Geometry
+ * @example
+ * ```typescript
+ * import { Path, parsePathData, pathToPathData } from 'arena-2d';
+ *
+ * const path = new Path();
+ * parsePathData('M10 10 h80 v80 h-80 Z', path);
+ * console.log(pathToPathData(path)); // "M10 10 L90 10 L90 90 L10 90 Z"
+ * ```
+ */
+
+import type { IPath, PathSegment } from "./types";
+
+// ── Constants ──
+
+const TAU = Math.PI * 2;
+const EPSILON = 1e-9;
+
+// ── Tokenizer ──
+
+/**
+ * Cursor over a path data string. Handles the compact number forms allowed by
+ * the SVG grammar ("1.5.5", "-1-2", "1e-3") and packed arc flags ("0 01 10 10").
+ */
+class PathDataScanner {
+  private readonly _d: string;
+  private _pos = 0;
+
+  constructor(d: string) {
+    this._d = d;
+  }
+
+  get done(): boolean {
+    this._skipSeparators();
+    return this._pos >= this._d.length;
+  }
+
+  /** Reads a command letter, or null if the next token is a number. */
+  readCommand(): string | null {
+    this._skipSeparators();
+    const ch = this._d[this._pos];
+    if (ch !== undefined && /[MmLlHhVvCcSsQqTtAaZz]/.test(ch)) {
+      this._pos++;
+      return ch;
+    }
+    return null;
+  }
+
+  /** True if a number (rather than a command or the end) comes next. */
+  hasNumber(): boolean {
+    this._skipSeparators();
+    const ch = this._d[this._pos];
+    return ch !== undefined && /[\d.+-]/.test(ch);
+  }
+
+  readNumber(): number {
+    this._skipSeparators();
+    const match = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(
+      this._d.slice(this._pos),
+    );
+    if (!match) throw this.error("expected a number");
+    this._pos += match[0].length;
+    return Number.parseFloat(match[0]);
+  }
+
+  readFlag(): boolean {
+    this._skipSeparators();
+    const ch = this._d[this._pos];
+    if (ch !== "0" && ch !== "1")
+      throw this.error("expected an arc flag (0 or 1)");
+    this._pos++;
+    return ch === "1";
+  }
+
+  private _skipSeparators(): void {
+    while (this._pos < this._d.length && /[\s,]/.test(this._d[this._pos])) {
+      this._pos++;
+    }
+  }
+
+  error(message: string): Error {
+    return new Error(`Invalid path data at position ${this._pos}: ${message}`);
+  }
+}
+
+// ── Parsing ──
+
+/**
+ * Parses SVG path data and appends the resulting segments to `path`.
+ *
+ * @param d - The SVG path data string (contents of a `d` attribute).
+ * @param path - The path to append segments to.
+ * @returns The same path, for chaining.
+ * @throws Error if the data is malformed.
+ */
+export function parsePathData<T extends IPath>(d: string, path: T): T {
+  const scanner = new PathDataScanner(d);
+
+  let curX = 0;
+  let curY = 0;
+  let startX = 0;
+  let startY = 0;
+  // Last control point, for reflecting into S/T
+  let lastCubicX = 0;
+  let lastCubicY = 0;
+  let lastQuadX = 0;
+  let lastQuadY = 0;
+  let prevCommand = "";
+  let command: string | null = null;
+
+  while (!scanner.done) {
+    const next = scanner.readCommand();
+    if (next !== null) {
+      command = next;
+    } else if (command === null) {
+      throw scanner.error("path data must begin with a command");
+    } else if (command === "z" || command === "Z") {
+      throw scanner.error("unexpected number after closepath");
+    }
+
+    const cmd = command as string;
+    const lower = cmd.toLowerCase();
+    const relative = cmd === lower;
+    const ox = relative ? curX : 0;
+    const oy = relative ? curY : 0;
+
+    if (lower !== "z" && !scanner.hasNumber()) {
+      throw scanner.error(`missing parameters for "${cmd}"`);
+    }
+
+    switch (lower) {
+      case "m": {
+        curX = ox + scanner.readNumber();
+        curY = oy + scanner.readNumber();
+        startX = curX;
+        startY = curY;
+        path.addMoveTo(curX, curY);
+        // Subsequent coordinate pairs are implicit lineTo commands
+        command = relative ? "l" : "L";
+        break;
+      }
+      case "l": {
+        curX = ox + scanner.readNumber();
+        curY = oy + scanner.readNumber();
+        path.addLineTo(curX, curY);
+        break;
+      }
+      case "h": {
+        curX = ox + scanner.readNumber();
+        path.addLineTo(curX, curY);
+        break;
+      }
+      case "v": {
+        curY = oy + scanner.readNumber();
+        path.addLineTo(curX, curY);
+        break;
+      }
+      case "c": {
+        const x1 = ox + scanner.readNumber();
+        const y1 = oy + scanner.readNumber();
+        const x2 = ox + scanner.readNumber();
+        const y2 = oy + scanner.readNumber();
+        curX = ox + scanner.readNumber();
+        curY = oy + scanner.readNumber();
+        path.addBezierCurveTo(x1, y1, x2, y2, curX, curY);
+        lastCubicX = x2;
+        lastCubicY = y2;
+        break;
+      }
+      case "s": {
+        const smooth = prevCommand === "c" || prevCommand === "s";
+        const x1 = smooth ? 2 * curX - lastCubicX : curX;
+        const y1 = smooth ? 2 * curY - lastCubicY : curY;
+        const x2 = ox + scanner.readNumber();
+        const y2 = oy + scanner.readNumber();
+        curX = ox + scanner.readNumber();
+        curY = oy + scanner.readNumber();
+        path.addBezierCurveTo(x1, y1, x2, y2, curX, curY);
+        lastCubicX = x2;
+        lastCubicY = y2;
+        break;
+      }
+      case "q": {
+        lastQuadX = ox + scanner.readNumber();
+        lastQuadY = oy + scanner.readNumber();
+        curX = ox + scanner.readNumber();
+        curY = oy + scanner.readNumber();
+        path.addQuadraticCurveTo(lastQuadX, lastQuadY, curX, curY);
+        break;
+      }
+      case "t": {
+        const smooth = prevCommand === "q" || prevCommand === "t";
+        lastQuadX = smooth ? 2 * curX - lastQuadX : curX;
+        lastQuadY = smooth ? 2 * curY - lastQuadY : curY;
+        curX = ox + scanner.readNumber();
+        curY = oy + scanner.readNumber();
+        path.addQuadraticCurveTo(lastQuadX, lastQuadY, curX, curY);
+        break;
+      }
+      case "a": {
+        const rx = scanner.readNumber();
+        const ry = scanner.readNumber();
+        const rotation = scanner.readNumber();
+        const largeArc = scanner.readFlag();
+        const sweep = scanner.readFlag();
+        const x = ox + scanner.readNumber();
+        const y = oy + scanner.readNumber();
+        addEndpointArc(
+          path,
+          curX,
+          curY,
+          rx,
+          ry,
+          rotation,
+          largeArc,
+          sweep,
+          x,
+          y,
+        );
+        curX = x;
+        curY = y;
+        break;
+      }
+      case "z": {
+        path.closePath();
+        curX = startX;
+        curY = startY;
+        break;
+      }
+    }
+
+    prevCommand = lower;
+  }
+
+  return path;
+}
+
+/**
+ * Converts an SVG endpoint-parameterized arc to path segments.
+ * Circular arcs map to an `arc` segment; elliptical ones to cubic Béziers.
+ * Implements the endpoint-to-center conversion from SVG 1.1 Appendix F.6.
+ */
+function addEndpointArc(
+  path: IPath,
+  x1: number,
+  y1: number,
+  rxIn: number,
+  ryIn: number,
+  rotationDeg: number,
+  largeArc: boolean,
+  sweep: boolean,
+  x2: number,
+  y2: number,
+): void {
+  if (Math.abs(x1 - x2) < EPSILON && Math.abs(y1 - y2) < EPSILON) return;
+
+  let rx = Math.abs(rxIn);
+  let ry = Math.abs(ryIn);
+  if (rx < EPSILON || ry < EPSILON) {
+    path.addLineTo(x2, y2);
+    return;
+  }
+
+  const phi = ((rotationDeg % 360) * Math.PI) / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+
+  // Step 1: midpoint in the ellipse's rotated frame
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cosPhi * dx + sinPhi * dy;
+  const y1p = -sinPhi * dx + cosPhi * dy;
+
+  // Scale radii up if they cannot span the endpoints
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    const s = Math.sqrt(lambda);
+    rx *= s;
+    ry *= s;
+  }
+
+  // Step 2: center in the rotated frame
+  const rx2 = rx * rx;
+  const ry2 = ry * ry;
+  const num = rx2 * ry2 - rx2 * y1p * y1p - ry2 * x1p * x1p;
+  const den = rx2 * y1p * y1p + ry2 * x1p * x1p;
+  const coef =
+    (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, num / den));
+  const cxp = (coef * rx * y1p) / ry;
+  const cyp = (-coef * ry * x1p) / rx;
+
+  // Step 3: center in path space
+  const cx = cosPhi * cxp - sinPhi * cyp + (x1 + x2) / 2;
+  const cy = sinPhi * cxp + cosPhi * cyp + (y1 + y2) / 2;
+
+  // Step 4: start angle and sweep
+  const ux = (x1p - cxp) / rx;
+  const uy = (y1p - cyp) / ry;
+  const vx = (-x1p - cxp) / rx;
+  const vy = (-y1p - cyp) / ry;
+  const theta1 = Math.atan2(uy, ux);
+  let delta = Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  if (!sweep && delta > 0) delta -= TAU;
+  else if (sweep && delta < 0) delta += TAU;
+
+  if (Math.abs(rx - ry) < 1e-6 * Math.max(rx, ry)) {
+    // Circle: rotation only shifts the angles
+    const start = theta1 + phi;
+    path.addArc(cx, cy, rx, start, start + delta, delta < 0);
+    return;
+  }
+
+  // Ellipse: cubic Bézier per quarter turn (or less)
+  const steps = Math.max(
+    1,
+    Math.ceil(Math.abs(delta) / (Math.PI / 2) - EPSILON),
+  );
+  const step = delta / steps;
+  const k = (4 / 3) * Math.tan(step / 4);
+
+  const point = (t: number) => ({
+    x: cx + rx * Math.cos(t) * cosPhi - ry * Math.sin(t) * sinPhi,
+    y: cy + rx * Math.cos(t) * sinPhi + ry * Math.sin(t) * cosPhi,
+  });
+  const derivative = (t: number) => ({
+    x: -rx * Math.sin(t) * cosPhi - ry * Math.cos(t) * sinPhi,
+    y: -rx * Math.sin(t) * sinPhi + ry * Math.cos(t) * cosPhi,
+  });
+
+  for (let i = 0; i < steps; i++) {
+    const ta = theta1 + i * step;
+    const tb = ta + step;
+    const pa = point(ta);
+    const pb = i === steps - 1 ? { x: x2, y: y2 } : point(tb);
+    const da = derivative(ta);
+    const db = derivative(tb);
+    path.addBezierCurveTo(
+      pa.x + k * da.x,
+      pa.y + k * da.y,
+      pb.x - k * db.x,
+      pb.y - k * db.y,
+      pb.x,
+      pb.y,
+    );
+  }
+}
+
+// ── Serialization ──
+
+/**
+ * Serializes path segments to an SVG path data string using absolute commands.
+ *
+ * `arc` segments become one or more `A` commands (split at half turns so each
+ * is unambiguous), preceded by a line or move to the arc's start point when
+ * the pen is elsewhere — matching canvas `arc()` semantics.
+ *
+ * @param path - The path (or any object exposing `segments`) to serialize.
+ * @param precision - Maximum number of decimals written. Default: 4.
+ */
+export function pathToPathData(
+  path: { readonly segments: ReadonlyArray<PathSegment> },
+  precision = 4,
+): string {
+  const f = (n: number) => formatNumber(n, precision);
+  const out: string[] = [];
+  let hasPoint = false;
+  let curX = 0;
+  let curY = 0;
+  let startX = 0;
+  let startY = 0;
+
+  for (const seg of path.segments) {
+    switch (seg.type) {
+      case "moveTo":
+        out.push(`M${f(seg.x)} ${f(seg.y)}`);
+        curX = startX = seg.x;
+        curY = startY = seg.y;
+        hasPoint = true;
+        break;
+      case "lineTo":
+        out.push(`L${f(seg.x)} ${f(seg.y)}`);
+        curX = seg.x;
+        curY = seg.y;
+        hasPoint = true;
+        break;
+      case "quadraticCurveTo":
+        out.push(`Q${f(seg.cpx)} ${f(seg.cpy)} ${f(seg.x)} ${f(seg.y)}`);
+        curX = seg.x;
+        curY = seg.y;
+        hasPoint = true;
+        break;
+      case "bezierCurveTo":
+        out.push(
+          `C${f(seg.cp1x)} ${f(seg.cp1y)} ${f(seg.cp2x)} ${f(seg.cp2y)} ${f(seg.x)} ${f(seg.y)}`,
+        );
+        curX = seg.x;
+        curY = seg.y;
+        hasPoint = true;
+        break;
+      case "arc": {
+        const sweep = normalizeArcSweep(
+          seg.endAngle - seg.startAngle,
+          seg.counterclockwise,
+        );
+        const r = seg.radius;
+        const sx = seg.cx + r * Math.cos(seg.startAngle);
+        const sy = seg.cy + r * Math.sin(seg.startAngle);
+        if (!hasPoint) {
+          out.push(`M${f(sx)} ${f(sy)}`);
+          startX = sx;
+          startY = sy;
+        } else if (f(sx) !== f(curX) || f(sy) !== f(curY)) {
+          out.push(`L${f(sx)} ${f(sy)}`);
+        }
+        curX = sx;
+        curY = sy;
+        hasPoint = true;
+        if (sweep === 0 || r <= 0) break;
+
+        const steps = Math.max(
+          1,
+          Math.ceil(Math.abs(sweep) / Math.PI - EPSILON),
+        );
+        const sweepFlag = sweep > 0 ? 1 : 0;
+        for (let i = 1; i <= steps; i++) {
+          const angle = seg.startAngle + (sweep * i) / steps;
+          curX = seg.cx + r * Math.cos(angle);
+          curY = seg.cy + r * Math.sin(angle);
+          out.push(`A${f(r)} ${f(r)} 0 0 ${sweepFlag} ${f(curX)} ${f(curY)}`);
+        }
+        break;
+      }
+      case "closePath":
+        if (!hasPoint) break;
+        out.push("Z");
+        curX = startX;
+        curY = startY;
+        break;
+    }
+  }
+
+  return out.join(" ");
+}
+
+/** Signed sweep of a canvas arc, following the canvas normalisation rules. */
+export function normalizeArcSweep(
+  delta: number,
+  counterclockwise: boolean,
+): number {
+  if (!counterclockwise) {
+    if (delta >= TAU) return TAU;
+    const d = delta % TAU;
+    return d < 0 ? d + TAU : d;
+  }
+  if (-delta >= TAU) return -TAU;
+  const d = delta % TAU;
+  return d > 0 ? d - TAU : d;
+}
+
+function formatNumber(n: number, precision: number): string {
+  return String(Number(n.toFixed(precision)));
+}
@@ -0,0 +1,394 @@
+/**
+ * CommandHistory — Undo/redo stacks for reversible scene mutations.
+ *
+ * Changes are recorded as commands (see `commands.ts`), either through the
+ * convenience methods (`set`, `addChild`, `updateStyle`, ...) or by
+ * executing custom `ICommand`s. Transactions group several commands into a
+ * single undo step, consecutive mergeable commands (e.g. the moves of one
+ * drag) collapse into one, and every change to the stacks emits `change`.
+ *
+ * @module History
+ * @example
+ * ```typescript
+ * const history = new CommandHistory();
+ * history.trackDrags(view.interaction.dragManager);
+ *
+ * history.transaction("Duplicate", () => {
+ *   history.addChild(layer, copy);
+ *   history.set(copy, "x", copy.x + 10);
+ * });
+ * history.undo();
+ * ```
+ */
+
+import type { IContainer } from "../core/Container";
+import type { IElement } from "../core/Element";
+import { EventEmitter } from "../events/EventEmitter";
+import type { DragManager, IDragEvent } from "../interaction/DragManager";
+import type { IStyle } from "../layout/Style";
+import {
+  AddChildCommand,
+  CompositeCommand,
+  type ICommand,
+  MoveCommand,
+  PropertyCommand,
+  RemoveChildCommand,
+  ReorderCommand,
+  StyleCommand,
+} from "./commands";
+
+// ── Types ──
+
+export interface ICommandHistoryOptions {
+  /** Maximum number of undo steps kept. Oldest steps are dropped. Default: 100. */
+  limit?: number;
+}
+
+export interface IHistoryChangeEvent {
+  type: "change";
+  /** What changed the stacks. */
+  action: "record" | "undo" | "redo" | "clear";
+  /** The command recorded, undone or redone (null for `clear`). */
+  command: ICommand | null;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+// ── CommandHistory Class ──
+
+export class CommandHistory extends EventEmitter {
+  private _undoStack: ICommand[] = [];
+  private _redoStack: ICommand[] = [];
+  private _limit: number;
+
+  /** Open transaction (outermost), if any. */
+  private _transaction: CompositeCommand | null = null;
+  private _transactionDepth = 0;
+  /** Whether the next recorded command may merge into the last undo step. */
+  private _canMerge = false;
+  /** Suppresses recording while commands are being undone/redone. */
+  private _applying = false;
+  private _dragSession = 0;
+
+  constructor(options: ICommandHistoryOptions = {}) {
+    super();
+    this._limit = Math.max(1, options.limit ?? 100);
+  }
+
+  // ── State ──
+
+  get canUndo(): boolean {
+    return this._transactionDepth === 0 && this._undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this._transactionDepth === 0 && this._redoStack.length > 0;
+  }
+
+  /** Label of the step `undo()` would revert, or null. */
+  get undoLabel(): string | null {
+    return this._undoStack[this._undoStack.length - 1]?.label ?? null;
+  }
+
+  /** Label of the step `redo()` would re-apply, or null. */
+  get redoLabel(): string | null {
+    return this._redoStack[this._redoStack.length - 1]?.label ?? null;
+  }
+
+  get undoCount(): number {
+    return this._undoStack.length;
+  }
+
+  get redoCount(): number {
+    return this._redoStack.length;
+  }
+
+  /** True while a transaction is open. */
+  get inTransaction(): boolean {
+    return this._transactionDepth > 0;
+  }
+
+  /** True while undo/redo is applying commands (changes are not recorded). */
+  get isApplying(): boolean {
+    return this._applying;
+  }
+
+  // ── Recording ──
+
+  /**
+   * Perform a command and record it.
+   */
+  execute(command: ICommand): void {
+    this._apply(() => command.redo());
+    this.record(command);
+  }
+
+  /**
+   * Record a command whose change has already been applied.
+   * Ignored while undo/redo is in progress.
+   */
+  record(command: ICommand): void {
+    if (this._applying) return;
+
+    if (this._transaction) {
+      this._transaction.add(command);
+      return;
+    }
+
+    this._redoStack.length = 0;
+    const last = this._undoStack[this._undoStack.length - 1];
+    if (!(this._canMerge && last?.merge?.(command))) {
+      this._undoStack.push(command);
+      if (this._undoStack.length > this._limit) this._undoStack.shift();
+    }
+    this._canMerge = true;
+    this._emitChange("record", command);
+  }
+
+  /** Set a property and record the change. No-op if the value is unchanged. */
+  set<T extends object, K extends keyof T>(
+    target: T,
+    key: K,
+    value: T[K],
+    label?: string,
+  ): void {
+    if (target[key] === value) return;
+    this.execute(new PropertyCommand(target, key, value, label));
+  }
+
+  /** `parent.addChild(child)`, recorded. */
+  addChild(parent: IContainer, child: IElement, label?: string): void {
+    this.execute(new AddChildCommand(parent, child, undefined, label));
+  }
+
+  /** `parent.addChildAt(child, index)`, recorded. */
+  addChildAt(
+    parent: IContainer,
+    child: IElement,
+    index: number,
+    label?: string,
+  ): void {
+    this.execute(new AddChildCommand(parent, child, index, label));
+  }
+
+  /** `parent.removeChild(child)`, recorded. No-op if not a child. */
+  removeChild(parent: IContainer, child: IElement, label?: string): void {
+    if (!parent.children.includes(child)) return;
+    this.execute(new RemoveChildCommand(parent, child, label));
+  }
+
+  /** Move an element to a sibling index, recorded. */
+  setChildIndex(element: IElement, index: number, label?: string): void {
+    this.execute(new ReorderCommand(element, index, null, label));
+  }
+
+  /** Assign a new zIndex, recorded. */
+  setZIndex(element: IElement, zIndex: number, label?: string): void {
+    if (element.zIndex === zIndex) return;
+    this.execute(new ReorderCommand(element, null, zIndex, label));
+  }
+
+  /** Move an element to the top of its siblings, recorded. */
+  bringToFront(element: IElement, label = "Bring to Front"): void {
+    const parent = element.parent as IContainer | null;
+    if (!parent) return;
+    this.setChildIndex(element, parent.children.length - 1, label);
+  }
+
+  /** Move an element to the bottom of its siblings, recorded. */
+  sendToBack(element: IElement, label = "Send to Back"): void {
+    this.setChildIndex(element, 0, label);
+  }
+
+  /** `element.updateStyle(changes)`, recorded. */
+  updateStyle(
+    element: IElement,
+    changes: Partial<IStyle>,
+    label?: string,
+  ): void {
+    this.execute(new StyleCommand(element, changes, label));
+  }
+
+  // ── Transactions ──
+
+  /**
+   * Open a transaction. Everything recorded until the matching
+   * `commitTransaction()` becomes a single undo step. Nested transactions
+   * are folded into the outermost one.
+   */
+  beginTransaction(label = "Edit"): void {
+    if (this._transactionDepth === 0) {
+      this._transaction = new CompositeCommand(label);
+    }
+    this._transactionDepth++;
+  }
+
+  /**
+   * Close the current transaction. When the outermost transaction closes,
+   * its commands are recorded as one step (nothing is recorded if empty).
+   */
+  commitTransaction(): void {
+    if (this._transactionDepth === 0) {
+      throw new Error("CommandHistory: no transaction to commit");
+    }
+    this._transactionDepth--;
+    if (this._transactionDepth > 0) return;
+
+    const transaction = this._transaction as CompositeCommand;
+    this._transaction = null;
+    if (transaction.commands.length === 0) return;
+    this._canMerge = false;
+    this.record(transaction);
+    this._canMerge = false;
+  }
+
+  /**
+   * Abort the open transaction (including any outer ones), reverting every
+   * change recorded in it.
+   */
+  cancelTransaction(): void {
+    if (this._transactionDepth === 0) {
+      throw new Error("CommandHistory: no transaction to cancel");
+    }
+    const transaction = this._transaction as CompositeCommand;
+    this._transaction = null;
+    this._transactionDepth = 0;
+    this._apply(() => transaction.undo());
+  }
+
+  /**
+   * Run `fn` inside a transaction. The transaction is committed when `fn`
+   * returns and cancelled (then the error rethrown) if it throws.
+   */
+  transaction<T>(label: string, fn: () => T): T {
+    this.beginTransaction(label);
+    let result: T;
+    try {
+      result = fn();
+    } catch (err) {
+      if (this._transactionDepth > 0) this.cancelTransaction();
+      throw err;
+    }
+    this.commitTransaction();
+    return result;
+  }
+
+  // ── Undo / Redo ──
+
+  /**
+   * Revert the last step.
+   * @returns The undone command, or null if there was nothing to undo.
+   */
+  undo(): ICommand | null {
+    this._assertNoTransaction("undo");
+    const command = this._undoStack.pop();
+    if (!command) return null;
+    this._apply(() => command.undo());
+    this._redoStack.push(command);
+    this._canMerge = false;
+    this._emitChange("undo", command);
+    return command;
+  }
+
+  /**
+   * Re-apply the last undone step.
+   * @returns The redone command, or null if there was nothing to redo.
+   */
+  redo(): ICommand | null {
+    this._assertNoTransaction("redo");
+    const command = this._redoStack.pop();
+    if (!command) return null;
+    this._apply(() => command.redo());
+    this._undoStack.push(command);
+    this._canMerge = false;
+    this._emitChange("redo", command);
+    return command;
+  }
+
+  /** Drop all undo and redo steps. */
+  clear(): void {
+    this._assertNoTransaction("clear");
+    this._undoStack.length = 0;
+    this._redoStack.length = 0;
+    this._canMerge = false;
+    this._emitChange("clear", null);
+  }
+
+  // ── Drag Integration ──
+
+  /**
+   * Record drag moves performed by a DragManager. All moves of one drag
+   * gesture merge into a single "Move" step.
+   * @returns A function that stops tracking.
+   */
+  trackDrags(dragManager: DragManager): () => void {
+    const starts = new Map<
+      IElement,
+      { x: number; y: number; session: number }
+    >();
+
+    const onStart = (e: IDragEvent) => {
+      starts.set(e.currentItem, {
+        x: e.currentItem.x,
+        y: e.currentItem.y,
+        session: ++this._dragSession,
+      });
+    };
+    const onMove = (e: IDragEvent) => {
+      const el = e.currentItem;
+      const start = starts.get(el);
+      // DragManager only moves parented elements
+      if (!start || !el.parent) return;
+      const fromX = el.x - e.dx;
+      const fromY = el.y - e.dy;
+      if (fromX === el.x && fromY === el.y) return;
+      this.record(new MoveCommand(el, fromX, fromY, el.x, el.y, start.session));
+    };
+    const onEnd = (e: IDragEvent) => {
+      starts.delete(e.currentItem);
+    };
+
+    dragManager.on("dragstart", onStart);
+    dragManager.on("dragmove", onMove);
+    dragManager.on("dragend", onEnd);
+    return () => {
+      dragManager.off("dragstart", onStart);
+      dragManager.off("dragmove", onMove);
+      dragManager.off("dragend", onEnd);
+    };
+  }
+
+  // ── Internal helpers ──
+
+  private _apply(fn: () => void): void {
+    const wasApplying = this._applying;
+    this._applying = true;
+    try {
+      fn();
+    } finally {
+      this._applying = wasApplying;
+    }
+  }
+
+  private _assertNoTransaction(action: string): void {
+    if (this._transactionDepth > 0) {
+      throw new Error(
+        `CommandHistory: cannot ${action} while a transaction is open`,
+      );
+    }
+  }
+
+  private _emitChange(
+    action: IHistoryChangeEvent["action"],
+    command: ICommand | null,
+  ): void {
+    const event: IHistoryChangeEvent = {
+      type: "change",
+      action,
+      command,
+      canUndo: this.canUndo,
+      canRedo: this.canRedo,
+    };
+    this.emit("change", event);
+  }
+}
@@ -0,0 +1,405 @@
+/**
+ * Commands — Reversible scene mutations recorded by CommandHistory.
+ *
+ * Each command captures enough state to apply (`redo`) and revert (`undo`)
+ * one change. Commands are created *after* their change is known, so
+ * `redo()` can also be used to perform the change the first time.
+ *
+ * @module History
+ */
+
+import type { IContainer } from "../core/Container";
+import type { IElement } from "../core/Element";
+import type { IStyle } from "../layout/Style";
+
+// ── ICommand Interface ──
+
+export interface ICommand {
+  /** Human-readable description, e.g. for "Undo Move" menu items. */
+  readonly label: string;
+  /** Apply the change (again). */
+  redo(): void;
+  /** Revert the change. */
+  undo(): void;
+  /**
+   * Try to absorb a command recorded immediately after this one.
+   * Return true if `next` was merged and should not be recorded separately.
+   */
+  merge?(next: ICommand): boolean;
+}
+
+// ── Property Changes ──
+
+/**
+ * Sets a single property on any object (element positions, alpha, text, ...).
+ */
+export class PropertyCommand<T extends object, K extends keyof T>
+  implements ICommand
+{
+  readonly label: string;
+  readonly target: T;
+  readonly key: K;
+  readonly oldValue: T[K];
+  readonly newValue: T[K];
+
+  constructor(target: T, key: K, newValue: T[K], label?: string) {
+    this.target = target;
+    this.key = key;
+    this.oldValue = target[key];
+    this.newValue = newValue;
+    this.label = label ?? `Set ${String(key)}`;
+  }
+
+  redo(): void {
+    this.target[this.key] = this.newValue;
+  }
+
+  undo(): void {
+    this.target[this.key] = this.oldValue;
+  }
+}
+
+/**
+ * Merges partial style changes via `updateStyle`, restoring the previous
+ * values of the touched keys on undo.
+ */
+export class StyleCommand implements ICommand {
+  readonly label: string;
+  readonly element: IElement;
+  private readonly _changes: Partial<IStyle>;
+  private readonly _previous: Partial<IStyle>;
+
+  constructor(
+    element: IElement,
+    changes: Partial<IStyle>,
+    label = "Update Style",
+  ) {
+    this.element = element;
+    this.label = label;
+    this._changes = { ...changes };
+    const previous: Record<string, unknown> = {};
+    for (const key of Object.keys(changes)) {
+      previous[key] = element.style[key as keyof IStyle];
+    }
+    this._previous = previous as Partial<IStyle>;
+  }
+
+  redo(): void {
+    this.element.updateStyle(this._changes);
+  }
+
+  undo(): void {
+    this.element.updateStyle(this._previous);
+  }
+}
+
+/**
+ * Moves an element to a new position. Consecutive moves that share a
+ * non-null `mergeKey` (e.g. the moves of one drag gesture) collapse into a
+ * single command spanning the first start and the last end position.
+ */
+export class MoveCommand implements ICommand {
+  readonly label: string;
+  readonly element: IElement;
+  readonly fromX: number;
+  readonly fromY: number;
+  toX: number;
+  toY: number;
+  readonly mergeKey: unknown;
+
+  constructor(
+    element: IElement,
+    fromX: number,
+    fromY: number,
+    toX: number,
+    toY: number,
+    mergeKey: unknown = null,
+    label = "Move",
+  ) {
+    this.element = element;
+    this.fromX = fromX;
+    this.fromY = fromY;
+    this.toX = toX;
+    this.toY = toY;
+    this.mergeKey = mergeKey;
+    this.label = label;
+  }
+
+  redo(): void {
+    this.element.x = this.toX;
+    this.element.y = this.toY;
+  }
+
+  undo(): void {
+    this.element.x = this.fromX;
+    this.element.y = this.fromY;
+  }
+
+  merge(next: ICommand): boolean {
+    if (
+      !(next instanceof MoveCommand) ||
+      next.element !== this.element ||
+      this.mergeKey === null ||
+      next.mergeKey !== this.mergeKey
+    ) {
+      return false;
+    }
+    this.toX = next.toX;
+    this.toY = next.toY;
+    return true;
+  }
+}
+
+// ── Hierarchy Changes ──
+
+/**
+ * Places `child` so that it ends up at `index` in `parent`, whether it is
+ * already a child (reorder) or not (insert). Compensates for
+ * `addChildAt` removing an existing child before re-inserting it.
+ */
+function placeChild(parent: IContainer, child: IElement, index: number): void {
+  const current = parent.children.indexOf(child);
+  if (current !== -1 && current < index) {
+    parent.addChildAt(child, index + 1);
+  } else {
+    parent.addChildAt(child, index);
+  }
+}
+
+/**
+ * Inserts a child (`addChild` / `addChildAt`). Undo removes it again and,
+ * if it was re-parented, restores it into its previous parent.
+ */
+export class AddChildCommand implements ICommand {
+  readonly label: string;
+  readonly parent: IContainer;
+  readonly child: IElement;
+  private readonly _index: number;
+  private readonly _oldParent: IContainer | null;
+  private readonly _oldIndex: number;
+
+  /**
+   * @param index - Target index; defaults to the end of the child list.
+   */
+  constructor(
+    parent: IContainer,
+    child: IElement,
+    index?: number,
+    label = "Add Child",
+  ) {
+    this.parent = parent;
+    this.child = child;
+    this.label = label;
+    this._oldParent = child.parent as IContainer | null;
+    this._oldIndex = this._oldParent
+      ? this._oldParent.children.indexOf(child)
+      : -1;
+    // Resolve the final position the same way Container.addChildAt does
+    const length = parent.children.length;
+    const requested = Math.max(0, Math.min(index ?? length, length));
+    const current = this._oldParent === parent ? this._oldIndex : -1;
+    this._index =
+      current !== -1 && current < requested ? requested - 1 : requested;
+  }
+
+  redo(): void {
+    placeChild(this.parent, this.child, this._index);
+  }
+
+  undo(): void {
+    if (this._oldParent) {
+      placeChild(this._oldParent, this.child, this._oldIndex);
+    } else {
+      this.parent.removeChild(this.child);
+    }
+  }
+}
+
+/**
+ * Removes a child. Undo re-inserts it at its original index.
+ */
+export class RemoveChildCommand implements ICommand {
+  readonly label: string;
+  readonly parent: IContainer;
+  readonly child: IElement;
+  private readonly _index: number;
+
+  constructor(parent: IContainer, child: IElement, label = "Remove Child") {
+    this.parent = parent;
+    this.child = child;
+    this.label = label;
+    this._index = parent.children.indexOf(child);
+  }
+
+  redo(): void {
+    this.parent.removeChild(this.child);
+  }
+
+  undo(): void {
+    if (this._index !== -1) placeChild(this.parent, this.child, this._index);
+  }
+}
+
+/**
+ * Changes z-order: moves a child to a new index among its siblings and/or
+ * assigns a new `zIndex`.
+ */
+export class ReorderCommand implements ICommand {
+  readonly label: string;
+  readonly element: IElement;
+  private readonly _parent: IContainer | null;
+  private readonly _oldIndex: number;
+  private readonly _newIndex: number;
+  private readonly _oldZIndex: number;
+  private readonly _newZIndex: number;
+
+  /**
+   * @param index - New sibling index, or null to keep the current one.
+   * @param zIndex - New zIndex, or null to keep the current one.
+   */
+  constructor(
+    element: IElement,
+    index: number | null,
+    zIndex: number | null = null,
+    label = "Reorder",
+  ) {
+    this.element = element;
+    this.label = label;
+    this._parent = element.parent as IContainer | null;
+    this._oldIndex = this._parent ? this._parent.children.indexOf(element) : -1;
+    const last = this._parent ? this._parent.children.length - 1 : -1;
+    this._newIndex =
+      index === null ? this._oldIndex : Math.max(0, Math.min(index, last));
+    this._oldZIndex = element.zIndex;
+    this._newZIndex = zIndex ?? element.zIndex;
+  }
+
+  redo(): void {
+    this.element.zIndex = this._newZIndex;
+    if (this._parent && this._newIndex !== -1) {
+      placeChild(this._parent, this.element, this._newIndex);
+    }
+  }
+
+  undo(): void {
+    this.element.zIndex = this._oldZIndex;
+    if (this._parent && this._oldIndex !== -1) {
+      placeChild(this._parent, this.element, this._oldIndex);
+    }
+  }
+}
+
+// ── Text Edits ──
+
+/** Text and selection of an editable text element. */
+export interface ITextEditState {
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+/**
+ * Replaces the text and selection of an editable text element (see
+ * `TextInput`). Consecutive edits of the same mergeable kind collapse into
+ * one step while each starts from a collapsed caret where the previous one
+ * left it, within `mergeWindow` milliseconds.
+ */
+export class TextEditCommand implements ICommand {
+  readonly label: string;
+  readonly target: ITextEditState;
+  readonly before: ITextEditState;
+  after: ITextEditState;
+  /** Whether later edits may merge into this one (typing, single deletes). */
+  readonly mergeable: boolean;
+  /** Time of the latest merged edit, in milliseconds. */
+  time: number;
+  readonly mergeWindow: number;
+
+  constructor(
+    target: ITextEditState,
+    before: ITextEditState,
+    after: ITextEditState,
+    label = "Typing",
+    mergeable = false,
+    time = 0,
+    mergeWindow = 1000,
+  ) {
+    this.target = target;
+    this.before = { ...before };
+    this.after = { ...after };
+    this.label = label;
+    this.mergeable = mergeable;
+    this.time = time;
+    this.mergeWindow = mergeWindow;
+  }
+
+  redo(): void {
+    this._apply(this.after);
+  }
+
+  undo(): void {
+    this._apply(this.before);
+  }
+
+  merge(next: ICommand): boolean {
+    if (
+      !(next instanceof TextEditCommand) ||
+      next.target !== this.target ||
+      !this.mergeable ||
+      !next.mergeable ||
+      next.label !== this.label ||
+      next.time - this.time > this.mergeWindow ||
+      next.before.text !== this.after.text ||
+      next.before.selectionStart !== this.after.selectionEnd ||
+      next.before.selectionEnd !== this.after.selectionEnd
+    ) {
+      return false;
+    }
+    this.after = { ...next.after };
+    this.time = next.time;
+    return true;
+  }
+
+  private _apply(state: ITextEditState): void {
+    // Text first, so the selection is clamped against the new length
+    this.target.text = state.text;
+    this.target.selectionStart = state.selectionStart;
+    this.target.selectionEnd = state.selectionEnd;
+  }
+}
+
+// ── Grouping ──
+
+/**
+ * A group of commands applied and reverted as one step (a transaction).
+ */
+export class CompositeCommand implements ICommand {
+  readonly label: string;
+  private readonly _commands: ICommand[] = [];
+
+  constructor(label: string) {
+    this.label = label;
+  }
+
+  /** The grouped commands, in the order they were recorded. */
+  get commands(): ReadonlyArray<ICommand> {
+    return this._commands;
+  }
+
+  /** Append a command, merging it into the previous one when possible. */
+  add(command: ICommand): void {
+    const last = this._commands[this._commands.length - 1];
+    if (last?.merge?.(command)) return;
+    this._commands.push(command);
+  }
+
+  redo(): void {
+    for (const command of this._commands) command.redo();
+  }
+
+  undo(): void {
+    for (let i = this._commands.length - 1; i >= 0; i--) {
+      this._commands[i].undo();
+    }
+  }
+}
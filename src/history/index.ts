@@ -0,0 +1,21 @@
+/**
+ * History module — Undo/redo command history for Arena-2D.
+ * @module History
+ */
+
+export type { ICommand, ITextEditState } from "./commands";
+export {
+  PropertyCommand,
+  StyleCommand,
+  MoveCommand,
+  AddChildCommand,
+  RemoveChildCommand,
+  ReorderCommand,
+  CompositeCommand,
+  TextEditCommand,
+} from "./commands";
+export type {
+  ICommandHistoryOptions,
+  IHistoryChangeEvent,
+} from "./CommandHistory";
+export { CommandHistory } from "./CommandHistory";
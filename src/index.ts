@@ -33,7 +33,7 @@ export { EventEmitter } from "./events/EventEmitter";
 
 // --- Layer 3: Element Base & Dirty Flagging ---
 export { DirtyFlags } from "./core/DirtyFlags";
-export type { IElement } from "./core/Element";
+export type { IElement, MaskMode } from "./core/Element";
 export { Element } from "./core/Element";
 export { ShapeElement } from "./elements/ShapeElement";
 export { GeometryElement } from "./elements/GeometryElement";
@@ -53,6 +53,32 @@ export type {
   IRenderTextStyle,
 } from "./rendering/Arena2DContext";
 export { Arena2DContext, buildFontString } from "./rendering/Arena2DContext";
+export type {
+  IBlurFilter,
+  IColorAdjustFilter,
+  IColorMatrixFilter,
+  IDropShadowFilter,
+  IFilter,
+  IFilterPadding,
+  IGlowFilter,
+} from "./rendering/Filters";
+export {
+  applyColorMatrix,
+  expandFilterBounds,
+  getFilterPadding,
+  toCanvasFilter,
+} from "./rendering/Filters";
+export type {
+  IGradientStop,
+  FillUnits,
+  ILinearGradientFill,
+  IRadialGradientFill,
+  IConicGradientFill,
+  IPatternFill,
+  IFill,
+  ShapePaint,
+} from "./rendering/Fills";
+export { createFillStyle, isFill } from "./rendering/Fills";
 
 // --- Layer 7: Scene & Layering System ---
 export type { IScene } from "./core/Scene";
@@ -68,11 +94,21 @@ export type {
   LookAtOptions,
   ViewOptions,
   PanTrigger,
+  ICameraAnimationOptions,
+  ICameraTarget,
+  IFlyToOptions,
+  ICameraEvent,
 } from "./core/View";
 export { View } from "./core/View";
 
-// --- Layer 8: Layout Engine (Flex & Anchor) ---
-export type { LayoutUnit, IStyle } from "./layout/Style";
+// --- Layer 8: Layout Engine (Flex, Grid & Anchor) ---
+export type {
+  LayoutUnit,
+  IStyle,
+  GridTrack,
+  GridPlacement,
+  GridAlign,
+} from "./layout/Style";
 export {
   createDefaultStyle,
   resolveUnit,
@@ -80,6 +116,12 @@ export {
 } from "./layout/Style";
 export type { LayoutData } from "./layout/LayoutResolver";
 export { resolveLayout, getLayoutData } from "./layout/LayoutResolver";
+export type {
+  ILayoutTransition,
+  ILayoutTransitionState,
+  ILayoutRect,
+} from "./layout/LayoutTransition";
+export { getLayoutTransition, isExiting } from "./layout/LayoutTransition";
 
 // --- Interaction (Helpers for Layer 4+, full system in Layer 5/7) ---
 export { resolvePointerPosition } from "./core/Interaction";
@@ -93,6 +135,31 @@ export type {
 export { InteractionManager } from "./interaction/InteractionManager";
 export type { ISpatialEntry } from "./interaction/SpatialHashGrid";
 export { SpatialHashGrid } from "./interaction/SpatialHashGrid";
+export type {
+  MarqueeMode,
+  ISelectionOptions,
+  ISelectionChangeEvent,
+  IMarqueeEvent,
+} from "./interaction/SelectionManager";
+export { SelectionManager } from "./interaction/SelectionManager";
+export type { IMarqueeOverlayOptions } from "./interaction/MarqueeOverlay";
+export { MarqueeOverlay } from "./interaction/MarqueeOverlay";
+export type {
+  ResizeHandle,
+  TransformHandle,
+  TransformAction,
+  ITransformerOptions,
+  ITransformFrame,
+  ITransformEvent,
+} from "./interaction/Transformer";
+export { Transformer } from "./interaction/Transformer";
+export type {
+  ISnapGuide,
+  ISnapLine,
+  ISnapResult,
+  ISnapperOptions,
+} from "./interaction/Snapper";
+export { Snapper } from "./interaction/Snapper";
 
 // --- Layer 10: Text & Text Layout ---
 export type { ITextStyle as IElementTextStyle } from "./elements/Text";
@@ -102,21 +169,64 @@ export type {
   ITextLayout,
   ILayoutTextStyle,
   ITextMeasureContext,
+  ITextRun,
+  ITextRunStyle,
+  ITextFragment,
+  IRichTextLine,
+  IRichTextLayout,
+  ITextLineBidi,
+  IVisualRun,
+  TextWhiteSpace,
+  TextOverflow,
 } from "./text/TextLayout";
 export {
   computeTextLayout,
+  computeRichTextLayout,
   computeMinContentWidth,
   computeMaxContentWidth,
   clearLayoutCache,
   setMeasureContext,
+  getCaretX,
+  getIndexAtX,
+  getSelectionRanges,
 } from "./text/TextLayout";
+export type { TextDirection, IBidiParagraph, IBidiRun } from "./text/bidi";
+export { hasRtl, resolveParagraph, reorderLine } from "./text/bidi";
+export {
+  graphemeBoundaries,
+  nextGraphemeBoundary,
+  prevGraphemeBoundary,
+  snapToGrapheme,
+} from "./text/graphemes";
 export { isFontReady, waitForFont } from "./text/fontReady";
+export type {
+  IPathGlyph,
+  TextPathAlign,
+  TextPathSide,
+} from "./elements/TextOnPath";
+export { TextOnPath } from "./elements/TextOnPath";
 
 // --- Layer 11: Text Input & IME ---
 export { TextInput } from "./elements/TextInput";
 
 // --- Layer 12: Image & Nine-Slice ---
 export { Image } from "./elements/Image";
+export { AnimatedSprite } from "./elements/AnimatedSprite";
+export type {
+  IAtlasAnimation,
+  IAtlasData,
+  IAtlasFrame,
+  IAtlasFrameData,
+  IAtlasFrameTagData,
+} from "./assets/TextureAtlas";
+export { TextureAtlas, drawAtlasFrame } from "./assets/TextureAtlas";
+export type {
+  AssetType,
+  IAssetDescriptor,
+  IAssetFetchAdapter,
+  IAssetProgressEvent,
+} from "./assets/AssetManager";
+export { AssetManager, defaultFetchAdapter } from "./assets/AssetManager";
 export { Rect } from "./elements/Rect";
 export { Circle as CircleElement } from "./elements/Circle";
 export { LineElement } from "./elements/LineElement";
@@ -128,8 +238,20 @@ export { BezierCurveElement } from "./elements/BezierCurveElement";
 export { PathElement } from "./elements/PathElement";
 
 // --- Layer 13: Scroll Containers ---
-export type { IScrollContainer } from "./elements/ScrollContainer";
+export type {
+  IScrollContainer,
+  IScrollIntoViewOptions,
+  IScrollSnap,
+  ScrollAlign,
+} from "./elements/ScrollContainer";
 export { ScrollContainer } from "./elements/ScrollContainer";
+export type {
+  VirtualItemBinder,
+  VirtualItemFactory,
+} from "./elements/VirtualContainer";
+export { VirtualContainer } from "./elements/VirtualContainer";
+export { VirtualList } from "./elements/VirtualList";
+export { VirtualGrid } from "./elements/VirtualGrid";
 
 // --- Animation: Tween System ---
 export type {
@@ -154,3 +276,54 @@ export {
   TweenManager,
   Tween,
 } from "./animation";
+
+// --- History (Undo/Redo) ---
+export type {
+  ICommand,
+  ITextEditState,
+  ICommandHistoryOptions,
+  IHistoryChangeEvent,
+} from "./history";
+export {
+  CommandHistory,
+  PropertyCommand,
+  StyleCommand,
+  MoveCommand,
+  AddChildCommand,
+  RemoveChildCommand,
+  ReorderCommand,
+  CompositeCommand,
+  TextEditCommand,
+} from "./history";
+
+// --- Serialization (Scene Save/Load) ---
+export type {
+  ISceneDocument,
+  ISerializedElement,
+  ISerializedMask,
+  IDeserializeOptions,
+  IElementTypeAdapter,
+  ISerializedGeometry,
+  ISerializedTransform,
+} from "./serialization";
+export {
+  SCENE_FORMAT,
+  SCENE_FORMAT_VERSION,
+  serializeScene,
+  deserializeScene,
+  serializeElement,
+  deserializeElement,
+  registerElementType,
+  serializeGeometry,
+  deserializeGeometry,
+  applyGeometry,
+} from "./serialization";
+
+// --- SVG Export ---
+export type { ISVGExportOptions } from "./rendering/SVGExporter";
+export { exportSceneToSVG, exportViewToSVG } from "./rendering/SVGExporter";
+export type { ISVGRenderingContextOptions } from "./rendering/SVGRenderingContext";
+export {
+  SVGRenderingContext,
+  SVGPathBuilder,
+} from "./rendering/SVGRenderingContext";
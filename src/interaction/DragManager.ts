@@ -5,11 +5,13 @@
  */
 
 import type { IElement } from "../core/Element";
-import { computeAABB } from "../math/aabb";
+import { EventEmitter } from "../events/EventEmitter";
+import { type IRect, computeAABB } from "../math/aabb";
 import { doPolygonsIntersect, getGlobalQuad } from "../math/collision";
 import { multiply } from "../math/matrix";
 import type { InteractionManager } from "./InteractionManager"; // Circular dep potentially, use loose type or interface?
 import type { IPointerEvent } from "./InteractionManager";
+import type { Snapper } from "./Snapper";
 
 export interface IDragEvent {
   type:
@@ -33,8 +35,11 @@ export interface IDragEvent {
  * Manages drag and drop interactions for elements.
  * Detects draggable elements, tracks pointer movement, and emits drag events
  * with proper target and drop target tracking.
+ *
+ * Every drag event is also emitted on the manager itself, so app-level
+ * services (e.g. CommandHistory) can observe all drags in a view.
  */
-export class DragManager {
+export class DragManager extends EventEmitter {
   /** Reference to the interaction manager. */
   // biome-ignore lint/suspicious/noExplicitAny: avoid circular dependency in type for now
   private _interactionManager: any;
@@ -52,6 +57,17 @@ export class DragManager {
   private _lastSceneY = 0;
   /** The current drop target element. */
   private _dropTarget: IElement | null = null;
+  /** Position of the dragged element when the drag started (snapping only). */
+  private _originX = 0;
+  private _originY = 0;
+  /** Scene AABB of the dragged element when the drag started (snapping only). */
+  private _originAABB: IRect | null = null;
+
+  /**
+   * Optional snapper. When set, dragged elements snap their edges and
+   * centers to its targets and the snapper shows the active guides.
+   */
+  snapper: Snapper | null = null;
 
   /** Minimum distance in pixels to initiate a drag. */
   private static readonly DRAG_THRESHOLD = 5;
@@ -61,6 +77,7 @@ export class DragManager {
    * @param interactionManager - The interaction manager instance.
    */
   constructor(interactionManager: any) {
+    super();
     this._interactionManager = interactionManager;
   }
 
@@ -125,6 +142,17 @@ export class DragManager {
     if (!this._dragTarget) return;
 
     this._isDragging = true;
+    this._originX = this._dragTarget.x;
+    this._originY = this._dragTarget.y;
+    this._originAABB = computeAABB(
+      {
+        x: 0,
+        y: 0,
+        width: this._dragTarget.width,
+        height: this._dragTarget.height,
+      },
+      this._dragTarget.worldMatrix,
+    );
 
     // Emit dragstart
     this._emit(this._dragTarget, "dragstart", event);
@@ -153,6 +181,14 @@ export class DragManager {
       moveX = 0;
     }
 
+    // Snapping works from the unsnapped position (origin + total pointer
+    // delta) so snap offsets never accumulate across moves
+    if (this.snapper && this._originAABB) {
+      const snapped = this._snapPosition(event);
+      moveX = snapped.x - this._dragTarget.x;
+      moveY = snapped.y - this._dragTarget.y;
+    }
+
     // Move the element
     // Note: We simply add the delta.
     if (this._dragTarget.parent) {
@@ -166,6 +202,36 @@ export class DragManager {
     this._checkDropTarget(event);
   }
 
+  /**
+   * Snapped position of the dragged element for the current pointer.
+   * @private
+   */
+  private _snapPosition(event: IPointerEvent): { x: number; y: number } {
+    const target = this._dragTarget as IElement;
+    const start = this._originAABB as IRect;
+    const axes = {
+      x: target.dragConstraint !== "y",
+      y: target.dragConstraint !== "x",
+    };
+    const totalX = axes.x ? event.sceneX - this._dragStartX : 0;
+    const totalY = axes.y ? event.sceneY - this._dragStartY : 0;
+
+    const snap = (this.snapper as Snapper).snapRect(
+      {
+        x: start.x + totalX,
+        y: start.y + totalY,
+        width: start.width,
+        height: start.height,
+      },
+      [target],
+      axes,
+    );
+    return {
+      x: this._originX + totalX + snap.dx,
+      y: this._originY + totalY + snap.dy,
+    };
+  }
+
   /**
    * Detects and updates the current drop target.
    * @private
@@ -292,6 +358,8 @@ export class DragManager {
    * @private
    */
   private _cleanup(): void {
+    if (this._originAABB) this.snapper?.clearGuides();
+    this._originAABB = null;
     this._dragTarget = null;
     this._isDragging = false;
     this._dropTarget = null;
@@ -334,5 +402,6 @@ export class DragManager {
       // biome-ignore lint/suspicious/noExplicitAny: generic emitter
       (target as any).emit(type, event);
     }
+    this.emit(type, event);
   }
 }
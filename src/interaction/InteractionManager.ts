@@ -505,6 +505,22 @@ export class InteractionManager implements IInteractionManager {
     return false;
   }
 
+  /**
+   * Whether the mask of an element or any of its ancestors hides a point.
+   */
+  private _isMaskedOut(
+    element: IElement,
+    sceneX: number,
+    sceneY: number,
+  ): boolean {
+    let current: IElement | null = element;
+    while (current) {
+      if (current.isMaskedOut(sceneX, sceneY)) return true;
+      current = current.parent;
+    }
+    return false;
+  }
+
   private _updateSpatialEntry(element: IElement): void {
     if (element.interactive && element.visible) {
       const aabb = computeAABB(
@@ -611,6 +627,7 @@ export class InteractionManager implements IInteractionManager {
         }
 
         if (filter && !filter(el)) continue;
+        if (this._isMaskedOut(el, sceneX, sceneY)) continue;
         elements.push(el);
       }
     }
@@ -0,0 +1,98 @@
+/**
+ * MarqueeOverlay — Paints a SelectionManager's marquee rectangle.
+ *
+ * The selection manager only tracks the marquee; this element draws it in
+ * scene space while a marquee gesture is active. Add it to the scene root
+ * above the content so the rectangle is visible.
+ *
+ * @example
+ * ```typescript
+ * const selection = new SelectionManager(view);
+ * scene.root.addChild(new MarqueeOverlay(view, selection));
+ * ```
+ */
+
+import { DirtyFlags } from "../core/DirtyFlags";
+import { Element } from "../core/Element";
+import { identity, invert, transformPoint } from "../math/matrix";
+import type { IArena2DContext } from "../rendering/Arena2DContext";
+import type { SelectionManager } from "./SelectionManager";
+
+// ── Types ──
+
+export interface IMarqueeOverlayOptions {
+  /** Rectangle fill. Default: `"rgba(0, 120, 255, 0.1)"`. */
+  fillColor?: string;
+  /** Rectangle outline. Default: `"#0078ff"`. */
+  strokeColor?: string;
+  /** Outline width in screen pixels (divided by the view zoom). Default: `1`. */
+  lineWidth?: number;
+}
+
+/** Minimal view shape needed by the MarqueeOverlay (avoids circular imports). */
+interface IMarqueeOverlayViewRef {
+  readonly zoom: number;
+}
+
+// ── MarqueeOverlay ──
+
+export class MarqueeOverlay extends Element {
+  fillColor: string;
+  strokeColor: string;
+  lineWidth: number;
+
+  private _view: IMarqueeOverlayViewRef;
+  private _selection: SelectionManager;
+  private _onMarquee: () => void;
+
+  constructor(
+    view: IMarqueeOverlayViewRef,
+    selection: SelectionManager,
+    options: IMarqueeOverlayOptions = {},
+    id?: string,
+  ) {
+    super(id);
+    this._view = view;
+    this._selection = selection;
+    this.interactive = false;
+    this.fillColor = options.fillColor ?? "rgba(0, 120, 255, 0.1)";
+    this.strokeColor = options.strokeColor ?? "#0078ff";
+    this.lineWidth = options.lineWidth ?? 1;
+
+    this._onMarquee = () => this.invalidate(DirtyFlags.Visual);
+    selection.on("marqueestart", this._onMarquee);
+    selection.on("marqueemove", this._onMarquee);
+    selection.on("marqueeend", this._onMarquee);
+  }
+
+  // ── Rendering ──
+
+  override paint(ctx: IArena2DContext): void {
+    const rect = this._selection.marquee;
+    if (!rect) return;
+    const toLocal = invert(this.worldMatrix) ?? identity();
+    const right = rect.x + rect.width;
+    const bottom = rect.y + rect.height;
+    const points = [
+      transformPoint(toLocal, rect.x, rect.y),
+      transformPoint(toLocal, right, rect.y),
+      transformPoint(toLocal, right, bottom),
+      transformPoint(toLocal, rect.x, bottom),
+    ];
+    const zoom = this._view.zoom > 0 ? this._view.zoom : 1;
+    ctx.drawPolygon(points, {
+      fillColor: this.fillColor,
+      strokeColor: this.strokeColor,
+      lineWidth: this.lineWidth / zoom,
+    });
+  }
+
+  // ── Lifecycle ──
+
+  override destroy(): void {
+    this._selection.off("marqueestart", this._onMarquee);
+    this._selection.off("marqueemove", this._onMarquee);
+    this._selection.off("marqueeend", this._onMarquee);
+    super.destroy();
+  }
+}
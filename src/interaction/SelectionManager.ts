@@ -0,0 +1,366 @@
+/**
+ * SelectionManager — Selection model with click and marquee selection.
+ *
+ * Sits on top of a view's InteractionManager: clicks are resolved with
+ * `hitTest`, and marquee (rubber-band) rectangles drawn in scene space are
+ * resolved with a spatial-hash broad phase (`queryAABB`) followed by a
+ * quad-vs-quad narrow phase (`getGlobalQuad` / `doPolygonsIntersect`), so
+ * rotated and scaled elements are matched precisely.
+ *
+ * - Click selects the element under the pointer (clearing the rest).
+ * - Shift/Ctrl/Meta + click toggles it.
+ * - Dragging on empty space draws a marquee; with a modifier held the
+ *   marquee adds to the existing selection.
+ *
+ * The manager tracks the marquee but does not draw it; add a
+ * `MarqueeOverlay` to the scene to paint it.
+ *
+ * @example
+ * ```typescript
+ * const selection = new SelectionManager(view, { marqueeMode: "contain" });
+ * selection.on("selectionchange", (e) => inspector.show(e.selected));
+ * ```
+ */
+
+import type { IElement } from "../core/Element";
+import { EventEmitter } from "../events/EventEmitter";
+import type { IRect } from "../math/aabb";
+import { doPolygonsIntersect, getGlobalQuad } from "../math/collision";
+import type { IInteractionManager } from "./InteractionManager";
+import type { ISpatialEntry } from "./SpatialHashGrid";
+
+// ── Types ──
+
+/**
+ * How the marquee rectangle matches elements:
+ * - `"intersect"` — any overlap selects the element.
+ * - `"contain"` — the element must lie fully inside the rectangle.
+ */
+export type MarqueeMode = "intersect" | "contain";
+
+export interface ISelectionOptions {
+  /** Marquee matching rule. Default: `"intersect"`. */
+  marqueeMode?: MarqueeMode;
+  /**
+   * Decides which elements can be selected. A click selects the nearest
+   * ancestor-or-self of the hit element that passes; the marquee selects
+   * every matching element that passes. Default: any element except the
+   * scene root.
+   */
+  filter?: (element: IElement) => boolean;
+  /**
+   * Distance in scene units the pointer must travel on empty space before a
+   * marquee starts. Default: `3`.
+   */
+  marqueeThreshold?: number;
+}
+
+export interface ISelectionChangeEvent {
+  type: "selectionchange";
+  /** The full selection after the change, in selection order. */
+  selected: IElement[];
+  added: IElement[];
+  removed: IElement[];
+}
+
+export interface IMarqueeEvent {
+  type: "marqueestart" | "marqueemove" | "marqueeend";
+  /** The marquee rectangle in scene space (normalized, non-negative size). */
+  rect: IRect;
+}
+
+/** Minimal view shape needed by the SelectionManager (avoids circular imports). */
+interface ISelectionViewRef {
+  readonly container: HTMLElement;
+  readonly interaction: IInteractionManager;
+  screenToScene(screenX: number, screenY: number): { x: number; y: number };
+}
+
+type SpatialElementEntry = ISpatialEntry & { element?: IElement };
+
+// ── SelectionManager ──
+
+export class SelectionManager extends EventEmitter {
+  /** Marquee matching rule used by subsequent marquee gestures. */
+  marqueeMode: MarqueeMode;
+  /** When false, pointer input is ignored (the API still works). */
+  enabled = true;
+
+  private _view: ISelectionViewRef;
+  private _filter: (element: IElement) => boolean;
+  private _marqueeThreshold: number;
+  private _selected = new Set<IElement>();
+
+  // Gesture state
+  private _pointerId: number | null = null;
+  /** Whether the current gesture started on an element or on empty space. */
+  private _gesture: "element" | "empty" | null = null;
+  private _startX = 0;
+  private _startY = 0;
+  private _marquee: IRect | null = null;
+  /** Selection at marquee start (kept when the marquee is additive). */
+  private _baseSelection: IElement[] = [];
+  /** Already-selected element clicked without modifier in a multi-selection. */
+  private _pendingCollapse: IElement | null = null;
+
+  private _onPointerDown: (e: PointerEvent) => void;
+  private _onPointerMove: (e: PointerEvent) => void;
+  private _onPointerUp: (e: PointerEvent) => void;
+
+  constructor(view: ISelectionViewRef, options: ISelectionOptions = {}) {
+    super();
+    this._view = view;
+    this.marqueeMode = options.marqueeMode ?? "intersect";
+    this._filter = options.filter ?? ((el) => el.parent !== null);
+    this._marqueeThreshold = options.marqueeThreshold ?? 3;
+
+    this._onPointerDown = this._handlePointerDown.bind(this);
+    this._onPointerMove = this._handlePointerMove.bind(this);
+    this._onPointerUp = this._handlePointerUp.bind(this);
+
+    const container = view.container;
+    container.addEventListener("pointerdown", this._onPointerDown);
+    container.addEventListener("pointermove", this._onPointerMove);
+    container.addEventListener("pointerup", this._onPointerUp);
+    container.addEventListener("pointercancel", this._onPointerUp);
+  }
+
+  // ── Selected Set ──
+
+  /** The selected elements, in selection order. */
+  get selected(): ReadonlySet<IElement> {
+    return this._selected;
+  }
+
+  get size(): number {
+    return this._selected.size;
+  }
+
+  /** The current marquee rectangle in scene space, or null. */
+  get marquee(): IRect | null {
+    return this._marquee;
+  }
+
+  isSelected(element: IElement): boolean {
+    return this._selected.has(element);
+  }
+
+  /**
+   * Select elements. Replaces the selection unless `additive` is true.
+   */
+  select(elements: IElement | Iterable<IElement>, additive = false): void {
+    const list = toList(elements);
+    if (additive) {
+      this._apply([...this._selected, ...list]);
+    } else {
+      this._apply(list);
+    }
+  }
+
+  /** Remove elements from the selection. */
+  deselect(elements: IElement | Iterable<IElement>): void {
+    const drop = new Set(toList(elements));
+    this._apply([...this._selected].filter((el) => !drop.has(el)));
+  }
+
+  /** Add the element if unselected, remove it if selected. */
+  toggle(element: IElement): void {
+    if (this._selected.has(element)) {
+      this.deselect(element);
+    } else {
+      this.select(element, true);
+    }
+  }
+
+  clear(): void {
+    this._apply([]);
+  }
+
+  /**
+   * Elements matching a scene-space rectangle, per `mode` (defaults to
+   * `marqueeMode`) and the selection filter. Only interactive, visible
+   * elements registered in the spatial hash are considered.
+   */
+  queryRect(rect: IRect, mode: MarqueeMode = this.marqueeMode): IElement[] {
+    const interaction = this._view.interaction;
+    interaction.updateSpatialHash();
+
+    const rectQuad = [
+      { x: rect.x, y: rect.y },
+      { x: rect.x + rect.width, y: rect.y },
+      { x: rect.x + rect.width, y: rect.y + rect.height },
+      { x: rect.x, y: rect.y + rect.height },
+    ];
+    const right = rect.x + rect.width;
+    const bottom = rect.y + rect.height;
+
+    const result: IElement[] = [];
+    for (const entry of interaction.spatialHash.queryAABB(rect)) {
+      const el = (entry as SpatialElementEntry).element;
+      if (!el?.interactive || !el.visible || !this._filter(el)) continue;
+
+      const quad = getGlobalQuad(
+        { x: 0, y: 0, width: el.width, height: el.height },
+        el.worldMatrix,
+      );
+      const matches =
+        mode === "contain"
+          ? quad.every(
+              (p) =>
+                p.x >= rect.x && p.x <= right && p.y >= rect.y && p.y <= bottom,
+            )
+          : doPolygonsIntersect(quad, rectQuad);
+      if (matches) result.push(el);
+    }
+    return result;
+  }
+
+  // ── Lifecycle ──
+
+  destroy(): void {
+    const container = this._view.container;
+    container.removeEventListener("pointerdown", this._onPointerDown);
+    container.removeEventListener("pointermove", this._onPointerMove);
+    container.removeEventListener("pointerup", this._onPointerUp);
+    container.removeEventListener("pointercancel", this._onPointerUp);
+    this._selected.clear();
+    this._marquee = null;
+    this._pointerId = null;
+    this._gesture = null;
+    this.removeAllListeners();
+  }
+
+  // ── Pointer Handlers ──
+
+  private _handlePointerDown(e: PointerEvent): void {
+    if (!this.enabled || e.button !== 0 || this._pointerId !== null) return;
+
+    const scene = this._view.screenToScene(e.clientX, e.clientY);
+    const modifier = e.shiftKey || e.ctrlKey || e.metaKey;
+    const interaction = this._view.interaction;
+    interaction.updateSpatialHash();
+    const hit = this._resolveSelectable(interaction.hitTest(scene.x, scene.y));
+
+    this._pointerId = e.pointerId;
+    this._startX = scene.x;
+    this._startY = scene.y;
+    this._pendingCollapse = null;
+
+    if (hit) {
+      if (modifier) {
+        this.toggle(hit);
+      } else if (!this._selected.has(hit)) {
+        this.select(hit);
+      } else if (this._selected.size > 1) {
+        // Keep the multi-selection so it can be dragged; collapse on click
+        this._pendingCollapse = hit;
+      }
+      this._gesture = "element";
+      return;
+    }
+
+    // Empty space: prepare a marquee
+    if (!modifier) this.clear();
+    this._gesture = "empty";
+    this._baseSelection = [...this._selected];
+  }
+
+  private _handlePointerMove(e: PointerEvent): void {
+    if (this._pointerId !== e.pointerId) return;
+    const scene = this._view.screenToScene(e.clientX, e.clientY);
+    const dx = scene.x - this._startX;
+    const dy = scene.y - this._startY;
+
+    if (this._gesture === "element") {
+      // Dragging a multi-selection keeps it intact
+      if (Math.hypot(dx, dy) > this._marqueeThreshold) {
+        this._pendingCollapse = null;
+      }
+      return;
+    }
+
+    if (!this._marquee) {
+      if (Math.hypot(dx, dy) <= this._marqueeThreshold) return;
+      this._marquee = this._rectFrom(scene.x, scene.y);
+      this._emitMarquee("marqueestart");
+    } else {
+      this._marquee = this._rectFrom(scene.x, scene.y);
+    }
+
+    this._apply([...this._baseSelection, ...this.queryRect(this._marquee)]);
+    this._emitMarquee("marqueemove");
+  }
+
+  private _handlePointerUp(e: PointerEvent): void {
+    if (this._pointerId !== e.pointerId) return;
+    this._pointerId = null;
+
+    if (this._pendingCollapse) {
+      this.select(this._pendingCollapse);
+      this._pendingCollapse = null;
+    }
+
+    if (this._marquee) {
+      this._emitMarquee("marqueeend");
+      this._marquee = null;
+    }
+    this._baseSelection = [];
+    this._gesture = null;
+  }
+
+  // ── Internal helpers ──
+
+  /** Walk up from the hit element to the first selectable ancestor-or-self. */
+  private _resolveSelectable(hit: IElement | null): IElement | null {
+    let current = hit;
+    while (current) {
+      if (this._filter(current)) return current;
+      current = current.parent;
+    }
+    return null;
+  }
+
+  private _rectFrom(x: number, y: number): IRect {
+    return {
+      x: Math.min(this._startX, x),
+      y: Math.min(this._startY, y),
+      width: Math.abs(x - this._startX),
+      height: Math.abs(y - this._startY),
+    };
+  }
+
+  /**
+   * Replace the selection with `next` (deduplicated, order kept) and emit
+   * `selectionchange` if anything changed.
+   */
+  private _apply(next: IElement[]): void {
+    const nextSet = new Set(next);
+    const added = [...nextSet].filter((el) => !this._selected.has(el));
+    const removed = [...this._selected].filter((el) => !nextSet.has(el));
+    if (added.length === 0 && removed.length === 0) return;
+
+    for (const el of removed) this._selected.delete(el);
+    for (const el of added) this._selected.add(el);
+
+    const event: ISelectionChangeEvent = {
+      type: "selectionchange",
+      selected: [...this._selected],
+      added,
+      removed,
+    };
+    this.emit("selectionchange", event);
+  }
+
+  private _emitMarquee(type: IMarqueeEvent["type"]): void {
+    if (!this._marquee) return;
+    const event: IMarqueeEvent = { type, rect: { ...this._marquee } };
+    this.emit(type, event);
+  }
+}
+
+function toList(elements: IElement | Iterable<IElement>): IElement[] {
+  if (Symbol.iterator in (elements as object)) {
+    return [...(elements as Iterable<IElement>)];
+  }
+  return [elements as IElement];
+}
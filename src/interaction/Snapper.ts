@@ -0,0 +1,394 @@
+/**
+ * Snapper — Snapping targets and smart alignment guides for drag and resize.
+ *
+ * Given a moving rectangle (or point) in scene space, the snapper finds the
+ * closest snap target on each axis within a screen-pixel threshold:
+ *
+ * - grid lines (`grid` spacing in scene units),
+ * - edges and centers of nearby elements, found through the interaction
+ *   spatial hash,
+ * - custom guide lines.
+ *
+ * The matching alignments become `activeGuides`, which the snapper paints
+ * while a snap is active. Attach it to a `DragManager` (`dragManager.snapper`)
+ * and/or a `Transformer` (`transformer.snapper`), and add it to the scene
+ * root above the content so the guides are visible.
+ *
+ * @example
+ * ```typescript
+ * const snapper = new Snapper(view, { grid: 10, threshold: 6 });
+ * scene.root.addChild(snapper);
+ * view.interaction.dragManager.snapper = snapper;
+ * ```
+ */
+
+import type { IElement } from "../core/Element";
+import { Element } from "../core/Element";
+import type { IRect } from "../math/aabb";
+import { identity, invert, transformPoint } from "../math/matrix";
+import type { IArena2DContext } from "../rendering/Arena2DContext";
+import type { IInteractionManager } from "./InteractionManager";
+import type { ISpatialEntry } from "./SpatialHashGrid";
+
+// ── Types ──
+
+/** A custom guide: a vertical line at `x = value` or a horizontal one at `y = value`. */
+export interface ISnapGuide {
+  axis: "x" | "y";
+  value: number;
+}
+
+/** An active alignment, in scene space. */
+export interface ISnapLine {
+  /** `"x"`: vertical line at `x = value`; `"y"`: horizontal line at `y = value`. */
+  axis: "x" | "y";
+  value: number;
+  /** Extent of the line along the other axis. */
+  start: number;
+  end: number;
+  source: "grid" | "element" | "guide";
+}
+
+export interface ISnapResult {
+  /** Offset to add to the moving geometry. */
+  dx: number;
+  dy: number;
+  snappedX: boolean;
+  snappedY: boolean;
+  lines: ISnapLine[];
+}
+
+export interface ISnapperOptions {
+  /** Grid spacing in scene units. `0` disables grid snapping. Default: `0`. */
+  grid?: number;
+  /** Snap to other elements' edges and centers. Default: `true`. */
+  elements?: boolean;
+  /** Custom guide lines. Default: none. */
+  guides?: ISnapGuide[];
+  /** Snap distance in screen pixels (divided by the view zoom). Default: `6`. */
+  threshold?: number;
+  /** How far around the moving geometry to look for elements, in screen pixels. Default: `600`. */
+  searchMargin?: number;
+  /** Guide line color. Default: `"#ff3d7f"`. */
+  guideColor?: string;
+}
+
+/** Minimal view shape needed by the Snapper (avoids circular imports). */
+interface ISnapperViewRef {
+  readonly zoom: number;
+  readonly interaction: IInteractionManager;
+  readonly frustum?: IRect | null;
+}
+
+type SpatialElementEntry = ISpatialEntry & { element?: IElement };
+
+interface ISnapTarget {
+  value: number;
+  source: ISnapLine["source"];
+  /** Extent of the target along the other axis (elements only). */
+  start?: number;
+  end?: number;
+}
+
+/** Values closer than this are treated as aligned when collecting guides. */
+const ALIGN_EPSILON = 1e-6;
+
+// ── Snapper ──
+
+export class Snapper extends Element {
+  /** Grid spacing in scene units (`0` = off). */
+  grid: number;
+  /** Whether element edges and centers are snap targets. */
+  snapToElements: boolean;
+  /** Custom guide lines. */
+  guides: ISnapGuide[];
+  /** Snap distance in screen pixels. */
+  threshold: number;
+  /** Search distance for element targets, in screen pixels. */
+  searchMargin: number;
+  /** When false, snap calls return zero offsets. */
+  enabled = true;
+
+  private _view: ISnapperViewRef;
+  private _guideColor: string;
+  private _activeGuides: ISnapLine[] = [];
+
+  constructor(
+    view: ISnapperViewRef,
+    options: ISnapperOptions = {},
+    id?: string,
+  ) {
+    super(id);
+    this._view = view;
+    this.interactive = false;
+    this.grid = options.grid ?? 0;
+    this.snapToElements = options.elements ?? true;
+    this.guides = options.guides ? [...options.guides] : [];
+    this.threshold = options.threshold ?? 6;
+    this.searchMargin = options.searchMargin ?? 600;
+    this._guideColor = options.guideColor ?? "#ff3d7f";
+  }
+
+  /** Alignments found by the last snap call (cleared when a gesture ends). */
+  get activeGuides(): ReadonlyArray<ISnapLine> {
+    return this._activeGuides;
+  }
+
+  clearGuides(): void {
+    this._activeGuides = [];
+  }
+
+  // ── Snapping ──
+
+  /**
+   * Snap a moving rectangle: its left/center/right edges against x targets
+   * and top/middle/bottom against y targets.
+   * @param exclude - Elements (and their descendants) that are not targets,
+   *   typically the ones being moved.
+   * @param axes - Which axes may snap. Default: both.
+   */
+  snapRect(
+    rect: IRect,
+    exclude: Iterable<IElement> = [],
+    axes: { x: boolean; y: boolean } = { x: true, y: true },
+  ): ISnapResult {
+    const xs = [rect.x, rect.x + rect.width / 2, rect.x + rect.width];
+    const ys = [rect.y, rect.y + rect.height / 2, rect.y + rect.height];
+    return this._snap(rect, xs, ys, exclude, axes);
+  }
+
+  /**
+   * Snap a single point (e.g. a resize handle).
+   * @param axes - Which axes may snap. Default: both.
+   */
+  snapPoint(
+    x: number,
+    y: number,
+    exclude: Iterable<IElement> = [],
+    axes: { x: boolean; y: boolean } = { x: true, y: true },
+  ): ISnapResult {
+    return this._snap({ x, y, width: 0, height: 0 }, [x], [y], exclude, axes);
+  }
+
+  // ── Rendering ──
+
+  override paint(ctx: IArena2DContext): void {
+    if (this._activeGuides.length === 0) return;
+    const toLocal = invert(this.worldMatrix) ?? identity();
+    const zoom = this._zoom();
+    const style = { strokeColor: this._guideColor, lineWidth: 1 / zoom };
+    for (const line of this._activeGuides) {
+      const a =
+        line.axis === "x"
+          ? transformPoint(toLocal, line.value, line.start)
+          : transformPoint(toLocal, line.start, line.value);
+      const b =
+        line.axis === "x"
+          ? transformPoint(toLocal, line.value, line.end)
+          : transformPoint(toLocal, line.end, line.value);
+      ctx.drawLine(a.x, a.y, b.x, b.y, style);
+    }
+  }
+
+  // ── Internal helpers ──
+
+  private _snap(
+    rect: IRect,
+    xs: number[],
+    ys: number[],
+    exclude: Iterable<IElement>,
+    axes: { x: boolean; y: boolean },
+  ): ISnapResult {
+    const result: ISnapResult = {
+      dx: 0,
+      dy: 0,
+      snappedX: false,
+      snappedY: false,
+      lines: [],
+    };
+    this._activeGuides = [];
+    if (!this.enabled) return result;
+
+    const zoom = this._zoom();
+    const threshold = this.threshold / zoom;
+    const { x: targetsX, y: targetsY } = this._collectTargets(
+      rect,
+      new Set(exclude),
+      zoom,
+    );
+
+    if (axes.x) {
+      const dx = bestOffset(xs, targetsX, this.grid, threshold);
+      if (dx !== null) {
+        result.dx = dx;
+        result.snappedX = true;
+      }
+    }
+    if (axes.y) {
+      const dy = bestOffset(ys, targetsY, this.grid, threshold);
+      if (dy !== null) {
+        result.dy = dy;
+        result.snappedY = true;
+      }
+    }
+
+    // Guides for every alignment that holds after snapping
+    const moved: IRect = {
+      x: rect.x + result.dx,
+      y: rect.y + result.dy,
+      width: rect.width,
+      height: rect.height,
+    };
+    const span = this._view.frustum ?? null;
+    if (result.snappedX) {
+      const values = xs.map((v) => v + result.dx);
+      result.lines.push(
+        ...alignmentLines("x", values, targetsX, this.grid, moved, span),
+      );
+    }
+    if (result.snappedY) {
+      const values = ys.map((v) => v + result.dy);
+      result.lines.push(
+        ...alignmentLines("y", values, targetsY, this.grid, moved, span),
+      );
+    }
+    this._activeGuides = result.lines;
+    return result;
+  }
+
+  private _collectTargets(
+    rect: IRect,
+    exclude: Set<IElement>,
+    zoom: number,
+  ): { x: ISnapTarget[]; y: ISnapTarget[] } {
+    const x: ISnapTarget[] = [];
+    const y: ISnapTarget[] = [];
+
+    for (const guide of this.guides) {
+      (guide.axis === "x" ? x : y).push({
+        value: guide.value,
+        source: "guide",
+      });
+    }
+
+    if (this.snapToElements) {
+      const margin = this.searchMargin / zoom;
+      const region: IRect = {
+        x: rect.x - margin,
+        y: rect.y - margin,
+        width: rect.width + margin * 2,
+        height: rect.height + margin * 2,
+      };
+      const interaction = this._view.interaction;
+      interaction.updateSpatialHash();
+      for (const entry of interaction.spatialHash.queryAABB(region)) {
+        const el = (entry as SpatialElementEntry).element;
+        if (!el?.visible || !el.parent || isExcluded(el, exclude)) continue;
+        const b = entry.aabb;
+        const right = b.x + b.width;
+        const bottom = b.y + b.height;
+        for (const value of [b.x, b.x + b.width / 2, right]) {
+          x.push({ value, source: "element", start: b.y, end: bottom });
+        }
+        for (const value of [b.y, b.y + b.height / 2, bottom]) {
+          y.push({ value, source: "element", start: b.x, end: right });
+        }
+      }
+    }
+    return { x, y };
+  }
+
+  private _zoom(): number {
+    return this._view.zoom > 0 ? this._view.zoom : 1;
+  }
+}
+
+// ── Module helpers ──
+
+function isExcluded(el: IElement, exclude: Set<IElement>): boolean {
+  let current: IElement | null = el;
+  while (current) {
+    if (exclude.has(current)) return true;
+    current = current.parent;
+  }
+  return false;
+}
+
+/** Smallest offset (by magnitude) that aligns any source with any target, or null. */
+function bestOffset(
+  sources: number[],
+  targets: ISnapTarget[],
+  grid: number,
+  threshold: number,
+): number | null {
+  let best: number | null = null;
+  const consider = (offset: number) => {
+    if (
+      Math.abs(offset) <= threshold &&
+      (best === null || Math.abs(offset) < Math.abs(best))
+    ) {
+      best = offset;
+    }
+  };
+  for (const s of sources) {
+    for (const t of targets) consider(t.value - s);
+    if (grid > 0) consider(Math.round(s / grid) * grid - s);
+  }
+  return best;
+}
+
+/** Guide lines for the targets that `values` line up with. */
+function alignmentLines(
+  axis: "x" | "y",
+  values: number[],
+  targets: ISnapTarget[],
+  grid: number,
+  moved: IRect,
+  span: IRect | null,
+): ISnapLine[] {
+  const ownStart = axis === "x" ? moved.y : moved.x;
+  const ownEnd = ownStart + (axis === "x" ? moved.height : moved.width);
+  // Grid and custom guides have no extent of their own: span the view
+  const fullStart = span ? (axis === "x" ? span.y : span.x) : ownStart;
+  const fullEnd = span
+    ? fullStart + (axis === "x" ? span.height : span.width)
+    : ownEnd;
+
+  const lines = new Map<string, ISnapLine>();
+  const add = (
+    value: number,
+    source: ISnapLine["source"],
+    start: number,
+    end: number,
+  ) => {
+    const key = `${source}:${value}`;
+    const line = lines.get(key);
+    if (line) {
+      line.start = Math.min(line.start, start);
+      line.end = Math.max(line.end, end);
+    } else {
+      lines.set(key, { axis, value, start, end, source });
+    }
+  };
+
+  for (const v of values) {
+    const tolerance = ALIGN_EPSILON * Math.max(1, Math.abs(v));
+    for (const t of targets) {
+      if (Math.abs(t.value - v) > tolerance) continue;
+      if (t.source === "element") {
+        add(
+          t.value,
+          "element",
+          Math.min(ownStart, t.start ?? ownStart),
+          Math.max(ownEnd, t.end ?? ownEnd),
+        );
+      } else {
+        add(t.value, t.source, fullStart, fullEnd);
+      }
+    }
+    if (grid > 0 && Math.abs(Math.round(v / grid) * grid - v) <= tolerance) {
+      add(Math.round(v / grid) * grid, "grid", fullStart, fullEnd);
+    }
+  }
+  return [...lines.values()];
+}
@@ -0,0 +1,714 @@
+/**
+ * Transformer — Interactive transform handles (gizmo) for selected elements.
+ *
+ * Draws a frame around its targets with eight resize handles, a rotation
+ * handle and a pivot marker, and turns pointer drags on them into changes
+ * of the targets' `x`/`y`, `width`/`height`, `rotation` and
+ * `pivotX`/`pivotY`. All pointer math happens in the targets' own
+ * coordinate spaces (via `worldMatrix` and `invert`), so handles follow
+ * elements nested in rotated, scaled or skewed parents.
+ *
+ * - One target: the frame is the element's own (possibly rotated/skewed)
+ *   rectangle, and resizing changes its `width`/`height`.
+ * - Several targets: the frame is the scene-space bounding box of all of
+ *   them; resizing scales every target about the same anchor.
+ * - Shift locks the aspect ratio while resizing and snaps rotation.
+ * - Alt resizes from the center.
+ * - With a `snapper`, resize handles of axis-aligned frames snap to grid,
+ *   element and guide lines.
+ *
+ * The transformer is itself an (non-interactive) Element. Add it to the
+ * scene root, above the content, so it paints in scene space.
+ *
+ * @example
+ * ```typescript
+ * const transformer = new Transformer(view);
+ * scene.root.addChild(transformer);
+ * transformer.bindSelection(selection);
+ * transformer.on("transformend", (e) => save(e.targets));
+ * ```
+ */
+
+import type { IElement } from "../core/Element";
+import { Element } from "../core/Element";
+import { computeAABB } from "../math/aabb";
+import {
+  type MatrixArray,
+  identity,
+  invert,
+  multiply,
+  rotate,
+  transformPoint,
+  translate,
+} from "../math/matrix";
+import type { IArena2DContext } from "../rendering/Arena2DContext";
+import type {
+  ISelectionChangeEvent,
+  SelectionManager,
+} from "./SelectionManager";
+import type { Snapper } from "./Snapper";
+
+// ── Types ──
+
+export type ResizeHandle = "nw" | "n" | "ne" | "e" | "se" | "s" | "sw" | "w";
+export type TransformHandle = ResizeHandle | "rotate" | "pivot";
+export type TransformAction = "resize" | "rotate" | "pivot";
+
+export interface ITransformerOptions {
+  /** Handle size in screen pixels. Default: `8`. */
+  handleSize?: number;
+  /** Distance of the rotation handle above the frame, in screen pixels. Default: `24`. */
+  rotateHandleOffset?: number;
+  /** Extra grab distance around handles, in screen pixels. Default: `4`. */
+  hitTolerance?: number;
+  /** Show and allow the rotation handle. Default: `true`. */
+  enableRotate?: boolean;
+  /** Show and allow dragging the pivot marker. Default: `true`. */
+  enablePivot?: boolean;
+  /** Smallest size (in frame units) resizing can shrink to. Default: `1`. */
+  minSize?: number;
+  /** Rotation increment (radians) while Shift is held. Default: 15°. */
+  rotationSnap?: number;
+  /** Frame and handle outline color. Default: `"#0d99ff"`. */
+  stroke?: string;
+  /** Handle fill color. Default: `"#ffffff"`. */
+  handleFill?: string;
+}
+
+/** The transformer frame: `matrix` maps frame coordinates (0..width, 0..height) to scene space. */
+export interface ITransformFrame {
+  matrix: MatrixArray;
+  width: number;
+  height: number;
+}
+
+export interface ITransformEvent {
+  type: "transformstart" | "transform" | "transformend";
+  action: TransformAction;
+  handle: TransformHandle;
+  targets: IElement[];
+}
+
+/** Minimal view shape needed by the Transformer (avoids circular imports). */
+interface ITransformerViewRef {
+  readonly container: HTMLElement;
+  readonly zoom: number;
+  screenToScene(screenX: number, screenY: number): { x: number; y: number };
+}
+
+/** Target state captured when a gesture starts; every move re-applies from it. */
+interface ITargetSnapshot {
+  element: IElement;
+  x: number;
+  y: number;
+  rotation: number;
+  scaleX: number;
+  scaleY: number;
+  skewX: number;
+  skewY: number;
+  pivotX: number;
+  pivotY: number;
+  width: number;
+  height: number;
+  local: MatrixArray;
+  world: MatrixArray;
+  parentWorld: MatrixArray;
+}
+
+interface IGesture {
+  pointerId: number;
+  handle: TransformHandle;
+  action: TransformAction;
+  startX: number;
+  startY: number;
+  frame: ITransformFrame;
+  frameInverse: MatrixArray;
+  pivot: { x: number; y: number };
+  snapshots: ITargetSnapshot[];
+}
+
+/** Direction of each resize handle from the frame center. */
+const RESIZE_HANDLES: Record<ResizeHandle, [number, number]> = {
+  nw: [-1, -1],
+  n: [0, -1],
+  ne: [1, -1],
+  e: [1, 0],
+  se: [1, 1],
+  s: [0, 1],
+  sw: [-1, 1],
+  w: [-1, 0],
+};
+
+/** Tolerance for treating a local delta as a pure axis-aligned scale. */
+const AXIS_EPSILON = 1e-4;
+
+// ── Transformer ──
+
+export class Transformer extends Element {
+  private _view: ITransformerViewRef;
+  private _targets: IElement[] = [];
+  private _gesture: IGesture | null = null;
+  /** Frame while a gesture is running (targets update on the next tick). */
+  private _liveFrame: ITransformFrame | null = null;
+  /** Scene-space rotation pivot for multi-target frames (null = center). */
+  private _groupPivot: { x: number; y: number } | null = null;
+
+  private _handleSize: number;
+  private _rotateHandleOffset: number;
+  private _hitTolerance: number;
+  private _enableRotate: boolean;
+  private _enablePivot: boolean;
+  private _minSize: number;
+  private _rotationSnap: number;
+  private _strokeColor: string;
+  private _handleFill: string;
+
+  private _onPointerDown: (e: PointerEvent) => void;
+  private _onPointerMove: (e: PointerEvent) => void;
+  private _onPointerUp: (e: PointerEvent) => void;
+
+  /**
+   * Optional snapper. When set, resize handles of axis-aligned frames snap
+   * to its targets and the snapper shows the active guides.
+   */
+  snapper: Snapper | null = null;
+
+  constructor(
+    view: ITransformerViewRef,
+    options: ITransformerOptions = {},
+    id?: string,
+  ) {
+    super(id);
+    this._view = view;
+    this.interactive = false;
+
+    this._handleSize = options.handleSize ?? 8;
+    this._rotateHandleOffset = options.rotateHandleOffset ?? 24;
+    this._hitTolerance = options.hitTolerance ?? 4;
+    this._enableRotate = options.enableRotate ?? true;
+    this._enablePivot = options.enablePivot ?? true;
+    this._minSize = options.minSize ?? 1;
+    this._rotationSnap = options.rotationSnap ?? Math.PI / 12;
+    this._strokeColor = options.stroke ?? "#0d99ff";
+    this._handleFill = options.handleFill ?? "#ffffff";
+
+    this._onPointerDown = this._handlePointerDown.bind(this);
+    this._onPointerMove = this._handlePointerMove.bind(this);
+    this._onPointerUp = this._handlePointerUp.bind(this);
+
+    // Capture phase: a grabbed handle must win over selection, drag and pan
+    const container = view.container;
+    container.addEventListener("pointerdown", this._onPointerDown, true);
+    container.addEventListener("pointermove", this._onPointerMove, true);
+    container.addEventListener("pointerup", this._onPointerUp, true);
+    container.addEventListener("pointercancel", this._onPointerUp, true);
+  }
+
+  // ── Targets ──
+
+  get targets(): ReadonlyArray<IElement> {
+    return this._targets;
+  }
+
+  /** Whether a handle is currently being dragged. */
+  get isTransforming(): boolean {
+    return this._gesture !== null;
+  }
+
+  /** Attach the transformer to `elements` (an empty list hides it). */
+  setTargets(elements: Iterable<IElement>): void {
+    this._cancelGesture();
+    this._targets = [...elements].filter((el) => el !== this);
+    this._groupPivot = null;
+  }
+
+  /**
+   * Follow a SelectionManager: the transformer targets whatever is selected.
+   * @returns A function that stops following.
+   */
+  bindSelection(selection: SelectionManager): () => void {
+    const onChange = (e: ISelectionChangeEvent) => this.setTargets(e.selected);
+    selection.on("selectionchange", onChange);
+    this.setTargets(selection.selected);
+    return () => selection.off("selectionchange", onChange);
+  }
+
+  // ── Geometry ──
+
+  /** The current frame in scene space, or null without targets. */
+  get frame(): ITransformFrame | null {
+    if (this._liveFrame) return this._liveFrame;
+    if (this._targets.length === 0) return null;
+
+    if (this._targets.length === 1) {
+      const el = this._targets[0];
+      return {
+        matrix: new Float32Array(el.worldMatrix),
+        width: el.width,
+        height: el.height,
+      };
+    }
+
+    let minX = Number.POSITIVE_INFINITY;
+    let minY = Number.POSITIVE_INFINITY;
+    let maxX = Number.NEGATIVE_INFINITY;
+    let maxY = Number.NEGATIVE_INFINITY;
+    for (const el of this._targets) {
+      const aabb = computeAABB(
+        { x: 0, y: 0, width: el.width, height: el.height },
+        el.worldMatrix,
+      );
+      minX = Math.min(minX, aabb.x);
+      minY = Math.min(minY, aabb.y);
+      maxX = Math.max(maxX, aabb.x + aabb.width);
+      maxY = Math.max(maxY, aabb.y + aabb.height);
+    }
+    return {
+      matrix: translate(minX, minY),
+      width: maxX - minX,
+      height: maxY - minY,
+    };
+  }
+
+  /** Scene position of the rotation pivot, or null without targets. */
+  get pivot(): { x: number; y: number } | null {
+    if (this._gesture?.action === "rotate") return this._gesture.pivot;
+    if (this._targets.length === 1) {
+      const el = this._targets[0];
+      return transformPoint(el.worldMatrix, el.pivotX, el.pivotY);
+    }
+    if (this._groupPivot) return this._groupPivot;
+    const frame = this.frame;
+    if (!frame) return null;
+    return transformPoint(frame.matrix, frame.width / 2, frame.height / 2);
+  }
+
+  /** Scene position of a handle, or null without targets. */
+  getHandlePosition(handle: TransformHandle): { x: number; y: number } | null {
+    const frame = this.frame;
+    if (!frame) return null;
+    if (handle === "pivot") return this.pivot;
+
+    const m = frame.matrix;
+    const { width: w, height: h } = frame;
+    if (handle === "rotate") {
+      // Offset outwards from the top edge, along the frame's local -Y axis
+      const top = transformPoint(m, w / 2, 0);
+      const len = Math.hypot(m[2], m[3]) || 1;
+      const offset = this._rotateHandleOffset / this._zoom();
+      return {
+        x: top.x - (m[2] * offset) / len,
+        y: top.y - (m[3] * offset) / len,
+      };
+    }
+    const [hx, hy] = RESIZE_HANDLES[handle];
+    return transformPoint(m, (w * (1 + hx)) / 2, (h * (1 + hy)) / 2);
+  }
+
+  /**
+   * The handle under a scene point, or null. Resize and rotation handles
+   * take precedence over the pivot marker.
+   */
+  hitTestHandle(sceneX: number, sceneY: number): TransformHandle | null {
+    if (!this.frame) return null;
+    const zoom = this._zoom();
+    const reach = (this._handleSize / 2 + this._hitTolerance) / zoom;
+
+    for (const handle of Object.keys(RESIZE_HANDLES) as ResizeHandle[]) {
+      const p = this.getHandlePosition(handle);
+      if (
+        p &&
+        Math.abs(p.x - sceneX) <= reach &&
+        Math.abs(p.y - sceneY) <= reach
+      ) {
+        return handle;
+      }
+    }
+    const candidates: TransformHandle[] = [];
+    if (this._enableRotate) candidates.push("rotate");
+    if (this._enablePivot) candidates.push("pivot");
+    for (const handle of candidates) {
+      const p = this.getHandlePosition(handle);
+      if (p && Math.hypot(p.x - sceneX, p.y - sceneY) <= reach) return handle;
+    }
+    return null;
+  }
+
+  // ── Rendering ──
+
+  override paint(ctx: IArena2DContext): void {
+    const frame = this.frame;
+    if (!frame) return;
+
+    // Handles are computed in scene space; undo our own transform
+    const toLocal = invert(this.worldMatrix) ?? identity();
+    const local = (p: { x: number; y: number }) =>
+      transformPoint(toLocal, p.x, p.y);
+    const zoom = this._zoom();
+    const lineWidth = 1 / zoom;
+    const size = this._handleSize / zoom;
+    const outline = { strokeColor: this._strokeColor, lineWidth };
+    const handleStyle = { ...outline, fillColor: this._handleFill };
+
+    const m = frame.matrix;
+    const { width: w, height: h } = frame;
+    ctx.drawPolygon(
+      [
+        transformPoint(m, 0, 0),
+        transformPoint(m, w, 0),
+        transformPoint(m, w, h),
+        transformPoint(m, 0, h),
+      ].map(local),
+      outline,
+    );
+
+    if (this._enableRotate) {
+      const top = local(transformPoint(m, w / 2, 0));
+      const knob = local(
+        this.getHandlePosition("rotate") as { x: number; y: number },
+      );
+      ctx.drawLine(top.x, top.y, knob.x, knob.y, outline);
+      ctx.drawCircle(knob.x, knob.y, size / 2, handleStyle);
+    }
+
+    for (const handle of Object.keys(RESIZE_HANDLES) as ResizeHandle[]) {
+      const p = local(
+        this.getHandlePosition(handle) as { x: number; y: number },
+      );
+      ctx.drawRect(p.x - size / 2, p.y - size / 2, size, size, handleStyle);
+    }
+
+    if (this._enablePivot) {
+      const p = local(this.pivot as { x: number; y: number });
+      ctx.drawCircle(p.x, p.y, size / 3, handleStyle);
+      ctx.drawLine(p.x - size, p.y, p.x + size, p.y, outline);
+      ctx.drawLine(p.x, p.y - size, p.x, p.y + size, outline);
+    }
+  }
+
+  // ── Lifecycle ──
+
+  override destroy(): void {
+    const container = this._view.container;
+    container.removeEventListener("pointerdown", this._onPointerDown, true);
+    container.removeEventListener("pointermove", this._onPointerMove, true);
+    container.removeEventListener("pointerup", this._onPointerUp, true);
+    container.removeEventListener("pointercancel", this._onPointerUp, true);
+    this._gesture = null;
+    this._liveFrame = null;
+    this._targets = [];
+    super.destroy();
+  }
+
+  // ── Pointer Handlers ──
+
+  private _handlePointerDown(e: PointerEvent): void {
+    if (this._gesture || e.button !== 0 || !this.visible) return;
+    const scene = this._view.screenToScene(e.clientX, e.clientY);
+    const handle = this.hitTestHandle(scene.x, scene.y);
+    if (!handle) return;
+
+    const frame = this.frame as ITransformFrame;
+    const frameInverse = invert(frame.matrix);
+    if (!frameInverse) return;
+
+    e.stopImmediatePropagation();
+    e.preventDefault();
+
+    const action: TransformAction =
+      handle === "rotate" ? "rotate" : handle === "pivot" ? "pivot" : "resize";
+    this._gesture = {
+      pointerId: e.pointerId,
+      handle,
+      action,
+      startX: scene.x,
+      startY: scene.y,
+      frame,
+      frameInverse,
+      pivot: this.pivot as { x: number; y: number },
+      snapshots: this._targets.map(snapshot),
+    };
+    this._emitTransform("transformstart");
+  }
+
+  private _handlePointerMove(e: PointerEvent): void {
+    const gesture = this._gesture;
+    if (!gesture || e.pointerId !== gesture.pointerId) return;
+    e.stopImmediatePropagation();
+
+    const scene = this._view.screenToScene(e.clientX, e.clientY);
+    switch (gesture.action) {
+      case "resize":
+        this._resize(gesture, scene.x, scene.y, e.shiftKey, e.altKey);
+        break;
+      case "rotate":
+        this._rotate(gesture, scene.x, scene.y, e.shiftKey);
+        break;
+      case "pivot":
+        this._movePivot(gesture, scene.x, scene.y);
+        break;
+    }
+    this._emitTransform("transform");
+  }
+
+  private _handlePointerUp(e: PointerEvent): void {
+    const gesture = this._gesture;
+    if (!gesture || e.pointerId !== gesture.pointerId) return;
+    e.stopImmediatePropagation();
+    this._emitTransform("transformend");
+    this._gesture = null;
+    this._liveFrame = null;
+    this.snapper?.clearGuides();
+  }
+
+  // ── Gestures ──
+
+  private _resize(
+    gesture: IGesture,
+    sceneX: number,
+    sceneY: number,
+    lockAspect: boolean,
+    fromCenter: boolean,
+  ): void {
+    const [hx, hy] = RESIZE_HANDLES[gesture.handle as ResizeHandle];
+    const { width: w, height: h } = gesture.frame;
+    const fm = gesture.frame.matrix;
+    let px = sceneX;
+    let py = sceneY;
+    if (
+      this.snapper &&
+      Math.abs(fm[1]) < AXIS_EPSILON &&
+      Math.abs(fm[2]) < AXIS_EPSILON
+    ) {
+      // Axis-aligned frame: the dragged edges map straight to scene lines
+      const snap = this.snapper.snapPoint(sceneX, sceneY, this._targets, {
+        x: hx !== 0,
+        y: hy !== 0,
+      });
+      px += snap.dx;
+      py += snap.dy;
+    }
+    const q = transformPoint(gesture.frameInverse, px, py);
+
+    // Anchor: the opposite handle, or the center with Alt
+    let ax = fromCenter ? w / 2 : (w * (1 - hx)) / 2;
+    let ay = fromCenter ? h / 2 : (h * (1 - hy)) / 2;
+    const handleX = (w * (1 + hx)) / 2;
+    const handleY = (h * (1 + hy)) / 2;
+    let sx = hx !== 0 && handleX !== ax ? (q.x - ax) / (handleX - ax) : 1;
+    let sy = hy !== 0 && handleY !== ay ? (q.y - ay) / (handleY - ay) : 1;
+
+    if (lockAspect) {
+      if (hx !== 0 && hy !== 0) {
+        sx = sy = Math.max(sx, sy);
+      } else if (hx !== 0) {
+        sy = sx;
+        ay = h / 2;
+      } else {
+        sx = sy;
+        ax = w / 2;
+      }
+    }
+    sx = Math.max(sx, w > 0 ? this._minSize / w : 1);
+    sy = Math.max(sy, h > 0 ? this._minSize / h : 1);
+
+    // Frame-space delta: scale about the anchor
+    const delta = new Float32Array([sx, 0, 0, sy, ax - sx * ax, ay - sy * ay]);
+    const frameMatrix = multiply(gesture.frame.matrix, delta);
+    this._liveFrame = { ...gesture.frame, matrix: frameMatrix };
+
+    if (gesture.snapshots.length === 1) {
+      // Single target: the frame space is the element's local space
+      applyLocalDelta(gesture.snapshots[0], delta);
+      return;
+    }
+
+    // Scene-space delta, re-expressed in each target's local space
+    const sceneDelta = multiply(frameMatrix, gesture.frameInverse);
+    for (const snap of gesture.snapshots) {
+      const worldInverse = invert(snap.world);
+      if (!worldInverse) continue;
+      const local = multiply(worldInverse, multiply(sceneDelta, snap.world));
+      applyLocalDelta(snap, local);
+    }
+  }
+
+  private _rotate(
+    gesture: IGesture,
+    sceneX: number,
+    sceneY: number,
+    snap: boolean,
+  ): void {
+    const c = gesture.pivot;
+    let angle =
+      Math.atan2(sceneY - c.y, sceneX - c.x) -
+      Math.atan2(gesture.startY - c.y, gesture.startX - c.x);
+
+    if (snap && this._rotationSnap > 0) {
+      const step = this._rotationSnap;
+      if (gesture.snapshots.length === 1) {
+        // Snap the resulting rotation, not the delta
+        const start = gesture.snapshots[0].rotation;
+        angle = Math.round((start + angle) / step) * step - start;
+      } else {
+        angle = Math.round(angle / step) * step;
+      }
+    }
+
+    // Rotation about the pivot in scene space
+    const sceneDelta = multiply(
+      translate(c.x, c.y),
+      multiply(rotate(angle), translate(-c.x, -c.y)),
+    );
+    this._liveFrame = {
+      ...gesture.frame,
+      matrix: multiply(sceneDelta, gesture.frame.matrix),
+    };
+
+    for (const s of gesture.snapshots) {
+      const parentInverse = invert(s.parentWorld);
+      if (!parentInverse) continue;
+      // Mirrored parents turn the other way in local space
+      const p = s.parentWorld;
+      const sign = p[0] * p[3] - p[1] * p[2] < 0 ? -1 : 1;
+      // The element's pivot point orbits the transformer pivot
+      const pivot = transformPoint(s.world, s.pivotX, s.pivotY);
+      const moved = transformPoint(sceneDelta, pivot.x, pivot.y);
+      const position = transformPoint(parentInverse, moved.x, moved.y);
+      const el = s.element;
+      el.rotation = s.rotation + sign * angle;
+      el.x = position.x;
+      el.y = position.y;
+    }
+  }
+
+  private _movePivot(gesture: IGesture, sceneX: number, sceneY: number): void {
+    if (gesture.snapshots.length !== 1) {
+      this._groupPivot = { x: sceneX, y: sceneY };
+      return;
+    }
+    // Move the pivot in local space and compensate x/y so nothing moves
+    const s = gesture.snapshots[0];
+    const worldInverse = invert(s.world);
+    if (!worldInverse) return;
+    const q = transformPoint(worldInverse, sceneX, sceneY);
+    const dx = q.x - s.pivotX;
+    const dy = q.y - s.pivotY;
+    const el = s.element;
+    el.pivotX = q.x;
+    el.pivotY = q.y;
+    el.x = s.x + s.local[0] * dx + s.local[2] * dy;
+    el.y = s.y + s.local[1] * dx + s.local[3] * dy;
+  }
+
+  // ── Internal helpers ──
+
+  private _zoom(): number {
+    return this._view.zoom > 0 ? this._view.zoom : 1;
+  }
+
+  private _cancelGesture(): void {
+    if (!this._gesture) return;
+    this._emitTransform("transformend");
+    this._gesture = null;
+    this._liveFrame = null;
+    this.snapper?.clearGuides();
+  }
+
+  private _emitTransform(type: ITransformEvent["type"]): void {
+    const gesture = this._gesture;
+    if (!gesture) return;
+    const event: ITransformEvent = {
+      type,
+      action: gesture.action,
+      handle: gesture.handle,
+      targets: gesture.snapshots.map((s) => s.element),
+    };
+    this.emit(type, event);
+  }
+}
+
+// ── Module helpers ──
+
+function snapshot(element: IElement): ITargetSnapshot {
+  element.update(0);
+  const parent = element.parent;
+  return {
+    element,
+    x: element.x,
+    y: element.y,
+    rotation: element.rotation,
+    scaleX: element.scaleX,
+    scaleY: element.scaleY,
+    skewX: element.skewX,
+    skewY: element.skewY,
+    pivotX: element.pivotX,
+    pivotY: element.pivotY,
+    width: element.width,
+    height: element.height,
+    local: new Float32Array(element.localMatrix),
+    world: new Float32Array(element.worldMatrix),
+    parentWorld: parent
+      ? new Float32Array(parent.getWorldMatrixForChildren())
+      : identity(),
+  };
+}
+
+/**
+ * Apply `delta` (an affine map in the element's local space, relative to
+ * the snapshot) to the element's properties. Axis-aligned scales become
+ * `width`/`height` changes; anything else (e.g. a group scale of a rotated
+ * element) is decomposed into rotation, skew and scale.
+ */
+function applyLocalDelta(s: ITargetSnapshot, delta: MatrixArray): void {
+  const el = s.element;
+  // Start from the snapshot so repeated moves don't accumulate
+  el.width = s.width;
+  el.height = s.height;
+  el.pivotX = s.pivotX;
+  el.pivotY = s.pivotY;
+  el.rotation = s.rotation;
+  el.scaleX = s.scaleX;
+  el.scaleY = s.scaleY;
+  el.skewX = s.skewX;
+  el.skewY = s.skewY;
+
+  const [a, b, c, d, e, f] = delta;
+  const magnitude = Math.max(Math.abs(a), Math.abs(d), 1e-12);
+  if (
+    Math.abs(b) / magnitude < AXIS_EPSILON &&
+    Math.abs(c) / magnitude < AXIS_EPSILON &&
+    a > 0 &&
+    d > 0
+  ) {
+    // Resize; the pivot keeps its relative position in the element
+    const pivotX = s.pivotX * a;
+    const pivotY = s.pivotY * d;
+    el.width = s.width * a;
+    el.height = s.height * d;
+    el.pivotX = pivotX;
+    el.pivotY = pivotY;
+    const vx = e - s.pivotX + pivotX;
+    const vy = f - s.pivotY + pivotY;
+    el.x = s.x + s.local[0] * vx + s.local[2] * vy;
+    el.y = s.y + s.local[1] * vx + s.local[3] * vy;
+    return;
+  }
+
+  // General affine: decompose the new local matrix as R · Sk(skewX) · S
+  const m = multiply(s.local, delta);
+  const rotation = Math.atan2(m[1], m[0]);
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  const scaleX = Math.hypot(m[0], m[1]);
+  const scaleY = -sin * m[2] + cos * m[3];
+  const shear = cos * m[2] + sin * m[3];
+  el.rotation = rotation;
+  el.scaleX = scaleX;
+  el.scaleY = scaleY;
+  el.skewX = Math.atan(shear / scaleY);
+  el.skewY = 0;
+  const position = transformPoint(m, s.pivotX, s.pivotY);
+  el.x = position.x;
+  el.y = position.y;
+}
@@ -1,5 +1,5 @@
 /**
- * LayoutResolver — Two-pass layout engine (Flex & Anchor).
+ * LayoutResolver — Two-pass layout engine (Flex, Grid & Anchor).
  *
  * Pass 1 — Measure (bottom-up): compute desired sizes for each element.
  * Pass 2 — Arrange (top-down): distribute space, resolve positions.
@@ -9,6 +9,14 @@
 
 import type { IElement } from "../core/Element";
 import {
+  applyLayoutTransition,
+  isExiting,
+  markArranged,
+} from "./LayoutTransition";
+import {
+  type GridAlign,
+  type GridPlacement,
+  type GridTrack,
   type IStyle,
   type LayoutUnit,
   applyConstraints,
@@ -58,6 +66,8 @@ interface ElementWithLayout extends IElement {
   children?: ReadonlyArray<IElement>;
   /** Intrinsic content size for leaf elements (e.g., Text, Image) */
   getIntrinsicSize?: () => { width: number; height: number };
+  /** Narrowest width the content fits in (e.g., Text's longest word) */
+  getMinContentWidth?: () => number;
 }
 
 function hasChildren(
@@ -70,13 +80,16 @@ function getStyle(el: IElement): IStyle {
   return (el as ElementWithLayout).style;
 }
 
+/** Visible flex/grid items, sorted by `order` (stable for equal values). */
 function getFlexChildren(el: ElementWithLayout): ElementWithLayout[] {
   if (!hasChildren(el)) return [];
-  return (el.children as ElementWithLayout[]).filter((c) => {
-    if (!c.visible) return false;
-    const d = getStyle(c).display;
-    return d !== "manual" && d !== "anchor";
-  });
+  return (el.children as ElementWithLayout[])
+    .filter((c) => {
+      if (!c.visible || isExiting(c)) return false;
+      const d = getStyle(c).display;
+      return d !== "manual" && d !== "anchor";
+    })
+    .sort((a, b) => (getStyle(a).order ?? 0) - (getStyle(b).order ?? 0));
 }
 
 function getAllChildren(el: ElementWithLayout): ElementWithLayout[] {
@@ -157,6 +170,8 @@ function measure(
   // Compute desired size for this element
   if (style.display === "flex" && hasChildren(el)) {
     measureFlex(el, style, contentW, contentH, ld);
+  } else if (style.display === "grid" && hasChildren(el)) {
+    measureGrid(el, style, contentW, contentH, ld);
   } else if (el.getIntrinsicSize) {
     const intrinsic = el.getIntrinsicSize();
     ld.desiredWidth = intrinsic.width + paddingH(style);
@@ -177,7 +192,7 @@ function measureFlex(
   contentH: number,
   ld: LayoutData,
 ): void {
-  const isRow = style.flexDirection === "row";
+  const { isRow, mainGap } = flexAxis(style);
   const children = getFlexChildren(el);
 
   let mainTotal = 0;
@@ -197,7 +212,7 @@ function measureFlex(
 
   // Add gaps
   if (children.length > 1) {
-    mainTotal += style.gap * (children.length - 1);
+    mainTotal += mainGap * (children.length - 1);
   }
 
   const desiredMain = mainTotal + (isRow ? paddingH(style) : paddingV(style));
@@ -226,7 +241,7 @@ function arrange(el: ElementWithLayout, width: number, height: number): void {
   const allChildren = getAllChildren(el);
 
   for (const child of allChildren) {
-    if (!child.visible) continue; // Skip invisible elements
+    if (!child.visible || isExiting(child)) continue; // Skip invisible elements
     const childStyle = getStyle(child);
 
     if (childStyle.display === "anchor") {
@@ -236,11 +251,13 @@ function arrange(el: ElementWithLayout, width: number, height: number): void {
 
   if (style.display === "flex") {
     arrangeFlex(el, style, contentX, contentY, contentW, contentH);
+  } else if (style.display === "grid") {
+    arrangeGrid(el, style, contentX, contentY, contentW, contentH);
   }
 
   // Recurse: arrange children's children
   for (const child of allChildren) {
-    if (!child.visible) continue; // Skip invisible elements
+    if (!child.visible || isExiting(child)) continue; // Skip invisible elements
     const childStyle = getStyle(child);
     if (childStyle.display === "manual") continue;
 
@@ -251,6 +268,8 @@ function arrange(el: ElementWithLayout, width: number, height: number): void {
     // Recurse
     arrange(child, childLd.computedWidth, childLd.computedHeight);
   }
+
+  markArranged(el);
 }
 
 function arrangeFlex(
@@ -261,37 +280,91 @@ function arrangeFlex(
   contentW: number,
   contentH: number,
 ): void {
-  const isRow = style.flexDirection === "row";
+  const axis = flexAxis(style);
   const children = getFlexChildren(el);
   if (children.length === 0) return;
 
-  const mainSize = isRow ? contentW : contentH;
-  const crossSize = isRow ? contentH : contentW;
+  const mainSize = axis.isRow ? contentW : contentH;
+  const crossSize = axis.isRow ? contentH : contentW;
+  const frame: FlexFrame = { contentX, contentY, mainSize, crossSize };
 
-  if (style.flexWrap === "wrap") {
-    arrangeFlexWrap(
-      children,
-      style,
-      contentX,
-      contentY,
-      mainSize,
-      crossSize,
-      isRow,
-    );
+  if (style.flexWrap === "nowrap") {
+    const items = buildFlexItems(children, axis, mainSize, crossSize);
+    arrangeFlexLine(items, style, axis, frame, 0, crossSize);
   } else {
-    arrangeFlexLine(
-      children,
-      style,
-      contentX,
-      contentY,
-      mainSize,
-      crossSize,
-      isRow,
-    );
+    arrangeFlexWrap(children, style, axis, frame);
   }
 }
 
-// ── Flex line layout (no wrap) ──
+// ── Flex axes ──
+
+/** Direction and gaps of a flex container, resolved from its style. */
+interface FlexAxis {
+  isRow: boolean;
+  /** Items run from the main-end edge (`row-reverse`, `column-reverse`) */
+  reverseMain: boolean;
+  /** Lines stack from the cross-end edge (`wrap-reverse`) */
+  reverseCross: boolean;
+  mainGap: number;
+  crossGap: number;
+}
+
+/** The content box a flex container lays its lines out in. */
+interface FlexFrame {
+  contentX: number;
+  contentY: number;
+  mainSize: number;
+  crossSize: number;
+}
+
+function flexAxis(style: IStyle): FlexAxis {
+  const direction = style.flexDirection;
+  const isRow = direction === "row" || direction === "row-reverse";
+  const columnGap = style.columnGap ?? style.gap;
+  const rowGap = style.rowGap ?? style.gap;
+  return {
+    isRow,
+    reverseMain: direction === "row-reverse" || direction === "column-reverse",
+    reverseCross: style.flexWrap === "wrap-reverse",
+    mainGap: isRow ? columnGap : rowGap,
+    crossGap: isRow ? rowGap : columnGap,
+  };
+}
+
+/**
+ * Leading offset and extra spacing between `count` items for a
+ * `justifyContent` / `alignContent` value. As in browsers, the `space-*`
+ * values fall back to `start` (space-between) or `center` when there is no
+ * free space to share.
+ */
+function distributeSpace(
+  mode: string,
+  free: number,
+  count: number,
+): { offset: number; spacing: number } {
+  switch (mode) {
+    case "center":
+      return { offset: free / 2, spacing: 0 };
+    case "end":
+      return { offset: free, spacing: 0 };
+    case "space-between":
+      return free > 0 && count > 1
+        ? { offset: 0, spacing: free / (count - 1) }
+        : { offset: 0, spacing: 0 };
+    case "space-around":
+      return free > 0
+        ? { offset: free / (count * 2), spacing: free / count }
+        : { offset: free / 2, spacing: 0 };
+    case "space-evenly":
+      return free > 0
+        ? { offset: free / (count + 1), spacing: free / (count + 1) }
+        : { offset: free / 2, spacing: 0 };
+    default: // 'start', 'stretch'
+      return { offset: 0, spacing: 0 };
+  }
+}
+
+// ── Flex line layout ──
 
 interface FlexItem {
   child: ElementWithLayout;
@@ -311,21 +384,31 @@ interface FlexItem {
   crossSize: number;
 }
 
+/**
+ * Resolve each child's flex basis, cross size and margins. Margins are
+ * stored relative to the flow: for reversed directions the start margin is
+ * the physical right/bottom one, matching the mirrored positions.
+ */
 function buildFlexItems(
   children: ElementWithLayout[],
-  isRow: boolean,
+  axis: FlexAxis,
   containerMainSize: number,
   containerCrossSize: number,
 ): FlexItem[] {
+  const { isRow } = axis;
   return children.map((child) => {
     const childStyle = getStyle(child);
     const childLd = getLayoutData(child);
-    const mainMarginStart = isRow ? childStyle.margin[3] : childStyle.margin[0];
-    const mainMarginEnd = isRow ? childStyle.margin[1] : childStyle.margin[2];
-    const crossMarginStart = isRow
-      ? childStyle.margin[0]
-      : childStyle.margin[3];
-    const crossMarginEnd = isRow ? childStyle.margin[2] : childStyle.margin[1];
+    let mainMarginStart = isRow ? childStyle.margin[3] : childStyle.margin[0];
+    let mainMarginEnd = isRow ? childStyle.margin[1] : childStyle.margin[2];
+    let crossMarginStart = isRow ? childStyle.margin[0] : childStyle.margin[3];
+    let crossMarginEnd = isRow ? childStyle.margin[2] : childStyle.margin[1];
+    if (axis.reverseMain) {
+      [mainMarginStart, mainMarginEnd] = [mainMarginEnd, mainMarginStart];
+    }
+    if (axis.reverseCross) {
+      [crossMarginStart, crossMarginEnd] = [crossMarginEnd, crossMarginStart];
+    }
 
     // Resolve flex-basis
     let basis: number;
@@ -443,127 +526,95 @@ function resolveFlexLineWithAxis(
   }
 }
 
+/**
+ * Lay out one flex line. Positions are computed from the main-start and
+ * cross-start edges, then mirrored for reversed directions.
+ *
+ * @param lineOffset - Cross offset of the line within the content box
+ * @param lineCross - Cross size of the line
+ */
 function arrangeFlexLine(
-  children: ElementWithLayout[],
+  items: FlexItem[],
   style: IStyle,
-  contentX: number,
-  contentY: number,
-  mainSize: number,
-  crossSize: number,
-  isRow: boolean,
+  axis: FlexAxis,
+  frame: FlexFrame,
+  lineOffset: number,
+  lineCross: number,
 ): void {
-  const items = buildFlexItems(children, isRow, mainSize, crossSize);
-  resolveFlexLineWithAxis(items, mainSize, style.gap, isRow);
+  const { isRow, mainGap } = axis;
+  resolveFlexLineWithAxis(items, frame.mainSize, mainGap, isRow);
 
   // Position items along main axis
-  const totalGaps = items.length > 1 ? style.gap * (items.length - 1) : 0;
+  const totalGaps = items.length > 1 ? mainGap * (items.length - 1) : 0;
   let totalUsed = totalGaps;
   for (const item of items) {
     totalUsed += item.mainSize + item.mainMargin;
   }
 
-  const remainingSpace = mainSize - totalUsed;
-  let mainPos = 0;
-
-  switch (style.justifyContent) {
-    case "center":
-      mainPos = remainingSpace / 2;
-      break;
-    case "end":
-      mainPos = remainingSpace;
-      break;
-    case "space-between":
-      mainPos = 0;
-      break;
-    case "space-around":
-      mainPos = items.length > 0 ? remainingSpace / (items.length * 2) : 0;
-      break;
-    default: // 'start'
-      mainPos = 0;
-      break;
-  }
-
-  const spaceBetween =
-    style.justifyContent === "space-between" && items.length > 1
-      ? remainingSpace / (items.length - 1)
-      : 0;
-  const spaceAround =
-    style.justifyContent === "space-around" && items.length > 0
-      ? remainingSpace / items.length
-      : 0;
+  const { offset, spacing } = distributeSpace(
+    style.justifyContent,
+    frame.mainSize - totalUsed,
+    items.length,
+  );
+  let mainPos = offset;
 
-  for (let i = 0; i < items.length; i++) {
-    const item = items[i];
+  for (const item of items) {
     const ld = item.ld;
 
     // Main axis position
     mainPos += item.marginStart;
-    const itemMainPos = mainPos;
-    mainPos += item.mainSize + item.marginEnd + style.gap;
-
-    if (style.justifyContent === "space-between" && i < items.length - 1) {
-      mainPos += spaceBetween;
-    } else if (style.justifyContent === "space-around") {
-      mainPos += spaceAround;
-    }
+    let itemMainPos = mainPos;
+    mainPos += item.mainSize + item.marginEnd + mainGap + spacing;
 
     // Cross axis position
-    let crossPos: number;
-    const itemCrossSize = resolveItemCross(item, style, crossSize, isRow);
+    const align = item.style.alignSelf ?? style.alignItems;
+    const itemCrossSize = resolveItemCross(item, align, lineCross, isRow);
+    let crossPos = lineOffset;
 
-    switch (style.alignItems) {
+    switch (align) {
       case "center":
-        crossPos =
-          (crossSize - itemCrossSize - item.crossMargin) / 2 +
+        crossPos +=
+          (lineCross - itemCrossSize - item.crossMargin) / 2 +
           item.crossMarginStart;
         break;
       case "end":
-        crossPos = crossSize - itemCrossSize - item.crossMarginEnd;
-        break;
-      case "stretch":
-        crossPos = item.crossMarginStart;
+        crossPos += lineCross - itemCrossSize - item.crossMarginEnd;
         break;
-      default: // 'start'
-        crossPos = item.crossMarginStart;
+      default: // 'start', 'stretch'
+        crossPos += item.crossMarginStart;
         break;
     }
 
+    if (axis.reverseMain) {
+      itemMainPos = frame.mainSize - itemMainPos - item.mainSize;
+    }
+    if (axis.reverseCross) {
+      crossPos = frame.crossSize - crossPos - itemCrossSize;
+    }
+
     if (isRow) {
-      ld.computedX = contentX + itemMainPos;
-      ld.computedY = contentY + crossPos;
+      ld.computedX = frame.contentX + itemMainPos;
+      ld.computedY = frame.contentY + crossPos;
       ld.computedWidth = item.mainSize;
       ld.computedHeight = itemCrossSize;
     } else {
-      ld.computedX = contentX + crossPos;
-      ld.computedY = contentY + itemMainPos;
+      ld.computedX = frame.contentX + crossPos;
+      ld.computedY = frame.contentY + itemMainPos;
       ld.computedWidth = itemCrossSize;
       ld.computedHeight = item.mainSize;
     }
 
-    // Apply main-axis constraints
-    if (isRow) {
-      ld.computedWidth = applyConstraints(
-        ld.computedWidth,
-        item.style.minWidth,
-        item.style.maxWidth,
-      );
-      ld.computedHeight = applyConstraints(
-        ld.computedHeight,
-        item.style.minHeight,
-        item.style.maxHeight,
-      );
-    } else {
-      ld.computedWidth = applyConstraints(
-        ld.computedWidth,
-        item.style.minWidth,
-        item.style.maxWidth,
-      );
-      ld.computedHeight = applyConstraints(
-        ld.computedHeight,
-        item.style.minHeight,
-        item.style.maxHeight,
-      );
-    }
+    // Apply constraints
+    ld.computedWidth = applyConstraints(
+      ld.computedWidth,
+      item.style.minWidth,
+      item.style.maxWidth,
+    );
+    ld.computedHeight = applyConstraints(
+      ld.computedHeight,
+      item.style.minHeight,
+      item.style.maxHeight,
+    );
 
     // Integer snapping for pixel-perfect rendering
     ld.computedX = Math.round(ld.computedX);
@@ -575,11 +626,11 @@ function arrangeFlexLine(
 
 function resolveItemCross(
   item: FlexItem,
-  parentStyle: IStyle,
+  align: IStyle["alignItems"],
   crossSize: number,
   isRow: boolean,
 ): number {
-  if (parentStyle.alignItems === "stretch") {
+  if (align === "stretch") {
     const stretchedSize = crossSize - item.crossMargin;
     const crossMin = isRow ? item.style.minHeight : item.style.minWidth;
     const crossMax = isRow ? item.style.maxHeight : item.style.maxWidth;
@@ -593,12 +644,11 @@ function resolveItemCross(
 function arrangeFlexWrap(
   children: ElementWithLayout[],
   style: IStyle,
-  contentX: number,
-  contentY: number,
-  mainSize: number,
-  crossSize: number,
-  isRow: boolean,
+  axis: FlexAxis,
+  frame: FlexFrame,
 ): void {
+  const { isRow, mainGap, crossGap } = axis;
+
   // Split children into lines
   const lines: ElementWithLayout[][] = [];
   let currentLine: ElementWithLayout[] = [];
@@ -611,11 +661,11 @@ function arrangeFlexWrap(
     const childMainMargin = isRow ? marginH(childStyle) : marginV(childStyle);
     const itemMain = childMainSize + childMainMargin;
 
-    const gapExtra = currentLine.length > 0 ? style.gap : 0;
+    const gapExtra = currentLine.length > 0 ? mainGap : 0;
 
     if (
       currentLine.length > 0 &&
-      lineMainUsed + gapExtra + itemMain > mainSize
+      lineMainUsed + gapExtra + itemMain > frame.mainSize
     ) {
       lines.push(currentLine);
       currentLine = [child];
@@ -629,21 +679,528 @@ function arrangeFlexWrap(
     lines.push(currentLine);
   }
 
-  // Arrange each line
-  let crossOffset = 0;
-  const lineCrossSize = lines.length > 0 ? crossSize / lines.length : crossSize;
+  // Each line is as tall (or wide) as its largest item
+  const lineItems = lines.map((line) =>
+    buildFlexItems(line, axis, frame.mainSize, frame.crossSize),
+  );
+  const lineCross = lineItems.map((items) =>
+    items.reduce(
+      (max, item) => Math.max(max, item.crossSize + item.crossMargin),
+      0,
+    ),
+  );
 
-  for (const line of lines) {
+  // Distribute the remaining cross space between lines
+  let free = frame.crossSize - crossGap * (lines.length - 1);
+  for (const size of lineCross) free -= size;
+  const alignContent = style.alignContent ?? "stretch";
+  if (alignContent === "stretch" && free > 0) {
+    for (let i = 0; i < lineCross.length; i++) {
+      lineCross[i] += free / lines.length;
+    }
+  }
+  const { offset, spacing } = distributeSpace(alignContent, free, lines.length);
+
+  // Arrange each line
+  let crossOffset = offset;
+  for (let i = 0; i < lineItems.length; i++) {
     arrangeFlexLine(
-      line,
+      lineItems[i],
       style,
-      isRow ? contentX : contentX + crossOffset,
-      isRow ? contentY + crossOffset : contentY,
-      mainSize,
-      lineCrossSize,
-      isRow,
+      axis,
+      frame,
+      crossOffset,
+      lineCross[i],
     );
-    crossOffset += lineCrossSize;
+    crossOffset += lineCross[i] + crossGap + spacing;
+  }
+}
+
+// ── Grid layout ──
+
+interface GridItem {
+  child: ElementWithLayout;
+  style: IStyle;
+  ld: LayoutData;
+  row: number;
+  column: number;
+  rowSpan: number;
+  columnSpan: number;
+}
+
+interface GridSpan {
+  /** 0-based start track, or null for auto-placement */
+  start: number | null;
+  span: number;
+}
+
+/** Convert a 1-based (or negative) grid line into a 0-based track index. */
+function gridLineIndex(line: number, explicitCount: number): number {
+  const index = line < 0 ? explicitCount + 1 + line : line - 1;
+  return Math.max(0, index);
+}
+
+function resolveGridSpan(
+  placement: GridPlacement | undefined,
+  explicitCount: number,
+): GridSpan {
+  if (placement === undefined || placement === "auto") {
+    return { start: null, span: 1 };
+  }
+  if (typeof placement === "number") {
+    return { start: gridLineIndex(placement, explicitCount), span: 1 };
+  }
+  const { start, end } = placement;
+  if (start !== undefined && end !== undefined) {
+    const a = gridLineIndex(start, explicitCount);
+    const b = gridLineIndex(end, explicitCount);
+    return { start: Math.min(a, b), span: Math.max(1, Math.abs(b - a)) };
+  }
+  const span = Math.max(1, Math.floor(placement.span ?? 1));
+  if (start !== undefined) {
+    return { start: gridLineIndex(start, explicitCount), span };
+  }
+  if (end !== undefined) {
+    return {
+      start: Math.max(0, gridLineIndex(end, explicitCount) - span),
+      span,
+    };
+  }
+  return { start: null, span };
+}
+
+/**
+ * Place grid children into cells. Items with both positions set go first,
+ * then items locked to the flow's major axis, then everything else in
+ * document order through a cursor that wraps at the end of each row (or
+ * column, for `gridAutoFlow: "column"`).
+ */
+function placeGridItems(
+  children: ElementWithLayout[],
+  style: IStyle,
+): GridItem[] {
+  const explicitColumns = style.gridTemplateColumns?.length ?? 0;
+  const explicitRows = style.gridTemplateRows?.length ?? 0;
+  const byColumn = style.gridAutoFlow === "column";
+
+  // Work in flow terms: items fill along the minor axis, then wrap to the
+  // next major track
+  const spans = children.map((child) => {
+    const childStyle = getStyle(child);
+    const row = resolveGridSpan(childStyle.gridRow, explicitRows);
+    const column = resolveGridSpan(childStyle.gridColumn, explicitColumns);
+    return byColumn
+      ? { major: column, minor: row }
+      : { major: row, minor: column };
+  });
+
+  let minorCount = Math.max(1, byColumn ? explicitRows : explicitColumns);
+  for (const { minor } of spans) {
+    minorCount = Math.max(minorCount, (minor.start ?? 0) + minor.span);
+  }
+
+  const occupied: boolean[][] = [];
+  const fits = (major: number, minor: number, a: GridSpan, b: GridSpan) => {
+    if (minor + b.span > minorCount) return false;
+    for (let i = major; i < major + a.span; i++) {
+      const track = occupied[i];
+      if (!track) continue;
+      for (let j = minor; j < minor + b.span; j++) {
+        if (track[j]) return false;
+      }
+    }
+    return true;
+  };
+  const positions: ({ major: number; minor: number } | null)[] = spans.map(
+    () => null,
+  );
+  const mark = (index: number, major: number, minor: number) => {
+    const { major: a, minor: b } = spans[index];
+    for (let i = major; i < major + a.span; i++) {
+      occupied[i] ??= [];
+      for (let j = minor; j < minor + b.span; j++) occupied[i][j] = true;
+    }
+    positions[index] = { major, minor };
+  };
+
+  // 1. Fully positioned items
+  spans.forEach(({ major, minor }, i) => {
+    if (major.start !== null && minor.start !== null) {
+      mark(i, major.start, minor.start);
+    }
+  });
+
+  // 2. Items locked to a major track take its first free minor slot
+  spans.forEach(({ major, minor }, i) => {
+    if (major.start === null || minor.start !== null) return;
+    let slot = 0;
+    while (!fits(major.start, slot, major, minor) && slot < minorCount) slot++;
+    mark(i, major.start, Math.min(slot, minorCount - minor.span));
+  });
+
+  // 3. Auto-placed items follow the cursor
+  let cursorMajor = 0;
+  let cursorMinor = 0;
+  spans.forEach(({ major, minor }, i) => {
+    if (positions[i]) return;
+    if (minor.start !== null) {
+      if (minor.start < cursorMinor) cursorMajor++;
+      cursorMinor = minor.start;
+      while (!fits(cursorMajor, cursorMinor, major, minor)) cursorMajor++;
+    } else {
+      for (;;) {
+        if (cursorMinor + minor.span > minorCount) {
+          cursorMajor++;
+          cursorMinor = 0;
+        }
+        if (fits(cursorMajor, cursorMinor, major, minor)) break;
+        cursorMinor++;
+      }
+    }
+    mark(i, cursorMajor, cursorMinor);
+    cursorMinor += minor.span;
+  });
+
+  return children.map((child, i) => {
+    const { major, minor } = spans[i];
+    const pos = positions[i] as { major: number; minor: number };
+    return {
+      child,
+      style: getStyle(child),
+      ld: getLayoutData(child),
+      row: byColumn ? pos.minor : pos.major,
+      column: byColumn ? pos.major : pos.minor,
+      rowSpan: byColumn ? minor.span : major.span,
+      columnSpan: byColumn ? major.span : minor.span,
+    };
+  });
+}
+
+/** Explicit tracks followed by implicit ones, covering `count` tracks. */
+function gridTracks(
+  template: GridTrack[] | undefined,
+  autoTrack: GridTrack | undefined,
+  count: number,
+): GridTrack[] {
+  const tracks = template ? template.slice() : [];
+  while (tracks.length < count) tracks.push(autoTrack ?? "auto");
+  return tracks;
+}
+
+function frValue(track: GridTrack): number {
+  return typeof track === "string" && track.endsWith("fr")
+    ? Number.parseFloat(track) || 0
+    : 0;
+}
+
+/**
+ * Size the tracks of one axis.
+ *
+ * Fixed and percentage tracks take their size; `auto` tracks grow to fit
+ * their items; `fr` tracks share the space left in `available` but never
+ * shrink below their items' minimum size. With `available` null (content
+ * sizing) `fr` tracks are sized like `auto`.
+ *
+ * @param spans - Each item's tracks with its preferred and minimum outer size
+ */
+function sizeGridTracks(
+  tracks: GridTrack[],
+  spans: { start: number; span: number; size: number; min: number }[],
+  percentBase: number,
+  available: number | null,
+  gap: number,
+): number[] {
+  const sizes = tracks.map((track) =>
+    track === "auto" || frValue(track) > 0
+      ? 0
+      : resolveUnit(track as LayoutUnit, percentBase, 0),
+  );
+  const isAuto = (i: number) =>
+    tracks[i] === "auto" || (available === null && frValue(tracks[i]) > 0);
+  const flexMin = tracks.map(() => 0);
+
+  // Single-track items size auto tracks and set fr minimums
+  for (const item of spans) {
+    if (item.span !== 1) continue;
+    if (isAuto(item.start)) {
+      sizes[item.start] = Math.max(sizes[item.start], item.size);
+    } else if (frValue(tracks[item.start]) > 0) {
+      flexMin[item.start] = Math.max(flexMin[item.start], item.min);
+    }
+  }
+
+  // Spanning items share any missing size between their auto tracks
+  for (const item of spans) {
+    if (item.span === 1) continue;
+    const spanned: number[] = [];
+    let current = gap * (item.span - 1);
+    for (let i = item.start; i < item.start + item.span; i++) {
+      current += sizes[i];
+      if (isAuto(i)) spanned.push(i);
+    }
+    const missing = item.size - current;
+    if (missing > 0 && spanned.length > 0) {
+      for (const i of spanned) sizes[i] += missing / spanned.length;
+    }
+  }
+
+  if (available === null) return sizes;
+
+  // Distribute the leftover space to fr tracks; tracks whose share falls
+  // below their minimum are frozen at it and the rest re-shared
+  const flexible = new Set(
+    tracks.map((_, i) => i).filter((i) => frValue(tracks[i]) > 0),
+  );
+  for (;;) {
+    let used = gap * Math.max(0, tracks.length - 1);
+    let totalFr = 0;
+    for (let i = 0; i < tracks.length; i++) {
+      if (flexible.has(i)) totalFr += frValue(tracks[i]);
+      else used += sizes[i];
+    }
+    if (flexible.size === 0) break;
+    const unit = Math.max(0, available - used) / Math.max(1, totalFr);
+    let frozen = false;
+    for (const i of flexible) {
+      const share = unit * frValue(tracks[i]);
+      if (share < flexMin[i]) {
+        sizes[i] = flexMin[i];
+        flexible.delete(i);
+        frozen = true;
+      }
+    }
+    if (!frozen) {
+      for (const i of flexible) sizes[i] = unit * frValue(tracks[i]);
+      break;
+    }
+  }
+  return sizes;
+}
+
+interface GridTracks {
+  items: GridItem[];
+  columns: number[];
+  rows: number[];
+  columnGap: number;
+  rowGap: number;
+}
+
+/**
+ * Place the items and size both axes. Columns are sized first so that
+ * items with intrinsic content (e.g. wrapping Text) report their height
+ * at the width they will get.
+ */
+function resolveGridTracks(
+  el: ElementWithLayout,
+  style: IStyle,
+  contentW: number,
+  contentH: number,
+  contentSized: boolean,
+): GridTracks {
+  const items = placeGridItems(getFlexChildren(el), style);
+  const columnGap = style.columnGap ?? style.gap;
+  const rowGap = style.rowGap ?? style.gap;
+
+  let columnCount = 0;
+  let rowCount = 0;
+  for (const item of items) {
+    columnCount = Math.max(columnCount, item.column + item.columnSpan);
+    rowCount = Math.max(rowCount, item.row + item.rowSpan);
+  }
+  const columnTracks = gridTracks(
+    style.gridTemplateColumns,
+    style.gridAutoColumns,
+    Math.max(columnCount, 1),
+  );
+  const rowTracks = gridTracks(
+    style.gridTemplateRows,
+    style.gridAutoRows,
+    rowCount,
+  );
+
+  const columns = sizeGridTracks(
+    columnTracks,
+    items.map((item) => {
+      const outer = marginH(item.style);
+      const size =
+        typeof item.style.width === "number"
+          ? item.style.width
+          : item.ld.desiredWidth;
+      const min =
+        typeof item.style.width === "number"
+          ? item.style.width
+          : (item.child.getMinContentWidth?.() ?? 0);
+      return {
+        start: item.column,
+        span: item.columnSpan,
+        size: size + outer,
+        min: Math.min(min, size) + outer,
+      };
+    }),
+    contentW,
+    contentSized ? null : contentW,
+    columnGap,
+  );
+
+  const rows = sizeGridTracks(
+    rowTracks,
+    items.map((item) => {
+      const size = gridItemHeight(item, columns, columnGap, style);
+      return {
+        start: item.row,
+        span: item.rowSpan,
+        size: size + marginV(item.style),
+        min: size + marginV(item.style),
+      };
+    }),
+    contentH,
+    contentSized ? null : contentH,
+    rowGap,
+  );
+
+  return { items, columns, rows, columnGap, rowGap };
+}
+
+/** Sum of the tracks in [start, start + span), including inner gaps. */
+function gridArea(
+  sizes: number[],
+  start: number,
+  span: number,
+  gap: number,
+): number {
+  let size = gap * (span - 1);
+  for (let i = start; i < start + span; i++) size += sizes[i];
+  return size;
+}
+
+function gridTrackOffset(sizes: number[], index: number, gap: number): number {
+  let offset = 0;
+  for (let i = 0; i < index; i++) offset += sizes[i] + gap;
+  return offset;
+}
+
+/** The width a grid item is laid out at inside its column area. */
+function gridItemWidth(
+  item: GridItem,
+  columns: number[],
+  columnGap: number,
+  gridStyle: IStyle,
+): number {
+  const areaW =
+    gridArea(columns, item.column, item.columnSpan, columnGap) -
+    marginH(item.style);
+  const align = item.style.justifySelf ?? gridStyle.justifyItems ?? "start";
+  const width =
+    align === "stretch" && item.style.width === "auto"
+      ? areaW
+      : resolveUnit(item.style.width, areaW, item.ld.desiredWidth);
+  return applyConstraints(width, item.style.minWidth, item.style.maxWidth);
+}
+
+/**
+ * Content height of a grid item. Items with intrinsic content are
+ * re-measured at their final width so wrapped text gets its full height.
+ */
+function gridItemHeight(
+  item: GridItem,
+  columns: number[],
+  columnGap: number,
+  gridStyle: IStyle,
+): number {
+  if (typeof item.style.height === "number") return item.style.height;
+  const child = item.child;
+  if (child.getIntrinsicSize) {
+    const width = gridItemWidth(item, columns, columnGap, gridStyle);
+    if (child.width !== width) child.width = width;
+    const intrinsic = child.getIntrinsicSize();
+    item.ld.desiredHeight = intrinsic.height + paddingV(item.style);
+  }
+  return item.ld.desiredHeight;
+}
+
+function measureGrid(
+  el: ElementWithLayout,
+  style: IStyle,
+  contentW: number,
+  contentH: number,
+  ld: LayoutData,
+): void {
+  const { columns, rows, columnGap, rowGap } = resolveGridTracks(
+    el,
+    style,
+    contentW,
+    contentH,
+    true,
+  );
+  ld.desiredWidth =
+    gridArea(columns, 0, columns.length, columnGap) + paddingH(style);
+  ld.desiredHeight =
+    (rows.length > 0 ? gridArea(rows, 0, rows.length, rowGap) : 0) +
+    paddingV(style);
+}
+
+/** Offset of an item of `size` inside a cell of `area` along one axis. */
+function gridAlignOffset(align: GridAlign, area: number, size: number): number {
+  if (align === "center") return (area - size) / 2;
+  if (align === "end") return area - size;
+  return 0;
+}
+
+function arrangeGrid(
+  el: ElementWithLayout,
+  style: IStyle,
+  contentX: number,
+  contentY: number,
+  contentW: number,
+  contentH: number,
+): void {
+  const { items, columns, rows, columnGap, rowGap } = resolveGridTracks(
+    el,
+    style,
+    contentW,
+    contentH,
+    false,
+  );
+
+  for (const item of items) {
+    const { ld, style: childStyle } = item;
+    const areaX = gridTrackOffset(columns, item.column, columnGap);
+    const areaY = gridTrackOffset(rows, item.row, rowGap);
+    const areaW =
+      gridArea(columns, item.column, item.columnSpan, columnGap) -
+      marginH(childStyle);
+    const areaH =
+      gridArea(rows, item.row, item.rowSpan, rowGap) - marginV(childStyle);
+
+    const justify = childStyle.justifySelf ?? style.justifyItems ?? "start";
+    const align = childStyle.alignSelf ?? style.alignItems;
+    const width = gridItemWidth(item, columns, columnGap, style);
+    const height = applyConstraints(
+      align === "stretch" && childStyle.height === "auto"
+        ? areaH
+        : resolveUnit(childStyle.height, areaH, ld.desiredHeight),
+      childStyle.minHeight,
+      childStyle.maxHeight,
+    );
+
+    ld.computedX =
+      contentX +
+      areaX +
+      childStyle.margin[3] +
+      gridAlignOffset(justify, areaW, width);
+    ld.computedY =
+      contentY +
+      areaY +
+      childStyle.margin[0] +
+      gridAlignOffset(align, areaH, height);
+    ld.computedWidth = width;
+    ld.computedHeight = height;
+
+    // Integer snapping
+    ld.computedX = Math.round(ld.computedX);
+    ld.computedY = Math.round(ld.computedY);
+    ld.computedWidth = Math.round(ld.computedWidth);
+    ld.computedHeight = Math.round(ld.computedHeight);
   }
 }
 
@@ -737,10 +1294,13 @@ function arrangeAnchor(
 function applyLayout(
   child: ElementWithLayout,
   ld: LayoutData,
-  _parent: ElementWithLayout,
+  parent: ElementWithLayout,
 ): void {
-  child.x = ld.computedX;
-  child.y = ld.computedY;
-  child.width = ld.computedWidth;
-  child.height = ld.computedHeight;
+  // Assigns directly unless a layout transition applies
+  applyLayoutTransition(child, parent, {
+    x: ld.computedX,
+    y: ld.computedY,
+    width: ld.computedWidth,
+    height: ld.computedHeight,
+  });
 }
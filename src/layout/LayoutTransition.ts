@@ -0,0 +1,273 @@
+/**
+ * LayoutTransition — Animates elements between layout results.
+ *
+ * When an element (or its parent container) declares a `layoutTransition`
+ * style, the resolver hands each new x / y / width / height to
+ * `applyLayoutTransition` instead of assigning it. The element is tweened
+ * from where it currently is — its previous layout, or wherever an
+ * interrupted transition left it — to the new result.
+ *
+ * Children added to an already laid-out container play the `enter`
+ * transition; `Container.removeChildAnimated()` plays `exit` before the
+ * child is removed. Exiting children leave the layout flow at once, so
+ * their siblings move into the freed space while they animate out.
+ *
+ * Tweens run on the scene's Ticker (or the shared default Ticker).
+ *
+ * SPEC: §4
+ */
+
+import { Tween } from "../animation/Tween";
+import type { EasingFunction, EasingName } from "../animation/types";
+import { DirtyFlags } from "../core/DirtyFlags";
+import type { IElement } from "../core/Element";
+import type { ITicker } from "../core/Ticker";
+import type { IStyle } from "./Style";
+
+// ── Types ──
+
+/**
+ * Visual state an element enters from or exits to, relative to its layout
+ * slot. Unset fields keep the element's own value.
+ */
+export interface ILayoutTransitionState {
+  alpha?: number;
+  /** Uniform scale (about the element's pivot) */
+  scale?: number;
+  /** Offset from the layout position, in pixels */
+  offsetX?: number;
+  offsetY?: number;
+}
+
+export interface ILayoutTransition {
+  /** Duration in seconds */
+  duration: number;
+  /** Default: `"easeOutCubic"` */
+  easing?: EasingName | EasingFunction;
+  /** State that children added to a laid-out container animate in from */
+  enter?: ILayoutTransitionState;
+  /** State that `removeChildAnimated()` animates a child out to */
+  exit?: ILayoutTransitionState;
+}
+
+/** A layout result to move an element to. */
+export interface ILayoutRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface TransitionRecord {
+  parent: IElement;
+  target: ILayoutRect;
+  tween: Tween | null;
+  /** Alpha and scale to settle on when an enter/exit tween is interrupted */
+  visual: { alpha: number; scaleX: number; scaleY: number } | null;
+}
+
+// ── State ──
+
+const records = new WeakMap<IElement, TransitionRecord>();
+const arranged = new WeakSet<IElement>();
+/** Pending exit of each exiting element */
+const exiting = new WeakMap<IElement, Promise<void>>();
+
+function styleOf(el: IElement): IStyle {
+  return (el as IElement & { style: IStyle }).style;
+}
+
+function tickerOf(el: IElement): ITicker | undefined {
+  return (el.scene as { ticker?: ITicker } | null)?.ticker;
+}
+
+function sameRect(a: ILayoutRect, b: ILayoutRect): boolean {
+  return (
+    a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height
+  );
+}
+
+/** The transition that applies to `el`: its own, else its parent's. */
+export function getLayoutTransition(
+  el: IElement,
+  parent: IElement | null = el.parent,
+): ILayoutTransition | undefined {
+  return (
+    styleOf(el).layoutTransition ??
+    (parent ? styleOf(parent).layoutTransition : undefined)
+  );
+}
+
+/** True while `el` is playing its exit transition. */
+export function isExiting(el: IElement): boolean {
+  return exiting.has(el);
+}
+
+/** @internal Record that the resolver has arranged `container`'s children. */
+export function markArranged(container: IElement): void {
+  arranged.add(container);
+}
+
+// ── Tweening ──
+
+function startTween(
+  el: IElement,
+  record: TransitionRecord,
+  transition: ILayoutTransition,
+  properties: Record<string, number>,
+  onDone?: () => void,
+): Tween {
+  record.tween?.stop();
+  const target = el as unknown as Record<string, unknown>;
+  const tween = new Tween({
+    target,
+    properties: Object.fromEntries(
+      Object.entries(properties).map(([key, toValue]) => [
+        key,
+        [{ toValue, duration: transition.duration }],
+      ]),
+    ),
+    easing: transition.easing ?? "easeOutCubic",
+    ticker: tickerOf(el),
+    autoStart: false,
+  });
+  tween.on("complete", () => {
+    if (record.tween === tween) {
+      record.tween = null;
+      record.visual = null;
+    }
+    onDone?.();
+  });
+  // Interrupted: the next tween picks up from here
+  tween.on("stop", () => {
+    if (record.tween === tween) record.tween = null;
+    onDone?.();
+  });
+  record.tween = tween;
+  tween.start();
+  return tween;
+}
+
+/**
+ * Move `el` to a new layout result, animating if a transition applies.
+ * Called by the resolver for every laid-out child.
+ */
+export function applyLayoutTransition(
+  el: IElement,
+  parent: IElement,
+  rect: ILayoutRect,
+): void {
+  const previous = records.get(el);
+  const entering =
+    (!previous || previous.parent !== parent) && arranged.has(parent);
+  const transition = getLayoutTransition(el, parent);
+
+  const record: TransitionRecord = previous ?? {
+    parent,
+    target: rect,
+    tween: null,
+    visual: null,
+  };
+  records.set(el, record);
+  const unchanged =
+    previous?.parent === parent && sameRect(previous.target, rect);
+  record.parent = parent;
+  record.target = rect;
+  // Already heading there
+  if (unchanged && record.tween) return;
+
+  // Snap on first layout, and when there is nothing to animate
+  const animate =
+    transition &&
+    transition.duration > 0 &&
+    !unchanged &&
+    (previous || (entering && transition.enter));
+  if (!animate) {
+    record.tween?.stop();
+    el.x = rect.x;
+    el.y = rect.y;
+    el.width = rect.width;
+    el.height = rect.height;
+    return;
+  }
+
+  const properties: Record<string, number> = { ...rect };
+  if (entering && transition.enter) {
+    const enter = transition.enter;
+    record.visual = { alpha: el.alpha, scaleX: el.scaleX, scaleY: el.scaleY };
+    el.x = rect.x + (enter.offsetX ?? 0);
+    el.y = rect.y + (enter.offsetY ?? 0);
+    el.width = rect.width;
+    el.height = rect.height;
+    if (enter.alpha !== undefined) el.alpha = enter.alpha;
+    if (enter.scale !== undefined) {
+      el.scaleX = enter.scale;
+      el.scaleY = enter.scale;
+    }
+  } else if (entering) {
+    // Re-parented without an enter state: appear in place
+    el.x = rect.x;
+    el.y = rect.y;
+    el.width = rect.width;
+    el.height = rect.height;
+    return;
+  }
+  if (record.visual) Object.assign(properties, record.visual);
+  startTween(el, record, transition, properties);
+}
+
+/**
+ * Play `el`'s exit transition. Resolves once it has finished (at once if
+ * no `exit` state applies); the caller removes the element. While it plays,
+ * further calls return the same promise.
+ */
+export function playExitTransition(
+  el: IElement,
+  parent: IElement,
+): Promise<void> {
+  const pending = exiting.get(el);
+  if (pending) return pending;
+  const transition = getLayoutTransition(el, parent);
+  const exit = transition?.exit;
+  if (!transition || !exit || transition.duration <= 0) {
+    return Promise.resolve();
+  }
+
+  const record: TransitionRecord = records.get(el) ?? {
+    parent,
+    target: { x: el.x, y: el.y, width: el.width, height: el.height },
+    tween: null,
+    visual: null,
+  };
+  records.set(el, record);
+  const restore = record.visual ?? {
+    alpha: el.alpha,
+    scaleX: el.scaleX,
+    scaleY: el.scaleY,
+  };
+
+  const properties: Record<string, number> = {
+    x: el.x + (exit.offsetX ?? 0),
+    y: el.y + (exit.offsetY ?? 0),
+  };
+  if (exit.alpha !== undefined) properties.alpha = exit.alpha;
+  if (exit.scale !== undefined) {
+    properties.scaleX = exit.scale;
+    properties.scaleY = exit.scale;
+  }
+
+  const done = new Promise<void>((resolve) => {
+    startTween(el, record, transition, properties, () => {
+      exiting.delete(el);
+      records.delete(el);
+      el.alpha = restore.alpha;
+      el.scaleX = restore.scaleX;
+      el.scaleY = restore.scaleY;
+      resolve();
+    });
+  });
+  // Leave the flow so siblings reflow into the freed space
+  exiting.set(el, done);
+  parent.invalidate(DirtyFlags.Layout);
+  return done;
+}
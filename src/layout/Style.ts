@@ -7,24 +7,89 @@
  * SPEC: §4
  */
 
+import type { ILayoutTransition } from "./LayoutTransition";
+
 // ── Types ──
 
 export type LayoutUnit = number | `${number}%` | "auto";
 
+/**
+ * Size of a grid track: pixels, a percentage of the grid's content box,
+ * a fraction of the remaining space (`"1fr"`) or the size of its content.
+ */
+export type GridTrack = number | `${number}%` | `${number}fr` | "auto";
+
+/**
+ * Placement of a grid item on one axis. Lines are 1-based; negative lines
+ * count back from the end of the explicit grid (`-1` is the last line).
+ * A bare number is a start line with a span of 1; `"auto"` lets
+ * auto-placement choose.
+ */
+export type GridPlacement =
+  | number
+  | "auto"
+  | { start?: number; end?: number; span?: number };
+
+/** Alignment of an item on a flex line's cross axis or within a grid cell. */
+export type GridAlign = "start" | "center" | "end" | "stretch";
+
 export interface IStyle {
-  display: "manual" | "flex" | "anchor";
+  display: "manual" | "flex" | "anchor" | "grid";
 
   // Flex container properties
-  flexDirection: "row" | "column";
-  justifyContent: "start" | "center" | "end" | "space-between" | "space-around";
+  flexDirection: "row" | "column" | "row-reverse" | "column-reverse";
+  justifyContent:
+    | "start"
+    | "center"
+    | "end"
+    | "space-between"
+    | "space-around"
+    | "space-evenly";
   alignItems: "start" | "center" | "end" | "stretch";
-  flexWrap: "nowrap" | "wrap";
+  flexWrap: "nowrap" | "wrap" | "wrap-reverse";
+  /** Distribution of wrapped lines on the cross axis. Default: `"stretch"`. */
+  alignContent?:
+    | "start"
+    | "center"
+    | "end"
+    | "stretch"
+    | "space-between"
+    | "space-around"
+    | "space-evenly";
   gap: number;
+  /** Gap between rows (wrapped lines of a row flex); falls back to `gap`. */
+  rowGap?: number;
+  /** Gap between columns (wrapped lines of a column flex); falls back to `gap`. */
+  columnGap?: number;
 
   // Flex child properties
   flexGrow: number;
   flexShrink: number;
   flexBasis: LayoutUnit;
+  /** Overrides the container's `alignItems` for this item. */
+  alignSelf?: GridAlign;
+  /** Layout order among flex and grid siblings. Default: 0. */
+  order?: number;
+
+  // Grid container properties
+  /** Explicit column tracks. Default: a single `"auto"` column. */
+  gridTemplateColumns?: GridTrack[];
+  /** Explicit row tracks. Default: rows are created as needed. */
+  gridTemplateRows?: GridTrack[];
+  /** Size of implicitly created columns. Default: `"auto"`. */
+  gridAutoColumns?: GridTrack;
+  /** Size of implicitly created rows. Default: `"auto"`. */
+  gridAutoRows?: GridTrack;
+  /** Direction auto-placed items fill the grid in. Default: `"row"`. */
+  gridAutoFlow?: "row" | "column";
+  /** Horizontal alignment of items in their cells. Default: `"start"`. */
+  justifyItems?: GridAlign;
+
+  // Grid child properties
+  gridColumn?: GridPlacement;
+  gridRow?: GridPlacement;
+  /** Overrides the grid's `justifyItems` for this item. */
+  justifySelf?: GridAlign;
 
   // Anchor properties
   top?: LayoutUnit;
@@ -40,6 +105,12 @@ export interface IStyle {
   padding: [number, number, number, number];
   margin: [number, number, number, number];
 
+  /**
+   * Animate this element between layout results. On a container, applies
+   * to children that do not declare their own.
+   */
+  layoutTransition?: ILayoutTransition;
+
   // Constraints
   minWidth?: number;
   maxWidth?: number;
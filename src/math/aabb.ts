@@ -97,3 +97,19 @@ export function rectIntersection(a: IRect, b: IRect): IRect | null {
 
   return { x, y, width: right - x, height: bottom - y };
 }
+
+/**
+ * Computes the smallest rectangle containing two AABBs.
+ *
+ * @param a - The first rectangle.
+ * @param b - The second rectangle.
+ * @returns The union rectangle.
+ */
+export function rectUnion(a: IRect, b: IRect): IRect {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  const right = Math.max(a.x + a.width, b.x + b.width);
+  const bottom = Math.max(a.y + a.height, b.y + b.height);
+
+  return { x, y, width: right - x, height: bottom - y };
+}
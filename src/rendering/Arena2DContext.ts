@@ -130,6 +130,7 @@ export interface IArena2DContext {
     h: number,
     radius: number,
   ): void;
+  clipGeometry(geometry: IGeometry, inverted?: boolean): void;
 
   // Gradients (6.6)
   createLinearGradient(
@@ -562,6 +563,87 @@ export class Arena2DContext implements IArena2DContext {
     ctx.clip();
   }
 
+  /**
+   * Clips to the area of a geometry, or with `inverted` to everything
+   * outside it. Open geometries (arcs, curves) close implicitly; composite
+   * geometries clip to the union of their children.
+   */
+  clipGeometry(geometry: IGeometry, inverted = false): void {
+    const ctx = this.raw;
+    ctx.beginPath();
+    if (inverted) {
+      // Cover the canvas; even-odd filling leaves the geometry as a hole
+      ctx.save();
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.rect(0, 0, ctx.canvas.width, ctx.canvas.height);
+      ctx.restore();
+    }
+    this._traceGeometry(geometry);
+    ctx.clip(inverted ? "evenodd" : "nonzero");
+  }
+
+  /** Adds a geometry's outline to the current path as new subpaths. */
+  private _traceGeometry(geometry: IGeometry): void {
+    const ctx = this.raw;
+    const type = geometry.type;
+
+    if (type === "rectangle") {
+      const g = geometry as IRectangle;
+      ctx.rect(g.rectX, g.rectY, g.width, g.height);
+    } else if (type === "circle") {
+      const g = geometry as ICircle;
+      ctx.moveTo(g.cx + g.radius, g.cy);
+      ctx.arc(g.cx, g.cy, g.radius, 0, TAU);
+    } else if (type === "ellipse") {
+      const g = geometry as IEllipse;
+      ctx.moveTo(g.cx + g.rx, g.cy);
+      ctx.ellipse(g.cx, g.cy, g.rx, g.ry, 0, 0, TAU);
+    } else if (type === "polygon") {
+      const g = geometry as IPolygon;
+      if (g.points.length === 0) return;
+      ctx.moveTo(g.points[0].x, g.points[0].y);
+      for (let i = 1; i < g.points.length; i++) {
+        ctx.lineTo(g.points[i].x, g.points[i].y);
+      }
+      ctx.closePath();
+    } else if (type === "arc") {
+      const g = geometry as IArc;
+      ctx.moveTo(
+        g.cx + g.radius * Math.cos(g.startAngle),
+        g.cy + g.radius * Math.sin(g.startAngle),
+      );
+      ctx.arc(g.cx, g.cy, g.radius, g.startAngle, g.endAngle, g.counterclockwise);
+    } else if (type === "quadraticCurve") {
+      const g = geometry as IQuadraticCurve;
+      ctx.moveTo(g.x0, g.y0);
+      ctx.quadraticCurveTo(g.cpx, g.cpy, g.x1, g.y1);
+    } else if (type === "bezierCurve") {
+      const cp = (geometry as IBezierCurve).controlPoints;
+      if (cp.length !== 4) return;
+      ctx.moveTo(cp[0].x, cp[0].y);
+      ctx.bezierCurveTo(cp[1].x, cp[1].y, cp[2].x, cp[2].y, cp[3].x, cp[3].y);
+    } else if (type === "path") {
+      const g = geometry as IPath;
+      for (const seg of g.segments) {
+        if (seg.type === "moveTo") ctx.moveTo(seg.x, seg.y);
+        else if (seg.type === "lineTo") ctx.lineTo(seg.x, seg.y);
+        else if (seg.type === "quadraticCurveTo") ctx.quadraticCurveTo(seg.cpx, seg.cpy, seg.x, seg.y);
+        else if (seg.type === "bezierCurveTo") ctx.bezierCurveTo(seg.cp1x, seg.cp1y, seg.cp2x, seg.cp2y, seg.x, seg.y);
+        else if (seg.type === "arc") ctx.arc(seg.cx, seg.cy, seg.radius, seg.startAngle, seg.endAngle, seg.counterclockwise);
+        else if (seg.type === "closePath") ctx.closePath();
+      }
+    } else if (type === "composite" && geometry.children) {
+      for (const child of geometry.children) {
+        // Points are transformed as they are added, so the path outlives restore()
+        ctx.save();
+        const m = child.localMatrix;
+        ctx.transform(m[0], m[1], m[2], m[3], m[4], m[5]);
+        this._traceGeometry(child);
+        ctx.restore();
+      }
+    }
+  }
+
   // ── Gradients (6.6) ──
 
   createLinearGradient(
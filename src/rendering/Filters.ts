@@ -0,0 +1,206 @@
+/**
+ * Filters — Per-element image effects: blur, drop shadow, glow, color
+ * adjustments and color matrices.
+ *
+ * Filters are plain descriptors listed on `Element.filters` and applied in
+ * order. The View renders a filtered element (with its descendants) into an
+ * offscreen canvas, runs the chain over it, then composites the result with
+ * the element's blend mode. Lengths are in the element's local units, so
+ * effects scale and rotate with it.
+ *
+ * Blur, shadow and glow reach beyond the element; `getFilterPadding()`
+ * reports how far, and culling uses the padded bounds.
+ *
+ * SPEC: §6 — Rendering Wrapper
+ *
+ * @example
+ * ```typescript
+ * card.filters = [{ type: "dropShadow", offsetX: 0, offsetY: 4, blur: 12, color: "rgba(0,0,0,0.3)" }];
+ * button.filters = [{ type: "saturate", amount: 0 }]; // disabled look
+ * ```
+ */
+
+import type { IRect } from "../math/aabb";
+
+// ── Descriptors ──
+
+/** Gaussian blur; `radius` is the standard deviation. */
+export interface IBlurFilter {
+  type: "blur";
+  radius: number;
+}
+
+/** Blurred, offset copy of the content's silhouette drawn behind it. */
+export interface IDropShadowFilter {
+  type: "dropShadow";
+  offsetX: number;
+  offsetY: number;
+  blur: number;
+  color: string;
+}
+
+/** Soft halo around the content's silhouette. */
+export interface IGlowFilter {
+  type: "glow";
+  radius: number;
+  color: string;
+  /** Number of halo layers; higher is more opaque. Default: 1. */
+  strength?: number;
+}
+
+/** Brightness, contrast or saturation; `amount` 1 leaves colors unchanged. */
+export interface IColorAdjustFilter {
+  type: "brightness" | "contrast" | "saturate";
+  amount: number;
+}
+
+/**
+ * 4×5 color matrix (20 values, row-major) over RGBA in 0–1, as in SVG
+ * `feColorMatrix`: each output channel is a weighted sum of R, G, B, A
+ * plus an offset.
+ */
+export interface IColorMatrixFilter {
+  type: "colorMatrix";
+  matrix: readonly number[];
+}
+
+export type IFilter =
+  | IBlurFilter
+  | IDropShadowFilter
+  | IGlowFilter
+  | IColorAdjustFilter
+  | IColorMatrixFilter;
+
+/** Space a filter chain draws outside the content, per side. */
+export interface IFilterPadding {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// ── Bounds ──
+
+/** How far a blur of standard deviation `sigma` visibly spreads. */
+const BLUR_EXTENT = 3;
+
+/**
+ * Padding the filter chain adds around the content, in local units.
+ * Effects compound: a blur after a shadow also spreads the shadow.
+ */
+export function getFilterPadding(filters: readonly IFilter[]): IFilterPadding {
+  const pad = { left: 0, top: 0, right: 0, bottom: 0 };
+  for (const filter of filters) {
+    switch (filter.type) {
+      case "blur": {
+        const spread = Math.abs(filter.radius) * BLUR_EXTENT;
+        pad.left += spread;
+        pad.top += spread;
+        pad.right += spread;
+        pad.bottom += spread;
+        break;
+      }
+      case "dropShadow": {
+        // Shadow blur is a box-shadow style radius: sigma is half of it
+        const spread = (Math.abs(filter.blur) / 2) * BLUR_EXTENT;
+        pad.left += Math.max(0, spread - filter.offsetX);
+        pad.top += Math.max(0, spread - filter.offsetY);
+        pad.right += Math.max(0, spread + filter.offsetX);
+        pad.bottom += Math.max(0, spread + filter.offsetY);
+        break;
+      }
+      case "glow": {
+        const spread = (Math.abs(filter.radius) / 2) * BLUR_EXTENT;
+        pad.left += spread;
+        pad.top += spread;
+        pad.right += spread;
+        pad.bottom += spread;
+        break;
+      }
+    }
+  }
+  return pad;
+}
+
+/** `bounds` grown by the padding of a filter chain. */
+export function expandFilterBounds(
+  bounds: IRect,
+  filters: readonly IFilter[],
+): IRect {
+  if (filters.length === 0) return bounds;
+  const pad = getFilterPadding(filters);
+  return {
+    x: bounds.x - pad.left,
+    y: bounds.y - pad.top,
+    width: bounds.width + pad.left + pad.right,
+    height: bounds.height + pad.top + pad.bottom,
+  };
+}
+
+// ── Canvas filter strings ──
+
+/**
+ * Canvas `filter` string for a filter, with lengths mapped through the
+ * linear part `[a, b, c, d]` of a matrix (local units → device pixels).
+ * Returns null for filters that need a pixel pass (`colorMatrix`).
+ */
+export function toCanvasFilter(
+  filter: IFilter,
+  m: ArrayLike<number>,
+): string | null {
+  const scale = Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+  switch (filter.type) {
+    case "blur":
+      return `blur(${round(filter.radius * scale)}px)`;
+    case "dropShadow": {
+      const x = m[0] * filter.offsetX + m[2] * filter.offsetY;
+      const y = m[1] * filter.offsetX + m[3] * filter.offsetY;
+      return `drop-shadow(${round(x)}px ${round(y)}px ${round(filter.blur * scale)}px ${filter.color})`;
+    }
+    case "glow": {
+      const layer = `drop-shadow(0px 0px ${round(filter.radius * scale)}px ${filter.color})`;
+      const strength = Math.max(1, Math.round(filter.strength ?? 1));
+      return new Array(strength).fill(layer).join(" ");
+    }
+    case "brightness":
+    case "contrast":
+    case "saturate":
+      return `${filter.type}(${Math.max(0, filter.amount)})`;
+    case "colorMatrix":
+      return null;
+  }
+}
+
+// ── Color matrix ──
+
+/**
+ * Apply a 4×5 color matrix to RGBA pixel data in place.
+ */
+export function applyColorMatrix(
+  data: Uint8ClampedArray,
+  matrix: readonly number[],
+): void {
+  if (matrix.length !== 20) {
+    throw new Error(
+      `Filters: colorMatrix needs 20 values, got ${matrix.length}`,
+    );
+  }
+  const m = matrix;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const a = data[i + 3];
+    // Offsets are in 0–1 units
+    data[i] = m[0] * r + m[1] * g + m[2] * b + m[3] * a + m[4] * 255;
+    data[i + 1] = m[5] * r + m[6] * g + m[7] * b + m[8] * a + m[9] * 255;
+    data[i + 2] = m[10] * r + m[11] * g + m[12] * b + m[13] * a + m[14] * 255;
+    data[i + 3] = m[15] * r + m[16] * g + m[17] * b + m[18] * a + m[19] * 255;
+  }
+}
+
+// ── Helpers ──
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
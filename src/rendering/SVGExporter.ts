@@ -0,0 +1,325 @@
+/**
+ * SVGExporter — Renders a Scene or a View's frustum to an SVG string.
+ *
+ * Walks the scene graph the same way View does (layers, visibility, clipping,
+ * frustum culling) but paints every element through an Arena2DContext backed
+ * by SVGRenderingContext. Element transforms become nested `<g transform>`
+ * groups, so the output mirrors the scene hierarchy.
+ *
+ * Matrices are read as-is: export after the scene has been updated (e.g.
+ * from a ticker frame or after `scene.root.update(0)`).
+ *
+ * @module Rendering
+ */
+
+import type { Container, IContainer } from "../core/Container";
+import type { IElement } from "../core/Element";
+import type { ILayer } from "../core/Layer";
+import type { IScene } from "../core/Scene";
+import type { IView } from "../core/View";
+import {
+  type IRect,
+  computeAABB,
+  intersect,
+  rectIntersection,
+} from "../math/aabb";
+import { invert, multiply } from "../math/matrix";
+import { Arena2DContext, type CanvasContext } from "./Arena2DContext";
+import { expandFilterBounds } from "./Filters";
+import {
+  type ISVGRenderingContextOptions,
+  SVGRenderingContext,
+  formatSVGMatrix,
+  formatSVGNumber,
+} from "./SVGRenderingContext";
+
+// ── Types ──
+
+export interface ISVGExportOptions extends ISVGRenderingContextOptions {
+  /**
+   * Region to export, in scene coordinates.
+   * Default: the whole scene, or the view's current frustum.
+   */
+  viewBox?: IRect;
+  /** Output `width` attribute. Default: viewBox width (scene) or view width. */
+  width?: number;
+  /** Output `height` attribute. Default: viewBox height (scene) or view height. */
+  height?: number;
+  /** Optional background color painted behind the scene. */
+  background?: string;
+  /**
+   * Skip elements whose bounds fall outside the viewBox.
+   * Default: `false` for scenes, `true` for views.
+   */
+  cull?: boolean;
+}
+
+interface IExportPass {
+  ctx: SVGRenderingContext;
+  arena: Arena2DContext;
+  /** Layer being painted; `undefined` paints every element regardless of layer. */
+  layer: ILayer | null | undefined;
+}
+
+// ── Public API ──
+
+/**
+ * Export an entire scene to SVG.
+ * Layer assignments are ignored; elements are painted in scene-graph order.
+ */
+export function exportSceneToSVG(
+  scene: IScene,
+  options: ISVGExportOptions = {},
+): string {
+  const viewBox = options.viewBox ?? {
+    x: 0,
+    y: 0,
+    width: scene.width,
+    height: scene.height,
+  };
+  return renderDocument(scene.root as IElement, viewBox, [undefined], {
+    ...options,
+    cull: options.cull ?? false,
+  });
+}
+
+/**
+ * Export what a view currently shows (its pan/zoom frustum) to SVG.
+ * Elements are grouped by layer in z-order, like the view's canvases.
+ */
+export function exportViewToSVG(
+  view: IView,
+  options: ISVGExportOptions = {},
+): string {
+  const zoom = view.zoom || 1;
+  const viewBox = options.viewBox ?? {
+    x: -view.panX / zoom,
+    y: -view.panY / zoom,
+    width: view.width / zoom,
+    height: view.height / zoom,
+  };
+  const root = view.scene.root as IElement;
+  return renderDocument(root, viewBox, collectLayers(root), {
+    ...options,
+    width: options.width ?? view.width,
+    height: options.height ?? view.height,
+    cull: options.cull ?? true,
+  });
+}
+
+// ── Document ──
+
+function renderDocument(
+  root: IElement,
+  viewBox: IRect,
+  layers: Array<ILayer | null | undefined>,
+  options: ISVGExportOptions,
+): string {
+  const ctx = new SVGRenderingContext(options);
+  const arena = new Arena2DContext(ctx as unknown as CanvasContext);
+  const f = formatSVGNumber;
+
+  if (options.background) {
+    ctx.fillStyle = options.background;
+    ctx.fillRect(viewBox.x, viewBox.y, viewBox.width, viewBox.height);
+  }
+
+  const cullRect = options.cull ? viewBox : null;
+  const multiLayer = layers.length > 1;
+
+  for (const layer of layers) {
+    const tagged = multiLayer && layer;
+    const styled =
+      layer && (layer.opacity !== 1 || layer.blendMode !== "normal");
+    const grouped = tagged || styled;
+    const mark = ctx.length;
+
+    if (grouped) {
+      ctx.openGroup([
+        ["data-layer", tagged ? layer.id : null],
+        ["opacity", styled && layer.opacity !== 1 ? layer.opacity : null],
+        [
+          "style",
+          styled && layer.blendMode !== "normal"
+            ? `mix-blend-mode: ${layer.blendMode}`
+            : null,
+        ],
+      ]);
+    }
+
+    const drawn = exportElement({ ctx, arena, layer }, root, cullRect);
+
+    if (!drawn) ctx.truncate(mark);
+    else if (grouped) ctx.closeGroup();
+  }
+
+  const width = options.width ?? viewBox.width;
+  const height = options.height ?? viewBox.height;
+  const defs = ctx.defs;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${f(width)}" height="${f(height)}" viewBox="${f(viewBox.x)} ${f(viewBox.y)} ${f(viewBox.width)} ${f(viewBox.height)}">${defs ? `<defs>${defs}</defs>` : ""}${ctx.body}</svg>`;
+}
+
+/**
+ * Distinct layers used by the tree, ordered by zIndex (stable by first use).
+ */
+function collectLayers(root: IElement): ILayer[] {
+  const seen = new Set<ILayer>();
+  const walk = (el: IElement) => {
+    const layer = el.layer as ILayer | null;
+    if (layer) seen.add(layer);
+    if ("children" in el) {
+      for (const child of (el as IContainer).children) walk(child);
+    }
+  };
+  walk(root);
+  return [...seen].sort((a, b) => a.zIndex - b.zIndex);
+}
+
+// ── Tree Walk ──
+
+/**
+ * Emit an element and its descendants.
+ * @returns Whether anything was drawn (empty groups are discarded).
+ */
+function exportElement(
+  pass: IExportPass,
+  element: IElement,
+  cullRect: IRect | null,
+): boolean {
+  if (!element.visible || element.alpha <= 0) return false;
+  if (element.display === "hidden") return false;
+  // Views never paint unlayered subtrees
+  if (pass.layer !== undefined && !element.layer) return false;
+
+  const { ctx, arena } = pass;
+  const container =
+    "children" in element ? (element as unknown as Container) : null;
+
+  if (cullRect && shouldCull(element, container, cullRect)) return false;
+
+  // Scene export (layer undefined) paints every element in one pass
+  const ownsPass =
+    pass.layer === undefined ? true : element.layer === pass.layer;
+
+  const mark = ctx.length;
+  ctx.openGroup([
+    ["id", ownsPass ? element.id : null],
+    ["transform", formatSVGMatrix(element.localMatrix)],
+  ]);
+
+  let drawn = false;
+
+  // Cached containers only paint their bitmap; export their children instead
+  if (ownsPass && !container?.cacheAsBitmap) {
+    const before = ctx.length;
+    ctx.save();
+    ctx.resetTransform();
+    ctx.globalAlpha = element.effectiveAlpha;
+    ctx.globalCompositeOperation = element.blendMode;
+    if (
+      "paint" in element &&
+      typeof (element as { paint: unknown }).paint === "function"
+    ) {
+      (element as { paint: (ctx: Arena2DContext) => void }).paint(arena);
+    }
+    ctx.restore();
+    drawn = ctx.length > before;
+  }
+
+  if (container && container.children.length > 0) {
+    if (exportChildren(pass, container, cullRect)) drawn = true;
+  }
+
+  if (!drawn) {
+    ctx.truncate(mark);
+    return false;
+  }
+  ctx.closeGroup();
+  return true;
+}
+
+function exportChildren(
+  pass: IExportPass,
+  container: Container,
+  cullRect: IRect | null,
+): boolean {
+  const { ctx } = pass;
+  const mark = ctx.length;
+
+  let childCull = cullRect;
+  if (container.clipContent) {
+    ctx.save();
+    ctx.resetTransform();
+    ctx.beginPath();
+    ctx.rect(0, 0, container.width, container.height);
+    ctx.clip();
+
+    if (cullRect) {
+      const clipWorldAABB = computeAABB(
+        { x: 0, y: 0, width: container.width, height: container.height },
+        container.worldMatrix,
+      );
+      childCull = rectIntersection(cullRect, clipWorldAABB);
+    }
+  }
+
+  // Containers may offset their children (e.g. ScrollContainer scrolling)
+  const childSpace = relativeChildMatrix(container);
+  if (childSpace) ctx.openGroup([["transform", childSpace]]);
+
+  let drawn = false;
+  if (!cullRect || childCull) {
+    for (const child of container.children) {
+      if (exportElement(pass, child, childCull)) drawn = true;
+    }
+  }
+
+  if (childSpace) ctx.closeGroup();
+  if (container.clipContent) ctx.restore();
+
+  if (!drawn) ctx.truncate(mark);
+  return drawn;
+}
+
+/**
+ * Transform from a container's own space to the space its children are
+ * parented to, or null when they coincide.
+ */
+function relativeChildMatrix(container: Container): string | null {
+  const forChildren = container.getWorldMatrixForChildren();
+  if (forChildren === container.worldMatrix) return null;
+  const inv = invert(container.worldMatrix);
+  if (!inv) return null;
+  return formatSVGMatrix(multiply(inv, forChildren).map(roundNoise));
+}
+
+function roundNoise(v: number): number {
+  return Math.abs(v) < 1e-6 ? 0 : Math.abs(v - 1) < 1e-6 ? 1 : v;
+}
+
+/**
+ * Mirrors View's culling rules: clipped containers cull by their clip rect,
+ * leaf elements by their world AABB, other containers are never culled.
+ */
+function shouldCull(
+  element: IElement,
+  container: Container | null,
+  rect: IRect,
+): boolean {
+  if (container?.clipContent) {
+    const clipWorldAABB = computeAABB(
+      { x: 0, y: 0, width: container.width, height: container.height },
+      container.worldMatrix,
+    );
+    return !intersect(clipWorldAABB, rect);
+  }
+  if (!container) {
+    const bounds = element.localBounds;
+    if (bounds.width > 0 || bounds.height > 0) {
+      const padded = expandFilterBounds(bounds, element.filters);
+      return !intersect(computeAABB(padded, element.worldMatrix), rect);
+    }
+  }
+  return false;
+}
@@ -0,0 +1,1054 @@
+/**
+ * SVGRenderingContext — Canvas-compatible recorder that emits SVG markup.
+ *
+ * Implements the subset of CanvasRenderingContext2D that Arena2DContext and
+ * the built-in elements draw with (paths, rects, text, images, gradients,
+ * clipping, shadows, transforms). Wrapping it in an Arena2DContext lets
+ * every element's existing paint() produce vector output unchanged.
+ *
+ * Each emitted primitive carries the current transform as an SVG
+ * `transform` attribute, so shapes stay in their own local coordinates.
+ *
+ * Known limitations (canvas features with no SVG equivalent):
+ * - Path2D objects are opaque; only SVGPathBuilder instances can be passed
+ *   to fill()/stroke()/clip() (and therefore drawPath()).
+ * - Porter-Duff composite operations (e.g. "source-atop") are ignored;
+ *   CSS blend modes map to `mix-blend-mode`.
+ * - Shadow offsets are applied in local rather than device space.
+ *
+ * @module Rendering
+ */
+
+import type { MatrixArray } from "../math/matrix";
+
+// ── Constants ──
+
+const TAU = Math.PI * 2;
+const HALF_PI = Math.PI / 2;
+
+/** Canvas blend modes that have a CSS `mix-blend-mode` equivalent. */
+const CSS_BLEND_MODES = new Set<string>([
+  "multiply",
+  "screen",
+  "overlay",
+  "darken",
+  "lighten",
+  "color-dodge",
+  "color-burn",
+  "hard-light",
+  "soft-light",
+  "difference",
+  "exclusion",
+  "hue",
+  "saturation",
+  "color",
+  "luminosity",
+]);
+
+// ── Types ──
+
+/** Options for SVGRenderingContext. */
+export interface ISVGRenderingContextOptions {
+  /**
+   * Convert an image source into an `href` (URL or data URI).
+   * Defaults to `src` for image elements and `toDataURL()` for canvases.
+   * Return null to skip the image.
+   */
+  resolveImage?: (image: CanvasImageSource) => string | null;
+  /** Prefix for generated `<defs>` ids. Default: `"arena"`. */
+  idPrefix?: string;
+}
+
+interface ISVGState {
+  fillStyle: string | CanvasGradient | CanvasPattern;
+  strokeStyle: string | CanvasGradient | CanvasPattern;
+  lineWidth: number;
+  lineCap: CanvasLineCap;
+  lineJoin: CanvasLineJoin;
+  miterLimit: number;
+  lineDash: number[];
+  lineDashOffset: number;
+  globalAlpha: number;
+  globalCompositeOperation: GlobalCompositeOperation;
+  font: string;
+  textAlign: CanvasTextAlign;
+  textBaseline: CanvasTextBaseline;
+  shadowColor: string;
+  shadowBlur: number;
+  shadowOffsetX: number;
+  shadowOffsetY: number;
+  matrix: [number, number, number, number, number, number];
+  /** Clip groups opened since the matching save(). */
+  openGroups: number;
+}
+
+// ── Helpers ──
+
+/** Format a number compactly for SVG output (max 4 decimals). */
+export function formatSVGNumber(n: number): string {
+  if (!Number.isFinite(n)) return "0";
+  return String(Number(n.toFixed(4)));
+}
+
+/** Escape a string for use in XML text content or attribute values. */
+export function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/** Format a 2D affine matrix as an SVG `matrix(...)` transform. */
+export function formatSVGMatrix(
+  m: ArrayLike<number> | MatrixArray,
+): string | null {
+  if (
+    m[0] === 1 &&
+    m[1] === 0 &&
+    m[2] === 0 &&
+    m[3] === 1 &&
+    m[4] === 0 &&
+    m[5] === 0
+  ) {
+    return null;
+  }
+  const f = formatSVGNumber;
+  return `matrix(${f(m[0])} ${f(m[1])} ${f(m[2])} ${f(m[3])} ${f(m[4])} ${f(m[5])})`;
+}
+
+function attrs(pairs: Array<[string, string | number | null | undefined]>) {
+  let out = "";
+  for (const [name, value] of pairs) {
+    if (value === null || value === undefined || value === "") continue;
+    const text =
+      typeof value === "number" ? formatSVGNumber(value) : escapeXML(value);
+    out += ` ${name}="${text}"`;
+  }
+  return out;
+}
+
+function isTransparent(color: string): boolean {
+  const c = color.replace(/\s+/g, "").toLowerCase();
+  return (
+    c === "" ||
+    c === "transparent" ||
+    /^rgba\(.*,0(\.0*)?\)$/.test(c) ||
+    /^hsla\(.*,0(\.0*)?\)$/.test(c)
+  );
+}
+
+// ── Path Builder ──
+
+/**
+ * Accumulates canvas path commands as SVG path data.
+ *
+ * Mirrors the CanvasPath API (moveTo, arc, roundRect, ...). Instances can be
+ * passed to SVGRenderingContext.fill()/stroke()/clip() in place of a Path2D.
+ */
+export class SVGPathBuilder {
+  private _d: string[] = [];
+  private _hasPoint = false;
+  private _startX = 0;
+  private _startY = 0;
+  private _x = 0;
+  private _y = 0;
+
+  /** True when no commands have been recorded. */
+  get isEmpty(): boolean {
+    return this._d.length === 0;
+  }
+
+  /** SVG path data string. */
+  toString(): string {
+    return this._d.join(" ");
+  }
+
+  moveTo(x: number, y: number): void {
+    const f = formatSVGNumber;
+    this._d.push(`M${f(x)} ${f(y)}`);
+    this._hasPoint = true;
+    this._startX = this._x = x;
+    this._startY = this._y = y;
+  }
+
+  lineTo(x: number, y: number): void {
+    if (!this._hasPoint) {
+      this.moveTo(x, y);
+      return;
+    }
+    const f = formatSVGNumber;
+    this._d.push(`L${f(x)} ${f(y)}`);
+    this._x = x;
+    this._y = y;
+  }
+
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void {
+    if (!this._hasPoint) this.moveTo(cpx, cpy);
+    const f = formatSVGNumber;
+    this._d.push(`Q${f(cpx)} ${f(cpy)} ${f(x)} ${f(y)}`);
+    this._x = x;
+    this._y = y;
+  }
+
+  bezierCurveTo(
+    cp1x: number,
+    cp1y: number,
+    cp2x: number,
+    cp2y: number,
+    x: number,
+    y: number,
+  ): void {
+    if (!this._hasPoint) this.moveTo(cp1x, cp1y);
+    const f = formatSVGNumber;
+    this._d.push(
+      `C${f(cp1x)} ${f(cp1y)} ${f(cp2x)} ${f(cp2y)} ${f(x)} ${f(y)}`,
+    );
+    this._x = x;
+    this._y = y;
+  }
+
+  arc(
+    cx: number,
+    cy: number,
+    radius: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise = false,
+  ): void {
+    this.ellipse(
+      cx,
+      cy,
+      radius,
+      radius,
+      0,
+      startAngle,
+      endAngle,
+      counterclockwise,
+    );
+  }
+
+  ellipse(
+    cx: number,
+    cy: number,
+    rx: number,
+    ry: number,
+    rotation: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise = false,
+  ): void {
+    // Sweep normalisation follows the canvas spec
+    let sweep = endAngle - startAngle;
+    if (!counterclockwise) {
+      if (sweep >= TAU) sweep = TAU;
+      else {
+        sweep %= TAU;
+        if (sweep < 0) sweep += TAU;
+      }
+    } else if (-sweep >= TAU) {
+      sweep = -TAU;
+    } else {
+      sweep %= TAU;
+      if (sweep > 0) sweep -= TAU;
+    }
+
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const pointAt = (t: number) => {
+      const ex = rx * Math.cos(t);
+      const ey = ry * Math.sin(t);
+      return { x: cx + ex * cos - ey * sin, y: cy + ex * sin + ey * cos };
+    };
+
+    const start = pointAt(startAngle);
+    if (this._hasPoint) this.lineTo(start.x, start.y);
+    else this.moveTo(start.x, start.y);
+
+    if (sweep === 0 || rx <= 0 || ry <= 0) return;
+
+    // Quarter-turn segments keep every SVG arc unambiguous
+    const steps = Math.ceil(Math.abs(sweep) / HALF_PI - 1e-9);
+    const sweepFlag = sweep > 0 ? 1 : 0;
+    const rot = formatSVGNumber((rotation * 180) / Math.PI);
+    const f = formatSVGNumber;
+    for (let i = 1; i <= steps; i++) {
+      const p = pointAt(startAngle + (sweep * i) / steps);
+      this._d.push(
+        `A${f(rx)} ${f(ry)} ${rot} 0 ${sweepFlag} ${f(p.x)} ${f(p.y)}`,
+      );
+      this._x = p.x;
+      this._y = p.y;
+    }
+  }
+
+  rect(x: number, y: number, w: number, h: number): void {
+    this.moveTo(x, y);
+    this.lineTo(x + w, y);
+    this.lineTo(x + w, y + h);
+    this.lineTo(x, y + h);
+    this.closePath();
+  }
+
+  roundRect(
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    radii: number | DOMPointInit | Iterable<number | DOMPointInit> = 0,
+  ): void {
+    const list = (
+      typeof radii === "number" ? [radii] : Array.from(radii as number[])
+    ).map((r) => (typeof r === "number" ? r : ((r as DOMPointInit).x ?? 0)));
+    let [tl, tr, br, bl] =
+      list.length >= 4
+        ? list
+        : list.length === 3
+          ? [list[0], list[1], list[2], list[1]]
+          : list.length === 2
+            ? [list[0], list[1], list[0], list[1]]
+            : [list[0] ?? 0, list[0] ?? 0, list[0] ?? 0, list[0] ?? 0];
+
+    // Scale radii down uniformly when adjacent corners overlap
+    const aw = Math.abs(w);
+    const ah = Math.abs(h);
+    const scale = Math.min(
+      1,
+      aw / (tl + tr || 1),
+      aw / (bl + br || 1),
+      ah / (tl + bl || 1),
+      ah / (tr + br || 1),
+    );
+    tl *= scale;
+    tr *= scale;
+    br *= scale;
+    bl *= scale;
+
+    const f = formatSVGNumber;
+    const corner = (r: number, ex: number, ey: number) => {
+      if (r > 0) this._d.push(`A${f(r)} ${f(r)} 0 0 1 ${f(ex)} ${f(ey)}`);
+    };
+    this.moveTo(x + tl, y);
+    this.lineTo(x + w - tr, y);
+    corner(tr, x + w, y + tr);
+    this.lineTo(x + w, y + h - br);
+    corner(br, x + w - br, y + h);
+    this.lineTo(x + bl, y + h);
+    corner(bl, x, y + h - bl);
+    this.lineTo(x, y + tl);
+    corner(tl, x + tl, y);
+    this.closePath();
+  }
+
+  closePath(): void {
+    if (!this._hasPoint) return;
+    this._d.push("Z");
+    this._x = this._startX;
+    this._y = this._startY;
+  }
+}
+
+// ── Gradients ──
+
+/** CanvasGradient stand-in that records its stops for SVG output. */
+class SVGCanvasGradient implements CanvasGradient {
+  readonly id: string;
+  readonly kind: "linear" | "radial";
+  readonly coords: number[];
+  readonly stops: Array<{ offset: number; color: string }> = [];
+
+  constructor(id: string, kind: "linear" | "radial", coords: number[]) {
+    this.id = id;
+    this.kind = kind;
+    this.coords = coords;
+  }
+
+  addColorStop(offset: number, color: string): void {
+    this.stops.push({ offset, color });
+  }
+}
+
+// ── SVGRenderingContext Class ──
+
+/**
+ * Records canvas drawing calls as SVG elements.
+ *
+ * Pass to `new Arena2DContext(ctx as unknown as CanvasContext)` to reuse the
+ * regular paint() code paths. Use `openGroup()` / `closeGroup()` to emit
+ * structural `<g>` wrappers around recorded content.
+ */
+export class SVGRenderingContext implements ISVGState {
+  fillStyle: string | CanvasGradient | CanvasPattern = "#000";
+  strokeStyle: string | CanvasGradient | CanvasPattern = "#000";
+  lineWidth = 1;
+  lineCap: CanvasLineCap = "butt";
+  lineJoin: CanvasLineJoin = "miter";
+  miterLimit = 10;
+  lineDash: number[] = [];
+  lineDashOffset = 0;
+  globalAlpha = 1;
+  globalCompositeOperation: GlobalCompositeOperation = "source-over";
+  font = "10px sans-serif";
+  textAlign: CanvasTextAlign = "start";
+  textBaseline: CanvasTextBaseline = "alphabetic";
+  shadowColor = "transparent";
+  shadowBlur = 0;
+  shadowOffsetX = 0;
+  shadowOffsetY = 0;
+  matrix: [number, number, number, number, number, number] = [1, 0, 0, 1, 0, 0];
+  openGroups = 0;
+
+  private _stack: ISVGState[] = [];
+  private _path = new SVGPathBuilder();
+  private _body: string[] = [];
+  private _defs: string[] = [];
+  private _emittedDefs = new Set<string>();
+  private _filterIds = new Map<string, string>();
+  private _nextId = 0;
+  private _idPrefix: string;
+  private _resolveImage: (image: CanvasImageSource) => string | null;
+
+  constructor(options: ISVGRenderingContextOptions = {}) {
+    this._idPrefix = options.idPrefix ?? "arena";
+    this._resolveImage = options.resolveImage ?? defaultResolveImage;
+  }
+
+  // ── Output ──
+
+  /** Recorded drawing markup. */
+  get body(): string {
+    return this._body.join("");
+  }
+
+  /** Gradient, clip path and filter definitions referenced by the body. */
+  get defs(): string {
+    return this._defs.join("");
+  }
+
+  /** Number of body chunks written so far (used to detect empty output). */
+  get length(): number {
+    return this._body.length;
+  }
+
+  /** Append raw markup to the body. */
+  write(markup: string): void {
+    this._body.push(markup);
+  }
+
+  /** Discard body chunks written after `length` was `mark`. */
+  truncate(mark: number): void {
+    this._body.length = mark;
+  }
+
+  /** Open a `<g>` with the given attributes (values are escaped). */
+  openGroup(
+    attributes: Array<[string, string | number | null | undefined]>,
+  ): void {
+    this._body.push(`<g${attrs(attributes)}>`);
+  }
+
+  closeGroup(): void {
+    this._body.push("</g>");
+  }
+
+  // ── State ──
+
+  save(): void {
+    this._stack.push(this._snapshot());
+    this.openGroups = 0;
+  }
+
+  restore(): void {
+    const prev = this._stack.pop();
+    if (!prev) return;
+    for (let i = 0; i < this.openGroups; i++) this.closeGroup();
+    Object.assign(this, prev);
+  }
+
+  private _snapshot(): ISVGState {
+    return {
+      fillStyle: this.fillStyle,
+      strokeStyle: this.strokeStyle,
+      lineWidth: this.lineWidth,
+      lineCap: this.lineCap,
+      lineJoin: this.lineJoin,
+      miterLimit: this.miterLimit,
+      lineDash: this.lineDash.slice(),
+      lineDashOffset: this.lineDashOffset,
+      globalAlpha: this.globalAlpha,
+      globalCompositeOperation: this.globalCompositeOperation,
+      font: this.font,
+      textAlign: this.textAlign,
+      textBaseline: this.textBaseline,
+      shadowColor: this.shadowColor,
+      shadowBlur: this.shadowBlur,
+      shadowOffsetX: this.shadowOffsetX,
+      shadowOffsetY: this.shadowOffsetY,
+      matrix: [...this.matrix] as ISVGState["matrix"],
+      openGroups: this.openGroups,
+    };
+  }
+
+  setLineDash(segments: number[]): void {
+    this.lineDash = segments.slice();
+  }
+
+  getLineDash(): number[] {
+    return this.lineDash.slice();
+  }
+
+  // ── Transform ──
+
+  setTransform(
+    a: number,
+    b: number,
+    c: number,
+    d: number,
+    e: number,
+    f: number,
+  ): void {
+    this.matrix = [a, b, c, d, e, f];
+  }
+
+  resetTransform(): void {
+    this.matrix = [1, 0, 0, 1, 0, 0];
+  }
+
+  transform(
+    a: number,
+    b: number,
+    c: number,
+    d: number,
+    e: number,
+    f: number,
+  ): void {
+    const m = this.matrix;
+    this.matrix = [
+      m[0] * a + m[2] * b,
+      m[1] * a + m[3] * b,
+      m[0] * c + m[2] * d,
+      m[1] * c + m[3] * d,
+      m[0] * e + m[2] * f + m[4],
+      m[1] * e + m[3] * f + m[5],
+    ];
+  }
+
+  translate(x: number, y: number): void {
+    this.transform(1, 0, 0, 1, x, y);
+  }
+
+  scale(x: number, y: number): void {
+    this.transform(x, 0, 0, y, 0, 0);
+  }
+
+  rotate(angle: number): void {
+    const c = Math.cos(angle);
+    const s = Math.sin(angle);
+    this.transform(c, s, -s, c, 0, 0);
+  }
+
+  // ── Path Construction ──
+
+  beginPath(): void {
+    this._path = new SVGPathBuilder();
+  }
+
+  moveTo(x: number, y: number): void {
+    this._path.moveTo(x, y);
+  }
+
+  lineTo(x: number, y: number): void {
+    this._path.lineTo(x, y);
+  }
+
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void {
+    this._path.quadraticCurveTo(cpx, cpy, x, y);
+  }
+
+  bezierCurveTo(
+    cp1x: number,
+    cp1y: number,
+    cp2x: number,
+    cp2y: number,
+    x: number,
+    y: number,
+  ): void {
+    this._path.bezierCurveTo(cp1x, cp1y, cp2x, cp2y, x, y);
+  }
+
+  arc(
+    cx: number,
+    cy: number,
+    radius: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise?: boolean,
+  ): void {
+    this._path.arc(cx, cy, radius, startAngle, endAngle, counterclockwise);
+  }
+
+  ellipse(
+    cx: number,
+    cy: number,
+    rx: number,
+    ry: number,
+    rotation: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise?: boolean,
+  ): void {
+    this._path.ellipse(
+      cx,
+      cy,
+      rx,
+      ry,
+      rotation,
+      startAngle,
+      endAngle,
+      counterclockwise,
+    );
+  }
+
+  rect(x: number, y: number, w: number, h: number): void {
+    this._path.rect(x, y, w, h);
+  }
+
+  roundRect(
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    radii?: number | DOMPointInit | Iterable<number | DOMPointInit>,
+  ): void {
+    this._path.roundRect(x, y, w, h, radii);
+  }
+
+  closePath(): void {
+    this._path.closePath();
+  }
+
+  // ── Painting ──
+
+  fill(
+    pathOrRule?: SVGPathBuilder | Path2D | CanvasFillRule,
+    fillRule?: CanvasFillRule,
+  ): void {
+    const { path, rule } = this._resolvePathArgs(pathOrRule, fillRule);
+    if (!path || path.isEmpty) return;
+    this._body.push(
+      `<path${attrs([
+        ["d", path.toString()],
+        ["fill", this._paint(this.fillStyle)],
+        ["fill-rule", rule === "evenodd" ? "evenodd" : null],
+        ...this._commonAttrs(),
+      ])}/>`,
+    );
+  }
+
+  stroke(path?: SVGPathBuilder | Path2D): void {
+    const resolved =
+      path === undefined
+        ? this._path
+        : path instanceof SVGPathBuilder
+          ? path
+          : null;
+    if (!resolved || resolved.isEmpty) return;
+    this._body.push(
+      `<path${attrs([
+        ["d", resolved.toString()],
+        ["fill", "none"],
+        ...this._strokeAttrs(),
+        ...this._commonAttrs(),
+      ])}/>`,
+    );
+  }
+
+  clip(
+    pathOrRule?: SVGPathBuilder | Path2D | CanvasFillRule,
+    fillRule?: CanvasFillRule,
+  ): void {
+    const { path, rule } = this._resolvePathArgs(pathOrRule, fillRule);
+    if (!path) return;
+    const id = this._newId("clip");
+    this._defs.push(
+      `<clipPath id="${id}"><path${attrs([
+        ["d", path.isEmpty ? "M0 0" : path.toString()],
+        ["clip-rule", rule === "evenodd" ? "evenodd" : null],
+        ["transform", formatSVGMatrix(this.matrix)],
+      ])}/></clipPath>`,
+    );
+    this.openGroup([["clip-path", `url(#${id})`]]);
+    this.openGroups++;
+  }
+
+  fillRect(x: number, y: number, w: number, h: number): void {
+    this._body.push(
+      `<rect${attrs([
+        ...rectAttrs(x, y, w, h),
+        ["fill", this._paint(this.fillStyle)],
+        ...this._commonAttrs(),
+      ])}/>`,
+    );
+  }
+
+  strokeRect(x: number, y: number, w: number, h: number): void {
+    this._body.push(
+      `<rect${attrs([
+        ...rectAttrs(x, y, w, h),
+        ["fill", "none"],
+        ...this._strokeAttrs(),
+        ...this._commonAttrs(),
+      ])}/>`,
+    );
+  }
+
+  clearRect(_x: number, _y: number, _w: number, _h: number): void {
+    // SVG output starts empty; clearing has no vector equivalent.
+  }
+
+  // ── Text ──
+
+  fillText(text: string, x: number, y: number): void {
+    this._text(text, x, y, [["fill", this._paint(this.fillStyle)]]);
+  }
+
+  strokeText(text: string, x: number, y: number): void {
+    this._text(text, x, y, [["fill", "none"], ...this._strokeAttrs()]);
+  }
+
+  /**
+   * Approximate text metrics (no font rasteriser is available).
+   * Uses an average glyph advance of 0.6em.
+   */
+  measureText(text: string): TextMetrics {
+    const size = parseFontSize(this.font);
+    return {
+      width: text.length * size * 0.6,
+      fontBoundingBoxAscent: size * 0.8,
+      fontBoundingBoxDescent: size * 0.2,
+    } as TextMetrics;
+  }
+
+  private _text(
+    text: string,
+    x: number,
+    y: number,
+    paint: Array<[string, string | number | null]>,
+  ): void {
+    this._body.push(
+      `<text${attrs([
+        ["x", x],
+        ["y", y],
+        ["style", `font: ${this.font}; white-space: pre`],
+        ["text-anchor", TEXT_ANCHOR[this.textAlign]],
+        ["dominant-baseline", DOMINANT_BASELINE[this.textBaseline]],
+        ...paint,
+        ...this._commonAttrs(),
+      ])}>${escapeXML(text)}</text>`,
+    );
+  }
+
+  // ── Images ──
+
+  drawImage(image: CanvasImageSource, ...args: number[]): void {
+    const href = this._resolveImage(image);
+    if (!href) return;
+    const natural = imageSize(image);
+
+    let sx = 0;
+    let sy = 0;
+    let sw = natural.width;
+    let sh = natural.height;
+    let dx: number;
+    let dy: number;
+    let dw = natural.width;
+    let dh = natural.height;
+
+    if (args.length >= 8) {
+      [sx, sy, sw, sh, dx, dy, dw, dh] = args;
+    } else if (args.length >= 4) {
+      [dx, dy, dw, dh] = args;
+    } else {
+      [dx, dy] = args;
+    }
+
+    const common = this._commonAttrs();
+    const isRegion =
+      args.length >= 8 &&
+      (sx !== 0 || sy !== 0 || sw !== natural.width || sh !== natural.height);
+
+    if (!isRegion) {
+      this._body.push(
+        `<image${attrs([
+          ["href", href],
+          ...rectAttrs(dx, dy, dw, dh),
+          ["preserveAspectRatio", "none"],
+          ...common,
+        ])}/>`,
+      );
+      return;
+    }
+
+    // Source regions become a nested viewport cropped via viewBox
+    const f = formatSVGNumber;
+    this._body.push(
+      `<g${attrs(common)}><svg${attrs([
+        ...rectAttrs(dx, dy, dw, dh),
+        ["viewBox", `${f(sx)} ${f(sy)} ${f(sw)} ${f(sh)}`],
+        ["preserveAspectRatio", "none"],
+      ])}><image${attrs([
+        ["href", href],
+        ["width", natural.width],
+        ["height", natural.height],
+      ])}/></svg></g>`,
+    );
+  }
+
+  // ── Gradients ──
+
+  createLinearGradient(
+    x0: number,
+    y0: number,
+    x1: number,
+    y1: number,
+  ): CanvasGradient {
+    return new SVGCanvasGradient(this._newId("grad"), "linear", [
+      x0,
+      y0,
+      x1,
+      y1,
+    ]);
+  }
+
+  createRadialGradient(
+    x0: number,
+    y0: number,
+    r0: number,
+    x1: number,
+    y1: number,
+    r1: number,
+  ): CanvasGradient {
+    return new SVGCanvasGradient(this._newId("grad"), "radial", [
+      x0,
+      y0,
+      r0,
+      x1,
+      y1,
+      r1,
+    ]);
+  }
+
+  // ── Attribute helpers ──
+
+  private _resolvePathArgs(
+    pathOrRule: SVGPathBuilder | Path2D | CanvasFillRule | undefined,
+    fillRule: CanvasFillRule | undefined,
+  ): { path: SVGPathBuilder | null; rule: CanvasFillRule | undefined } {
+    if (pathOrRule === undefined || typeof pathOrRule === "string") {
+      return { path: this._path, rule: pathOrRule };
+    }
+    // Opaque Path2D instances cannot be read back
+    const path = pathOrRule instanceof SVGPathBuilder ? pathOrRule : null;
+    return { path, rule: fillRule };
+  }
+
+  private _commonAttrs(): Array<[string, string | number | null]> {
+    const blend = this.globalCompositeOperation;
+    return [
+      ["transform", formatSVGMatrix(this.matrix)],
+      ["opacity", this.globalAlpha < 1 ? this.globalAlpha : null],
+      ["style", CSS_BLEND_MODES.has(blend) ? `mix-blend-mode: ${blend}` : null],
+      ["filter", this._shadowFilter()],
+    ];
+  }
+
+  private _strokeAttrs(): Array<[string, string | number | null]> {
+    return [
+      ["stroke", this._paint(this.strokeStyle)],
+      ["stroke-width", this.lineWidth !== 1 ? this.lineWidth : null],
+      ["stroke-linecap", this.lineCap !== "butt" ? this.lineCap : null],
+      ["stroke-linejoin", this.lineJoin !== "miter" ? this.lineJoin : null],
+      ["stroke-miterlimit", this.miterLimit !== 10 ? this.miterLimit : null],
+      [
+        "stroke-dasharray",
+        this.lineDash.length > 0
+          ? this.lineDash.map(formatSVGNumber).join(" ")
+          : null,
+      ],
+      [
+        "stroke-dashoffset",
+        this.lineDash.length > 0 && this.lineDashOffset !== 0
+          ? this.lineDashOffset
+          : null,
+      ],
+    ];
+  }
+
+  /** Convert a fill/stroke style to an SVG paint value. */
+  private _paint(style: string | CanvasGradient | CanvasPattern): string {
+    if (typeof style === "string") return style;
+    if (style instanceof SVGCanvasGradient) {
+      this._defineGradient(style);
+      return `url(#${style.id})`;
+    }
+    // Patterns and foreign gradients have no recorded description
+    return "none";
+  }
+
+  private _defineGradient(g: SVGCanvasGradient): void {
+    if (this._emittedDefs.has(g.id)) return;
+    this._emittedDefs.add(g.id);
+
+    const stops = g.stops
+      .map(
+        (s) =>
+          `<stop${attrs([
+            ["offset", s.offset],
+            ["stop-color", s.color],
+          ])}/>`,
+      )
+      .join("");
+    const c = g.coords;
+    if (g.kind === "linear") {
+      this._defs.push(
+        `<linearGradient${attrs([
+          ["id", g.id],
+          ["gradientUnits", "userSpaceOnUse"],
+          ["x1", c[0]],
+          ["y1", c[1]],
+          ["x2", c[2]],
+          ["y2", c[3]],
+        ])}>${stops}</linearGradient>`,
+      );
+    } else {
+      this._defs.push(
+        `<radialGradient${attrs([
+          ["id", g.id],
+          ["gradientUnits", "userSpaceOnUse"],
+          ["fx", c[0]],
+          ["fy", c[1]],
+          ["fr", c[2] !== 0 ? c[2] : null],
+          ["cx", c[3]],
+          ["cy", c[4]],
+          ["r", c[5]],
+        ])}>${stops}</radialGradient>`,
+      );
+    }
+  }
+
+  private _shadowFilter(): string | null {
+    if (isTransparent(this.shadowColor)) return null;
+    if (
+      this.shadowBlur === 0 &&
+      this.shadowOffsetX === 0 &&
+      this.shadowOffsetY === 0
+    ) {
+      return null;
+    }
+
+    const key = `${this.shadowColor}|${this.shadowBlur}|${this.shadowOffsetX}|${this.shadowOffsetY}`;
+    let id = this._filterIds.get(key);
+    if (!id) {
+      id = this._newId("shadow");
+      this._filterIds.set(key, id);
+      this._defs.push(
+        `<filter${attrs([
+          ["id", id],
+          ["x", "-50%"],
+          ["y", "-50%"],
+          ["width", "200%"],
+          ["height", "200%"],
+        ])}><feDropShadow${attrs([
+          ["dx", this.shadowOffsetX],
+          ["dy", this.shadowOffsetY],
+          // Canvas shadowBlur is twice the Gaussian standard deviation
+          ["stdDeviation", this.shadowBlur / 2],
+          ["flood-color", this.shadowColor],
+        ])}/></filter>`,
+      );
+    }
+    return `url(#${id})`;
+  }
+
+  private _newId(kind: string): string {
+    return `${this._idPrefix}-${kind}-${++this._nextId}`;
+  }
+}
+
+// ── Module helpers ──
+
+const TEXT_ANCHOR: Record<CanvasTextAlign, string | null> = {
+  start: null,
+  left: null,
+  center: "middle",
+  right: "end",
+  end: "end",
+};
+
+const DOMINANT_BASELINE: Record<CanvasTextBaseline, string | null> = {
+  alphabetic: null,
+  top: "text-before-edge",
+  hanging: "hanging",
+  middle: "middle",
+  ideographic: "ideographic",
+  bottom: "text-after-edge",
+};
+
+function rectAttrs(
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+): Array<[string, number | null]> {
+  // SVG rejects negative sizes; normalise like canvas does
+  return [
+    ["x", w < 0 ? x + w : x],
+    ["y", h < 0 ? y + h : y],
+    ["width", Math.abs(w)],
+    ["height", Math.abs(h)],
+  ];
+}
+
+function parseFontSize(font: string): number {
+  const match = /([\d.]+)px/.exec(font);
+  return match ? Number.parseFloat(match[1]) : 10;
+}
+
+function imageSize(image: CanvasImageSource): {
+  width: number;
+  height: number;
+} {
+  const img = image as {
+    naturalWidth?: number;
+    naturalHeight?: number;
+    width?: unknown;
+    height?: unknown;
+  };
+  const width =
+    img.naturalWidth || (typeof img.width === "number" ? img.width : 0);
+  const height =
+    img.naturalHeight || (typeof img.height === "number" ? img.height : 0);
+  return { width, height };
+}
+
+function defaultResolveImage(image: CanvasImageSource): string | null {
+  const source = image as {
+    currentSrc?: unknown;
+    src?: unknown;
+    toDataURL?: () => string;
+  };
+  if (typeof source.currentSrc === "string" && source.currentSrc) {
+    return source.currentSrc;
+  }
+  if (typeof source.src === "string" && source.src) return source.src;
+  if (typeof source.toDataURL === "function") {
+    try {
+      return source.toDataURL();
+    } catch {
+      // Tainted canvases cannot be serialised
+      return null;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,263 @@
+/**
+ * GeometrySerializer — JSON round-tripping for geometry primitives.
+ *
+ * Converts any built-in Geometry (and nested CompositeGeometry trees) to a
+ * plain JSON object and back. Used by the scene serializer for
+ * GeometryElement subclasses.
+ *
+ * @module Serialization
+ */
+
+import { Arc } from "../geometry/Arc";
+import { BezierCurve } from "../geometry/BezierCurve";
+import { Circle } from "../geometry/Circle";
+import { CompositeGeometry } from "../geometry/CompositeGeometry";
+import { Ellipse } from "../geometry/Ellipse";
+import type { Geometry } from "../geometry/Geometry";
+import { Line } from "../geometry/Line";
+import { Path } from "../geometry/Path";
+import { Point } from "../geometry/Point";
+import { Polygon } from "../geometry/Polygon";
+import { QuadraticCurve } from "../geometry/QuadraticCurve";
+import { Ray } from "../geometry/Ray";
+import { Rectangle } from "../geometry/Rectangle";
+import type { PathSegment } from "../geometry/types";
+
+// ── Types ──
+
+/** Transform properties shared by elements and geometries. */
+export interface ISerializedTransform {
+  x: number;
+  y: number;
+  rotation: number;
+  scaleX: number;
+  scaleY: number;
+  skewX: number;
+  skewY: number;
+  pivotX: number;
+  pivotY: number;
+}
+
+/** JSON form of a geometry primitive. */
+export interface ISerializedGeometry {
+  /** Geometry type identifier (matches `Geometry.type`). */
+  type: string;
+  /** The geometry's own transform (relative to its owner). */
+  transform: ISerializedTransform;
+  /** Type-specific shape parameters. */
+  params: Record<string, unknown>;
+  /** Child geometries (composite only). */
+  children?: ISerializedGeometry[];
+}
+
+type Pt = { x: number; y: number };
+
+// ── Transform helpers ──
+
+/**
+ * Read the nine transform properties from any transform-like object.
+ */
+export function readTransform(t: ISerializedTransform): ISerializedTransform {
+  return {
+    x: t.x,
+    y: t.y,
+    rotation: t.rotation,
+    scaleX: t.scaleX,
+    scaleY: t.scaleY,
+    skewX: t.skewX,
+    skewY: t.skewY,
+    pivotX: t.pivotX,
+    pivotY: t.pivotY,
+  };
+}
+
+/**
+ * Write serialized transform properties onto a transform-like object.
+ * Missing keys are left untouched.
+ */
+export function writeTransform(
+  target: ISerializedTransform,
+  data: Partial<ISerializedTransform> | undefined,
+): void {
+  if (!data) return;
+  if (data.x !== undefined) target.x = data.x;
+  if (data.y !== undefined) target.y = data.y;
+  if (data.rotation !== undefined) target.rotation = data.rotation;
+  if (data.scaleX !== undefined) target.scaleX = data.scaleX;
+  if (data.scaleY !== undefined) target.scaleY = data.scaleY;
+  if (data.skewX !== undefined) target.skewX = data.skewX;
+  if (data.skewY !== undefined) target.skewY = data.skewY;
+  if (data.pivotX !== undefined) target.pivotX = data.pivotX;
+  if (data.pivotY !== undefined) target.pivotY = data.pivotY;
+}
+
+function clonePoints(points: ReadonlyArray<Pt>): Pt[] {
+  return points.map((p) => ({ x: p.x, y: p.y }));
+}
+
+// ── Serialization ──
+
+/**
+ * Serialize a geometry to a plain JSON object.
+ *
+ * @throws Error if the geometry type is not one of the built-in primitives.
+ */
+export function serializeGeometry(geometry: Geometry): ISerializedGeometry {
+  const data: ISerializedGeometry = {
+    type: geometry.type,
+    transform: readTransform(geometry),
+    params: {},
+  };
+
+  if (geometry instanceof Rectangle) {
+    data.params = {
+      rectX: geometry.rectX,
+      rectY: geometry.rectY,
+      width: geometry.width,
+      height: geometry.height,
+    };
+  } else if (geometry instanceof Circle) {
+    data.params = { cx: geometry.cx, cy: geometry.cy, radius: geometry.radius };
+  } else if (geometry instanceof Ellipse) {
+    data.params = {
+      cx: geometry.cx,
+      cy: geometry.cy,
+      rx: geometry.rx,
+      ry: geometry.ry,
+    };
+  } else if (geometry instanceof Line) {
+    data.params = {
+      x1: geometry.x1,
+      y1: geometry.y1,
+      x2: geometry.x2,
+      y2: geometry.y2,
+    };
+  } else if (geometry instanceof Point) {
+    data.params = { px: geometry.px, py: geometry.py };
+  } else if (geometry instanceof Ray) {
+    data.params = {
+      originX: geometry.originX,
+      originY: geometry.originY,
+      directionX: geometry.directionX,
+      directionY: geometry.directionY,
+    };
+  } else if (geometry instanceof Polygon) {
+    data.params = {
+      points: clonePoints(geometry.points),
+      closed: geometry.closed,
+    };
+  } else if (geometry instanceof Arc) {
+    data.params = {
+      cx: geometry.cx,
+      cy: geometry.cy,
+      radius: geometry.radius,
+      startAngle: geometry.startAngle,
+      endAngle: geometry.endAngle,
+      counterclockwise: geometry.counterclockwise,
+    };
+  } else if (geometry instanceof QuadraticCurve) {
+    data.params = {
+      x0: geometry.x0,
+      y0: geometry.y0,
+      cpx: geometry.cpx,
+      cpy: geometry.cpy,
+      x1: geometry.x1,
+      y1: geometry.y1,
+    };
+  } else if (geometry instanceof BezierCurve) {
+    data.params = { controlPoints: clonePoints(geometry.controlPoints) };
+  } else if (geometry instanceof Path) {
+    data.params = {
+      segments: geometry.segments.map((s) => ({ ...s })),
+    };
+  } else if (geometry instanceof CompositeGeometry) {
+    data.children = geometry.children.map((c) => serializeGeometry(c));
+  } else {
+    throw new Error(
+      `Cannot serialize geometry of unknown type "${geometry.type}"`,
+    );
+  }
+
+  return data;
+}
+
+// ── Deserialization ──
+
+/**
+ * Copy serialized shape parameters onto an existing geometry of the same type.
+ * Used when the owning element already constructed its geometry.
+ */
+export function applyGeometry(
+  geometry: Geometry,
+  data: ISerializedGeometry,
+): void {
+  if (geometry.type !== data.type) {
+    throw new Error(
+      `Geometry type mismatch: expected "${geometry.type}", got "${data.type}"`,
+    );
+  }
+
+  writeTransform(geometry, data.transform);
+  const p = data.params;
+
+  if (geometry instanceof Polygon) {
+    geometry.points = clonePoints((p.points as Pt[]) ?? []);
+    geometry.closed = (p.closed as boolean) ?? true;
+  } else if (geometry instanceof BezierCurve) {
+    geometry.controlPoints = clonePoints((p.controlPoints as Pt[]) ?? []);
+  } else if (geometry instanceof Path) {
+    geometry.clear();
+    for (const seg of (p.segments as PathSegment[]) ?? []) {
+      geometry.segments.push({ ...seg });
+    }
+  } else if (geometry instanceof CompositeGeometry) {
+    geometry.removeAllChildren();
+    for (const child of data.children ?? []) {
+      geometry.addChild(deserializeGeometry(child));
+    }
+  } else {
+    Object.assign(geometry, p);
+  }
+}
+
+/**
+ * Construct a new geometry from its serialized form.
+ *
+ * @throws Error if the type is not one of the built-in primitives.
+ */
+export function deserializeGeometry(data: ISerializedGeometry): Geometry {
+  const geometry = createEmptyGeometry(data.type);
+  applyGeometry(geometry, data);
+  return geometry;
+}
+
+function createEmptyGeometry(type: string): Geometry {
+  switch (type) {
+    case "rectangle":
+      return new Rectangle();
+    case "circle":
+      return new Circle();
+    case "ellipse":
+      return new Ellipse();
+    case "line":
+      return new Line();
+    case "point":
+      return new Point();
+    case "ray":
+      return new Ray();
+    case "polygon":
+      return new Polygon();
+    case "arc":
+      return new Arc();
+    case "quadraticCurve":
+      return new QuadraticCurve();
+    case "bezierCurve":
+      return new BezierCurve();
+    case "path":
+      return new Path();
+    case "composite":
+      return new CompositeGeometry();
+    default:
+      throw new Error(`Cannot deserialize geometry of unknown type "${type}"`);
+  }
+}
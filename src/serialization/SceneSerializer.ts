@@ -0,0 +1,872 @@
+/**
+ * SceneSerializer — Versioned JSON save/load for whole scene graphs.
+ *
+ * Walks `Scene.root` and every descendant, producing a plain JSON document
+ * that captures transforms, layout style, visual/interaction state, text
+ * styles, fill/stroke and element-specific data. The matching deserializer
+ * rebuilds the tree with the same element ids and layer assignments.
+ *
+ * Element types are resolved through a small adapter registry. Built-in
+ * elements are pre-registered; applications can add their own subclasses
+ * with `registerElementType()`.
+ *
+ * Live resources are stored by reference and resolved again on load:
+ * images by their `src` (`resolveImage`) and the atlases animated sprites
+ * play from by their image path (`resolveAtlas`). Callbacks such as a
+ * virtual container's `createItem` are code and must be set again.
+ *
+ * @module Serialization
+ * @example
+ * ```typescript
+ * const doc = serializeScene(scene);
+ * localStorage.setItem("diagram", JSON.stringify(doc));
+ *
+ * // Later, into a fresh scene + view:
+ * deserializeScene(JSON.parse(saved), scene, {
+ *   resolveLayer: (id) => view.getLayer(id),
+ * });
+ * ```
+ */
+
+import type { IAtlasFrame, TextureAtlas } from "../assets/TextureAtlas";
+import { Container } from "../core/Container";
+import { Element, type IElement, type MaskMode } from "../core/Element";
+import type { ILayer, Layer } from "../core/Layer";
+import type { Scene } from "../core/Scene";
+import { AnimatedSprite } from "../elements/AnimatedSprite";
+import { ArcElement } from "../elements/ArcElement";
+import { BezierCurveElement } from "../elements/BezierCurveElement";
+import { Circle } from "../elements/Circle";
+import { EllipseElement } from "../elements/EllipseElement";
+import { GeometryElement } from "../elements/GeometryElement";
+import { Image } from "../elements/Image";
+import { LineElement } from "../elements/LineElement";
+import { PathElement } from "../elements/PathElement";
+import { PolygonElement } from "../elements/PolygonElement";
+import { QuadraticCurveElement } from "../elements/QuadraticCurveElement";
+import { Rect } from "../elements/Rect";
+import { ScrollContainer } from "../elements/ScrollContainer";
+import { ShapeElement } from "../elements/ShapeElement";
+import { type ITextStyle, Text } from "../elements/Text";
+import { TextInput } from "../elements/TextInput";
+import {
+  TextOnPath,
+  type TextPathAlign,
+  type TextPathSide,
+} from "../elements/TextOnPath";
+import { VirtualGrid } from "../elements/VirtualGrid";
+import { VirtualList } from "../elements/VirtualList";
+import type { Geometry } from "../geometry/Geometry";
+import type { IStyle } from "../layout/Style";
+import type { IRect } from "../math/aabb";
+import { type IPatternFill, type ShapePaint, isFill } from "../rendering/Fills";
+import type { IFilter } from "../rendering/Filters";
+import type { ITextRun } from "../text/TextLayout";
+import {
+  type ISerializedGeometry,
+  type ISerializedTransform,
+  applyGeometry,
+  deserializeGeometry,
+  readTransform,
+  serializeGeometry,
+  writeTransform,
+} from "./GeometrySerializer";
+
+// ── Constants ──
+
+/** Identifier stored in every scene document. */
+export const SCENE_FORMAT = "arena-2d/scene";
+
+/** Current scene document version. Bumped on breaking format changes. */
+export const SCENE_FORMAT_VERSION = 1;
+
+// ── Types ──
+
+/** JSON form of a single element (and, recursively, its children). */
+export interface ISerializedElement {
+  /** Registered element type name (e.g. "rect", "container"). */
+  type: string;
+  id: string;
+  /** Layer id, present only when it differs from the parent's layer. */
+  layer?: string;
+  transform: ISerializedTransform;
+  width: number;
+  height: number;
+  style: IStyle;
+  visual: {
+    visible: boolean;
+    display: "visible" | "hidden";
+    alpha: number;
+    zIndex: number;
+    blendMode: GlobalCompositeOperation;
+    cacheAsBitmap: boolean;
+    /** Present only when the element has filters. */
+    filters?: IFilter[];
+    /** Present only when the element has a mask or non-default mask settings. */
+    mask?: ISerializedMask;
+  };
+  interaction: {
+    interactive: boolean;
+    draggable: boolean;
+    dragConstraint: "none" | "x" | "y";
+    dragHitTestMode: "aabb" | "quad";
+    focusable: boolean;
+    cursor: string;
+  };
+  /** Type-specific properties (fill, text, geometry, ...). */
+  props: Record<string, unknown>;
+  children?: ISerializedElement[];
+}
+
+/** JSON form of an element's mask and its settings. */
+export interface ISerializedMask {
+  mode: MaskMode;
+  inverted: boolean;
+  /** Id of a mask that sits in the scene tree. */
+  ref?: string;
+  /** A mask outside the scene tree, stored inline. */
+  element?: ISerializedElement;
+}
+
+/** Top-level scene document. */
+export interface ISceneDocument {
+  format: typeof SCENE_FORMAT;
+  version: number;
+  width: number;
+  height: number;
+  alphaThreshold: number;
+  root: ISerializedElement;
+}
+
+/** Options for rebuilding elements from JSON. */
+export interface IDeserializeOptions {
+  /**
+   * Resolve a serialized layer id to a live layer (typically `view.getLayer`).
+   * Elements whose layer cannot be resolved inherit from their parent.
+   */
+  resolveLayer?: (id: string) => ILayer | null;
+  /**
+   * Resolve a serialized image `src` to a drawable source.
+   * Default: creates an `<img>` element when a DOM is available.
+   */
+  resolveImage?: (src: string) => CanvasImageSource | null;
+  /**
+   * Resolve a serialized atlas image path to a loaded atlas, so animated
+   * sprites can play again. Without it they show their stored frame.
+   */
+  resolveAtlas?: (imagePath: string) => TextureAtlas | null;
+}
+
+/** State shared by the elements built in one deserialize call. */
+interface IBuildContext {
+  /** Built elements by id, for resolving mask references. */
+  built: Map<string, Element>;
+  /** Elements whose mask is referenced by id, with that id. */
+  maskRefs: Array<[Element, string]>;
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: constructor signatures vary per element
+type ElementConstructor<T> = abstract new (...args: any[]) => T;
+
+/**
+ * Adapter teaching the serializer about one element class.
+ *
+ * Base-class state (transform, style, fill/stroke, geometry, text, children)
+ * is handled generically; adapters only deal with what their class adds.
+ */
+export interface IElementTypeAdapter<T extends Element = Element> {
+  /** Unique type name written to the document. */
+  readonly type: string;
+  /** The class this adapter handles (subclasses fall back to it). */
+  readonly ctor: ElementConstructor<T>;
+  /** Construct an empty instance with the serialized id. */
+  create(data: ISerializedElement): T;
+  /** Extract class-specific properties. */
+  write?(element: T): Record<string, unknown>;
+  /** Apply class-specific properties (before children are attached). */
+  read?(
+    element: T,
+    props: Record<string, unknown>,
+    options: IDeserializeOptions,
+  ): void;
+  /** Apply properties that depend on children (after they are attached). */
+  finalize?(element: T, props: Record<string, unknown>): void;
+  /**
+   * Whether the element's children are written. Set to false for elements
+   * that create their own children. Default: true.
+   */
+  readonly serializeChildren?: boolean;
+}
+
+// ── Registry ──
+
+const adaptersByType = new Map<string, IElementTypeAdapter>();
+// biome-ignore lint/complexity/noBannedTypes: keyed by class constructor
+const adaptersByCtor = new Map<Function, IElementTypeAdapter>();
+
+/**
+ * Register (or replace) the adapter for an element class.
+ */
+export function registerElementType<T extends Element>(
+  adapter: IElementTypeAdapter<T>,
+): void {
+  const a = adapter as unknown as IElementTypeAdapter;
+  adaptersByType.set(a.type, a);
+  adaptersByCtor.set(a.ctor, a);
+}
+
+/**
+ * Find the adapter for an element by walking its prototype chain,
+ * so unregistered subclasses serialize as their nearest known ancestor.
+ */
+function findAdapter(element: IElement): IElementTypeAdapter {
+  let proto = Object.getPrototypeOf(element);
+  while (proto) {
+    const adapter = adaptersByCtor.get(proto.constructor);
+    if (adapter) return adapter;
+    proto = Object.getPrototypeOf(proto);
+  }
+  throw new Error(`No serializer registered for element [${element.id}]`);
+}
+
+// ── Serialization ──
+
+function writeFill(value: ShapePaint | undefined): unknown {
+  if (typeof value === "string") return value;
+  // Canvas gradients and patterns are bound to a live canvas context and
+  // cannot be represented in JSON; fill descriptors can.
+  if (!isFill(value)) return null;
+  if (value.type === "pattern") {
+    const { image, ...rest } = value;
+    const source = image as { src?: unknown };
+    return { ...rest, src: typeof source.src === "string" ? source.src : null };
+  }
+  return JSON.parse(JSON.stringify(value));
+}
+
+function readFill(
+  value: unknown,
+  options: IDeserializeOptions,
+): ShapePaint | undefined {
+  if (typeof value === "string") return value;
+  if (!isFill(value)) return undefined;
+  if (value.type === "pattern") {
+    const { src, ...rest } = value as unknown as Record<string, unknown>;
+    if (typeof src !== "string") return undefined;
+    const image = (options.resolveImage ?? defaultResolveImage)(src);
+    return image ? ({ ...rest, image } as IPatternFill) : undefined;
+  }
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Serialize a single element and its descendants.
+ */
+export function serializeElement(element: IElement): ISerializedElement {
+  const el = element as Element;
+  const adapter = findAdapter(el);
+
+  const data: ISerializedElement = {
+    type: adapter.type,
+    id: el.id,
+    transform: readTransform(el),
+    width: el.width,
+    height: el.height,
+    style: JSON.parse(JSON.stringify(el.style)),
+    visual: {
+      visible: el.visible,
+      display: el.display,
+      alpha: el.alpha,
+      zIndex: el.zIndex,
+      blendMode: el.blendMode,
+      cacheAsBitmap: el.cacheAsBitmap,
+      ...(el.filters.length > 0 && {
+        filters: JSON.parse(JSON.stringify(el.filters)),
+      }),
+      ...((el.mask || el.maskMode !== "clip" || el.maskInverted) && {
+        mask: writeMask(el),
+      }),
+    },
+    interaction: {
+      interactive: el.interactive,
+      draggable: el.draggable,
+      dragConstraint: el.dragConstraint,
+      dragHitTestMode: el.dragHitTestMode,
+      focusable: el.focusable,
+      cursor: el.cursor,
+    },
+    props: {},
+  };
+
+  // Record the layer only when explicitly assigned (differs from parent)
+  const layer = el.layer as ILayer | null;
+  const parentLayer = el.parent ? (el.parent.layer as ILayer | null) : null;
+  if (layer && el.parent && layer !== parentLayer) {
+    data.layer = layer.id;
+  }
+
+  const props = data.props;
+  if (el instanceof ShapeElement) {
+    props.fill = writeFill(el.fill);
+    props.stroke = writeFill(el.stroke);
+    props.lineWidth = el.lineWidth;
+  }
+  if (el instanceof GeometryElement) {
+    props.geometry = serializeGeometry(el.geometry);
+  }
+  if (el instanceof Text) {
+    props.text = el.text;
+    props.textStyle = { ...el.textStyle };
+    if (el.runs) props.runs = el.runs.map((run) => ({ ...run }));
+  }
+  if (el instanceof Container) {
+    props.clipContent = el.clipContent;
+  }
+  if (adapter.write) {
+    Object.assign(props, adapter.write(el));
+  }
+
+  if (
+    el instanceof Container &&
+    el.children.length > 0 &&
+    adapter.serializeChildren !== false
+  ) {
+    data.children = el.children.map((child) => serializeElement(child));
+  }
+
+  return data;
+}
+
+function writeMask(el: Element): ISerializedMask {
+  const mask = el.mask;
+  const data: ISerializedMask = {
+    mode: el.maskMode,
+    inverted: el.maskInverted,
+  };
+  if (mask) {
+    // A mask in the tree is written where it sits; refer to it by id
+    if (mask.parent) data.ref = mask.id;
+    else data.element = serializeElement(mask);
+  }
+  return data;
+}
+
+/**
+ * Serialize a whole scene to a versioned JSON document.
+ */
+export function serializeScene(scene: Scene): ISceneDocument {
+  return {
+    format: SCENE_FORMAT,
+    version: SCENE_FORMAT_VERSION,
+    width: scene.width,
+    height: scene.height,
+    alphaThreshold: scene.alphaThreshold,
+    root: serializeElement(scene.root),
+  };
+}
+
+// ── Deserialization ──
+
+/**
+ * Apply the type-independent parts of a serialized element.
+ */
+function applyCommon(el: Element, data: ISerializedElement): void {
+  writeTransform(el, data.transform);
+  el.width = data.width;
+  el.height = data.height;
+  el.updateStyle(data.style);
+
+  const v = data.visual;
+  el.visible = v.visible;
+  el.display = v.display;
+  el.alpha = v.alpha;
+  el.zIndex = v.zIndex;
+  el.blendMode = v.blendMode;
+  el.cacheAsBitmap = v.cacheAsBitmap;
+  el.filters = v.filters ?? [];
+
+  const i = data.interaction;
+  el.interactive = i.interactive;
+  el.draggable = i.draggable;
+  el.dragConstraint = i.dragConstraint;
+  el.dragHitTestMode = i.dragHitTestMode;
+  el.focusable = i.focusable;
+  el.cursor = i.cursor;
+}
+
+/**
+ * Apply base-class properties (shape, geometry, text, container).
+ */
+function applyProps(
+  el: Element,
+  props: Record<string, unknown>,
+  options: IDeserializeOptions,
+): void {
+  if (el instanceof ShapeElement) {
+    el.fill = readFill(props.fill, options);
+    el.stroke = readFill(props.stroke, options);
+    if (typeof props.lineWidth === "number") el.lineWidth = props.lineWidth;
+  }
+  if (el instanceof GeometryElement && props.geometry) {
+    applyGeometry(el.geometry, props.geometry as ISerializedGeometry);
+  }
+  if (el instanceof Text) {
+    if (props.textStyle) el.textStyle = { ...(props.textStyle as ITextStyle) };
+    if (Array.isArray(props.runs)) {
+      el.runs = props.runs as ITextRun[];
+    } else if (typeof props.text === "string") {
+      el.text = props.text;
+    }
+  }
+  if (el instanceof Container && typeof props.clipContent === "boolean") {
+    el.clipContent = props.clipContent;
+  }
+}
+
+/**
+ * Apply an element's mask settings. Inline masks are built here; masks
+ * referenced by id are resolved once the whole tree exists.
+ */
+function applyMask(
+  el: Element,
+  data: ISerializedMask | undefined,
+  options: IDeserializeOptions,
+  context: IBuildContext,
+): void {
+  el.maskMode = data?.mode ?? "clip";
+  el.maskInverted = data?.inverted ?? false;
+  el.mask = data?.element ? buildElement(data.element, options, context) : null;
+  if (data?.ref !== undefined) context.maskRefs.push([el, data.ref]);
+}
+
+/**
+ * Point elements at the masks they reference by id. References to
+ * elements that were not rebuilt are dropped.
+ */
+function resolveMaskRefs(context: IBuildContext): void {
+  for (const [el, id] of context.maskRefs) {
+    const mask = context.built.get(id);
+    if (mask && mask !== el) el.mask = mask;
+  }
+}
+
+/**
+ * Rebuild a single element (and its descendants) from JSON.
+ *
+ * @throws Error if the element type is not registered.
+ */
+export function deserializeElement(
+  data: ISerializedElement,
+  options: IDeserializeOptions = {},
+): Element {
+  const context: IBuildContext = { built: new Map(), maskRefs: [] };
+  const el = buildElement(data, options, context);
+  resolveMaskRefs(context);
+  return el;
+}
+
+function buildElement(
+  data: ISerializedElement,
+  options: IDeserializeOptions,
+  context: IBuildContext,
+): Element {
+  const adapter = adaptersByType.get(data.type);
+  if (!adapter) {
+    throw new Error(`Unknown element type "${data.type}" [${data.id}]`);
+  }
+
+  const el = adapter.create(data);
+  context.built.set(el.id, el);
+  applyCommon(el, data);
+  applyProps(el, data.props, options);
+  adapter.read?.(el, data.props, options);
+
+  // Explicit layer assignment must happen before the element is parented,
+  // otherwise onAdded() would inherit the parent's layer instead.
+  if (data.layer && options.resolveLayer) {
+    const layer = options.resolveLayer(data.layer);
+    if (layer) {
+      el.layer = layer;
+      (layer as Layer).addElement(el);
+    }
+  }
+
+  if (data.children && el instanceof Container) {
+    for (const childData of data.children) {
+      el.addChild(buildElement(childData, options, context));
+    }
+  }
+
+  adapter.finalize?.(el, data.props);
+  applyMask(el, data.visual.mask, options, context);
+  return el;
+}
+
+/**
+ * Load a scene document into an existing scene.
+ *
+ * The scene is resized to the document dimensions, the root's current
+ * children are removed, and the serialized tree is rebuilt under
+ * `scene.root`. The root keeps its own id.
+ *
+ * @throws Error if the document format or version is not supported.
+ */
+export function deserializeScene(
+  doc: ISceneDocument,
+  scene: Scene,
+  options: IDeserializeOptions = {},
+): void {
+  if (!doc || doc.format !== SCENE_FORMAT) {
+    throw new Error("Not an arena-2d scene document");
+  }
+  if (
+    typeof doc.version !== "number" ||
+    doc.version < 1 ||
+    doc.version > SCENE_FORMAT_VERSION
+  ) {
+    throw new Error(
+      `Unsupported scene document version ${doc.version} (supported: 1–${SCENE_FORMAT_VERSION})`,
+    );
+  }
+
+  if (scene.width !== doc.width || scene.height !== doc.height) {
+    scene.resize(doc.width, doc.height);
+  }
+  scene.alphaThreshold = doc.alphaThreshold;
+
+  const root = scene.root as Container;
+  root.removeAllChildren();
+  applyCommon(root, doc.root);
+  applyProps(root, doc.root.props, options);
+
+  const context: IBuildContext = { built: new Map(), maskRefs: [] };
+  context.built.set(doc.root.id, root);
+  for (const childData of doc.root.children ?? []) {
+    root.addChild(buildElement(childData, options, context));
+  }
+  applyMask(root, doc.root.visual.mask, options, context);
+  resolveMaskRefs(context);
+}
+
+// ── Built-in adapters ──
+
+function defaultResolveImage(src: string): CanvasImageSource | null {
+  if (typeof document === "undefined") return null;
+  const img = document.createElement("img");
+  img.src = src;
+  return img;
+}
+
+registerElementType({
+  type: "element",
+  ctor: Element,
+  create: (d) => new Element(d.id),
+});
+
+registerElementType({
+  type: "container",
+  ctor: Container,
+  create: (d) => new Container(d.id),
+});
+
+function writeScroll(el: ScrollContainer): Record<string, unknown> {
+  return {
+    scrollX: el.scrollX,
+    scrollY: el.scrollY,
+    scrollEnabledX: el.scrollEnabledX,
+    scrollEnabledY: el.scrollEnabledY,
+    inertiaEnabled: el.inertiaEnabled,
+    dragEnabled: el.dragEnabled,
+    clickDeferralThreshold: el.clickDeferralThreshold,
+  };
+}
+
+function readScroll(el: ScrollContainer, p: Record<string, unknown>): void {
+  el.scrollEnabledX = p.scrollEnabledX as boolean;
+  el.scrollEnabledY = p.scrollEnabledY as boolean;
+  el.inertiaEnabled = p.inertiaEnabled as boolean;
+  el.dragEnabled = p.dragEnabled as boolean;
+  el.clickDeferralThreshold = p.clickDeferralThreshold as number;
+}
+
+registerElementType<ScrollContainer>({
+  type: "scroll-container",
+  ctor: ScrollContainer,
+  create: (d) => new ScrollContainer(d.id),
+  write: writeScroll,
+  read: readScroll,
+  finalize: (el, p) => {
+    // Scroll is clamped to content bounds, which are only known
+    // once the children have been attached and measured.
+    el.update(0);
+    el.scrollTo((p.scrollX as number) ?? 0, (p.scrollY as number) ?? 0);
+  },
+});
+
+// Virtual containers store their configuration, not their recycled item
+// elements. `createItem` and `bindItem` are code and must be set again
+// after loading, before the container is updated.
+
+registerElementType<VirtualList>({
+  type: "virtual-list",
+  ctor: VirtualList,
+  create: (d) => new VirtualList(d.id),
+  serializeChildren: false,
+  write: (el) => ({
+    ...writeScroll(el),
+    itemCount: el.itemCount,
+    overscan: el.overscan,
+    // Per-row height functions cannot be stored; they load as measured rows
+    itemHeight: typeof el.itemHeight === "number" ? el.itemHeight : null,
+    estimatedItemHeight: el.estimatedItemHeight,
+    gap: el.gap,
+  }),
+  read: (el, p) => {
+    readScroll(el, p);
+    el.itemHeight = (p.itemHeight as number | null) ?? null;
+    el.estimatedItemHeight = (p.estimatedItemHeight as number) ?? 32;
+    el.gap = (p.gap as number) ?? 0;
+    el.overscan = (p.overscan as number) ?? 3;
+    el.itemCount = (p.itemCount as number) ?? 0;
+  },
+  finalize: (el, p) => {
+    // Content bounds follow the item count, so no update is needed
+    el.scrollTo((p.scrollX as number) ?? 0, (p.scrollY as number) ?? 0);
+  },
+});
+
+registerElementType<VirtualGrid>({
+  type: "virtual-grid",
+  ctor: VirtualGrid,
+  create: (d) => new VirtualGrid(d.id),
+  serializeChildren: false,
+  write: (el) => ({
+    ...writeScroll(el),
+    itemCount: el.itemCount,
+    overscan: el.overscan,
+    cellWidth: el.cellWidth,
+    cellHeight: el.cellHeight,
+    gap: el.gap,
+    columns: el.columns,
+  }),
+  read: (el, p) => {
+    readScroll(el, p);
+    el.cellWidth = (p.cellWidth as number) ?? 100;
+    el.cellHeight = (p.cellHeight as number) ?? 100;
+    el.gap = (p.gap as number) ?? 0;
+    el.columns = (p.columns as number | "auto") ?? "auto";
+    el.overscan = (p.overscan as number) ?? 3;
+    el.itemCount = (p.itemCount as number) ?? 0;
+  },
+  finalize: (el, p) => {
+    el.scrollTo((p.scrollX as number) ?? 0, (p.scrollY as number) ?? 0);
+  },
+});
+
+registerElementType({
+  type: "text",
+  ctor: Text,
+  create: (d) => new Text(d.id),
+});
+
+registerElementType<TextInput>({
+  type: "text-input",
+  ctor: TextInput,
+  create: (d) => new TextInput(d.id),
+  write: (el) => ({
+    placeholder: el.placeholder,
+    isPassword: el.isPassword,
+    readOnly: el.readOnly,
+    // JSON has no Infinity; null means "unlimited"
+    maxLength: Number.isFinite(el.maxLength) ? el.maxLength : null,
+    multiline: el.multiline,
+  }),
+  read: (el, p) => {
+    el.placeholder = (p.placeholder as string) ?? "";
+    el.isPassword = (p.isPassword as boolean) ?? false;
+    el.readOnly = (p.readOnly as boolean) ?? false;
+    el.maxLength =
+      typeof p.maxLength === "number" ? p.maxLength : Number.POSITIVE_INFINITY;
+    el.multiline = (p.multiline as boolean) ?? false;
+  },
+});
+
+registerElementType<TextOnPath>({
+  type: "text-on-path",
+  ctor: TextOnPath,
+  create: (d) => new TextOnPath(null, "", d.id),
+  write: (el) => ({
+    geometry: el.geometry
+      ? serializeGeometry(el.geometry as unknown as Geometry)
+      : null,
+    text: el.text,
+    textStyle: { ...el.textStyle },
+    startOffset: el.startOffset,
+    align: el.align,
+    side: el.side,
+    letterSpacing: el.letterSpacing,
+  }),
+  read: (el, p) => {
+    el.geometry = p.geometry
+      ? deserializeGeometry(p.geometry as ISerializedGeometry)
+      : null;
+    el.text = (p.text as string) ?? "";
+    if (p.textStyle) el.textStyle = { ...(p.textStyle as ITextStyle) };
+    el.startOffset = (p.startOffset as number) ?? 0;
+    el.align = (p.align as TextPathAlign) ?? "start";
+    el.side = (p.side as TextPathSide) ?? "above";
+    el.letterSpacing = (p.letterSpacing as number) ?? 0;
+  },
+});
+
+function writeImage(el: Image): Record<string, unknown> {
+  const source = el.source as { src?: unknown } | null;
+  return {
+    src: source && typeof source.src === "string" ? source.src : null,
+    sourceRect: el.sourceRect ? { ...el.sourceRect } : null,
+    nineSlice: el.nineSlice ? [...el.nineSlice] : null,
+    tint: el.tint ?? null,
+    // Atlas frames are plain data, stored whole so no atlas is needed
+    frame: el.frame ? JSON.parse(JSON.stringify(el.frame)) : null,
+  };
+}
+
+function readImage(
+  el: Image,
+  p: Record<string, unknown>,
+  options: IDeserializeOptions,
+): void {
+  if (typeof p.src === "string") {
+    const resolve = options.resolveImage ?? defaultResolveImage;
+    el.source = resolve(p.src);
+  }
+  el.sourceRect = (p.sourceRect as IRect | null) ?? undefined;
+  el.nineSlice =
+    (p.nineSlice as [number, number, number, number] | null) ?? undefined;
+  el.tint = (p.tint as string | null) ?? undefined;
+  el.frame = (p.frame as IAtlasFrame | null) ?? undefined;
+}
+
+registerElementType<Image>({
+  type: "image",
+  ctor: Image,
+  create: (d) => new Image(d.id),
+  write: writeImage,
+  read: readImage,
+});
+
+registerElementType<AnimatedSprite>({
+  type: "animated-sprite",
+  ctor: AnimatedSprite,
+  create: (d) => new AnimatedSprite(null, d.id),
+  write: (el) => {
+    const sequence = el.sequence;
+    return {
+      ...writeImage(el),
+      // The atlas is identified by its image path, like images by `src`
+      atlas: el.atlas?.imagePath ?? null,
+      sequence:
+        typeof sequence === "string" ? sequence : sequence && [...sequence],
+      currentFrame: el.currentFrame,
+      playing: el.playing,
+      fps: el.fps,
+      loop: el.loop,
+      pingPong: el.pingPong,
+      speed: el.speed,
+      useFrameDurations: el.useFrameDurations,
+      usePivot: el.usePivot,
+    };
+  },
+  read: (el, p, options) => {
+    readImage(el, p, options);
+    el.fps = (p.fps as number) ?? 12;
+    el.loop = (p.loop as boolean) ?? true;
+    el.pingPong = (p.pingPong as boolean) ?? false;
+    el.speed = (p.speed as number) ?? 1;
+    el.useFrameDurations = (p.useFrameDurations as boolean) ?? false;
+    el.usePivot = (p.usePivot as boolean) ?? false;
+
+    // Without the atlas the sprite keeps showing its stored frame
+    const atlas =
+      typeof p.atlas === "string" ? options.resolveAtlas?.(p.atlas) : null;
+    if (!atlas) return;
+    el.atlas = atlas;
+    if (p.sequence) {
+      el.setSequence(p.sequence as string | string[]);
+      el.gotoAndStop((p.currentFrame as number) ?? 0);
+      if (p.playing) el.play();
+    }
+  },
+});
+
+registerElementType({
+  type: "geometry",
+  ctor: GeometryElement,
+  create: (d) =>
+    new GeometryElement(
+      deserializeGeometry(d.props.geometry as ISerializedGeometry),
+      d.id,
+    ),
+});
+
+registerElementType<Rect>({
+  type: "rect",
+  ctor: Rect,
+  create: (d) => new Rect(d.id),
+  write: (el) => ({
+    radius: Array.isArray(el.radius) ? [...el.radius] : el.radius,
+  }),
+  read: (el, p) => {
+    if (p.radius !== undefined) {
+      el.radius = p.radius as number | [number, number, number, number];
+    }
+  },
+});
+
+registerElementType({
+  type: "circle",
+  ctor: Circle,
+  create: (d) => new Circle(d.id),
+});
+
+registerElementType({
+  type: "ellipse",
+  ctor: EllipseElement,
+  create: (d) => new EllipseElement(d.id),
+});
+
+registerElementType({
+  type: "line",
+  ctor: LineElement,
+  create: (d) => new LineElement(d.id),
+});
+
+registerElementType({
+  type: "polygon",
+  ctor: PolygonElement,
+  create: (d) => new PolygonElement([], true, d.id),
+});
+
+registerElementType({
+  type: "arc",
+  ctor: ArcElement,
+  create: (d) => new ArcElement(d.id),
+});
+
+registerElementType({
+  type: "quadratic-curve",
+  ctor: QuadraticCurveElement,
+  create: (d) => new QuadraticCurveElement(d.id),
+});
+
+registerElementType({
+  type: "bezier-curve",
+  ctor: BezierCurveElement,
+  create: (d) => new BezierCurveElement(undefined, d.id),
+});
+
+registerElementType({
+  type: "path",
+  ctor: PathElement,
+  create: (d) => new PathElement(d.id),
+});
@@ -0,0 +1,31 @@
+/**
+ * Serialization module — JSON save/load for scenes, elements and geometry.
+ * @module Serialization
+ */
+
+export type {
+  ISceneDocument,
+  ISerializedElement,
+  ISerializedMask,
+  IDeserializeOptions,
+  IElementTypeAdapter,
+} from "./SceneSerializer";
+export {
+  SCENE_FORMAT,
+  SCENE_FORMAT_VERSION,
+  serializeScene,
+  deserializeScene,
+  serializeElement,
+  deserializeElement,
+  registerElementType,
+} from "./SceneSerializer";
+
+export type {
+  ISerializedGeometry,
+  ISerializedTransform,
+} from "./GeometrySerializer";
+export {
+  serializeGeometry,
+  deserializeGeometry,
+  applyGeometry,
+} from "./GeometrySerializer";
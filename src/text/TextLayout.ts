@@ -5,6 +5,13 @@
  * wrapping, and text metrics. It is opaque to the main Layout Engine
  * (Layer 8) — providing only intrinsic size measurements.
  *
+ * Rich text (`computeRichTextLayout`) runs styled spans through the same
+ * word-wrap and splits each line into per-run fragments on a shared baseline.
+ *
+ * `whiteSpace` selects collapsing and wrapping like its CSS namesake;
+ * `maxLines` and `overflow` cut the result down, marking the layout and the
+ * cut lines as `truncated`.
+ *
  * SPEC: §6.2–6.3
  */
 
@@ -12,12 +19,45 @@ import {
   type IRenderTextStyle,
   buildFontString,
 } from "../rendering/Arena2DContext";
+import {
+  type IBidiRun,
+  type TextDirection,
+  hasRtl,
+  reorderLine,
+  resolveParagraph,
+} from "./bidi";
+import { graphemeBoundaries } from "./graphemes";
 
 // ── Types ──
 
+/**
+ * Whitespace handling, as in CSS: `normal` and `nowrap` collapse runs of
+ * spaces, tabs and line breaks into single spaces; `pre` and `pre-wrap`
+ * keep them. `nowrap` and `pre` only break at hard line breaks.
+ */
+export type TextWhiteSpace = "normal" | "nowrap" | "pre" | "pre-wrap";
+
+/**
+ * How text cut off by `maxLines` or the available width ends: hard `clip`,
+ * an `ellipsis` ("…") that fits within the width, or a `fade` to
+ * transparent at the end of the line.
+ */
+export type TextOverflow = "clip" | "ellipsis" | "fade";
+
 /** Text style for layout computation — extends render style with lineHeight */
 export interface ILayoutTextStyle extends IRenderTextStyle {
   lineHeight?: number;
+  /** Paragraph direction for bidi text. Default: `"auto"`. */
+  direction?: TextDirection;
+  /** Whitespace collapsing and wrapping. Default: `"pre-wrap"`. */
+  whiteSpace?: TextWhiteSpace;
+  /** Lines beyond this count are dropped. Default: unlimited. */
+  maxLines?: number;
+  /**
+   * Treatment of cut-off text. Without it, lines wider than the available
+   * width overflow and lines beyond `maxLines` are simply dropped.
+   */
+  overflow?: TextOverflow;
 }
 
 export interface ITextLine {
@@ -25,8 +65,38 @@ export interface ITextLine {
   text: string;
   /** Measured width in pixels */
   width: number;
-  /** X-offset of each character's left edge, relative to line start */
+  /**
+   * X-offset of each character's left edge, relative to line start.
+   * Every code unit of a grapheme cluster shares the cluster's offset.
+   */
   advancements: number[];
+  /**
+   * Grapheme cluster boundaries within `text` (including 0 and the length).
+   * Derived from `text` when omitted.
+   */
+  graphemes?: number[];
+  /** Bidi data; omitted when the line is entirely left-to-right */
+  bidi?: ITextLineBidi;
+  /** True if content was cut off at the end of this line */
+  truncated?: boolean;
+}
+
+/** A level run placed on the line. */
+export interface IVisualRun extends IBidiRun {
+  /** X-offset of the run's left edge */
+  x: number;
+  width: number;
+}
+
+export interface ITextLineBidi {
+  /** Paragraph embedding level: 0 = left-to-right, 1 = right-to-left */
+  baseLevel: number;
+  /** Resolved embedding level of each character (odd = right-to-left) */
+  levels: number[];
+  /** Level runs in visual order, left to right */
+  runs: IVisualRun[];
+  /** Width of each character's grapheme cluster */
+  widths: number[];
 }
 
 export interface ITextLayout {
@@ -34,6 +104,62 @@ export interface ITextLayout {
   lines: ITextLine[];
   /** Sum of all line heights */
   totalHeight: number;
+  /** True if `maxLines` or `overflow` cut off any content */
+  truncated?: boolean;
+}
+
+/** Inline style of a rich text run. Unset properties inherit the base style. */
+export interface ITextRunStyle {
+  fontFamily?: string;
+  fontSize?: number;
+  fontWeight?: "normal" | "bold";
+  fontStyle?: "normal" | "italic";
+  color?: string;
+  underline?: boolean;
+  strikethrough?: boolean;
+  /** Fill behind the run's glyphs */
+  background?: string;
+}
+
+/** A span of text with its own inline style. */
+export interface ITextRun extends ITextRunStyle {
+  text: string;
+}
+
+/** The part of one run that falls on one line. */
+export interface ITextFragment {
+  text: string;
+  /** Index of the source run */
+  runIndex: number;
+  /** Index of the fragment's first character within the line text */
+  start: number;
+  /** X-offset relative to line start */
+  x: number;
+  width: number;
+  /** Resolved font for measuring and drawing */
+  font: IRenderTextStyle;
+  color: string;
+  underline: boolean;
+  strikethrough: boolean;
+  background?: string;
+  /** Font ascent and descent above/below the baseline */
+  ascent: number;
+  descent: number;
+}
+
+export interface IRichTextLine extends ITextLine {
+  /** Styled pieces of the line, left to right */
+  fragments: ITextFragment[];
+  /** Top of the line box, relative to the layout top */
+  y: number;
+  /** Line box height (tallest run wins) */
+  height: number;
+  /** Baseline offset from the line top, shared by all fragments */
+  baseline: number;
+}
+
+export interface IRichTextLayout extends ITextLayout {
+  lines: IRichTextLine[];
 }
 
 // ── Measurement context ──
@@ -43,7 +169,11 @@ export interface ITextLayout {
  */
 export interface ITextMeasureContext {
   font: string;
-  measureText(text: string): { width: number };
+  measureText(text: string): {
+    width: number;
+    fontBoundingBoxAscent?: number;
+    fontBoundingBoxDescent?: number;
+  };
 }
 
 let _measureCtx: ITextMeasureContext | null = null;
@@ -90,19 +220,24 @@ function measureWidth(text: string): number {
 /**
  * Compute per-character x-offsets (advancements) for a string.
  * Each entry is the left edge of the character relative to line start.
- * Uses cumulative measurement of individual characters to avoid substring allocations.
+ * Measures whole grapheme clusters (so surrogate pairs, ZWJ sequences and
+ * combining marks are measured as one glyph) and accumulates their widths
+ * to avoid growing-substring allocations.
  */
 function computeAdvancements(text: string): number[] {
   const ctx = getMeasureContext();
   const advancements: number[] = [];
   let cumulativeAdvance = 0;
 
-  // Measure individual characters and accumulate the advancement
-  // Avoids N growing-substring allocations
-  for (let i = 0; i < text.length; i++) {
-    advancements.push(cumulativeAdvance);
-    const charWidth = ctx.measureText(text[i]).width;
-    cumulativeAdvance += charWidth;
+  const boundaries = graphemeBoundaries(text);
+  for (let b = 0; b < boundaries.length - 1; b++) {
+    const start = boundaries[b];
+    const end = boundaries[b + 1];
+    for (let i = start; i < end; i++) advancements.push(cumulativeAdvance);
+    cumulativeAdvance +=
+      end - start === 1
+        ? ctx.measureText(text[start]).width
+        : ctx.measureText(text.slice(start, end)).width;
   }
 
   return advancements;
@@ -123,7 +258,7 @@ let _cacheIndex = 0;
 let _cacheCount = 0;
 
 function buildFontKey(style: ILayoutTextStyle): string {
-  return `${style.fontWeight ?? "normal"}_${style.fontStyle ?? "normal"}_${style.fontSize}_${style.fontFamily}`;
+  return `${style.fontWeight ?? "normal"}_${style.fontStyle ?? "normal"}_${style.fontSize}_${style.fontFamily}_${style.direction ?? "auto"}_${style.whiteSpace ?? "pre-wrap"}_${style.maxLines ?? ""}_${style.overflow ?? ""}`;
 }
 
 function findCached(
@@ -159,42 +294,148 @@ function addToCache(
   }
 }
 
+// ── White Space ──
+
+const COLLAPSIBLE_RE = /[ \t\n\r\f]+/g;
+
+function collapsesWhiteSpace(whiteSpace: TextWhiteSpace | undefined): boolean {
+  return whiteSpace === "normal" || whiteSpace === "nowrap";
+}
+
+/** Width to wrap at: unlimited for the non-wrapping modes. */
+function wrapWidth(style: ILayoutTextStyle, availableWidth: number): number {
+  return style.whiteSpace === "nowrap" || style.whiteSpace === "pre"
+    ? Number.POSITIVE_INFINITY
+    : availableWidth;
+}
+
+/** Apply `whiteSpace` collapsing to plain text. */
+function collapseText(
+  text: string,
+  whiteSpace: TextWhiteSpace | undefined,
+): string {
+  return collapsesWhiteSpace(whiteSpace)
+    ? text.replace(COLLAPSIBLE_RE, " ").trim()
+    : text;
+}
+
+/**
+ * Apply `whiteSpace` collapsing across runs: a whitespace sequence that
+ * spans run boundaries collapses to one space, kept in the run it starts in.
+ */
+function collapseRuns(
+  runs: ITextRun[],
+  whiteSpace: TextWhiteSpace | undefined,
+): ITextRun[] {
+  if (!collapsesWhiteSpace(whiteSpace)) return runs;
+  let afterSpace = true; // drops leading whitespace
+  const collapsed = runs.map((run) => {
+    let text = "";
+    for (const ch of run.text.replace(COLLAPSIBLE_RE, " ")) {
+      if (ch !== " " || !afterSpace) text += ch;
+      afterSpace = ch === " ";
+    }
+    return { ...run, text };
+  });
+  // Drop the trailing space
+  for (let i = collapsed.length - 1; i >= 0; i--) {
+    const run = collapsed[i];
+    if (run.text.length === 0) continue;
+    if (run.text.endsWith(" ")) run.text = run.text.slice(0, -1);
+    break;
+  }
+  return collapsed;
+}
+
 // ── Word-Wrap Algorithm ──
 
+/** A word, a single space or a hard break, with its range in the source text. */
+interface ISegment {
+  /** `"\n"`, `" "` (spaces and tabs) or a word */
+  text: string;
+  start: number;
+  end: number;
+}
+
 /**
  * Split text into words, preserving whitespace as separators.
  * Hard line breaks (\n) produce "\n" markers.
  */
-function splitIntoSegments(text: string): string[] {
-  const segments: string[] = [];
+function splitIntoSegments(text: string): ISegment[] {
+  const segments: ISegment[] = [];
   let current = "";
+  let currentStart = 0;
 
   for (let i = 0; i < text.length; i++) {
     const ch = text[i];
-    if (ch === "\n") {
+    if (ch === "\n" || ch === " " || ch === "\t") {
       if (current.length > 0) {
-        segments.push(current);
+        segments.push({ text: current, start: currentStart, end: i });
         current = "";
       }
-      segments.push("\n");
-    } else if (ch === " " || ch === "\t") {
-      if (current.length > 0) {
-        segments.push(current);
-        current = "";
-      }
-      segments.push(" ");
+      segments.push({ text: ch === "\n" ? "\n" : " ", start: i, end: i + 1 });
     } else {
+      if (current.length === 0) currentStart = i;
       current += ch;
     }
   }
 
   if (current.length > 0) {
-    segments.push(current);
+    segments.push({ text: current, start: currentStart, end: text.length });
   }
 
   return segments;
 }
 
+/**
+ * Greedy word-wrap: group segments into lines no wider than
+ * `availableWidth`. Shared by plain and rich text layout, which only differ
+ * in how a segment is measured.
+ */
+function wrapSegments(
+  segments: ISegment[],
+  availableWidth: number,
+  measureSegment: (segment: ISegment) => number,
+): ISegment[][] {
+  const lines: ISegment[][] = [];
+  let current: ISegment[] = [];
+  let currentWidth = 0;
+
+  for (const segment of segments) {
+    if (segment.text === "\n") {
+      lines.push(current);
+      current = [];
+      currentWidth = 0;
+      continue;
+    }
+
+    const segmentWidth = measureSegment(segment);
+
+    if (segment.text === " ") {
+      // Spaces ALWAYS stay on the current line (they can overflow)
+      // This is crucial for caret positioning at the end of a line.
+      current.push(segment);
+      currentWidth += segmentWidth;
+      continue;
+    }
+
+    // It's a word
+    if (current.length > 0 && currentWidth + segmentWidth > availableWidth) {
+      // Doesn't fit, start a new line
+      lines.push(current);
+      current = [];
+      currentWidth = 0;
+    }
+    // First word on the line — always place it
+    current.push(segment);
+    currentWidth += segmentWidth;
+  }
+
+  // Finish last line
+  lines.push(current);
+  return lines;
+}
+
 /**
  * Compute text layout using a greedy word-wrap algorithm.
  *
@@ -209,12 +450,14 @@ export function computeTextLayout(
   availableWidth: number,
 ): ITextLayout {
   const lineHeight = style.lineHeight ?? Math.ceil(style.fontSize * 1.2);
+  const content = collapseText(text, style.whiteSpace);
 
   // Handle empty string
-  if (text.length === 0) {
+  if (content.length === 0) {
     return {
       lines: [{ text: "", width: 0, advancements: [] }],
       totalHeight: lineHeight,
+      truncated: false,
     };
   }
 
@@ -226,85 +469,623 @@ export function computeTextLayout(
   // Set font for measurement
   setMeasureFont(style);
 
-  const segments = splitIntoSegments(text);
-  const lines: ITextLine[] = [];
-
-  let currentLineText = "";
-  let currentLineWidth = 0;
   const spaceWidth = measureWidth(" ");
+  const wrapped = wrapSegments(
+    splitIntoSegments(content),
+    wrapWidth(style, availableWidth),
+    (segment) =>
+      segment.text === " " ? spaceWidth : measureWidth(segment.text),
+  );
+
+  const lines: ITextLine[] = wrapped.map((segments) => {
+    const lineText = segments.map((segment) => segment.text).join("");
+    const advancements = computeAdvancements(lineText);
+    const width = lineText.length > 0 ? measureWidth(lineText) : 0;
+    return { text: lineText, width, advancements };
+  });
+
+  // Truncate while advancements still run left to right, then reorder
+  const truncated = truncateLines(lines, style, availableWidth, ellipsizeLine);
+  wrapped.length = lines.length;
 
-  function finishLine(): void {
-    const content = currentLineText;
-    const advancements = computeAdvancements(content);
-    const width = content.length > 0 ? measureWidth(content) : 0;
-    lines.push({ text: content, width, advancements });
-    currentLineText = "";
-    currentLineWidth = 0;
+  const direction = style.direction ?? "auto";
+  if (direction === "rtl" || hasRtl(content)) {
+    applyBidi(content, direction, wrapped, lines);
   }
 
-  for (const segment of segments) {
-    if (segment === "\n") {
-      finishLine();
-      continue;
+  const result: ITextLayout = {
+    lines,
+    totalHeight: lines.length * lineHeight,
+    truncated,
+  };
+
+  addToCache(text, fontKey, availableWidth, result);
+  return result;
+}
+
+// ── Truncation ──
+
+const ELLIPSIS = "\u2026";
+
+/** Width of a line without its trailing whitespace. */
+function inkWidth(line: ITextLine): number {
+  let end = line.text.length;
+  while (end > 0 && /\s/.test(line.text[end - 1])) end--;
+  return end === line.text.length ? line.width : line.advancements[end];
+}
+
+/**
+ * Apply `maxLines` and `overflow` to freshly wrapped lines: drop the lines
+ * past `maxLines`, mark cut lines and, for `"ellipsis"`, shorten them.
+ *
+ * @param ellipsize - Ends a cut line with an ellipsis within `maxWidth`
+ * @returns Whether any content was cut off
+ */
+function truncateLines<T extends ITextLine>(
+  lines: T[],
+  style: ILayoutTextStyle,
+  availableWidth: number,
+  ellipsize: (line: T, maxWidth: number) => void,
+): boolean {
+  let truncated = false;
+
+  const maxLines = Math.max(
+    1,
+    Math.floor(style.maxLines ?? Number.POSITIVE_INFINITY),
+  );
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1].truncated = true;
+    truncated = true;
+  }
+
+  if (!style.overflow) return truncated;
+
+  for (const line of lines) {
+    if (inkWidth(line) > availableWidth) {
+      line.truncated = true;
+      truncated = true;
+    }
+    if (line.truncated && style.overflow === "ellipsis") {
+      ellipsize(line, availableWidth);
     }
+  }
+  return truncated;
+}
 
-    if (segment === " ") {
-      // Spaces ALWAYS stay on the current line (they can overflow)
-      // This is crucial for caret positioning at the end of a line.
-      currentLineText += " ";
-      currentLineWidth += spaceWidth;
-      continue;
+/**
+ * The last grapheme boundary at which the line's text plus an ellipsis
+ * still fits within `maxWidth`, moved back over trailing whitespace.
+ */
+function ellipsisCut(
+  line: ITextLine,
+  maxWidth: number,
+  ellipsisWidth: number,
+): number {
+  let cut = 0;
+  for (const boundary of lineGraphemes(line)) {
+    const x = line.advancements[boundary] ?? line.width;
+    if (x + ellipsisWidth > maxWidth) break;
+    cut = boundary;
+  }
+  while (cut > 0 && /\s/.test(line.text[cut - 1])) cut--;
+  return cut;
+}
+
+/** Cut a plain line so that it ends with an ellipsis within `maxWidth`. */
+function ellipsizeLine(line: ITextLine, maxWidth: number): void {
+  const ellipsisWidth = measureWidth(ELLIPSIS);
+  const cut = ellipsisCut(line, maxWidth, ellipsisWidth);
+  const cutX = line.advancements[cut] ?? line.width;
+  line.text = line.text.slice(0, cut) + ELLIPSIS;
+  line.advancements = [...line.advancements.slice(0, cut), cutX];
+  line.width = cutX + ellipsisWidth;
+}
+
+/**
+ * Cut a rich line so that it ends with an ellipsis within `maxWidth`. The
+ * ellipsis is styled like the fragment it follows.
+ */
+function ellipsizeRichLine(line: IRichTextLine, maxWidth: number): void {
+  const fragments = line.fragments;
+  if (fragments.length === 0) return;
+
+  // The fragment holding the character before `cut`
+  const hostAt = (cut: number): ITextFragment => {
+    let host = fragments[0];
+    for (const fragment of fragments) {
+      if (fragment.start < cut) host = fragment;
     }
+    return host;
+  };
+  const ellipsisWidthIn = (fragment: ITextFragment): number => {
+    setMeasureFont(fragment.font);
+    return measureWidth(ELLIPSIS);
+  };
 
-    // It's a word
-    const wordWidth = measureWidth(segment);
+  let cut = ellipsisCut(
+    line,
+    maxWidth,
+    ellipsisWidthIn(fragments[fragments.length - 1]),
+  );
+  let ellipsisWidth = ellipsisWidthIn(hostAt(cut));
+  cut = ellipsisCut(line, maxWidth, ellipsisWidth);
+  const host = hostAt(cut);
+  ellipsisWidth = ellipsisWidthIn(host);
 
-    if (currentLineText.length === 0) {
-      // First word on the line — always place it
-      currentLineText = segment;
-      currentLineWidth = wordWidth;
-    } else {
-      // Check if adding this word fits
-      if (currentLineWidth + wordWidth <= availableWidth) {
-        currentLineText += segment;
-        currentLineWidth += wordWidth;
-      } else {
-        // Doesn't fit, start a new line
-        finishLine();
-        currentLineText = segment;
-        currentLineWidth = wordWidth;
+  const cutX = line.advancements[cut] ?? line.width;
+  line.fragments = fragments.filter(
+    (fragment) => fragment.start < cut || fragment === host,
+  );
+  for (const fragment of line.fragments) {
+    const end = Math.min(fragment.start + fragment.text.length, cut);
+    fragment.text = line.text.slice(fragment.start, end);
+    fragment.width = (line.advancements[end] ?? line.width) - fragment.x;
+  }
+  host.text += ELLIPSIS;
+  host.width += ellipsisWidth;
+
+  line.text = line.text.slice(0, cut) + ELLIPSIS;
+  line.advancements = [...line.advancements.slice(0, cut), cutX];
+  line.width = cutX + ellipsisWidth;
+}
+
+// ── Bidi ──
+
+/**
+ * Resolve bidi levels per hard paragraph and lay out each line in visual
+ * order. Lines that resolve to a single left-to-right run are left as is.
+ */
+function applyBidi(
+  text: string,
+  direction: TextDirection,
+  wrapped: ISegment[][],
+  lines: ITextLine[],
+): void {
+  let paragraphStart = 0;
+  let paragraph = resolveParagraph(
+    text.slice(0, paragraphEnd(text, 0)),
+    direction,
+  );
+
+  for (let l = 0; l < lines.length; l++) {
+    const line = lines[l];
+    const segments = wrapped[l];
+    if (segments.length === 0) continue;
+
+    const start = segments[0].start;
+    const end = paragraphEnd(text, paragraphStart);
+    if (start > end) {
+      // Crossed a hard break: resolve the paragraph containing this line
+      paragraphStart = text.lastIndexOf("\n", start) + 1;
+      paragraph = resolveParagraph(
+        text.slice(paragraphStart, paragraphEnd(text, paragraphStart)),
+        direction,
+      );
+    }
+
+    const offset = start - paragraphStart;
+    const levels = paragraph.levels.slice(offset, offset + line.text.length);
+    // An ellipsis past the paragraph end takes the level of the text before
+    while (levels.length < line.text.length) {
+      levels.push(levels[levels.length - 1] ?? paragraph.baseLevel);
+    }
+    layoutBidiLine(line, levels, paragraph.baseLevel);
+  }
+}
+
+function paragraphEnd(text: string, from: number): number {
+  const end = text.indexOf("\n", from);
+  return end === -1 ? text.length : end;
+}
+
+/**
+ * Place a line's level runs left to right. Inside right-to-left runs the
+ * first logical cluster sits at the run's right edge.
+ */
+function layoutBidiLine(
+  line: ITextLine,
+  levels: number[],
+  baseLevel: number,
+): void {
+  const runs = reorderLine(line.text, levels, baseLevel);
+  if (baseLevel === 0 && runs.length === 1 && runs[0].level === 0) return;
+
+  const length = line.text.length;
+  const advancements: number[] = new Array(length);
+  const widths: number[] = new Array(length);
+  const lineLevels: number[] = new Array(length);
+  const placed: IVisualRun[] = [];
+  let x = 0;
+
+  for (const run of runs) {
+    const runText = line.text.slice(run.start, run.end);
+    const runAdvancements = computeAdvancements(runText);
+    const runWidth = measureWidth(runText);
+    const rtl = run.level % 2 === 1;
+    const boundaries = graphemeBoundaries(runText);
+
+    for (let b = 0; b < boundaries.length - 1; b++) {
+      const from = boundaries[b];
+      const to = boundaries[b + 1];
+      const left = runAdvancements[from];
+      const right = to < runText.length ? runAdvancements[to] : runWidth;
+      const clusterWidth = right - left;
+      const clusterX = rtl ? x + runWidth - right : x + left;
+      for (let i = from; i < to; i++) {
+        advancements[run.start + i] = clusterX;
+        widths[run.start + i] = clusterWidth;
+        lineLevels[run.start + i] = run.level;
       }
     }
+
+    placed.push({ ...run, x, width: runWidth });
+    x += runWidth;
   }
 
-  // Finish last line
-  finishLine();
+  line.advancements = advancements;
+  line.width = x;
+  line.bidi = { baseLevel, levels: lineLevels, runs: placed, widths };
+}
 
-  const result: ITextLayout = {
-    lines,
-    totalHeight: lines.length * lineHeight,
+// ── Caret geometry ──
+
+function lineGraphemes(line: ITextLine): number[] {
+  return line.graphemes ?? graphemeBoundaries(line.text);
+}
+
+/**
+ * X-offset of the caret placed before the character at `index` (or at the
+ * end of the line for `index === text.length`). In right-to-left runs the
+ * caret sits on the character's right edge.
+ */
+export function getCaretX(line: ITextLine, index: number): number {
+  const bidi = line.bidi;
+  if (!bidi) {
+    return index < line.advancements.length
+      ? line.advancements[index]
+      : line.width;
+  }
+
+  const length = line.text.length;
+  if (length === 0) return 0;
+  if (index < length) {
+    const rtl = bidi.levels[index] % 2 === 1;
+    return line.advancements[index] + (rtl ? bidi.widths[index] : 0);
+  }
+  // End of line: the trailing edge of the last cluster
+  const boundaries = lineGraphemes(line);
+  const last = boundaries[boundaries.length - 2];
+  const rtl = bidi.levels[last] % 2 === 1;
+  return line.advancements[last] + (rtl ? 0 : bidi.widths[last]);
+}
+
+/**
+ * The caret index (a grapheme boundary) closest to x-offset `x`.
+ */
+export function getIndexAtX(line: ITextLine, x: number): number {
+  const boundaries = lineGraphemes(line);
+  const bidi = line.bidi;
+
+  if (!bidi) {
+    for (let b = 0; b < boundaries.length - 1; b++) {
+      const left = line.advancements[boundaries[b]];
+      const right =
+        boundaries[b + 1] < line.advancements.length
+          ? line.advancements[boundaries[b + 1]]
+          : line.width;
+      if (x < (left + right) / 2) return boundaries[b];
+    }
+    return line.text.length;
+  }
+
+  // Nearest cluster box, then the side of it the point falls on
+  let best = 0;
+  let bestDistance = Number.POSITIVE_INFINITY;
+  for (let b = 0; b < boundaries.length - 1; b++) {
+    const i = boundaries[b];
+    const left = line.advancements[i];
+    const right = left + bidi.widths[i];
+    const distance = x < left ? left - x : x > right ? x - right : 0;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = b;
+    }
+  }
+  if (boundaries.length < 2) return 0;
+
+  const i = boundaries[best];
+  const mid = line.advancements[i] + bidi.widths[i] / 2;
+  const rtl = bidi.levels[i] % 2 === 1;
+  return x < mid !== rtl ? i : boundaries[best + 1];
+}
+
+/**
+ * Visual highlight ranges for the logical selection `[start, end)` on a
+ * line. Mixed-direction lines can produce several disjoint ranges.
+ */
+export function getSelectionRanges(
+  line: ITextLine,
+  start: number,
+  end: number,
+): Array<{ x: number; width: number }> {
+  const bidi = line.bidi;
+  if (!bidi) {
+    const startX = getCaretX(line, start);
+    return [{ x: startX, width: getCaretX(line, end) - startX }];
+  }
+
+  const boxes: Array<{ x: number; width: number }> = [];
+  const boundaries = lineGraphemes(line);
+  for (let b = 0; b < boundaries.length - 1; b++) {
+    const i = boundaries[b];
+    if (i < start || i >= end) continue;
+    boxes.push({ x: line.advancements[i], width: bidi.widths[i] });
+  }
+  boxes.sort((a, b) => a.x - b.x);
+
+  const ranges: Array<{ x: number; width: number }> = [];
+  for (const box of boxes) {
+    const last = ranges[ranges.length - 1];
+    if (last && box.x <= last.x + last.width + 1e-6) {
+      last.width = Math.max(last.width, box.x + box.width - last.x);
+    } else {
+      ranges.push({ ...box });
+    }
+  }
+  return ranges;
+}
+
+// ── Rich Text ──
+
+/** A run with its style resolved against the base style. */
+interface IResolvedRun {
+  start: number;
+  end: number;
+  font: IRenderTextStyle;
+  color: string;
+  underline: boolean;
+  strikethrough: boolean;
+  background?: string;
+  ascent: number;
+  descent: number;
+}
+
+function resolveRuns(
+  runs: ITextRun[],
+  style: ILayoutTextStyle,
+): { text: string; resolved: IResolvedRun[] } {
+  const baseColor = typeof style.fill === "string" ? style.fill : "#000000";
+  const resolved: IResolvedRun[] = [];
+  let text = "";
+
+  for (const run of runs) {
+    const font: IRenderTextStyle = {
+      fontSize: run.fontSize ?? style.fontSize,
+      fontFamily: run.fontFamily ?? style.fontFamily,
+      fontWeight: run.fontWeight ?? style.fontWeight,
+      fontStyle: run.fontStyle ?? style.fontStyle,
+    };
+    const { ascent, descent } = measureFontMetrics(font);
+    resolved.push({
+      start: text.length,
+      end: text.length + run.text.length,
+      font,
+      color: run.color ?? baseColor,
+      underline: run.underline ?? false,
+      strikethrough: run.strikethrough ?? false,
+      background: run.background,
+      ascent,
+      descent,
+    });
+    text += run.text;
+  }
+  return { text, resolved };
+}
+
+/**
+ * Font ascent and descent. Falls back to an 80/20 split of the font size
+ * when the measurement context has no font bounding box metrics.
+ */
+function measureFontMetrics(font: IRenderTextStyle): {
+  ascent: number;
+  descent: number;
+} {
+  setMeasureFont(font);
+  const metrics = getMeasureContext().measureText("Mg");
+  return {
+    ascent: metrics.fontBoundingBoxAscent ?? font.fontSize * 0.8,
+    descent: metrics.fontBoundingBoxDescent ?? font.fontSize * 0.2,
   };
+}
 
-  addToCache(text, fontKey, availableWidth, result);
-  return result;
+/**
+ * Call `fn` for each run-homogeneous piece of `[start, end)`, in order.
+ */
+function forEachPiece(
+  resolved: IResolvedRun[],
+  start: number,
+  end: number,
+  fn: (runIndex: number, pieceStart: number, pieceEnd: number) => void,
+): void {
+  for (let i = 0; i < resolved.length; i++) {
+    const run = resolved[i];
+    if (run.end <= start || run.start === run.end) continue;
+    if (run.start >= end) break;
+    fn(i, Math.max(start, run.start), Math.min(end, run.end));
+  }
+}
+
+/** Width of a segment whose characters may span several runs. */
+function measureRichSegment(
+  segment: ISegment,
+  resolved: IResolvedRun[],
+): number {
+  let width = 0;
+  forEachPiece(resolved, segment.start, segment.end, (i, from, to) => {
+    setMeasureFont(resolved[i].font);
+    width += measureWidth(
+      segment.text.slice(from - segment.start, to - segment.start),
+    );
+  });
+  return width;
+}
+
+/**
+ * Compute rich text layout: the same greedy word-wrap as
+ * `computeTextLayout`, with runs measured in their own fonts and each line
+ * split into styled fragments sharing one baseline.
+ *
+ * Line boxes follow the CSS inline model: every run (and the base style,
+ * as a strut) contributes its ascent and descent plus half-leading, where
+ * leading scales the base `lineHeight / fontSize` ratio to the run's size.
+ *
+ * @param runs - Styled runs, concatenated in order
+ * @param style - Base style that runs inherit from
+ * @param availableWidth - Maximum width for wrapping. Infinity = no wrapping.
+ */
+export function computeRichTextLayout(
+  runs: ITextRun[],
+  style: ILayoutTextStyle,
+  availableWidth: number,
+): IRichTextLayout {
+  const baseLineHeight = style.lineHeight ?? Math.ceil(style.fontSize * 1.2);
+  const leadingRatio = baseLineHeight / style.fontSize;
+  const strut = measureFontMetrics(style);
+  const { text, resolved } = resolveRuns(
+    collapseRuns(runs, style.whiteSpace),
+    style,
+  );
+
+  const wrapped =
+    text.length === 0
+      ? [[]]
+      : wrapSegments(
+          splitIntoSegments(text),
+          wrapWidth(style, availableWidth),
+          (segment) => measureRichSegment(segment, resolved),
+        );
+
+  const lines: IRichTextLine[] = [];
+  let y = 0;
+
+  for (const segments of wrapped) {
+    const fragments: ITextFragment[] = [];
+    const advancements: number[] = [];
+    let lineText = "";
+    let x = 0;
+
+    // Strut: an empty line still gets the base style's height
+    let above = 0;
+    let below = 0;
+    const addBox = (fontSize: number, ascent: number, descent: number) => {
+      const halfLeading = (fontSize * leadingRatio - (ascent + descent)) / 2;
+      above = Math.max(above, ascent + halfLeading);
+      below = Math.max(below, descent + halfLeading);
+    };
+    addBox(style.fontSize, strut.ascent, strut.descent);
+
+    for (const segment of segments) {
+      forEachPiece(resolved, segment.start, segment.end, (i, from, to) => {
+        const run = resolved[i];
+        const piece = segment.text.slice(
+          from - segment.start,
+          to - segment.start,
+        );
+        setMeasureFont(run.font);
+
+        const last = fragments[fragments.length - 1];
+        let fragment: ITextFragment;
+        if (last && last.runIndex === i) {
+          fragment = last;
+          fragment.text += piece;
+        } else {
+          fragment = {
+            text: piece,
+            runIndex: i,
+            start: lineText.length,
+            x,
+            width: 0,
+            font: run.font,
+            color: run.color,
+            underline: run.underline,
+            strikethrough: run.strikethrough,
+            background: run.background,
+            ascent: run.ascent,
+            descent: run.descent,
+          };
+          fragments.push(fragment);
+          addBox(run.font.fontSize, run.ascent, run.descent);
+        }
+
+        for (const advancement of computeAdvancements(piece)) {
+          advancements.push(x + advancement);
+        }
+        lineText += piece;
+        x += measureWidth(piece);
+        fragment.width = x - fragment.x;
+      });
+    }
+
+    const height = above + below;
+    lines.push({
+      text: lineText,
+      width: x,
+      advancements,
+      fragments,
+      y,
+      height,
+      baseline: above,
+    });
+    y += height;
+  }
+
+  const truncated = truncateLines(
+    lines,
+    style,
+    availableWidth,
+    ellipsizeRichLine,
+  );
+  const last = lines[lines.length - 1];
+  return { lines, totalHeight: last.y + last.height, truncated };
 }
 
 /**
  * Compute the min-content width: the widest single word.
+ * Accepts plain text or rich text runs.
  */
 export function computeMinContentWidth(
-  text: string,
+  text: string | ITextRun[],
   style: ILayoutTextStyle,
 ): number {
-  if (text.length === 0) return 0;
+  // Without wrap opportunities, min-content is the whole line
+  if (style.whiteSpace === "nowrap" || style.whiteSpace === "pre") {
+    return computeMaxContentWidth(text, style);
+  }
+
+  if (typeof text !== "string") {
+    const { text: content, resolved } = resolveRuns(
+      collapseRuns(text, style.whiteSpace),
+      style,
+    );
+    let maxWidth = 0;
+    for (const segment of splitIntoSegments(content)) {
+      if (segment.text === "\n" || segment.text === " ") continue;
+      maxWidth = Math.max(maxWidth, measureRichSegment(segment, resolved));
+    }
+    return maxWidth;
+  }
+
+  const content = collapseText(text, style.whiteSpace);
+  if (content.length === 0) return 0;
 
   setMeasureFont(style);
-  const segments = splitIntoSegments(text);
+  const segments = splitIntoSegments(content);
   let maxWidth = 0;
 
   for (const segment of segments) {
-    if (segment === "\n" || segment === " ") continue;
-    const w = measureWidth(segment);
+    if (segment.text === "\n" || segment.text === " ") continue;
+    const w = measureWidth(segment.text);
     if (w > maxWidth) maxWidth = w;
   }
 
@@ -313,16 +1094,29 @@ export function computeMinContentWidth(
 
 /**
  * Compute the max-content width: the full text on a single line (no wrapping).
+ * Accepts plain text or rich text runs.
  */
 export function computeMaxContentWidth(
-  text: string,
+  text: string | ITextRun[],
   style: ILayoutTextStyle,
 ): number {
-  if (text.length === 0) return 0;
+  if (typeof text !== "string") {
+    const layout = computeRichTextLayout(
+      text,
+      { ...style, maxLines: undefined, overflow: undefined },
+      Number.POSITIVE_INFINITY,
+    );
+    let maxWidth = 0;
+    for (const line of layout.lines) maxWidth = Math.max(maxWidth, line.width);
+    return maxWidth;
+  }
+
+  const content = collapseText(text, style.whiteSpace);
+  if (content.length === 0) return 0;
 
   setMeasureFont(style);
 
-  const hardLines = text.split("\n");
+  const hardLines = content.split("\n");
   let maxWidth = 0;
 
   for (const line of hardLines) {
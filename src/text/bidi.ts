@@ -0,0 +1,292 @@
+/**
+ * bidi — Unicode Bidirectional Algorithm (UAX #9) for plain paragraphs.
+ *
+ * Resolves an embedding level for every UTF-16 index of a paragraph
+ * (weak types W1–W7, neutrals N1–N2, implicit levels I1–I2) and reorders
+ * a line into visual runs (L1–L2). Explicit embedding, override and
+ * isolate controls are treated as neutrals, which covers the mixed
+ * Arabic/Hebrew/Latin text of ordinary labels and inputs.
+ */
+
+// ── Types ──
+
+/** Base direction of a paragraph. `"auto"` uses the first strong character. */
+export type TextDirection = "ltr" | "rtl" | "auto";
+
+/** Simplified bidi character classes. */
+type BidiClass =
+  | "L"
+  | "R"
+  | "AL"
+  | "EN"
+  | "AN"
+  | "ES"
+  | "ET"
+  | "CS"
+  | "NSM"
+  | "WS"
+  | "ON";
+
+export interface IBidiParagraph {
+  /** Paragraph embedding level: 0 = left-to-right, 1 = right-to-left. */
+  baseLevel: number;
+  /** Resolved embedding level of each UTF-16 index. */
+  levels: number[];
+}
+
+/** A maximal run of one embedding level, as a logical range. */
+export interface IBidiRun {
+  start: number;
+  end: number;
+  level: number;
+}
+
+// ── Character classes ──
+
+function classify(cp: number): BidiClass {
+  if (cp >= 0x30 && cp <= 0x39) return "EN";
+  if (cp === 0x2b || cp === 0x2d) return "ES";
+  if (cp === 0x2c || cp === 0x2e || cp === 0x2f || cp === 0x3a || cp === 0xa0) {
+    return "CS";
+  }
+  if (
+    cp === 0x23 ||
+    cp === 0x24 ||
+    cp === 0x25 ||
+    (cp >= 0xa2 && cp <= 0xa5) ||
+    cp === 0xb0 ||
+    (cp >= 0x2030 && cp <= 0x2034) ||
+    (cp >= 0x20a0 && cp <= 0x20cf)
+  ) {
+    return "ET";
+  }
+  if (cp === 0x20 || cp === 0x09 || cp === 0x0c || cp === 0x2028) return "WS";
+  if (cp === 0x200e) return "L";
+  if (cp === 0x200f) return "R";
+  if ((cp >= 0x0660 && cp <= 0x0669) || cp === 0x066b || cp === 0x066c) {
+    return "AN";
+  }
+  if (cp >= 0x06f0 && cp <= 0x06f9) return "EN";
+
+  const ch = String.fromCodePoint(cp);
+  if (/\p{M}/u.test(ch) || cp === 0x200c || cp === 0x200d) return "NSM";
+
+  // Hebrew, NKo, Samaritan, Mandaic, Hebrew presentation forms, and the
+  // supplementary right-to-left blocks
+  if (
+    (cp >= 0x0590 && cp <= 0x05ff) ||
+    (cp >= 0x07c0 && cp <= 0x085f) ||
+    (cp >= 0xfb1d && cp <= 0xfb4f) ||
+    (cp >= 0x10800 && cp <= 0x10fff) ||
+    (cp >= 0x1e800 && cp <= 0x1edff)
+  ) {
+    return "R";
+  }
+  // Arabic, Syriac, Thaana and Arabic presentation forms
+  if (
+    (cp >= 0x0600 && cp <= 0x07bf) ||
+    (cp >= 0x0860 && cp <= 0x08ff) ||
+    (cp >= 0xfb50 && cp <= 0xfdff) ||
+    (cp >= 0xfe70 && cp <= 0xfeff) ||
+    (cp >= 0x1ee00 && cp <= 0x1eeff)
+  ) {
+    return "AL";
+  }
+  if (/[\p{L}\p{N}]/u.test(ch)) return "L";
+  return "ON";
+}
+
+/** Class of every UTF-16 index (both halves of a surrogate pair share one). */
+function classifyText(text: string): BidiClass[] {
+  const classes: BidiClass[] = [];
+  for (let i = 0; i < text.length; ) {
+    const cp = text.codePointAt(i) as number;
+    const cls = classify(cp);
+    const size = cp > 0xffff ? 2 : 1;
+    for (let k = 0; k < size; k++) classes.push(cls);
+    i += size;
+  }
+  return classes;
+}
+
+/**
+ * True if the text contains right-to-left characters, i.e. whether bidi
+ * resolution can change anything for a left-to-right paragraph.
+ */
+export function hasRtl(text: string): boolean {
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charCodeAt(i);
+    if ((c >= 0x0590 && c <= 0x08ff) || (c >= 0xfb1d && c <= 0xfeff)) {
+      return true;
+    }
+    // Supplementary right-to-left planes start with high surrogate D802
+    if (c >= 0xd802 && c <= 0xd803) return true;
+    if (c === 0xd83a || c === 0xd83b || c === 0x200f) return true;
+  }
+  return false;
+}
+
+// ── Paragraph resolution ──
+
+/**
+ * Resolve embedding levels for one paragraph (no hard line breaks).
+ */
+export function resolveParagraph(
+  text: string,
+  direction: TextDirection = "auto",
+): IBidiParagraph {
+  const types = classifyText(text);
+  const n = types.length;
+
+  let baseLevel = direction === "rtl" ? 1 : 0;
+  if (direction === "auto") {
+    for (const t of types) {
+      if (t === "L") break;
+      if (t === "R" || t === "AL") {
+        baseLevel = 1;
+        break;
+      }
+    }
+  }
+  const sor: BidiClass = baseLevel % 2 === 1 ? "R" : "L";
+
+  // W1: NSM takes the type of the previous character
+  for (let i = 0; i < n; i++) {
+    if (types[i] === "NSM") types[i] = i === 0 ? sor : types[i - 1];
+  }
+
+  // W2: EN after AL becomes AN; W3: AL becomes R
+  let lastStrong: BidiClass = sor;
+  for (let i = 0; i < n; i++) {
+    const t = types[i];
+    if (t === "L" || t === "R" || t === "AL") lastStrong = t;
+    else if (t === "EN" && lastStrong === "AL") types[i] = "AN";
+  }
+  for (let i = 0; i < n; i++) {
+    if (types[i] === "AL") types[i] = "R";
+  }
+
+  // W4: a single separator between two numbers of the same type joins them
+  for (let i = 1; i < n - 1; i++) {
+    const prev = types[i - 1];
+    const next = types[i + 1];
+    if (types[i] === "ES" && prev === "EN" && next === "EN") {
+      types[i] = "EN";
+    } else if (
+      types[i] === "CS" &&
+      prev === next &&
+      (prev === "EN" || prev === "AN")
+    ) {
+      types[i] = prev;
+    }
+  }
+
+  // W5: terminators adjacent to European numbers become EN
+  for (let i = 0; i < n; i++) {
+    if (types[i] !== "ET") continue;
+    let end = i;
+    while (end < n && types[end] === "ET") end++;
+    const touchesEN =
+      (i > 0 && types[i - 1] === "EN") || (end < n && types[end] === "EN");
+    if (touchesEN) {
+      for (let k = i; k < end; k++) types[k] = "EN";
+    }
+    i = end - 1;
+  }
+
+  // W6: remaining separators and terminators are neutral
+  for (let i = 0; i < n; i++) {
+    const t = types[i];
+    if (t === "ES" || t === "ET" || t === "CS") types[i] = "ON";
+  }
+
+  // W7: EN after a left-to-right strong type becomes L
+  lastStrong = sor;
+  for (let i = 0; i < n; i++) {
+    const t = types[i];
+    if (t === "L" || t === "R") lastStrong = t;
+    else if (t === "EN" && lastStrong === "L") types[i] = "L";
+  }
+
+  // N1/N2: neutrals between matching strong directions take that direction,
+  // otherwise the embedding direction. Numbers count as R.
+  const strongDir = (t: BidiClass): "L" | "R" | null =>
+    t === "L" ? "L" : t === "R" || t === "EN" || t === "AN" ? "R" : null;
+  for (let i = 0; i < n; i++) {
+    if (strongDir(types[i]) !== null) continue;
+    let end = i;
+    while (end < n && strongDir(types[end]) === null) end++;
+    const before = i > 0 ? strongDir(types[i - 1]) : sor;
+    const after = end < n ? strongDir(types[end]) : sor;
+    const resolved = before === after ? before : sor;
+    for (let k = i; k < end; k++) types[k] = resolved as BidiClass;
+    i = end - 1;
+  }
+
+  // I1/I2: implicit levels
+  const levels: number[] = new Array(n);
+  for (let i = 0; i < n; i++) {
+    const t = types[i];
+    if (baseLevel % 2 === 0) {
+      levels[i] = t === "R" ? 1 : t === "AN" || t === "EN" ? 2 : 0;
+    } else {
+      levels[i] = t === "L" || t === "EN" || t === "AN" ? 2 : 1;
+    }
+  }
+
+  return { baseLevel, levels };
+}
+
+// ── Line reordering ──
+
+/**
+ * Reorder one line of a resolved paragraph into visual runs, left to right.
+ *
+ * @param text - The line's text
+ * @param levels - The line's slice of the paragraph levels
+ * @param baseLevel - The paragraph embedding level
+ * @returns Level runs (logical ranges within the line) in visual order
+ */
+export function reorderLine(
+  text: string,
+  levels: number[],
+  baseLevel: number,
+): IBidiRun[] {
+  const lineLevels = levels.slice();
+
+  // L1: trailing whitespace is reset to the paragraph level
+  for (let i = lineLevels.length - 1; i >= 0; i--) {
+    const c = text.charCodeAt(i);
+    if (c !== 0x20 && c !== 0x09) break;
+    lineLevels[i] = baseLevel;
+  }
+
+  const runs: IBidiRun[] = [];
+  for (let i = 0; i < lineLevels.length; ) {
+    let end = i + 1;
+    while (end < lineLevels.length && lineLevels[end] === lineLevels[i]) end++;
+    runs.push({ start: i, end, level: lineLevels[i] });
+    i = end;
+  }
+  if (runs.length === 0) return runs;
+
+  // L2: from the highest level down to the lowest odd level, reverse every
+  // contiguous sequence of runs at that level or higher
+  let highest = 0;
+  let lowestOdd = Number.POSITIVE_INFINITY;
+  for (const run of runs) {
+    highest = Math.max(highest, run.level);
+    if (run.level % 2 === 1) lowestOdd = Math.min(lowestOdd, run.level);
+  }
+  for (let level = highest; level >= lowestOdd; level--) {
+    for (let i = 0; i < runs.length; i++) {
+      if (runs[i].level < level) continue;
+      let end = i;
+      while (end < runs.length && runs[end].level >= level) end++;
+      const reversed = runs.slice(i, end).reverse();
+      runs.splice(i, end - i, ...reversed);
+      i = end - 1;
+    }
+  }
+  return runs;
+}
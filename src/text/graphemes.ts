@@ -0,0 +1,93 @@
+/**
+ * Grapheme cluster segmentation.
+ *
+ * Editing and caret placement work on user-perceived characters: an emoji
+ * with skin tone, a ZWJ family sequence or a letter with combining marks is
+ * one cluster even though it spans several UTF-16 code units.
+ *
+ * Uses `Intl.Segmenter` when available, falling back to code points with
+ * combining marks, variation selectors and ZWJ joins attached.
+ */
+
+// ── Segmenter ──
+
+let _segmenter: Intl.Segmenter | null | undefined;
+
+function getSegmenter(): Intl.Segmenter | null {
+  if (_segmenter === undefined) {
+    _segmenter =
+      typeof Intl !== "undefined" && "Segmenter" in Intl
+        ? new Intl.Segmenter(undefined, { granularity: "grapheme" })
+        : null;
+  }
+  return _segmenter;
+}
+
+/** Whether a code point extends the previous cluster. */
+function extendsCluster(cp: number): boolean {
+  return (
+    cp === 0x200c ||
+    cp === 0x200d ||
+    (cp >= 0xfe00 && cp <= 0xfe0f) ||
+    (cp >= 0x1f3fb && cp <= 0x1f3ff) ||
+    /\p{M}/u.test(String.fromCodePoint(cp))
+  );
+}
+
+// ── Boundaries ──
+
+/**
+ * UTF-16 offsets where grapheme clusters start, followed by `text.length`.
+ * An empty string yields `[0]`.
+ */
+export function graphemeBoundaries(text: string): number[] {
+  const boundaries: number[] = [];
+  const segmenter = getSegmenter();
+
+  if (segmenter) {
+    for (const { index } of segmenter.segment(text)) boundaries.push(index);
+  } else {
+    let joinNext = false;
+    for (let i = 0; i < text.length; ) {
+      const cp = text.codePointAt(i) as number;
+      if (i === 0 || (!joinNext && !extendsCluster(cp))) boundaries.push(i);
+      joinNext = cp === 0x200d;
+      i += cp > 0xffff ? 2 : 1;
+    }
+  }
+
+  boundaries.push(text.length);
+  return boundaries;
+}
+
+/** The nearest cluster boundary after `index` (or `text.length`). */
+export function nextGraphemeBoundary(text: string, index: number): number {
+  if (index >= text.length) return text.length;
+  for (const boundary of graphemeBoundaries(text)) {
+    if (boundary > index) return boundary;
+  }
+  return text.length;
+}
+
+/** The nearest cluster boundary before `index` (or `0`). */
+export function prevGraphemeBoundary(text: string, index: number): number {
+  if (index <= 0) return 0;
+  let previous = 0;
+  for (const boundary of graphemeBoundaries(text)) {
+    if (boundary >= index) break;
+    previous = boundary;
+  }
+  return previous;
+}
+
+/** Snap `index` down to the start of the cluster containing it. */
+export function snapToGrapheme(text: string, index: number): number {
+  if (index <= 0) return 0;
+  if (index >= text.length) return text.length;
+  let snapped = 0;
+  for (const boundary of graphemeBoundaries(text)) {
+    if (boundary > index) break;
+    snapped = boundary;
+  }
+  return snapped;
+}
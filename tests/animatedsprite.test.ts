@@ -0,0 +1,329 @@
+/**
+ * Texture Atlas & AnimatedSprite Tests
+ *
+ * Tests atlas parsing (TexturePacker hash/array, Aseprite tags), drawing of
+ * trimmed and rotated frames, and frame playback driven by dt.
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  type IAtlasData,
+  type IAtlasFrame,
+  TextureAtlas,
+  drawAtlasFrame,
+} from "../src/assets/TextureAtlas";
+import { AnimatedSprite } from "../src/elements/AnimatedSprite";
+import { Image } from "../src/elements/Image";
+import type { IArena2DContext } from "../src/rendering/Arena2DContext";
+
+// ── Helpers ──
+
+const sheet = { width: 256, height: 256 } as unknown as CanvasImageSource;
+
+/** A TexturePacker hash document with `count` 32×32 frames named run_N. */
+function runAtlas(count: number): IAtlasData {
+  const frames: IAtlasData["frames"] = {};
+  for (let i = 0; i < count; i++) {
+    frames[`run_${i + 1}.png`] = { frame: { x: i * 32, y: 0, w: 32, h: 32 } };
+  }
+  return { frames, animations: { run: Object.keys(frames) } };
+}
+
+function createMockCtx() {
+  const calls: Array<{ method: string; args: unknown[] }> = [];
+  const record =
+    (method: string) =>
+    (...args: unknown[]) => {
+      calls.push({ method, args });
+    };
+  const ctx = {
+    raw: { translate: record("translate"), rotate: record("rotate") },
+    save: record("save"),
+    restore: record("restore"),
+    drawImage: record("drawImage"),
+    drawImageRegion: record("drawImageRegion"),
+  };
+  return { ctx: ctx as unknown as IArena2DContext, calls };
+}
+
+// ── TextureAtlas ──
+
+describe("TextureAtlas — parsing", () => {
+  test("reads TexturePacker hash frames with trim, rotation and pivot", () => {
+    const atlas = new TextureAtlas({
+      frames: {
+        "hero.png": {
+          frame: { x: 10, y: 20, w: 30, h: 40 },
+          rotated: true,
+          trimmed: true,
+          spriteSourceSize: { x: 5, y: 6, w: 30, h: 40 },
+          sourceSize: { w: 50, h: 60 },
+          pivot: { x: 0.5, y: 1 },
+        },
+      },
+      meta: { image: "hero.png" },
+    });
+    const frame = atlas.getFrame("hero.png");
+    // Rotated frames occupy a 40×30 region
+    expect(frame?.region).toEqual({ x: 10, y: 20, width: 40, height: 30 });
+    expect(frame?.trim).toEqual({ x: 5, y: 6, width: 30, height: 40 });
+    expect([frame?.sourceWidth, frame?.sourceHeight]).toEqual([50, 60]);
+    expect(frame?.pivot).toEqual({ x: 0.5, y: 1 });
+    expect(atlas.imagePath).toBe("hero.png");
+  });
+
+  test("reads the array format and untrimmed defaults", () => {
+    const atlas = new TextureAtlas({
+      frames: [{ filename: "a", frame: { x: 0, y: 0, w: 8, h: 4 } }],
+    });
+    const frame = atlas.getFrame("a");
+    expect(frame?.rotated).toBe(false);
+    expect(frame?.trim).toEqual({ x: 0, y: 0, width: 8, height: 4 });
+    expect([frame?.sourceWidth, frame?.sourceHeight]).toEqual([8, 4]);
+    expect(frame?.duration).toBeNull();
+  });
+
+  test("turns Aseprite frame tags into animations", () => {
+    const atlas = new TextureAtlas({
+      frames: [0, 1, 2, 3].map((i) => ({
+        filename: `f${i}`,
+        frame: { x: i * 16, y: 0, w: 16, h: 16 },
+        duration: 100 + i * 100,
+      })),
+      meta: {
+        frameTags: [
+          { name: "idle", from: 0, to: 1, direction: "forward" },
+          { name: "back", from: 1, to: 3, direction: "reverse" },
+          { name: "bob", from: 2, to: 3, direction: "pingpong" },
+        ],
+      },
+    });
+    expect(atlas.getFrame("f2")?.duration).toBeCloseTo(0.3);
+    expect(atlas.getAnimation("idle")?.frames).toEqual(["f0", "f1"]);
+    expect(atlas.getAnimation("back")?.frames).toEqual(["f3", "f2", "f1"]);
+    expect(atlas.getAnimation("bob")?.pingPong).toBe(true);
+  });
+
+  test("lists prefixed frames in natural order", () => {
+    const atlas = new TextureAtlas(runAtlas(12));
+    const names = atlas.getFramesWithPrefix("run_");
+    expect(names[1]).toBe("run_2.png");
+    expect(names[11]).toBe("run_12.png");
+  });
+
+  test("rejects animations that reference missing frames", () => {
+    expect(
+      () => new TextureAtlas({ frames: {}, animations: { walk: ["nope"] } }),
+    ).toThrow('unknown frame "nope"');
+  });
+});
+
+describe("TextureAtlas — drawing frames", () => {
+  test("offsets trimmed frames within the destination", () => {
+    const atlas = new TextureAtlas({
+      frames: {
+        t: {
+          frame: { x: 100, y: 0, w: 20, h: 10 },
+          spriteSourceSize: { x: 10, y: 5, w: 20, h: 10 },
+          sourceSize: { w: 40, h: 20 },
+        },
+      },
+    });
+    const { ctx, calls } = createMockCtx();
+    // Drawn at twice the source size
+    drawAtlasFrame(
+      ctx,
+      sheet,
+      atlas.getFrame("t") as IAtlasFrame,
+      0,
+      0,
+      80,
+      40,
+    );
+    expect(calls[0].args.slice(1)).toEqual([100, 0, 20, 10, 20, 10, 40, 20]);
+  });
+
+  test("turns rotated frames upright", () => {
+    const atlas = new TextureAtlas({
+      frames: {
+        r: { frame: { x: 0, y: 0, w: 30, h: 10 }, rotated: true },
+      },
+    });
+    const { ctx, calls } = createMockCtx();
+    drawAtlasFrame(
+      ctx,
+      sheet,
+      atlas.getFrame("r") as IAtlasFrame,
+      0,
+      0,
+      30,
+      10,
+    );
+    expect(calls.map((c) => c.method)).toEqual([
+      "save",
+      "translate",
+      "rotate",
+      "drawImageRegion",
+      "restore",
+    ]);
+    expect(calls[1].args).toEqual([0, 10]);
+    expect(calls[2].args).toEqual([-Math.PI / 2]);
+    // The 10×30 region is drawn sideways, then rotated into 30×10
+    expect(calls[3].args.slice(1)).toEqual([0, 0, 10, 30, 0, 0, 10, 30]);
+  });
+
+  test("Image shows a frame at its untrimmed size", () => {
+    const atlas = new TextureAtlas(
+      {
+        frames: {
+          t: {
+            frame: { x: 0, y: 0, w: 20, h: 10 },
+            spriteSourceSize: { x: 2, y: 2, w: 20, h: 10 },
+            sourceSize: { w: 24, h: 14 },
+          },
+        },
+      },
+      sheet,
+    );
+    const image = new Image();
+    image.setFrame(atlas, "t");
+    expect(image.source).toBe(sheet);
+    expect(image.getIntrinsicSize()).toEqual({ width: 24, height: 14 });
+    expect(() => image.setFrame(atlas, "missing")).toThrow(
+      'no frame "missing"',
+    );
+  });
+});
+
+// ── AnimatedSprite ──
+
+describe("AnimatedSprite — playback", () => {
+  test("steps frames at the configured fps", () => {
+    const sprite = new AnimatedSprite(new TextureAtlas(runAtlas(4), sheet));
+    sprite.fps = 10;
+    sprite.play("run");
+    expect(sprite.totalFrames).toBe(4);
+    expect(sprite.frame?.name).toBe("run_1.png");
+    sprite.update(0.05);
+    expect(sprite.currentFrame).toBe(0);
+    sprite.update(0.05);
+    expect(sprite.currentFrame).toBe(1);
+    // A long frame catches up several steps at once
+    sprite.update(0.2);
+    expect(sprite.currentFrame).toBe(3);
+  });
+
+  test("loops and emits frame and loop events", () => {
+    const sprite = new AnimatedSprite(new TextureAtlas(runAtlas(3), sheet));
+    const frames: number[] = [];
+    let loops = 0;
+    sprite.on("frame", (e: { frame: number }) => frames.push(e.frame));
+    sprite.on("loop", () => loops++);
+    sprite.fps = 10;
+    sprite.play("run");
+    for (let i = 0; i < 4; i++) sprite.update(0.1);
+    expect(frames).toEqual([1, 2, 0, 1]);
+    expect(loops).toBe(1);
+  });
+
+  test("plays once and completes on the last frame", () => {
+    const sprite = new AnimatedSprite(new TextureAtlas(runAtlas(3), sheet));
+    let completed = 0;
+    sprite.on("complete", () => completed++);
+    sprite.loop = false;
+    sprite.fps = 10;
+    sprite.play("run");
+    sprite.update(1);
+    expect(sprite.currentFrame).toBe(2);
+    expect(sprite.playing).toBe(false);
+    expect(completed).toBe(1);
+  });
+
+  test("ping-pong runs to the end and back", () => {
+    const sprite = new AnimatedSprite(new TextureAtlas(runAtlas(3), sheet));
+    const frames: number[] = [];
+    sprite.on("frame", (e: { frame: number }) => frames.push(e.frame));
+    sprite.pingPong = true;
+    sprite.fps = 10;
+    sprite.play("run");
+    for (let i = 0; i < 6; i++) sprite.update(0.1);
+    expect(frames).toEqual([1, 2, 1, 0, 1, 2]);
+  });
+
+  test("Aseprite tags set direction and per-frame durations", () => {
+    const atlas = new TextureAtlas(
+      {
+        frames: [0, 1, 2].map((i) => ({
+          filename: `f${i}`,
+          frame: { x: i * 16, y: 0, w: 16, h: 16 },
+          duration: i === 1 ? 300 : 100,
+        })),
+        meta: {
+          frameTags: [{ name: "bob", from: 0, to: 2, direction: "pingpong" }],
+        },
+      },
+      sheet,
+    );
+    const sprite = new AnimatedSprite(atlas);
+    sprite.useFrameDurations = true;
+    sprite.play("bob");
+    sprite.update(0.1);
+    expect(sprite.currentFrame).toBe(1);
+    sprite.update(0.2);
+    expect(sprite.currentFrame).toBe(1);
+    sprite.update(0.1);
+    expect(sprite.currentFrame).toBe(2);
+    sprite.update(0.1);
+    expect(sprite.currentFrame).toBe(1);
+  });
+
+  test("speed scales playback and negative speed plays backwards", () => {
+    const sprite = new AnimatedSprite(new TextureAtlas(runAtlas(4), sheet));
+    sprite.fps = 10;
+    sprite.speed = -2;
+    sprite.play("run");
+    sprite.update(0.05);
+    expect(sprite.currentFrame).toBe(3);
+  });
+
+  test("gotoAndStop, gotoAndPlay and frame-name sequences", () => {
+    const atlas = new TextureAtlas(runAtlas(4), sheet);
+    const sprite = new AnimatedSprite(atlas);
+    sprite.fps = 10;
+    sprite.play(atlas.getFramesWithPrefix("run_").slice(2));
+    expect(sprite.totalFrames).toBe(2);
+    expect(sprite.frame?.name).toBe("run_3.png");
+
+    sprite.gotoAndStop(1);
+    sprite.update(1);
+    expect(sprite.currentFrame).toBe(1);
+    expect(sprite.playing).toBe(false);
+
+    sprite.gotoAndPlay(0);
+    sprite.update(0.1);
+    expect(sprite.currentFrame).toBe(1);
+  });
+
+  test("usePivot moves the pivot with each frame", () => {
+    const atlas = new TextureAtlas(
+      {
+        frames: {
+          a: { frame: { x: 0, y: 0, w: 10, h: 10 }, pivot: { x: 0.5, y: 1 } },
+        },
+      },
+      sheet,
+    );
+    const sprite = new AnimatedSprite(atlas);
+    sprite.width = 40;
+    sprite.height = 20;
+    sprite.usePivot = true;
+    sprite.play(["a"]);
+    expect([sprite.pivotX, sprite.pivotY]).toEqual([20, 20]);
+  });
+
+  test("throws for unknown animations", () => {
+    const sprite = new AnimatedSprite(new TextureAtlas(runAtlas(1), sheet));
+    expect(() => sprite.play("fly")).toThrow('no animation "fly"');
+    expect(() => new AnimatedSprite().play("run")).toThrow("no atlas");
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * AssetManager Tests
+ *
+ * Tests keyed loading through a stand-in fetch adapter, deduplication of
+ * concurrent loads, batch progress, reference counting through bound
+ * elements and release of decoded images.
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  AssetManager,
+  type IAssetFetchAdapter,
+} from "../src/assets/AssetManager";
+import type { TextureAtlas } from "../src/assets/TextureAtlas";
+import { Container } from "../src/core/Container";
+import { AnimatedSprite } from "../src/elements/AnimatedSprite";
+import { Image } from "../src/elements/Image";
+
+// ── Helpers ──
+
+/** Stand-in for a decoded ImageBitmap. */
+class FakeBitmap {
+  closed = false;
+  constructor(
+    readonly url: string,
+    readonly width = 64,
+    readonly height = 32,
+  ) {}
+  close(): void {
+    this.closed = true;
+  }
+}
+
+/**
+ * Adapter serving `files` from memory. Requests wait until `flush()` so
+ * tests can observe loads in flight.
+ */
+function createAdapter(files: Record<string, unknown> = {}) {
+  const requests: string[] = [];
+  const pending: Array<() => void> = [];
+  const serve = <T>(url: string, make: () => T): Promise<T> => {
+    requests.push(url);
+    return new Promise<T>((resolve, reject) => {
+      pending.push(() => {
+        if (url.includes("missing")) reject(new Error("HTTP 404"));
+        else resolve(make());
+      });
+    });
+  };
+  const adapter: IAssetFetchAdapter = {
+    fetchImage: (url) =>
+      serve(url, () => new FakeBitmap(url) as unknown as CanvasImageSource),
+    fetchJSON: (url) => serve(url, () => files[url]),
+    fetchFont: (family, url) =>
+      serve(url, () => ({ family }) as unknown as FontFace),
+  };
+  /** Settle every request made so far, then let callbacks run. */
+  const flush = async () => {
+    while (pending.length > 0) {
+      for (const settle of pending.splice(0)) settle();
+      await Promise.resolve();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  };
+  return { adapter, requests, flush };
+}
+
+const atlasJson = {
+  frames: {
+    a: { frame: { x: 0, y: 0, w: 16, h: 16 } },
+    b: { frame: { x: 16, y: 0, w: 16, h: 16 } },
+  },
+  animations: { spin: ["a", "b"] },
+  meta: { image: "hero.png" },
+};
+
+// ── Loading ──
+
+describe("AssetManager — loading", () => {
+  test("loads images, JSON and fonts by key", async () => {
+    const { adapter, flush } = createAdapter({ "data.json": { level: 3 } });
+    const assets = new AssetManager(adapter);
+    const image = assets.loadImage("logo", "logo.png");
+    const json = assets.loadJSON("data", "data.json");
+    const font = assets.loadFont("ui", "inter.woff2", "Inter");
+    expect(assets.isLoaded("logo")).toBe(false);
+    await flush();
+    expect(((await image) as unknown as FakeBitmap).url).toBe("logo.png");
+    expect(await json).toEqual({ level: 3 });
+    expect(((await font) as { family: string }).family).toBe("Inter");
+    expect(assets.get<{ level: number }>("data")).toEqual({ level: 3 });
+  });
+
+  test("shares one fetch between concurrent loads of a key", async () => {
+    const { adapter, requests, flush } = createAdapter();
+    const assets = new AssetManager(adapter);
+    const first = assets.loadImage("logo", "logo.png");
+    const second = assets.loadImage("logo", "logo.png");
+    await flush();
+    expect(requests).toEqual(["logo.png"]);
+    expect(await first).toBe(await second);
+    expect(() => assets.loadImage("logo", "other.png")).toThrow(
+      'key "logo" is already used',
+    );
+  });
+
+  test("loads an atlas with the image its metadata names", async () => {
+    const { adapter, requests, flush } = createAdapter({
+      "sprites/hero.json": atlasJson,
+    });
+    const assets = new AssetManager(adapter);
+    const loading = assets.loadAtlas("hero", "sprites/hero.json");
+    await flush();
+    const atlas = await loading;
+    expect(requests).toEqual(["sprites/hero.json", "sprites/hero.png"]);
+    expect((atlas.source as unknown as FakeBitmap).url).toBe(
+      "sprites/hero.png",
+    );
+    expect(atlas.getAnimation("spin")?.frames).toEqual(["a", "b"]);
+  });
+
+  test("reports failures and forgets the key", async () => {
+    const { adapter, flush } = createAdapter();
+    const assets = new AssetManager(adapter);
+    const errors: string[] = [];
+    assets.on("error", (e: { key: string }) => errors.push(e.key));
+    const loading = assets.loadImage("gone", "missing.png");
+    const result = loading.catch((error: Error) => error.message);
+    await flush();
+    expect(await result).toContain('failed to load "gone"');
+    expect(errors).toEqual(["gone"]);
+    expect(assets.has("gone")).toBe(false);
+  });
+});
+
+describe("AssetManager — progress", () => {
+  test("reports progress across a batch and completes once", async () => {
+    const { adapter, flush } = createAdapter({ "a.json": {} });
+    const assets = new AssetManager(adapter);
+    const progress: number[] = [];
+    let completed = 0;
+    assets.on("progress", (e: { progress: number }) =>
+      progress.push(e.progress),
+    );
+    assets.on("complete", () => completed++);
+
+    const all = assets.loadAll([
+      { key: "a", url: "a.json", type: "json" },
+      { key: "b", url: "b.png", type: "image" },
+      { key: "c", url: "missing.png", type: "image" },
+      { key: "d", url: "d.png", type: "image" },
+    ]);
+    expect(assets.progress).toEqual({ loaded: 0, total: 4 });
+    const failed = all.then(
+      () => false,
+      () => true,
+    );
+    await flush();
+    expect(await failed).toBe(true);
+    expect(progress).toEqual([0.25, 0.5, 0.75, 1]);
+    expect(completed).toBe(1);
+    expect(assets.progress).toEqual({ loaded: 0, total: 0 });
+  });
+});
+
+// ── Reference counting ──
+
+describe("AssetManager — reference counting", () => {
+  async function loaded() {
+    const { adapter, flush } = createAdapter({ "hero.json": atlasJson });
+    const assets = new AssetManager(adapter);
+    assets.loadImage("logo", "logo.png");
+    assets.loadAtlas("hero", "hero.json");
+    await flush();
+    return assets;
+  }
+
+  test("binding shows the asset and counts the element", async () => {
+    const assets = await loaded();
+    const a = new Image();
+    const b = new Image();
+    assets.bind(a, "logo");
+    assets.bind(b, "logo");
+    expect(a.source).toBe(assets.get("logo"));
+    expect(assets.getRefCount("logo")).toBe(2);
+    // Binding the same key again does not add a reference
+    assets.bind(a, "logo");
+    expect(assets.getRefCount("logo")).toBe(2);
+  });
+
+  test("destroying the last user closes the bitmap", async () => {
+    const assets = await loaded();
+    const bitmap = assets.get<FakeBitmap>("logo");
+    const root = new Container();
+    const a = new Image();
+    const b = new Image();
+    root.addChild(a);
+    root.addChild(b);
+    assets.bind(a, "logo");
+    assets.bind(b, "logo");
+
+    a.destroy();
+    expect(bitmap?.closed).toBe(false);
+    root.destroy();
+    expect(bitmap?.closed).toBe(true);
+    expect(assets.has("logo")).toBe(false);
+  });
+
+  test("rebinding releases the previous asset", async () => {
+    const assets = await loaded();
+    const image = new Image();
+    assets.bind(image, "logo");
+    assets.bind(image, "hero", "b");
+    expect(image.frame?.name).toBe("b");
+    expect(assets.has("logo")).toBe(false);
+    expect(assets.getRefCount("hero")).toBe(1);
+  });
+
+  test("AnimatedSprite takes a bound atlas to play from", async () => {
+    const assets = await loaded();
+    const sprite = new AnimatedSprite();
+    assets.bind(sprite, "hero");
+    sprite.play("spin");
+    expect(sprite.atlas).toBe(assets.get<TextureAtlas>("hero"));
+    expect(() => assets.bind(new Image(), "hero")).toThrow("needs a frame");
+  });
+
+  test("retain and release hold assets for other users", async () => {
+    const assets = await loaded();
+    const atlas = assets.get<TextureAtlas>("hero");
+    assets.retain("hero");
+    assets.retain("hero");
+    assets.release("hero");
+    expect(assets.has("hero")).toBe(true);
+    assets.release("hero");
+    expect(assets.has("hero")).toBe(false);
+    expect((atlas?.source as unknown as FakeBitmap).closed).toBe(true);
+  });
+
+  test("unload clears bound elements", async () => {
+    const assets = await loaded();
+    const image = new Image();
+    assets.bind(image, "logo");
+    assets.unload("logo");
+    expect(image.source).toBeNull();
+    expect(assets.getRefCount("logo")).toBe(0);
+  });
+
+  test("discards a load that lands after unload", async () => {
+    const { adapter, flush } = createAdapter();
+    const assets = new AssetManager(adapter);
+    const loading = assets.loadImage("logo", "logo.png");
+    assets.unload("logo");
+    await flush();
+    const bitmap = (await loading) as unknown as FakeBitmap;
+    expect(bitmap.closed).toBe(true);
+    expect(assets.has("logo")).toBe(false);
+  });
+});
@@ -0,0 +1,222 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { Window } from "happy-dom";
+import { TextInput } from "../src/elements/TextInput";
+import {
+  type ILayoutTextStyle,
+  type ITextMeasureContext,
+  clearLayoutCache,
+  computeTextLayout,
+  getCaretX,
+  getIndexAtX,
+  getSelectionRanges,
+  setMeasureContext,
+} from "../src/text/TextLayout";
+import { reorderLine, resolveParagraph } from "../src/text/bidi";
+import {
+  graphemeBoundaries,
+  nextGraphemeBoundary,
+  prevGraphemeBoundary,
+} from "../src/text/graphemes";
+
+// ── Mock Measure Context ──
+// Fixed-width font model: each UTF-16 code unit = 8px wide
+
+function createMockMeasureContext(): ITextMeasureContext {
+  return {
+    font: "",
+    measureText(text: string) {
+      return { width: text.length * 8 };
+    },
+  };
+}
+
+const window = new Window();
+// biome-ignore lint/suspicious/noExplicitAny: mocking global
+global.document = window.document as any;
+
+beforeAll(() => {
+  setMeasureContext(createMockMeasureContext());
+  clearLayoutCache();
+});
+
+afterAll(() => {
+  setMeasureContext(null);
+});
+
+function makeStyle(direction?: "ltr" | "rtl" | "auto"): ILayoutTextStyle {
+  return {
+    fontSize: 14,
+    fontFamily: "sans-serif",
+    fontWeight: "normal",
+    fontStyle: "normal",
+    fill: "#000000",
+    direction,
+  };
+}
+
+function key(input: TextInput, name: string, shiftKey = false): void {
+  input.emit("keydown", {
+    type: "keydown",
+    target: input,
+    currentTarget: input,
+    key: name,
+    code: name,
+    shiftKey,
+    ctrlKey: false,
+    altKey: false,
+    metaKey: false,
+    propagationStopped: false,
+    defaultPrevented: false,
+    stopPropagation() {},
+    preventDefault() {},
+  });
+}
+
+const THUMBS_UP = "\u{1F44D}\u{1F3FD}";
+const FAMILY = "\u{1F468}\u200D\u{1F469}\u200D\u{1F467}";
+const E_ACUTE = "e\u0301";
+// "abc אבג 12"
+const MIXED = "abc \u05D0\u05D1\u05D2 12";
+// "אבג abc"
+const HEBREW_FIRST = "\u05D0\u05D1\u05D2 abc";
+
+// ── Graphemes ──
+
+describe("graphemes", () => {
+  test("emoji, ZWJ sequences and combining marks are single clusters", () => {
+    const text = `a${THUMBS_UP}${FAMILY}${E_ACUTE}`;
+    expect(graphemeBoundaries(text)).toEqual([0, 1, 5, 13, 15]);
+    expect(graphemeBoundaries("")).toEqual([0]);
+  });
+
+  test("next and previous boundaries skip whole clusters", () => {
+    const text = `${THUMBS_UP}x`;
+    expect(nextGraphemeBoundary(text, 0)).toBe(4);
+    expect(prevGraphemeBoundary(text, 4)).toBe(0);
+    expect(prevGraphemeBoundary(text, 2)).toBe(0);
+    expect(nextGraphemeBoundary(text, 5)).toBe(5);
+  });
+
+  test("layout gives every code unit of a cluster the same advancement", () => {
+    const layout = computeTextLayout(
+      `a${E_ACUTE}b`,
+      makeStyle(),
+      Number.POSITIVE_INFINITY,
+    );
+    expect(layout.lines[0].advancements).toEqual([0, 8, 8, 24]);
+  });
+});
+
+// ── Bidi ──
+
+describe("bidi", () => {
+  test("resolves levels for Latin, Hebrew and digits", () => {
+    const ltr = resolveParagraph(MIXED, "auto");
+    expect(ltr.baseLevel).toBe(0);
+    expect(ltr.levels).toEqual([0, 0, 0, 0, 1, 1, 1, 1, 2, 2]);
+
+    const rtl = resolveParagraph(HEBREW_FIRST, "auto");
+    expect(rtl.baseLevel).toBe(1);
+    expect(rtl.levels).toEqual([1, 1, 1, 1, 2, 2, 2]);
+    expect(resolveParagraph("abc", "rtl").levels).toEqual([2, 2, 2]);
+  });
+
+  test("reorders a line into visual runs", () => {
+    const { baseLevel, levels } = resolveParagraph(MIXED, "auto");
+    const runs = reorderLine(MIXED, levels, baseLevel);
+    // Numbers after Hebrew keep their own order but sit left of the Hebrew
+    expect(runs.map((r) => [r.start, r.end])).toEqual([
+      [0, 4],
+      [8, 10],
+      [4, 8],
+    ]);
+  });
+
+  test("caret positions, hit-testing and selections follow visual order", () => {
+    const layout = computeTextLayout(
+      HEBREW_FIRST,
+      makeStyle(),
+      Number.POSITIVE_INFINITY,
+    );
+    const line = layout.lines[0];
+    expect(line.bidi?.baseLevel).toBe(1);
+    // Visually: "abc" at 0–24, " " at 24–32, Hebrew right-to-left at 32–56
+    expect(getCaretX(line, 0)).toBe(56);
+    expect(getCaretX(line, 1)).toBe(48);
+    expect(getCaretX(line, 4)).toBe(0);
+    expect(getCaretX(line, 5)).toBe(8);
+    expect(getIndexAtX(line, 54)).toBe(0);
+    expect(getIndexAtX(line, 45)).toBe(1);
+    expect(getIndexAtX(line, 9)).toBe(5);
+
+    // Selecting "ב" + "ג" + " " + "a" spans two visual ranges
+    expect(getSelectionRanges(line, 1, 5)).toEqual([
+      { x: 0, width: 8 },
+      { x: 24, width: 24 },
+    ]);
+  });
+
+  test("an explicit direction overrides the first strong character", () => {
+    const layout = computeTextLayout(
+      "abc",
+      makeStyle("rtl"),
+      Number.POSITIVE_INFINITY,
+    );
+    expect(layout.lines[0].bidi?.baseLevel).toBe(1);
+    expect(getCaretX(layout.lines[0], 0)).toBe(0);
+  });
+});
+
+// ── TextInput ──
+
+describe("TextInput — graphemes and bidi", () => {
+  test("Backspace and Delete remove whole clusters", () => {
+    const input = new TextInput();
+    input.text = `a${FAMILY}b`;
+    input.selectionStart = input.selectionEnd = 9;
+    key(input, "Backspace");
+    expect(input.text).toBe("ab");
+    expect(input.selectionEnd).toBe(1);
+
+    input.text = `${THUMBS_UP}${E_ACUTE}`;
+    input.selectionStart = input.selectionEnd = 0;
+    key(input, "Delete");
+    expect(input.text).toBe(E_ACUTE);
+  });
+
+  test("arrow keys step over clusters", () => {
+    const input = new TextInput();
+    input.text = `${THUMBS_UP}${E_ACUTE}`;
+    input.selectionStart = input.selectionEnd = 0;
+    key(input, "ArrowRight");
+    expect(input.selectionEnd).toBe(4);
+    key(input, "ArrowRight");
+    expect(input.selectionEnd).toBe(6);
+    key(input, "ArrowLeft", true);
+    expect(input.selectionStart).toBe(6);
+    expect(input.selectionEnd).toBe(4);
+  });
+
+  test("arrow keys move visually through right-to-left text", () => {
+    const input = new TextInput();
+    input.text = HEBREW_FIRST;
+    input.selectionStart = input.selectionEnd = 0;
+    // The caret starts at the right edge; Left walks into the Hebrew word
+    key(input, "ArrowLeft");
+    expect(input.selectionEnd).toBe(1);
+    key(input, "ArrowLeft");
+    key(input, "ArrowLeft");
+    expect(input.selectionEnd).toBe(3);
+    key(input, "ArrowRight");
+    expect(input.selectionEnd).toBe(2);
+  });
+
+  test("password mode shows one dot per cluster", () => {
+    const input = new TextInput();
+    input.isPassword = true;
+    input.text = `x${THUMBS_UP}`;
+    const line = input.textLayout.lines[0];
+    expect(line.graphemes).toEqual([0, 1, 5]);
+    expect(line.advancements[3]).toBe(line.advancements[1]);
+  });
+});
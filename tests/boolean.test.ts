@@ -0,0 +1,222 @@
+/**
+ * Tests for boolean operations on geometry.
+ */
+
+import { describe, expect, it } from "bun:test";
+import { Circle } from "../src/geometry/Circle";
+import { CompositeGeometry } from "../src/geometry/CompositeGeometry";
+import { Line } from "../src/geometry/Line";
+import { Path } from "../src/geometry/Path";
+import { Polygon } from "../src/geometry/Polygon";
+import { Rectangle } from "../src/geometry/Rectangle";
+import {
+  booleanDifference,
+  booleanIntersection,
+  booleanOperation,
+  booleanUnion,
+  booleanXor,
+} from "../src/geometry/boolean";
+import { identity } from "../src/math/matrix";
+
+type Pt = { x: number; y: number };
+
+function square(x: number, y: number, size: number): Polygon {
+  return new Polygon([
+    { x, y },
+    { x: x + size, y },
+    { x: x + size, y: y + size },
+    { x, y: y + size },
+  ]);
+}
+
+/** Contours of a boolean result, read back from the Polygon or Path. */
+function contours(result: Polygon | Path): Pt[][] {
+  if (result instanceof Polygon) return [result.points];
+  const rings: Pt[][] = [];
+  for (const seg of result.segments) {
+    if (seg.type === "moveTo") rings.push([{ x: seg.x, y: seg.y }]);
+    else if (seg.type === "lineTo")
+      rings[rings.length - 1].push({ x: seg.x, y: seg.y });
+  }
+  return rings;
+}
+
+function signedArea(ring: Pt[]): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const p = ring[i];
+    const q = ring[(i + 1) % ring.length];
+    sum += p.x * q.y - q.x * p.y;
+  }
+  return sum / 2;
+}
+
+/** Filled area of a result (holes wind the other way and subtract). */
+function area(result: Polygon | Path): number {
+  return contours(result).reduce((sum, ring) => sum + signedArea(ring), 0);
+}
+
+describe("boolean operations", () => {
+  it("should union overlapping polygons into a single outline", () => {
+    const result = booleanUnion(square(0, 0, 10), square(5, 5, 10));
+    expect(result).toBeInstanceOf(Polygon);
+    expect((result as Polygon).points.length).toBe(8);
+    expect(area(result)).toBeCloseTo(175);
+  });
+
+  it("should intersect overlapping polygons", () => {
+    const result = booleanIntersection(square(0, 0, 10), square(5, 5, 10));
+    expect(result).toBeInstanceOf(Polygon);
+    expect((result as Polygon).points.length).toBe(4);
+    expect(area(result)).toBeCloseTo(25);
+  });
+
+  it("should subtract the second operand from the first", () => {
+    const result = booleanDifference(square(0, 0, 10), square(5, 5, 10));
+    expect((result as Polygon).points.length).toBe(6);
+    expect(area(result)).toBeCloseTo(75);
+  });
+
+  it("should keep xor regions that only touch at a point as separate contours", () => {
+    const result = booleanXor(square(0, 0, 10), square(5, 5, 10));
+    expect(result).toBeInstanceOf(Path);
+    const rings = contours(result);
+    expect(rings.length).toBe(2);
+    expect(rings.every((ring) => ring.length === 6)).toBe(true);
+    expect(area(result)).toBeCloseTo(150);
+  });
+
+  it("should produce holes wound opposite to their outer contour", () => {
+    const result = booleanDifference(square(0, 0, 30), square(10, 10, 10));
+    expect(result).toBeInstanceOf(Path);
+    const rings = contours(result);
+    expect(rings.length).toBe(2);
+    expect(Math.sign(signedArea(rings[0]))).toBe(
+      -Math.sign(signedArea(rings[1])),
+    );
+    expect(area(result)).toBeCloseTo(800);
+  });
+
+  it("should return every piece of a disjoint union", () => {
+    const result = booleanUnion(square(0, 0, 10), square(20, 0, 10));
+    expect(contours(result).length).toBe(2);
+    expect(area(result)).toBeCloseTo(200);
+  });
+
+  it("should return an empty path when nothing remains", () => {
+    const result = booleanIntersection(square(0, 0, 10), square(20, 0, 10));
+    expect(result).toBeInstanceOf(Path);
+    expect((result as Path).segments.length).toBe(0);
+  });
+
+  it("should merge polygons sharing an edge without leftover vertices", () => {
+    const result = booleanUnion(square(0, 0, 10), square(10, 0, 10));
+    expect(result).toBeInstanceOf(Polygon);
+    expect((result as Polygon).points.length).toBe(4);
+    expect(area(result)).toBeCloseTo(200);
+  });
+
+  it("should treat identical operands consistently", () => {
+    expect(area(booleanUnion(square(0, 0, 10), square(0, 0, 10)))).toBeCloseTo(
+      100,
+    );
+    expect(
+      area(booleanIntersection(square(0, 0, 10), square(0, 0, 10))),
+    ).toBeCloseTo(100);
+    expect(
+      contours(booleanDifference(square(0, 0, 10), square(0, 0, 10))).length,
+    ).toBe(0);
+  });
+
+  it("should flatten circles within the requested tolerance", () => {
+    const circle = new Circle(50, 50, 40);
+    const bounds = new Rectangle(0, 0, 100, 100);
+    const coarse = booleanIntersection(circle, bounds, {
+      tolerance: 1,
+    }) as Polygon;
+    const fine = booleanIntersection(circle, bounds, {
+      tolerance: 0.01,
+    }) as Polygon;
+    expect(fine.points.length).toBeGreaterThan(coarse.points.length);
+    for (const p of fine.points) {
+      expect(Math.abs(Math.hypot(p.x - 50, p.y - 50) - 40)).toBeLessThan(
+        0.01 + 1e-9,
+      );
+    }
+    // An inscribed outline loses at most perimeter × tolerance of area
+    expect(Math.abs(area(fine) - Math.PI * 1600)).toBeLessThan(
+      Math.PI * 80 * 0.01,
+    );
+  });
+
+  it("should flatten path curves and arcs", () => {
+    // A half-disc: straight edge along y = 0, arc through y = 20
+    const half = Path.fromPathData("M-20 0 L20 0 A20 20 0 0 1 -20 0 Z");
+    const result = booleanUnion(half, new Rectangle(-20, -10, 40, 10), {
+      tolerance: 0.01,
+    });
+    expect(result).toBeInstanceOf(Polygon);
+    expect(area(result)).toBeCloseTo(400 + (Math.PI * 400) / 2, 0);
+  });
+
+  it("should fill path subpaths with the nonzero rule", () => {
+    // Two overlapping subpaths with the same winding fill as a union
+    const path = Path.fromPathData("M0 0 H10 V10 H0 Z M5 5 H15 V15 H5 Z");
+    const result = booleanIntersection(
+      path,
+      new Rectangle(-100, -100, 200, 200),
+    );
+    expect(area(result)).toBeCloseTo(175);
+  });
+
+  it("should treat composite geometry as the union of its transformed children", () => {
+    const composite = new CompositeGeometry();
+    const left = new Rectangle(0, 0, 10, 10);
+    const right = new Rectangle(0, 0, 10, 10);
+    right.x = 20;
+    right.updateLocalMatrix();
+    composite.addChild(left);
+    composite.addChild(right);
+    composite.y = 5;
+    composite.updateLocalMatrix();
+    composite.updateWorldMatrix(identity());
+
+    const result = booleanDifference(composite, new Rectangle(5, 0, 20, 20));
+    const rings = contours(result);
+    expect(rings.length).toBe(2);
+    expect(area(result)).toBeCloseTo(100);
+    const ys = rings.flat().map((p) => p.y);
+    expect(Math.min(...ys)).toBeCloseTo(5);
+  });
+
+  it("should read operands in world space", () => {
+    const moved = square(0, 0, 10);
+    moved.x = 100;
+    moved.scaleX = 2;
+    moved.updateWorldMatrix(identity());
+    const result = booleanUnion(moved, square(0, 0, 10)) as Path;
+    const xs = contours(result)
+      .flat()
+      .map((p) => p.x);
+    expect(Math.max(...xs)).toBeCloseTo(120);
+    expect(area(result)).toBeCloseTo(300);
+  });
+
+  it("should not modify the operands", () => {
+    const a = square(0, 0, 10);
+    const b = square(5, 5, 10);
+    const result = booleanOperation("union", a, b);
+    expect(result).not.toBe(a);
+    expect(a.points.length).toBe(4);
+    expect(b.points.length).toBe(4);
+  });
+
+  it("should reject open geometry and invalid tolerances", () => {
+    expect(() =>
+      booleanUnion(new Line(0, 0, 10, 10), square(0, 0, 10)),
+    ).toThrow();
+    expect(() =>
+      booleanUnion(square(0, 0, 10), square(0, 0, 10), { tolerance: 0 }),
+    ).toThrow();
+  });
+});
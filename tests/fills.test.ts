@@ -0,0 +1,295 @@
+/**
+ * Fill Descriptor Tests
+ *
+ * Tests building canvas paints from linear, radial, conic and pattern
+ * descriptors, lazy rebuilding on ShapeElement when bounds change, tweening
+ * between descriptors and round-tripping them through serialization.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { Tween } from "../src/animation/Tween";
+import { Ticker } from "../src/core/Ticker";
+import { Rect } from "../src/elements/Rect";
+import {
+  Arena2DContext,
+  type CanvasContext,
+} from "../src/rendering/Arena2DContext";
+import {
+  type IFill,
+  type ILinearGradientFill,
+  type IPatternFill,
+  createFillStyle,
+  isFill,
+} from "../src/rendering/Fills";
+import {
+  deserializeElement,
+  serializeElement,
+} from "../src/serialization/SceneSerializer";
+
+// ── Helpers ──
+
+/** Gradient that records how it was made and its stops. */
+class FakeGradient {
+  stops: Array<[number, string]> = [];
+  constructor(
+    readonly kind: string,
+    readonly args: number[],
+  ) {}
+  addColorStop(offset: number, color: string): void {
+    this.stops.push([offset, color]);
+  }
+}
+
+class FakePattern {
+  transform: unknown = null;
+  constructor(
+    readonly image: unknown,
+    readonly repetition: string,
+  ) {}
+  setTransform(m: unknown): void {
+    this.transform = m;
+  }
+}
+
+/** Canvas context stand-in that records created paints and fills. */
+function createRawContext(conic = true) {
+  const created: FakeGradient[] = [];
+  const raw: Record<string, unknown> = {
+    fillStyle: "",
+    strokeStyle: "",
+    lineWidth: 1,
+    fills: [] as unknown[],
+    createLinearGradient: (...args: number[]) => {
+      const g = new FakeGradient("linear", args);
+      created.push(g);
+      return g;
+    },
+    createRadialGradient: (...args: number[]) => {
+      const g = new FakeGradient("radial", args);
+      created.push(g);
+      return g;
+    },
+    createPattern: (image: unknown, repetition: string) =>
+      new FakePattern(image, repetition),
+    fillRect: () => (raw.fills as unknown[]).push(raw.fillStyle),
+    strokeRect: () => {},
+  };
+  if (conic) {
+    raw.createConicGradient = (...args: number[]) => {
+      const g = new FakeGradient("conic", args);
+      created.push(g);
+      return g;
+    };
+  }
+  return { raw: raw as unknown as CanvasContext, created, record: raw };
+}
+
+const bounds = { x: 10, y: 20, width: 200, height: 100 };
+
+const stops = [
+  { offset: 0, color: "#000000" },
+  { offset: 1, color: "#ffffff" },
+];
+
+function vertical(colors: [string, string]): ILinearGradientFill {
+  return {
+    type: "linear",
+    x0: 0,
+    y0: 0,
+    x1: 0,
+    y1: 1,
+    stops: [
+      { offset: 0, color: colors[0] },
+      { offset: 1, color: colors[1] },
+    ],
+  };
+}
+
+// ── createFillStyle ──
+
+describe("Fills — canvas paints", () => {
+  test("places linear gradients in fractions of the bounds", () => {
+    const { raw } = createRawContext();
+    const g = createFillStyle(
+      raw,
+      { type: "linear", x0: 0, y0: 0, x1: 1, y1: 0.5, stops },
+      bounds,
+    ) as unknown as FakeGradient;
+    expect(g.args).toEqual([10, 20, 210, 70]);
+    expect(g.stops).toEqual([
+      [0, "#000000"],
+      [1, "#ffffff"],
+    ]);
+  });
+
+  test("local units are used as given", () => {
+    const { raw } = createRawContext();
+    const g = createFillStyle(
+      raw,
+      { type: "linear", x0: 5, y0: 5, x1: 50, y1: 5, stops, units: "local" },
+      bounds,
+    ) as unknown as FakeGradient;
+    expect(g.args).toEqual([5, 5, 50, 5]);
+  });
+
+  test("radial radii scale with the normalized diagonal", () => {
+    const { raw } = createRawContext();
+    const square = { x: 0, y: 0, width: 100, height: 100 };
+    const g = createFillStyle(
+      raw,
+      { type: "radial", cx: 0.5, cy: 0.5, r: 0.5, fx: 0.25, stops },
+      square,
+    ) as unknown as FakeGradient;
+    // Focal circle first, then the outer circle
+    expect(g.args).toEqual([25, 50, 0, 50, 50, 50]);
+  });
+
+  test("conic gradients fall back to their first color", () => {
+    const fill: IFill = { type: "conic", cx: 0.5, cy: 0.5, angle: 1, stops };
+    const g = createFillStyle(
+      createRawContext().raw,
+      fill,
+      bounds,
+    ) as unknown as FakeGradient;
+    expect(g.kind).toBe("conic");
+    expect(g.args).toEqual([1, 110, 70]);
+    expect(createFillStyle(createRawContext(false).raw, fill, bounds)).toBe(
+      "#000000",
+    );
+  });
+
+  test("patterns start at the bounds and carry their transform", () => {
+    const image = { width: 8, height: 8 } as unknown as CanvasImageSource;
+    const pattern = createFillStyle(
+      createRawContext().raw,
+      { type: "pattern", image, repetition: "repeat-x", x: 5, scaleX: 2 },
+      bounds,
+    ) as unknown as FakePattern;
+    expect(pattern.image).toBe(image);
+    expect(pattern.repetition).toBe("repeat-x");
+    expect(pattern.transform).toEqual({
+      a: 2,
+      b: 0,
+      c: -0,
+      d: 1,
+      e: 15,
+      f: 20,
+    });
+  });
+
+  test("clamps stop offsets and recognizes descriptors", () => {
+    const g = createFillStyle(
+      createRawContext().raw,
+      {
+        type: "linear",
+        x0: 0,
+        y0: 0,
+        x1: 1,
+        y1: 0,
+        stops: [{ offset: 1.2, color: "red" }],
+      },
+      bounds,
+    ) as unknown as FakeGradient;
+    expect(g.stops).toEqual([[1, "red"]]);
+    expect(isFill(vertical(["#000", "#fff"]))).toBe(true);
+    expect(isFill("#fff")).toBe(false);
+    expect(isFill({ type: "blur" })).toBe(false);
+  });
+});
+
+// ── ShapeElement ──
+
+describe("ShapeElement — fill descriptors", () => {
+  test("builds the gradient once and rebuilds it on resize", () => {
+    const { raw, created, record } = createRawContext();
+    const ctx = new Arena2DContext(raw);
+    const rect = new Rect();
+    rect.width = 100;
+    rect.height = 50;
+    rect.fill = vertical(["#000000", "#ffffff"]);
+
+    rect.paint(ctx);
+    rect.paint(ctx);
+    expect(created.length).toBe(1);
+    expect(created[0].args).toEqual([0, 0, 0, 50]);
+    expect((record.fills as unknown[])[0]).toBe(created[0]);
+
+    rect.height = 80;
+    rect.paint(ctx);
+    expect(created.length).toBe(2);
+    expect(created[1].args).toEqual([0, 0, 0, 80]);
+  });
+
+  test("strings and canvas paints pass through", () => {
+    const { raw, record } = createRawContext();
+    const rect = new Rect();
+    rect.width = 10;
+    rect.height = 10;
+    rect.fill = "#ff0000";
+    rect.paint(new Arena2DContext(raw));
+    expect(record.fills).toEqual(["#ff0000"]);
+  });
+
+  test("tweens between descriptors stop by stop", () => {
+    const ticker = new Ticker();
+    const rect = new Rect();
+    const from = vertical(["#000000", "#000000"]);
+    const to = { ...vertical(["#ffffff", "#000000"]), x1: 1 };
+    rect.fill = from;
+    const tween = new Tween({
+      target: rect as unknown as Record<string, unknown>,
+      properties: {
+        fill: [{ toValue: to, duration: 1, easing: "linear" }],
+      },
+      ticker,
+      autoStart: false,
+    });
+    tween.start();
+    // The ticker caps long frames, so advance in small steps; 1/32 s adds
+    // up without rounding
+    const step = 1000 / 32;
+    for (let t = 0; t <= 500; t += step) ticker._tick(1000 + t);
+
+    const mid = rect.fill as ILinearGradientFill;
+    expect(mid).not.toBe(from);
+    expect(mid.type).toBe("linear");
+    expect(mid.x1).toBeCloseTo(0.5);
+    expect(mid.stops[0].color).toBe("#808080");
+    expect(mid.stops[1].color).toBe("#000000");
+
+    for (let t = 500 + step; t <= 1100; t += step) ticker._tick(1000 + t);
+    expect((rect.fill as ILinearGradientFill).x1).toBe(1);
+  });
+});
+
+// ── Serialization ──
+
+describe("Fills — serialization", () => {
+  test("gradient descriptors round-trip", () => {
+    const rect = new Rect();
+    rect.fill = vertical(["#123456", "#abcdef"]);
+    rect.stroke = { type: "conic", cx: 0.5, cy: 0.5, stops };
+    const copy = deserializeElement(serializeElement(rect)) as Rect;
+    expect(copy.fill).toEqual(rect.fill);
+    expect(copy.fill).not.toBe(rect.fill);
+    expect(copy.stroke).toEqual(rect.stroke);
+  });
+
+  test("patterns are saved by image src", () => {
+    const rect = new Rect();
+    const image = { src: "tiles.png" } as unknown as CanvasImageSource;
+    rect.fill = { type: "pattern", image, repetition: "repeat" };
+    const data = serializeElement(rect);
+    expect(data.props.fill).toEqual({
+      type: "pattern",
+      repetition: "repeat",
+      src: "tiles.png",
+    });
+
+    const loaded = { src: "loaded" } as unknown as CanvasImageSource;
+    const copy = deserializeElement(data, {
+      resolveImage: () => loaded,
+    }) as Rect;
+    expect((copy.fill as IPatternFill).image).toBe(loaded);
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Filter Tests
+ *
+ * Tests filter padding and canvas filter strings, the color matrix pass,
+ * Element.filters, and the View's offscreen filter pass: compositing,
+ * chaining, blend modes and culling with padded bounds.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { Container } from "../src/core/Container";
+import { DirtyFlags } from "../src/core/DirtyFlags";
+import { Element } from "../src/core/Element";
+import {
+  type IFilter,
+  applyColorMatrix,
+  expandFilterBounds,
+  getFilterPadding,
+  toCanvasFilter,
+} from "../src/rendering/Filters";
+import {
+  deserializeElement,
+  serializeElement,
+} from "../src/serialization/SceneSerializer";
+import {
+  FakeOffscreenCanvas,
+  type IDrawCall,
+  RecordingBox,
+  layerCtx,
+  offscreens,
+  renderScene,
+} from "./helpers/viewMocks";
+
+// ── Helpers ──
+
+/** A recording box that stays out of the hit buffer. */
+class Box extends RecordingBox {
+  constructor(x: number, y: number, size = 100) {
+    super(x, y, size);
+    this.interactive = false;
+  }
+}
+
+/** The layer draw that composited a filter pass. */
+function composites(): IDrawCall[] {
+  return layerCtx.draws.filter((d) => offscreens.some((c) => d.args[0] === c));
+}
+
+const identity = [1, 0, 0, 1];
+
+// ── Filter descriptors ──
+
+describe("Filters — padding and canvas strings", () => {
+  test("blur pads every side by three standard deviations", () => {
+    expect(getFilterPadding([{ type: "blur", radius: 4 }])).toEqual({
+      left: 12,
+      top: 12,
+      right: 12,
+      bottom: 12,
+    });
+  });
+
+  test("drop shadows pad towards their offset", () => {
+    const pad = getFilterPadding([
+      { type: "dropShadow", offsetX: 10, offsetY: 0, blur: 4, color: "#000" },
+    ]);
+    expect(pad).toEqual({ left: 0, top: 6, right: 16, bottom: 6 });
+  });
+
+  test("padding compounds along the chain and ignores color filters", () => {
+    const filters: IFilter[] = [
+      { type: "glow", radius: 2, color: "gold" },
+      { type: "saturate", amount: 0 },
+      { type: "blur", radius: 1 },
+    ];
+    expect(getFilterPadding(filters).left).toBe(6);
+    expect(
+      expandFilterBounds({ x: 0, y: 0, width: 10, height: 10 }, filters),
+    ).toEqual({ x: -6, y: -6, width: 22, height: 22 });
+  });
+
+  test("maps lengths through the device matrix", () => {
+    const scaled = [2, 0, 0, 2];
+    expect(toCanvasFilter({ type: "blur", radius: 3 }, scaled)).toBe(
+      "blur(6px)",
+    );
+    // Rotated 90°: a shadow along local x falls along device y
+    expect(
+      toCanvasFilter(
+        { type: "dropShadow", offsetX: 5, offsetY: 0, blur: 2, color: "red" },
+        [0, 1, -1, 0],
+      ),
+    ).toBe("drop-shadow(0px 5px 2px red)");
+    expect(
+      toCanvasFilter(
+        { type: "glow", radius: 4, color: "gold", strength: 2 },
+        identity,
+      ),
+    ).toBe("drop-shadow(0px 0px 4px gold) drop-shadow(0px 0px 4px gold)");
+    expect(toCanvasFilter({ type: "contrast", amount: 1.5 }, identity)).toBe(
+      "contrast(1.5)",
+    );
+    expect(
+      toCanvasFilter({ type: "colorMatrix", matrix: [] }, identity),
+    ).toBeNull();
+  });
+
+  test("applies a color matrix to pixel data", () => {
+    const data = new Uint8ClampedArray([200, 100, 0, 255]);
+    // Swap red and green, add 0.2 to blue, halve alpha
+    applyColorMatrix(
+      data,
+      [0, 1, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 1, 0, 0.2, 0, 0, 0, 0.5, 0],
+    );
+    expect([...data]).toEqual([100, 200, 51, 128]);
+    expect(() => applyColorMatrix(data, [1, 0])).toThrow("20 values");
+  });
+});
+
+// ── Element ──
+
+describe("Element.filters", () => {
+  test("defaults to none and invalidates visuals when assigned", () => {
+    const el = new Element();
+    expect(el.filters).toEqual([]);
+    el.update(0);
+    el.filters = [{ type: "blur", radius: 2 }];
+    expect(el.dirtyFlags & DirtyFlags.Visual).toBeTruthy();
+  });
+
+  test("round-trips through serialization", () => {
+    const el = new Element();
+    el.filters = [{ type: "saturate", amount: 0 }];
+    const copy = deserializeElement(serializeElement(el));
+    expect(copy.filters).toEqual([{ type: "saturate", amount: 0 }]);
+    expect(serializeElement(new Element()).visual.filters).toBeUndefined();
+  });
+});
+
+// ── View filter pass ──
+
+describe("View — filter pass", () => {
+  test("paints into an offscreen buffer and composites with the filter", () => {
+    const box = new Box(50, 50);
+    box.filters = [{ type: "blur", radius: 4 }];
+    renderScene(box);
+
+    // Painted once, into the pass buffer
+    expect(box.painted).toEqual([offscreens[0].ctx]);
+    // Buffer origin is the padded bounds: 50 - 12
+    const t = offscreens[0].ctx.transforms.at(-1) as number[];
+    expect([t[4], t[5]]).toEqual([12, 12]);
+
+    const [draw] = composites();
+    expect(draw.filter).toBe("blur(4px)");
+    expect(draw.args.slice(1)).toEqual([0, 0, 124, 124, 38, 38, 124, 124]);
+    expect(layerCtx.filter).toBe("none");
+  });
+
+  test("runs color matrices as a pixel pass between canvas filters", () => {
+    const box = new Box(0, 0, 10);
+    box.filters = [
+      { type: "blur", radius: 1 },
+      {
+        type: "colorMatrix",
+        matrix: [0, 0, 0, 0, 1, 0, 1, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 1, 0],
+      },
+      { type: "saturate", amount: 0 },
+    ];
+    FakeOffscreenCanvas.prototype.getContext = function () {
+      this.ctx.pixel = [10, 20, 30, 255];
+      return this.ctx;
+    };
+    try {
+      renderScene(box);
+    } finally {
+      FakeOffscreenCanvas.prototype.getContext = function () {
+        return this.ctx;
+      };
+    }
+
+    const [a, b] = offscreens.map((c) => c.ctx);
+    // The blur ran from buffer A into buffer B
+    expect(b.draws[0].filter).toBe("blur(1px)");
+    expect(b.draws[0].args[0]).toBe(offscreens[0]);
+    // The matrix ran over B's pixels
+    expect([...(b.putData as Uint8ClampedArray).slice(0, 4)]).toEqual([
+      255, 20, 30, 255,
+    ]);
+    expect(a.putData).toBeNull();
+    // The trailing saturate is applied while compositing B
+    const [draw] = composites();
+    expect(draw.args[0]).toBe(offscreens[1]);
+    expect(draw.filter).toBe("saturate(0)");
+  });
+
+  test("composites with the element's blend mode", () => {
+    const box = new Box(50, 50);
+    box.blendMode = "multiply";
+    box.filters = [{ type: "brightness", amount: 1.2 }];
+    renderScene(box);
+    expect(composites()[0].composite).toBe("multiply");
+  });
+
+  test("filters a container with its children and nests passes", () => {
+    const group = new Container();
+    group.interactive = false;
+    const child = new Box(10, 10, 20);
+    child.filters = [{ type: "blur", radius: 1 }];
+    group.addChild(child);
+    group.filters = [{ type: "saturate", amount: 0 }];
+    renderScene(group);
+
+    // One buffer pair per depth
+    expect(offscreens.length).toBe(4);
+    // The child's pass composites into the group's buffer
+    expect(child.painted).toEqual([offscreens[2].ctx]);
+    const inner = offscreens[0].ctx.draws;
+    expect(inner[0].args[0]).toBe(offscreens[2]);
+    expect(inner[0].filter).toBe("blur(1px)");
+    expect(composites().map((d) => d.filter)).toEqual(["saturate(0)"]);
+  });
+
+  test("culls with bounds grown by the filter", () => {
+    const plain = new Box(410, 50);
+    const blurred = new Box(410, 150);
+    blurred.filters = [{ type: "blur", radius: 10 }];
+    renderScene(plain, blurred);
+    expect(plain.painted.length).toBe(0);
+    expect(blurred.painted.length).toBe(1);
+    // The pass is limited to what can reach the canvas
+    const [draw] = composites();
+    expect(draw.args[5]).toBe(380);
+    expect(draw.args[7]).toBe(50);
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * Grid Layout Tests
+ *
+ * Tests track sizing (fixed, percentage, fr, auto), gaps, explicit
+ * placement and spans, auto-placement, item alignment and intrinsic
+ * text sizing.
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { Container } from "../src/core/Container";
+import { Element } from "../src/core/Element";
+import { Text } from "../src/elements/Text";
+import { getLayoutData, resolveLayout } from "../src/layout/LayoutResolver";
+import type { IStyle } from "../src/layout/Style";
+import {
+  type ITextMeasureContext,
+  clearLayoutCache,
+  setMeasureContext,
+} from "../src/text/TextLayout";
+
+// ── Mock Measure Context ──
+// Each character is half the font size wide (7px at the default 14px).
+
+function createMockMeasureContext(): ITextMeasureContext {
+  let size = 14;
+  return {
+    get font() {
+      return `normal normal ${size}px sans-serif`;
+    },
+    set font(value: string) {
+      size = Number(/(\d+(?:\.\d+)?)px/.exec(value)?.[1] ?? 14);
+    },
+    measureText(text: string) {
+      return {
+        width: text.length * (size / 2),
+        fontBoundingBoxAscent: size * 0.8,
+        fontBoundingBoxDescent: size * 0.2,
+      };
+    },
+  };
+}
+
+beforeAll(() => {
+  setMeasureContext(createMockMeasureContext());
+  clearLayoutCache();
+});
+
+afterAll(() => {
+  setMeasureContext(null);
+});
+
+// ── Helpers ──
+
+function makeGrid(w: number, h: number, style: Partial<IStyle>): Container {
+  const c = new Container();
+  c.width = w;
+  c.height = h;
+  c.updateStyle({ display: "grid", ...style });
+  return c;
+}
+
+function addItem(
+  grid: Container,
+  w: number,
+  h: number,
+  style?: Partial<IStyle>,
+): Element {
+  const el = new Element();
+  el.updateStyle({ display: "flex", width: w, height: h, ...style });
+  grid.addChild(el);
+  return el;
+}
+
+function rect(el: Element): [number, number, number, number] {
+  const ld = getLayoutData(el);
+  return [ld.computedX, ld.computedY, ld.computedWidth, ld.computedHeight];
+}
+
+// ── Track sizing ──
+
+describe("Grid tracks", () => {
+  test("fixed, percentage and fr columns share the width", () => {
+    const grid = makeGrid(400, 100, {
+      gridTemplateColumns: [100, "25%", "1fr", "2fr"],
+      alignItems: "stretch",
+      justifyItems: "stretch",
+    });
+    const items = [0, 1, 2, 3].map(() =>
+      addItem(grid, 10, 10, { width: "auto", height: "auto" }),
+    );
+    resolveLayout(grid);
+    // 400 - 100 - 100 = 200 left for 3fr
+    expect(items.map((el) => rect(el)[0])).toEqual([0, 100, 200, 267]);
+    expect(items.map((el) => rect(el)[2])).toEqual([100, 100, 67, 133]);
+    expect(rect(items[0])[3]).toBe(100);
+  });
+
+  test("auto tracks fit their largest item", () => {
+    const grid = makeGrid(300, 200, {
+      gridTemplateColumns: ["auto", "1fr"],
+    });
+    const a = addItem(grid, 40, 20);
+    addItem(grid, 10, 30);
+    const c = addItem(grid, 70, 10);
+    resolveLayout(grid);
+    // The auto column is as wide as its widest item (70)
+    expect(rect(a)).toEqual([0, 0, 40, 20]);
+    expect(rect(c)).toEqual([0, 30, 70, 10]);
+  });
+
+  test("gaps separate tracks; rowGap and columnGap override gap", () => {
+    const grid = makeGrid(210, 200, {
+      gridTemplateColumns: ["1fr", "1fr"],
+      gridAutoRows: 40,
+      gap: 10,
+      rowGap: 5,
+    });
+    const items = [0, 1, 2].map(() => addItem(grid, 20, 20));
+    resolveLayout(grid);
+    expect(items.map((el) => rect(el).slice(0, 2))).toEqual([
+      [0, 0],
+      [110, 0],
+      [0, 45],
+    ]);
+  });
+
+  test("fr tracks do not shrink below their items' minimum width", () => {
+    const grid = makeGrid(100, 50, {
+      gridTemplateColumns: ["1fr", "1fr"],
+    });
+    const wide = addItem(grid, 80, 10);
+    const other = addItem(grid, 10, 10);
+    resolveLayout(grid);
+    expect(rect(wide)[0]).toBe(0);
+    // The first column is frozen at 80; the second gets the remaining 20
+    expect(rect(other)[0]).toBe(80);
+  });
+
+  test("text in fr tracks keeps its longest word", () => {
+    const grid = makeGrid(60, 100, {
+      gridTemplateColumns: ["1fr", "1fr"],
+    });
+    const label = new Text();
+    label.text = "abcdefgh ij";
+    label.updateStyle({ display: "flex" });
+    grid.addChild(label);
+    const other = addItem(grid, 10, 10);
+    resolveLayout(grid);
+    // "abcdefgh" is 56px wide, leaving 4px for the second column
+    expect(rect(other)[0]).toBe(56);
+  });
+
+  test("padding offsets the tracks", () => {
+    const grid = makeGrid(120, 60, {
+      gridTemplateColumns: ["1fr", "1fr"],
+      padding: [5, 10, 5, 10],
+    });
+    addItem(grid, 10, 10);
+    const second = addItem(grid, 10, 10);
+    resolveLayout(grid);
+    expect(rect(second).slice(0, 2)).toEqual([60, 5]);
+  });
+});
+
+// ── Placement ──
+
+describe("Grid placement", () => {
+  test("explicit lines and spans", () => {
+    const grid = makeGrid(300, 300, {
+      gridTemplateColumns: [100, 100, 100],
+      gridTemplateRows: [50, 50, 50],
+      alignItems: "stretch",
+      justifyItems: "stretch",
+    });
+    const header = addItem(grid, 0, 0, {
+      width: "auto",
+      height: "auto",
+      gridColumn: { start: 1, end: -1 },
+      gridRow: 1,
+    });
+    const side = addItem(grid, 0, 0, {
+      width: "auto",
+      height: "auto",
+      gridColumn: 1,
+      gridRow: { start: 2, span: 2 },
+    });
+    const last = addItem(grid, 0, 0, {
+      width: "auto",
+      height: "auto",
+      gridColumn: -2,
+      gridRow: 3,
+    });
+    resolveLayout(grid);
+    expect(rect(header)).toEqual([0, 0, 300, 50]);
+    expect(rect(side)).toEqual([0, 50, 100, 100]);
+    expect(rect(last)).toEqual([200, 100, 100, 50]);
+  });
+
+  test("auto-placement flows around explicitly placed items", () => {
+    const grid = makeGrid(200, 200, {
+      gridTemplateColumns: [50, 50, 50],
+      gridAutoRows: 20,
+    });
+    const a = addItem(grid, 10, 10);
+    addItem(grid, 10, 10, { gridColumn: 2, gridRow: 1 });
+    const b = addItem(grid, 10, 10, { gridColumn: { span: 2 } });
+    const c = addItem(grid, 10, 10);
+    resolveLayout(grid);
+    // a takes (1,1); (2,1) is taken, so the span-2 item wraps to row 2
+    expect(rect(a).slice(0, 2)).toEqual([0, 0]);
+    expect(rect(b).slice(0, 2)).toEqual([0, 20]);
+    expect(rect(c).slice(0, 2)).toEqual([100, 20]);
+  });
+
+  test("items locked to a row take its first free column", () => {
+    const grid = makeGrid(200, 200, {
+      gridTemplateColumns: [50, 50],
+      gridAutoRows: 20,
+    });
+    const a = addItem(grid, 10, 10);
+    const locked = addItem(grid, 10, 10, { gridRow: 1 });
+    resolveLayout(grid);
+    expect(rect(locked).slice(0, 2)).toEqual([0, 0]);
+    expect(rect(a).slice(0, 2)).toEqual([50, 0]);
+  });
+
+  test("gridAutoFlow column fills columns first", () => {
+    const grid = makeGrid(200, 200, {
+      gridTemplateRows: [30, 30],
+      gridAutoColumns: 60,
+      gridAutoFlow: "column",
+    });
+    const items = [0, 1, 2].map(() => addItem(grid, 10, 10));
+    resolveLayout(grid);
+    expect(items.map((el) => rect(el).slice(0, 2))).toEqual([
+      [0, 0],
+      [0, 30],
+      [60, 0],
+    ]);
+  });
+
+  test("manual and anchor children are not grid items", () => {
+    const grid = makeGrid(200, 200, { gridTemplateColumns: [50, 50] });
+    const manual = new Element();
+    grid.addChild(manual);
+    const item = addItem(grid, 10, 10);
+    resolveLayout(grid);
+    expect(rect(item).slice(0, 2)).toEqual([0, 0]);
+  });
+});
+
+// ── Alignment ──
+
+describe("Grid alignment", () => {
+  test("justifyItems and alignItems position items in their cells", () => {
+    const grid = makeGrid(100, 100, {
+      gridTemplateColumns: [100],
+      gridTemplateRows: [100],
+      justifyItems: "center",
+      alignItems: "end",
+    });
+    const item = addItem(grid, 20, 10);
+    resolveLayout(grid);
+    expect(rect(item)).toEqual([40, 90, 20, 10]);
+  });
+
+  test("justifySelf and alignSelf override the grid", () => {
+    const grid = makeGrid(100, 100, {
+      gridTemplateColumns: [100],
+      gridTemplateRows: [100],
+      justifyItems: "center",
+      alignItems: "center",
+    });
+    const item = addItem(grid, 20, 10, {
+      justifySelf: "end",
+      alignSelf: "stretch",
+      height: "auto",
+    });
+    resolveLayout(grid);
+    expect(rect(item)).toEqual([80, 0, 20, 100]);
+  });
+
+  test("margins inset items within their cells", () => {
+    const grid = makeGrid(100, 100, {
+      gridTemplateColumns: [100],
+      gridTemplateRows: [100],
+      justifyItems: "stretch",
+    });
+    const item = addItem(grid, 0, 10, {
+      width: "auto",
+      margin: [5, 10, 0, 10],
+    });
+    resolveLayout(grid);
+    expect(rect(item)).toEqual([10, 5, 80, 10]);
+  });
+});
+
+// ── Intrinsic sizing ──
+
+describe("Grid intrinsic sizing", () => {
+  test("auto rows fit wrapped text at its column width", () => {
+    const grid = makeGrid(200, 300, {
+      gridTemplateColumns: [50, "1fr"],
+      justifyItems: "stretch",
+    });
+    const label = new Text();
+    label.text = "aaaa bbbb cccc";
+    label.updateStyle({ display: "flex" });
+    grid.addChild(label);
+    addItem(grid, 10, 10);
+    const below = addItem(grid, 10, 10);
+    resolveLayout(grid);
+    // At 50px the text wraps onto 3 lines of 17px
+    expect(label.textLayout.lines.length).toBe(3);
+    expect(rect(label)[2]).toBe(50);
+    expect(rect(below)[1]).toBe(51);
+  });
+
+  test("an auto-sized grid reports its tracks as its desired size", () => {
+    const outer = new Container();
+    outer.width = 500;
+    outer.height = 500;
+    outer.updateStyle({ display: "flex", flexDirection: "column" });
+    const grid = new Container();
+    grid.updateStyle({
+      display: "grid",
+      gridTemplateColumns: ["auto", "auto"],
+      columnGap: 8,
+      padding: [4, 4, 4, 4],
+    });
+    outer.addChild(grid);
+    addItem(grid, 30, 20);
+    addItem(grid, 50, 10);
+    addItem(grid, 40, 15);
+    resolveLayout(outer);
+    const ld = getLayoutData(grid);
+    expect(ld.desiredWidth).toBe(40 + 8 + 50 + 8);
+    expect(ld.desiredHeight).toBe(20 + 15 + 8);
+  });
+});
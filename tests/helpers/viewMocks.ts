@@ -0,0 +1,204 @@
+/**
+ * View Mocks
+ *
+ * A mock DOM whose canvases record their draws, for tests that render a
+ * Scene through a View and inspect the layer and offscreen pass contexts.
+ */
+
+import { mock } from "bun:test";
+import { Element } from "../../src/core/Element";
+import type { ILayer } from "../../src/core/Layer";
+import { Scene } from "../../src/core/Scene";
+import { View } from "../../src/core/View";
+
+// ── Mock DOM ──
+
+export interface IDrawCall {
+  args: unknown[];
+  filter: string;
+  composite: string;
+}
+
+/** 2D context that records path, clip and draw calls in order. */
+export class RecordingContext {
+  filter = "none";
+  globalAlpha = 1;
+  globalCompositeOperation = "source-over";
+  fillStyle = "";
+  strokeStyle = "";
+  lineWidth = 1;
+  /** Every call as `method(args)`, in order. */
+  calls: string[] = [];
+  /** Draws with the state they were made in. */
+  draws: IDrawCall[] = [];
+  transforms: number[][] = [];
+  /** RGBA returned for every pixel by getImageData. */
+  pixel = [0, 0, 0, 0];
+  putData: Uint8ClampedArray | null = null;
+  private _stack: Array<[string, number, string]> = [];
+
+  constructor(readonly canvas: { width: number; height: number }) {}
+
+  private _log(method: string, args: unknown[]): void {
+    this.calls.push(`${method}(${args.join(",")})`);
+  }
+
+  save(): void {
+    this._stack.push([
+      this.filter,
+      this.globalAlpha,
+      this.globalCompositeOperation,
+    ]);
+  }
+  restore(): void {
+    const state = this._stack.pop();
+    if (state) {
+      [this.filter, this.globalAlpha, this.globalCompositeOperation] = state;
+    }
+  }
+  setTransform(...m: number[]): void {
+    this._log("setTransform", m);
+    this.transforms.push(m);
+  }
+  transform(...args: number[]): void {
+    this._log("transform", args);
+  }
+  beginPath(): void {
+    this._log("beginPath", []);
+  }
+  rect(...args: number[]): void {
+    this._log("rect", args);
+  }
+  moveTo(...args: number[]): void {
+    this._log("moveTo", args);
+  }
+  arc(...args: number[]): void {
+    this._log("arc", args.slice(0, 3));
+  }
+  clip(...args: unknown[]): void {
+    this._log("clip", args);
+  }
+  drawImage(...args: unknown[]): void {
+    this._log("drawImage", []);
+    this.draws.push({
+      args,
+      filter: this.filter,
+      composite: this.globalCompositeOperation,
+    });
+  }
+  getImageData(_x: number, _y: number, w: number, h: number) {
+    const data = new Uint8ClampedArray(w * h * 4);
+    for (let i = 0; i < data.length; i += 4) data.set(this.pixel, i);
+    return { data };
+  }
+  putImageData(image: { data: Uint8ClampedArray }): void {
+    this.putData = image.data;
+  }
+  clearRect = mock();
+  fill = mock();
+  stroke = mock();
+  fillRect = mock();
+  strokeRect = mock();
+}
+
+/** Every OffscreenCanvas created, in order. */
+export const offscreens: FakeOffscreenCanvas[] = [];
+
+export class FakeOffscreenCanvas {
+  readonly ctx: RecordingContext;
+  constructor(
+    public width: number,
+    public height: number,
+  ) {
+    this.ctx = new RecordingContext(this);
+    offscreens.push(this);
+  }
+  getContext() {
+    return this.ctx;
+  }
+}
+
+/** Context of the view's default layer, set by `renderScene()`. */
+export let layerCtx: RecordingContext;
+
+function installDom(): void {
+  // biome-ignore lint/suspicious/noExplicitAny: Mocking globals
+  const g = global as any;
+  g.document = {
+    createElement: (tag: string) => {
+      if (tag === "canvas") {
+        const canvas = {
+          style: {},
+          width: 0,
+          height: 0,
+          remove: mock(),
+          getContext: () => new RecordingContext(canvas),
+        };
+        return canvas;
+      }
+      return {
+        style: {},
+        getBoundingClientRect: () => ({ left: 0, top: 0 }),
+        appendChild: () => {},
+        addEventListener: () => {},
+        removeEventListener: () => {},
+        getAttribute: () => null,
+        setAttribute: () => {},
+        clientWidth: 400,
+        clientHeight: 400,
+      };
+    },
+    body: { appendChild: () => {} },
+  };
+  g.window = {
+    devicePixelRatio: 1,
+    matchMedia: () => ({
+      addEventListener: () => {},
+      removeEventListener: () => {},
+    }),
+    getComputedStyle: () => ({ position: "static" }),
+    addEventListener: () => {},
+    removeEventListener: () => {},
+  };
+  g.getComputedStyle = () => ({ position: "static" });
+  g.OffscreenCanvas = FakeOffscreenCanvas;
+  g.ResizeObserver = class {
+    observe() {}
+    disconnect() {}
+  };
+}
+
+// ── Rendering ──
+
+/** Element that records the contexts it painted into. */
+export class RecordingBox extends Element {
+  painted: unknown[] = [];
+
+  constructor(x: number, y: number, size = 100) {
+    super();
+    this.x = x;
+    this.y = y;
+    this.width = size;
+    this.height = size;
+  }
+
+  override paint(ctx: { raw: unknown }): void {
+    this.painted.push(ctx.raw);
+  }
+}
+
+/** Render `elements` once in a 400×400 scene through a fresh View. */
+export function renderScene(...elements: Element[]): View {
+  installDom();
+  const host = document.createElement("div");
+  const scene = new Scene(400, 400);
+  const view = new View(host, scene);
+  layerCtx = (view.getLayer("default") as ILayer)
+    .ctx as unknown as RecordingContext;
+  // Drop the scene's hit buffer
+  offscreens.length = 0;
+  for (const el of elements) scene.root.addChild(el);
+  scene.root.update(0);
+  view.render();
+  return view;
+}
@@ -0,0 +1,322 @@
+import { describe, expect, mock, test } from "bun:test";
+import { Container } from "../src/core/Container";
+import { Element } from "../src/core/Element";
+import { CommandHistory } from "../src/history/CommandHistory";
+import type { IHistoryChangeEvent } from "../src/history/CommandHistory";
+import { type ICommand, MoveCommand } from "../src/history/commands";
+import { DragManager } from "../src/interaction/DragManager";
+import type { IPointerEvent } from "../src/interaction/InteractionManager";
+
+function ids(container: Container): string[] {
+  return container.children.map((c) => c.id);
+}
+
+function pointer(
+  target: Element,
+  sceneX: number,
+  sceneY: number,
+): IPointerEvent {
+  return { target, sceneX, sceneY } as unknown as IPointerEvent;
+}
+
+// ── Property changes ──
+
+describe("CommandHistory — properties", () => {
+  test("set applies, undoes and redoes a property change", () => {
+    const history = new CommandHistory();
+    const el = new Element("a");
+    history.set(el, "alpha", 0.5);
+    expect(el.alpha).toBe(0.5);
+
+    history.undo();
+    expect(el.alpha).toBe(1);
+    history.redo();
+    expect(el.alpha).toBe(0.5);
+  });
+
+  test("set ignores unchanged values", () => {
+    const history = new CommandHistory();
+    const el = new Element("a");
+    history.set(el, "x", 0);
+    expect(history.canUndo).toBe(false);
+  });
+
+  test("recording clears the redo stack", () => {
+    const history = new CommandHistory();
+    const el = new Element("a");
+    history.set(el, "x", 10);
+    history.undo();
+    expect(history.canRedo).toBe(true);
+    history.set(el, "y", 5);
+    expect(history.canRedo).toBe(false);
+  });
+
+  test("updateStyle restores the previous values of changed keys", () => {
+    const history = new CommandHistory();
+    const el = new Element("a");
+    const before = el.style.flexGrow;
+    history.updateStyle(el, { flexGrow: 2 });
+    expect(el.style.flexGrow).toBe(2);
+    history.undo();
+    expect(el.style.flexGrow).toBe(before);
+  });
+
+  test("undo labels describe the next step", () => {
+    const history = new CommandHistory();
+    const el = new Element("a");
+    history.set(el, "x", 10, "Nudge");
+    expect(history.undoLabel).toBe("Nudge");
+    history.undo();
+    expect(history.redoLabel).toBe("Nudge");
+    expect(history.undoLabel).toBeNull();
+  });
+
+  test("limit drops the oldest steps", () => {
+    const history = new CommandHistory({ limit: 2 });
+    const el = new Element("a");
+    history.set(el, "x", 1);
+    history.set(el, "x", 2);
+    history.set(el, "x", 3);
+    expect(history.undoCount).toBe(2);
+    history.undo();
+    history.undo();
+    expect(el.x).toBe(1);
+  });
+});
+
+// ── Hierarchy ──
+
+describe("CommandHistory — hierarchy", () => {
+  test("addChild and removeChild are reversible", () => {
+    const history = new CommandHistory();
+    const parent = new Container("p");
+    const a = new Element("a");
+    const b = new Element("b");
+    parent.addChild(a);
+
+    history.addChild(parent, b);
+    expect(ids(parent)).toEqual(["a", "b"]);
+    history.removeChild(parent, a);
+    expect(ids(parent)).toEqual(["b"]);
+
+    history.undo();
+    expect(ids(parent)).toEqual(["a", "b"]);
+    history.undo();
+    expect(ids(parent)).toEqual(["a"]);
+    expect(b.parent).toBeNull();
+  });
+
+  test("addChildAt matches Container semantics and restores the old parent", () => {
+    const history = new CommandHistory();
+    const from = new Container("from");
+    const to = new Container("to");
+    const x = new Element("x");
+    from.addChild(new Element("f0"));
+    from.addChild(x);
+    to.addChild(new Element("t0"));
+    to.addChild(new Element("t1"));
+
+    history.addChildAt(to, x, 1);
+    expect(ids(to)).toEqual(["t0", "x", "t1"]);
+    history.undo();
+    expect(ids(from)).toEqual(["f0", "x"]);
+    expect(ids(to)).toEqual(["t0", "t1"]);
+    history.redo();
+    expect(ids(to)).toEqual(["t0", "x", "t1"]);
+  });
+
+  test("z-order changes are reversible", () => {
+    const history = new CommandHistory();
+    const parent = new Container("p");
+    for (const id of ["a", "b", "c"]) parent.addChild(new Element(id));
+    const a = parent.children[0];
+
+    history.bringToFront(a);
+    expect(ids(parent)).toEqual(["b", "c", "a"]);
+    history.setZIndex(a, 5);
+    expect(a.zIndex).toBe(5);
+
+    history.undo();
+    expect(a.zIndex).toBe(0);
+    history.undo();
+    expect(ids(parent)).toEqual(["a", "b", "c"]);
+    history.redo();
+    expect(ids(parent)).toEqual(["b", "c", "a"]);
+  });
+});
+
+// ── Transactions ──
+
+describe("CommandHistory — transactions", () => {
+  test("a transaction is undone as one step", () => {
+    const history = new CommandHistory();
+    const el = new Element("a");
+    history.transaction("Place", () => {
+      history.set(el, "x", 10);
+      history.set(el, "y", 20);
+    });
+    expect(history.undoCount).toBe(1);
+    expect(history.undoLabel).toBe("Place");
+
+    history.undo();
+    expect(el.x).toBe(0);
+    expect(el.y).toBe(0);
+    history.redo();
+    expect(el.x).toBe(10);
+    expect(el.y).toBe(20);
+  });
+
+  test("nested transactions fold into the outermost one", () => {
+    const history = new CommandHistory();
+    const el = new Element("a");
+    history.beginTransaction("Outer");
+    history.set(el, "x", 1);
+    history.beginTransaction("Inner");
+    history.set(el, "y", 1);
+    history.commitTransaction();
+    expect(history.inTransaction).toBe(true);
+    history.commitTransaction();
+    expect(history.undoCount).toBe(1);
+    expect(history.undoLabel).toBe("Outer");
+  });
+
+  test("a throwing transaction is rolled back", () => {
+    const history = new CommandHistory();
+    const el = new Element("a");
+    expect(() =>
+      history.transaction("Broken", () => {
+        history.set(el, "x", 10);
+        throw new Error("boom");
+      }),
+    ).toThrow("boom");
+    expect(el.x).toBe(0);
+    expect(history.canUndo).toBe(false);
+    expect(history.inTransaction).toBe(false);
+  });
+
+  test("empty transactions record nothing", () => {
+    const history = new CommandHistory();
+    history.transaction("Nothing", () => {});
+    expect(history.undoCount).toBe(0);
+  });
+
+  test("undo is rejected while a transaction is open", () => {
+    const history = new CommandHistory();
+    history.beginTransaction();
+    expect(() => history.undo()).toThrow();
+    expect(() => new CommandHistory().commitTransaction()).toThrow();
+  });
+});
+
+// ── Merging ──
+
+describe("CommandHistory — merging", () => {
+  test("moves sharing a merge key collapse into one step", () => {
+    const history = new CommandHistory();
+    const el = new Element("a");
+    const key = {};
+    el.x = 5;
+    history.record(new MoveCommand(el, 0, 0, 5, 0, key));
+    el.x = 9;
+    history.record(new MoveCommand(el, 5, 0, 9, 0, key));
+    expect(history.undoCount).toBe(1);
+    history.undo();
+    expect(el.x).toBe(0);
+  });
+
+  test("undo breaks merging with the next command", () => {
+    const history = new CommandHistory();
+    const el = new Element("a");
+    const key = {};
+    history.execute(new MoveCommand(el, 0, 0, 5, 0, key));
+    history.execute(new MoveCommand(el, 5, 0, 10, 0, key));
+    history.undo();
+    history.execute(new MoveCommand(el, 0, 0, 3, 0, key));
+    expect(history.undoCount).toBe(1);
+    history.undo();
+    expect(el.x).toBe(0);
+  });
+
+  test("drag moves from a DragManager merge per gesture", () => {
+    const history = new CommandHistory();
+    const manager = new DragManager({ hitTestAABB: () => null });
+    const stop = history.trackDrags(manager);
+    const parent = new Container("p");
+    const el = new Element("a");
+    el.draggable = true;
+    parent.addChild(el);
+
+    const drag = (toX: number) => {
+      manager.handlePointerDown(pointer(el, 0, 0));
+      for (let x = 10; x <= toX; x += 10) {
+        manager.handlePointerMove(pointer(el, x, 0));
+      }
+      manager.handlePointerUp(pointer(el, toX, 0));
+    };
+
+    drag(30);
+    expect(el.x).toBe(30);
+    drag(20);
+    expect(el.x).toBe(50);
+    expect(history.undoCount).toBe(2);
+
+    history.undo();
+    expect(el.x).toBe(30);
+    history.undo();
+    expect(el.x).toBe(0);
+
+    stop();
+    drag(10);
+    expect(history.undoCount).toBe(0);
+  });
+});
+
+// ── Events ──
+
+describe("CommandHistory — change events", () => {
+  test("emits change for record, undo, redo and clear", () => {
+    const history = new CommandHistory();
+    const el = new Element("a");
+    const events: IHistoryChangeEvent[] = [];
+    history.on("change", (e: IHistoryChangeEvent) => events.push(e));
+
+    history.set(el, "x", 1);
+    history.undo();
+    history.redo();
+    history.clear();
+
+    expect(events.map((e) => e.action)).toEqual([
+      "record",
+      "undo",
+      "redo",
+      "clear",
+    ]);
+    expect(events[1].canRedo).toBe(true);
+    expect(events[3].canUndo).toBe(false);
+  });
+
+  test("no change events fire inside an open transaction", () => {
+    const history = new CommandHistory();
+    const handler = mock(() => {});
+    history.on("change", handler);
+    history.beginTransaction();
+    history.set(new Element("a"), "x", 1);
+    expect(handler).not.toHaveBeenCalled();
+    history.commitTransaction();
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  test("custom commands are executed and undone", () => {
+    const history = new CommandHistory();
+    const log: string[] = [];
+    const command: ICommand = {
+      label: "Custom",
+      redo: () => log.push("do"),
+      undo: () => log.push("undo"),
+    };
+    history.execute(command);
+    history.undo();
+    history.redo();
+    expect(log).toEqual(["do", "undo", "do"]);
+  });
+});
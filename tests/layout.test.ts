@@ -2,7 +2,8 @@
  * Layout Engine Tests — Layer 8
  *
  * Tests flex distribution, wrap, percentages, anchors, min/max,
- * nested flex, auto sizing, margin, padding, gap.
+ * nested flex, auto sizing, margin, padding, gap, reverse directions,
+ * order, alignSelf and alignContent.
  */
 
 import { describe, expect, test } from "bun:test";
@@ -731,6 +732,325 @@ describe("Flex wrap", () => {
   });
 });
 
+// ── Reverse directions ──
+
+describe("Flex reverse directions", () => {
+  test("row-reverse lays items out from the right", () => {
+    const root = makeContainer(300, 100, {
+      display: "flex",
+      flexDirection: "row-reverse",
+    });
+    const a = makeFixedChild(60, 40, { display: "flex" });
+    const b = makeFixedChild(80, 40, { display: "flex" });
+    root.addChild(a);
+    root.addChild(b);
+
+    runLayout(root);
+
+    expect(getLayoutData(a).computedX).toBe(240);
+    expect(getLayoutData(b).computedX).toBe(160);
+  });
+
+  test("row-reverse with justifyContent end packs items at the left", () => {
+    const root = makeContainer(300, 100, {
+      display: "flex",
+      flexDirection: "row-reverse",
+      justifyContent: "end",
+    });
+    const a = makeFixedChild(60, 40, { display: "flex" });
+    const b = makeFixedChild(80, 40, { display: "flex" });
+    root.addChild(a);
+    root.addChild(b);
+
+    runLayout(root);
+
+    expect(getLayoutData(b).computedX).toBe(0);
+    expect(getLayoutData(a).computedX).toBe(80);
+  });
+
+  test("column-reverse stacks items from the bottom with gaps", () => {
+    const root = makeContainer(100, 300, {
+      display: "flex",
+      flexDirection: "column-reverse",
+      gap: 10,
+    });
+    const a = makeFixedChild(40, 60, { display: "flex" });
+    const b = makeFixedChild(40, 80, { display: "flex" });
+    root.addChild(a);
+    root.addChild(b);
+
+    runLayout(root);
+
+    expect(getLayoutData(a).computedY).toBe(240);
+    expect(getLayoutData(b).computedY).toBe(150);
+  });
+
+  test("wrap-reverse stacks lines from the cross end", () => {
+    const root = makeContainer(200, 300, {
+      display: "flex",
+      flexDirection: "row",
+      flexWrap: "wrap-reverse",
+      alignContent: "start",
+    });
+    const a = makeFixedChild(120, 40, { display: "flex" });
+    const b = makeFixedChild(120, 40, { display: "flex" });
+    root.addChild(a);
+    root.addChild(b);
+
+    runLayout(root);
+
+    // The first line sits at the bottom, the second above it
+    expect(getLayoutData(a).computedY).toBe(260);
+    expect(getLayoutData(b).computedY).toBe(220);
+  });
+
+  test("row-reverse keeps each margin on its physical side", () => {
+    const root = makeContainer(300, 100, {
+      display: "flex",
+      flexDirection: "row-reverse",
+    });
+    const item = makeFixedChild(50, 40, {
+      display: "flex",
+      margin: [0, 5, 0, 10],
+    });
+    root.addChild(item);
+
+    runLayout(root);
+
+    // The right margin (5) separates the first item from the main-start edge
+    expect(getLayoutData(item).computedX).toBe(245);
+  });
+
+  test("row-reverse spaces items by their left margins", () => {
+    const root = makeContainer(300, 100, {
+      display: "flex",
+      flexDirection: "row-reverse",
+    });
+    const a = makeFixedChild(50, 40, {
+      display: "flex",
+      margin: [0, 0, 0, 20],
+    });
+    const b = makeFixedChild(50, 40, { display: "flex" });
+    root.addChild(a);
+    root.addChild(b);
+
+    runLayout(root);
+
+    expect(getLayoutData(a).computedX).toBe(250);
+    expect(getLayoutData(b).computedX).toBe(180);
+  });
+
+  test("wrap-reverse keeps cross margins on their physical side", () => {
+    const root = makeContainer(200, 100, {
+      display: "flex",
+      flexDirection: "row",
+      flexWrap: "wrap-reverse",
+      alignContent: "start",
+    });
+    const item = makeFixedChild(50, 10, {
+      display: "flex",
+      margin: [2, 0, 8, 0],
+    });
+    root.addChild(item);
+
+    runLayout(root);
+
+    // The bottom margin (8) separates the item from the cross-start edge
+    expect(getLayoutData(item).computedY).toBe(82);
+  });
+});
+
+// ── Order & alignSelf ──
+
+describe("Flex order and alignSelf", () => {
+  test("order rearranges items; equal values keep document order", () => {
+    const root = makeContainer(300, 100, {
+      display: "flex",
+      flexDirection: "row",
+    });
+    const a = makeFixedChild(50, 40, { display: "flex", order: 2 });
+    const b = makeFixedChild(50, 40, { display: "flex" });
+    const c = makeFixedChild(50, 40, { display: "flex", order: -1 });
+    const d = makeFixedChild(50, 40, { display: "flex" });
+    for (const el of [a, b, c, d]) root.addChild(el);
+
+    runLayout(root);
+
+    expect([c, b, d, a].map((el) => getLayoutData(el).computedX)).toEqual([
+      0, 50, 100, 150,
+    ]);
+  });
+
+  test("alignSelf overrides alignItems per item", () => {
+    const root = makeContainer(300, 100, {
+      display: "flex",
+      flexDirection: "row",
+      alignItems: "start",
+    });
+    const a = makeFixedChild(50, 40, { display: "flex", alignSelf: "end" });
+    const b = makeFixedChild(50, 20, { display: "flex", alignSelf: "center" });
+    const c = makeFixedChild(50, 20, { display: "flex", alignSelf: "stretch" });
+    const d = makeFixedChild(50, 20, { display: "flex" });
+    for (const el of [a, b, c, d]) root.addChild(el);
+
+    runLayout(root);
+
+    expect(getLayoutData(a).computedY).toBe(60);
+    expect(getLayoutData(b).computedY).toBe(40);
+    expect(getLayoutData(c).computedHeight).toBe(100);
+    expect(getLayoutData(d).computedY).toBe(0);
+  });
+});
+
+// ── Justify content: space-evenly ──
+
+describe("Justify content distribution", () => {
+  test("space-evenly puts equal space around every item", () => {
+    const root = makeContainer(300, 100, {
+      display: "flex",
+      flexDirection: "row",
+      justifyContent: "space-evenly",
+    });
+    const a = makeFixedChild(60, 40, { display: "flex" });
+    const b = makeFixedChild(60, 40, { display: "flex" });
+    root.addChild(a);
+    root.addChild(b);
+
+    runLayout(root);
+
+    expect(getLayoutData(a).computedX).toBe(60);
+    expect(getLayoutData(b).computedX).toBe(180);
+  });
+
+  test("space-around and space-evenly center overflowing items", () => {
+    for (const justifyContent of ["space-around", "space-evenly"] as const) {
+      const root = makeContainer(100, 100, {
+        display: "flex",
+        flexDirection: "row",
+        justifyContent,
+      });
+      const a = makeFixedChild(80, 40, { display: "flex", flexShrink: 0 });
+      const b = makeFixedChild(80, 40, { display: "flex", flexShrink: 0 });
+      root.addChild(a);
+      root.addChild(b);
+
+      runLayout(root);
+
+      expect(getLayoutData(a).computedX).toBe(-30);
+      expect(getLayoutData(b).computedX).toBe(50);
+    }
+  });
+});
+
+// ── Align content ──
+
+describe("Align content", () => {
+  function wrapped(style: Partial<IStyle>): [Element, Element] {
+    const root = makeContainer(200, 300, {
+      display: "flex",
+      flexDirection: "row",
+      flexWrap: "wrap",
+      rowGap: 10,
+      ...style,
+    });
+    const a = makeFixedChild(120, 40, { display: "flex" });
+    const b = makeFixedChild(120, 60, { display: "flex" });
+    root.addChild(a);
+    root.addChild(b);
+    runLayout(root);
+    return [a, b];
+  }
+
+  test("lines are as tall as their tallest item", () => {
+    const [a, b] = wrapped({ alignContent: "start" });
+    expect(getLayoutData(a).computedY).toBe(0);
+    expect(getLayoutData(b).computedY).toBe(50);
+  });
+
+  test("center, end and space-between", () => {
+    let [a, b] = wrapped({ alignContent: "center" });
+    // 300 - 40 - 60 - 10 = 190 free
+    expect(getLayoutData(a).computedY).toBe(95);
+    expect(getLayoutData(b).computedY).toBe(145);
+
+    [a, b] = wrapped({ alignContent: "end" });
+    expect(getLayoutData(a).computedY).toBe(190);
+
+    [a, b] = wrapped({ alignContent: "space-between" });
+    expect(getLayoutData(a).computedY).toBe(0);
+    expect(getLayoutData(b).computedY).toBe(240);
+  });
+
+  test("space-around and space-evenly", () => {
+    let [a, b] = wrapped({ alignContent: "space-around" });
+    // 47.5 around each line, 95 between them
+    expect(getLayoutData(a).computedY).toBe(48);
+    expect(getLayoutData(b).computedY).toBe(193);
+
+    [a, b] = wrapped({ alignContent: "space-evenly" });
+    expect(getLayoutData(a).computedY).toBe(63);
+    expect(getLayoutData(b).computedY).toBe(177);
+  });
+
+  test("stretch (default) shares free space between lines", () => {
+    const [a, b] = wrapped({ alignItems: "stretch" });
+    // Each line grows by 95: 135 and 155
+    expect(getLayoutData(a).computedHeight).toBe(135);
+    expect(getLayoutData(b).computedY).toBe(145);
+    expect(getLayoutData(b).computedHeight).toBe(155);
+  });
+});
+
+// ── Row & column gap ──
+
+describe("Row and column gap", () => {
+  test("columnGap separates items and rowGap separates lines", () => {
+    const root = makeContainer(200, 300, {
+      display: "flex",
+      flexDirection: "row",
+      flexWrap: "wrap",
+      alignContent: "start",
+      columnGap: 20,
+      rowGap: 5,
+    });
+    const items = [0, 1, 2].map(() => {
+      const el = makeFixedChild(80, 40, { display: "flex" });
+      root.addChild(el);
+      return el;
+    });
+
+    runLayout(root);
+
+    expect(
+      items.map((el) => {
+        const ld = getLayoutData(el);
+        return [ld.computedX, ld.computedY];
+      }),
+    ).toEqual([
+      [0, 0],
+      [100, 0],
+      [0, 45],
+    ]);
+  });
+
+  test("a column flex uses rowGap on its main axis", () => {
+    const root = makeContainer(100, 300, {
+      display: "flex",
+      flexDirection: "column",
+      gap: 50,
+      rowGap: 5,
+    });
+    const a = makeFixedChild(40, 40, { display: "flex" });
+    const b = makeFixedChild(40, 40, { display: "flex" });
+    root.addChild(a);
+    root.addChild(b);
+
+    runLayout(root);
+
+    expect(getLayoutData(b).computedY).toBe(45);
+  });
+});
+
 // ── Nested Flex ──
 
 describe("Nested flex", () => {
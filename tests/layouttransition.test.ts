@@ -0,0 +1,263 @@
+/**
+ * Layout Transition Tests
+ *
+ * Tests tweening between layout results, per-element overrides, enter
+ * transitions for added children, exit transitions via
+ * removeChildAnimated() and retargeting mid-transition.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { Container } from "../src/core/Container";
+import { Element } from "../src/core/Element";
+import { Ticker } from "../src/core/Ticker";
+import { resolveLayout } from "../src/layout/LayoutResolver";
+import { isExiting } from "../src/layout/LayoutTransition";
+import type { IStyle } from "../src/layout/Style";
+
+// ── Helpers ──
+
+interface Rig {
+  ticker: Ticker;
+  row: Container;
+  /** Advance the ticker by `ms` in 16ms frames */
+  advance(ms: number): void;
+}
+
+function makeRow(style: Partial<IStyle> = {}): Rig {
+  const ticker = new Ticker();
+  const row = new Container();
+  row.scene = { ticker };
+  row.width = 300;
+  row.height = 100;
+  row.updateStyle({ display: "flex", flexDirection: "row", ...style });
+
+  let now = 1000;
+  ticker._tick(now);
+  return {
+    ticker,
+    row,
+    advance(ms: number) {
+      const end = now + ms;
+      while (now < end) {
+        now = Math.min(now + 16, end);
+        ticker._tick(now);
+      }
+    },
+  };
+}
+
+function addItem(
+  row: Container,
+  w: number,
+  style: Partial<IStyle> = {},
+): Element {
+  const el = new Element();
+  el.updateStyle({ display: "flex", width: w, height: 20, ...style });
+  row.addChild(el);
+  return el;
+}
+
+const linear = { duration: 0.1, easing: "linear" as const };
+
+// ── Moving between layouts ──
+
+describe("Layout transitions — moves", () => {
+  test("the first layout is applied at once", () => {
+    const { row } = makeRow({ layoutTransition: linear });
+    const a = addItem(row, 50);
+    const b = addItem(row, 50);
+    resolveLayout(row);
+    expect(a.x).toBe(0);
+    expect(b.x).toBe(50);
+    expect(b.width).toBe(50);
+  });
+
+  test("tweens position and size to the new layout", () => {
+    const { row, advance } = makeRow({ layoutTransition: linear });
+    const a = addItem(row, 50);
+    const b = addItem(row, 50);
+    resolveLayout(row);
+
+    a.updateStyle({ width: 100 });
+    resolveLayout(row);
+    // Nothing has moved yet
+    expect(a.width).toBe(50);
+    expect(b.x).toBe(50);
+
+    advance(48);
+    expect(b.x).toBeGreaterThan(50);
+    expect(b.x).toBeLessThan(100);
+    // Both follow the same timing
+    expect(a.width).toBeCloseTo(b.x);
+
+    advance(100);
+    expect(b.x).toBe(100);
+    expect(a.width).toBe(100);
+  });
+
+  test("without a transition the layout snaps", () => {
+    const { row } = makeRow();
+    const a = addItem(row, 50);
+    const b = addItem(row, 50);
+    resolveLayout(row);
+    a.updateStyle({ width: 80 });
+    resolveLayout(row);
+    expect(b.x).toBe(80);
+  });
+
+  test("a child's own transition overrides its container's", () => {
+    const { row, advance } = makeRow({ layoutTransition: linear });
+    const a = addItem(row, 50);
+    const snappy = addItem(row, 50, { layoutTransition: { duration: 0 } });
+    const slow = addItem(row, 50, {
+      layoutTransition: { duration: 0.4, easing: "linear" },
+    });
+    resolveLayout(row);
+
+    a.updateStyle({ width: 90 });
+    resolveLayout(row);
+    expect(snappy.x).toBe(90);
+
+    advance(200);
+    // The container's transition has finished; the slow one has not
+    expect(a.width).toBe(90);
+    expect(slow.x).toBeGreaterThan(100);
+    expect(slow.x).toBeLessThan(140);
+  });
+
+  test("retargeting mid-transition continues from the current position", () => {
+    const { row, advance } = makeRow({ layoutTransition: linear });
+    const a = addItem(row, 50);
+    const b = addItem(row, 50);
+    resolveLayout(row);
+
+    a.updateStyle({ width: 150 });
+    resolveLayout(row);
+    advance(48);
+    const midway = b.x;
+    expect(midway).toBeGreaterThan(50);
+    expect(midway).toBeLessThan(150);
+
+    a.updateStyle({ width: 10 });
+    resolveLayout(row);
+    expect(b.x).toBe(midway);
+    advance(150);
+    expect(b.x).toBe(10);
+  });
+
+  test("reordering children animates them to their new slots", () => {
+    const { row, advance } = makeRow({ layoutTransition: linear });
+    const a = addItem(row, 50);
+    const b = addItem(row, 50);
+    resolveLayout(row);
+
+    row.addChildAt(b, 0);
+    resolveLayout(row);
+    expect(a.x).toBe(0);
+    advance(150);
+    expect(a.x).toBe(50);
+    expect(b.x).toBe(0);
+  });
+});
+
+// ── Enter and exit ──
+
+describe("Layout transitions — enter and exit", () => {
+  test("children added to a laid-out container enter from their enter state", () => {
+    const { row, advance } = makeRow({
+      layoutTransition: { ...linear, enter: { alpha: 0, offsetY: 20 } },
+    });
+    addItem(row, 50);
+    resolveLayout(row);
+
+    const added = addItem(row, 50);
+    resolveLayout(row);
+    expect(added.x).toBe(50);
+    expect(added.y).toBe(20);
+    expect(added.alpha).toBe(0);
+
+    advance(150);
+    expect(added.y).toBe(0);
+    expect(added.alpha).toBe(1);
+  });
+
+  test("children present at the first layout do not enter", () => {
+    const { row } = makeRow({
+      layoutTransition: { ...linear, enter: { alpha: 0 } },
+    });
+    const a = addItem(row, 50);
+    resolveLayout(row);
+    expect(a.alpha).toBe(1);
+  });
+
+  test("removeChildAnimated plays the exit, then removes the child", async () => {
+    const { row, advance } = makeRow({
+      layoutTransition: { ...linear, exit: { alpha: 0, scale: 0.5 } },
+    });
+    const a = addItem(row, 50);
+    const b = addItem(row, 50);
+    resolveLayout(row);
+
+    let removed = false;
+    const done = row.removeChildAnimated(a).then(() => {
+      removed = true;
+    });
+    expect(isExiting(a)).toBe(true);
+
+    // The sibling reflows into the freed space while a animates out
+    resolveLayout(row);
+    advance(48);
+    expect(a.parent).toBe(row);
+    expect(a.alpha).toBeGreaterThan(0);
+    expect(a.alpha).toBeLessThan(1);
+    expect(b.x).toBeLessThan(50);
+
+    advance(100);
+    await done;
+    expect(removed).toBe(true);
+    expect(a.parent).toBeNull();
+    expect(isExiting(a)).toBe(false);
+    // Visual state is restored for reuse
+    expect(a.alpha).toBe(1);
+    expect(a.scaleX).toBe(1);
+    expect(b.x).toBe(0);
+  });
+
+  test("removing an exiting child again joins the running exit", async () => {
+    const { row, advance } = makeRow({
+      layoutTransition: { ...linear, exit: { alpha: 0 } },
+    });
+    const a = addItem(row, 50);
+    resolveLayout(row);
+
+    const first = row.removeChildAnimated(a);
+    advance(48);
+    const alpha = a.alpha;
+    const second = row.removeChildAnimated(a);
+
+    // The first exit keeps playing
+    advance(16);
+    expect(a.parent).toBe(row);
+    expect(a.alpha).toBeLessThan(alpha);
+
+    advance(100);
+    await Promise.all([first, second]);
+    expect(a.parent).toBeNull();
+    expect(a.alpha).toBe(1);
+  });
+
+  test("removeChildAnimated without an exit state removes at once", async () => {
+    const { row } = makeRow({ layoutTransition: linear });
+    const a = addItem(row, 50);
+    resolveLayout(row);
+    await row.removeChildAnimated(a);
+    expect(a.parent).toBeNull();
+  });
+
+  test("removeChildAnimated ignores elements that are not children", async () => {
+    const { row } = makeRow();
+    const stranger = new Element();
+    await row.removeChildAnimated(stranger);
+    expect(stranger.parent).toBeNull();
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Mask Tests
+ *
+ * Tests Arena2DContext.clipGeometry, Element.mask placement and masked hit
+ * testing, and the View's clip and alpha masks, including the hit buffer.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { Container } from "../src/core/Container";
+import { DirtyFlags } from "../src/core/DirtyFlags";
+import { Element } from "../src/core/Element";
+import { Circle } from "../src/elements/Circle";
+import { Circle as CircleGeometry } from "../src/geometry/Circle";
+import { Arena2DContext } from "../src/rendering/Arena2DContext";
+import {
+  type FakeOffscreenCanvas,
+  RecordingBox,
+  RecordingContext,
+  layerCtx,
+  offscreens,
+  renderScene,
+} from "./helpers/viewMocks";
+
+// ── Helpers ──
+
+/** A circle mask of radius `r` centred in a box of side `2r`. */
+function circleMask(r: number): Circle {
+  const mask = new Circle();
+  mask.radius = r;
+  return mask;
+}
+
+// ── Arena2DContext ──
+
+describe("Arena2DContext.clipGeometry", () => {
+  test("clips to a geometry's outline", () => {
+    const raw = new RecordingContext({ width: 400, height: 300 });
+    const ctx = new Arena2DContext(raw as unknown as CanvasRenderingContext2D);
+    ctx.clipGeometry(new CircleGeometry(50, 40, 20));
+    expect(raw.calls).toEqual([
+      "beginPath()",
+      "moveTo(70,40)",
+      "arc(50,40,20)",
+      "clip(nonzero)",
+    ]);
+  });
+
+  test("inverted clips cut the geometry out of the whole canvas", () => {
+    const raw = new RecordingContext({ width: 400, height: 300 });
+    const ctx = new Arena2DContext(raw as unknown as CanvasRenderingContext2D);
+    ctx.clipGeometry(new CircleGeometry(50, 40, 20), true);
+    expect(raw.calls).toEqual([
+      "beginPath()",
+      "setTransform(1,0,0,1,0,0)",
+      "rect(0,0,400,300)",
+      "moveTo(70,40)",
+      "arc(50,40,20)",
+      "clip(evenodd)",
+    ]);
+  });
+});
+
+// ── Element ──
+
+describe("Element.mask", () => {
+  test("defaults to none and invalidates visuals when assigned", () => {
+    const el = new Element("el");
+    expect(el.mask).toBeNull();
+    expect(el.maskMode).toBe("clip");
+    expect(el.maskInverted).toBe(false);
+    el.update(0);
+    el.mask = new Element();
+    expect(el.dirtyFlags & DirtyFlags.Visual).toBeTruthy();
+    expect(() => {
+      el.mask = el;
+    }).toThrow("cannot mask itself");
+  });
+
+  test("a mask outside the tree moves with the element it masks", () => {
+    const el = new Element();
+    el.x = 100;
+    el.y = 50;
+    const mask = new Element();
+    mask.x = 10;
+    el.mask = mask;
+    el.update(0);
+    expect([mask.worldMatrix[4], mask.worldMatrix[5]]).toEqual([110, 50]);
+
+    el.x = 200;
+    el.update(0);
+    expect(mask.worldMatrix[4]).toBe(210);
+  });
+
+  test("a mask inside the tree keeps its own place", () => {
+    const root = new Container();
+    const el = new Element();
+    el.x = 100;
+    const mask = new Element();
+    mask.x = 10;
+    root.addChild(el);
+    root.addChild(mask);
+    el.mask = mask;
+    root.update(0);
+    expect(mask.worldMatrix[4]).toBe(10);
+  });
+
+  test("hit testing misses where the mask hides", () => {
+    const el = new RecordingBox(0, 0);
+    el.mask = circleMask(50);
+    el.update(0);
+    expect(el.hitTest(50, 50)).toBe(el);
+    expect(el.hitTest(5, 5)).toBeNull();
+
+    el.maskInverted = true;
+    expect(el.hitTest(50, 50)).toBeNull();
+    expect(el.hitTest(5, 5)).toBe(el);
+  });
+
+  test("a container's mask hides its children", () => {
+    const group = new Container();
+    const child = new RecordingBox(0, 0);
+    group.addChild(child);
+    const mask = new Element();
+    mask.width = 50;
+    mask.height = 100;
+    group.mask = mask;
+    group.update(0);
+    expect(group.hitTest(25, 50)).toBe(child);
+    expect(group.hitTest(75, 50)).toBeNull();
+  });
+});
+
+// ── View ──
+
+describe("View — masks", () => {
+  test("clip masks clip the element and its hit area", () => {
+    const el = new RecordingBox(100, 100);
+    el.mask = circleMask(50);
+    const view = renderScene(el);
+
+    // Painted straight to the layer, inside the mask's circle
+    expect(el.painted[0]).toBe(layerCtx);
+    expect(offscreens.length).toBe(0);
+    expect(layerCtx.calls).toContain("arc(50,50,50)");
+    expect(layerCtx.calls).toContain("clip(nonzero)");
+
+    const hitCtx = (view.scene.hitBuffer as unknown as FakeOffscreenCanvas).ctx;
+    expect(hitCtx.calls).toContain("clip(nonzero)");
+  });
+
+  test("alpha masks cut the subtree in an offscreen pass", () => {
+    const el = new RecordingBox(100, 100);
+    const mask = new RecordingBox(0, 0, 50);
+    el.maskMode = "alpha";
+    el.mask = mask;
+    renderScene(el);
+
+    const [content, maskBuffer] = offscreens;
+    expect(el.painted[0]).toBe(content.ctx);
+    // The mask is painted on its own, then applied in one draw
+    expect(mask.painted).toEqual([maskBuffer.ctx]);
+    const cut = content.ctx.draws.find((d) => d.args[0] === maskBuffer);
+    expect(cut?.composite).toBe("destination-in");
+    expect(layerCtx.draws.map((d) => d.args[0])).toEqual([content]);
+  });
+
+  test("inverted alpha masks cut the mask's shape out", () => {
+    const el = new RecordingBox(100, 100);
+    el.maskMode = "alpha";
+    el.maskInverted = true;
+    el.mask = new RecordingBox(0, 0, 50);
+    renderScene(el);
+
+    const [content, maskBuffer] = offscreens;
+    const cut = content.ctx.draws.find((d) => d.args[0] === maskBuffer);
+    expect(cut?.composite).toBe("destination-out");
+  });
+
+  test("filtered elements are clipped after their filters run", () => {
+    const el = new RecordingBox(100, 100);
+    el.filters = [{ type: "blur", radius: 2 }];
+    el.mask = circleMask(50);
+    renderScene(el);
+
+    // The pass paints unclipped; the clip applies to the composite
+    expect(offscreens[0].ctx.calls).not.toContain("clip(nonzero)");
+    const clip = layerCtx.calls.indexOf("clip(nonzero)");
+    expect(clip).toBeGreaterThanOrEqual(0);
+    expect(layerCtx.calls.indexOf("drawImage()")).toBeGreaterThan(clip);
+    expect(layerCtx.draws[0].filter).toBe("blur(2px)");
+  });
+
+  test("interaction skips regions the mask hides", () => {
+    const el = new RecordingBox(100, 100);
+    el.mask = circleMask(50);
+    const view = renderScene(el);
+    expect(view.interaction.hitTest(150, 150)).toBe(el);
+    expect(view.interaction.hitTest(105, 105)).toBeNull();
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Tests for SVG path data parsing and serialization.
+ */
+
+import { describe, expect, it } from "bun:test";
+import { Path } from "../src/geometry/Path";
+import { parsePathData, pathToPathData } from "../src/geometry/pathData";
+import type { PathSegment } from "../src/geometry/types";
+
+function endPoint(seg: PathSegment): { x: number; y: number } {
+  if (seg.type === "closePath") throw new Error("no end point");
+  if (seg.type === "arc") {
+    return {
+      x: seg.cx + seg.radius * Math.cos(seg.endAngle),
+      y: seg.cy + seg.radius * Math.sin(seg.endAngle),
+    };
+  }
+  return { x: seg.x, y: seg.y };
+}
+
+describe("parsePathData", () => {
+  it("should parse absolute move, line and close commands", () => {
+    const p = Path.fromPathData("M10 20 L30 40 Z");
+    expect(p.segments).toEqual([
+      { type: "moveTo", x: 10, y: 20 },
+      { type: "lineTo", x: 30, y: 40 },
+      { type: "closePath" },
+    ]);
+  });
+
+  it("should resolve relative commands against the current point", () => {
+    const p = Path.fromPathData("m10 10 l5 0 h10 v-5 H0 V0");
+    expect(p.segments).toEqual([
+      { type: "moveTo", x: 10, y: 10 },
+      { type: "lineTo", x: 15, y: 10 },
+      { type: "lineTo", x: 25, y: 10 },
+      { type: "lineTo", x: 25, y: 5 },
+      { type: "lineTo", x: 0, y: 5 },
+      { type: "lineTo", x: 0, y: 0 },
+    ]);
+  });
+
+  it("should treat extra move coordinates as implicit lines", () => {
+    const p = Path.fromPathData("M0 0 10 0 10 10 m5 5 1 1");
+    expect(p.segments.map((s) => s.type)).toEqual([
+      "moveTo",
+      "lineTo",
+      "lineTo",
+      "moveTo",
+      "lineTo",
+    ]);
+    expect(p.segments[3]).toEqual({ type: "moveTo", x: 15, y: 15 });
+    expect(p.segments[4]).toEqual({ type: "lineTo", x: 16, y: 16 });
+  });
+
+  it("should continue relative commands from the subpath start after Z", () => {
+    const p = Path.fromPathData("M10 10 h10 v10 z l5 5");
+    expect(p.segments[4]).toEqual({ type: "lineTo", x: 15, y: 15 });
+  });
+
+  it("should handle compact number syntax", () => {
+    const p = Path.fromPathData("M.5.5L-1-2,1e1 2.5e-1");
+    expect(p.segments).toEqual([
+      { type: "moveTo", x: 0.5, y: 0.5 },
+      { type: "lineTo", x: -1, y: -2 },
+      { type: "lineTo", x: 10, y: 0.25 },
+    ]);
+  });
+
+  it("should reflect control points for smooth cubic curves", () => {
+    const p = Path.fromPathData("M0 0 C0 10 10 10 10 0 S20 -10 20 0");
+    expect(p.segments[2]).toEqual({
+      type: "bezierCurveTo",
+      cp1x: 10,
+      cp1y: -10,
+      cp2x: 20,
+      cp2y: -10,
+      x: 20,
+      y: 0,
+    });
+  });
+
+  it("should use the current point as S control point without a preceding curve", () => {
+    const p = Path.fromPathData("M0 0 L5 0 s5 5 10 0");
+    expect(p.segments[2]).toEqual({
+      type: "bezierCurveTo",
+      cp1x: 5,
+      cp1y: 0,
+      cp2x: 10,
+      cp2y: 5,
+      x: 15,
+      y: 0,
+    });
+  });
+
+  it("should reflect control points for smooth quadratic curves", () => {
+    const p = Path.fromPathData("M0 0 Q5 10 10 0 T20 0 t10 0");
+    expect(p.segments[2]).toEqual({
+      type: "quadraticCurveTo",
+      cpx: 15,
+      cpy: -10,
+      x: 20,
+      y: 0,
+    });
+    expect(p.segments[3]).toEqual({
+      type: "quadraticCurveTo",
+      cpx: 25,
+      cpy: 10,
+      x: 30,
+      y: 0,
+    });
+  });
+
+  it("should convert circular arcs to arc segments", () => {
+    const p = Path.fromPathData("M0 0 A10 10 0 0 1 20 0");
+    expect(p.segments.length).toBe(2);
+    const arc = p.segments[1];
+    expect(arc.type).toBe("arc");
+    if (arc.type !== "arc") return;
+    expect(arc.cx).toBeCloseTo(10);
+    expect(arc.cy).toBeCloseTo(0);
+    expect(arc.radius).toBeCloseTo(10);
+    expect(arc.startAngle).toBeCloseTo(Math.PI);
+    expect(arc.endAngle).toBeCloseTo(Math.PI * 2);
+    expect(arc.counterclockwise).toBe(false);
+  });
+
+  it("should honor the sweep flag for counterclockwise arcs", () => {
+    const p = Path.fromPathData("M0 0 A10 10 0 0 0 20 0");
+    const arc = p.segments[1];
+    if (arc.type !== "arc") throw new Error("expected arc");
+    expect(arc.counterclockwise).toBe(true);
+    expect(arc.endAngle - arc.startAngle).toBeCloseTo(-Math.PI);
+  });
+
+  it("should scale up radii that are too small to span the endpoints", () => {
+    const p = Path.fromPathData("M0 0 A1 1 0 0 1 20 0");
+    const arc = p.segments[1];
+    if (arc.type !== "arc") throw new Error("expected arc");
+    expect(arc.radius).toBeCloseTo(10);
+  });
+
+  it("should parse packed arc flags", () => {
+    const p = Path.fromPathData("M0 0a10 10 0 0120 0");
+    const end = endPoint(p.segments[1]);
+    expect(end.x).toBeCloseTo(20);
+    expect(end.y).toBeCloseTo(0);
+  });
+
+  it("should approximate elliptical arcs with cubic curves", () => {
+    const p = Path.fromPathData("M0 0 A20 10 0 1 1 0 20");
+    const curves = p.segments.slice(1);
+    expect(curves.length).toBeGreaterThan(1);
+    expect(curves.every((s) => s.type === "bezierCurveTo")).toBe(true);
+    const last = endPoint(curves[curves.length - 1]);
+    expect(last.x).toBe(0);
+    expect(last.y).toBe(20);
+  });
+
+  it("should treat zero-radius arcs as lines", () => {
+    const p = Path.fromPathData("M0 0 A0 5 0 0 1 10 10");
+    expect(p.segments[1]).toEqual({ type: "lineTo", x: 10, y: 10 });
+  });
+
+  it("should append to an existing path", () => {
+    const p = new Path();
+    p.addMoveTo(0, 0);
+    parsePathData("L1 1", p);
+    expect(p.segments.length).toBe(2);
+  });
+
+  it("should reject malformed data", () => {
+    expect(() => Path.fromPathData("10 10")).toThrow();
+    expect(() => Path.fromPathData("M10")).toThrow();
+    expect(() => Path.fromPathData("M0 0 L")).toThrow();
+    expect(() => Path.fromPathData("M0 0 A5 5 0 2 0 10 0")).toThrow();
+    expect(() => Path.fromPathData("M0 0 X")).toThrow();
+  });
+});
+
+describe("pathToPathData", () => {
+  it("should serialize segments as absolute commands", () => {
+    const p = new Path();
+    p.addMoveTo(0, 0);
+    p.addLineTo(10, 0);
+    p.addQuadraticCurveTo(15, 5, 10, 10);
+    p.addBezierCurveTo(5, 15, 0, 15, 0, 10);
+    p.closePath();
+    expect(p.toPathData()).toBe("M0 0 L10 0 Q15 5 10 10 C5 15 0 15 0 10 Z");
+  });
+
+  it("should write arcs as A commands split at half turns", () => {
+    const p = new Path();
+    p.addArc(0, 0, 10, 0, Math.PI * 2);
+    expect(pathToPathData(p)).toBe(
+      "M10 0 A10 10 0 0 1 -10 0 A10 10 0 0 1 10 0",
+    );
+  });
+
+  it("should connect arcs to the current point like canvas", () => {
+    const p = new Path();
+    p.addMoveTo(0, 0);
+    p.addArc(20, 0, 5, Math.PI, Math.PI / 2, true);
+    expect(p.toPathData()).toBe("M0 0 L15 0 A5 5 0 0 0 20 5");
+  });
+
+  it("should limit decimals to the requested precision", () => {
+    const p = new Path();
+    p.addMoveTo(1 / 3, 2 / 3);
+    expect(p.toPathData(2)).toBe("M0.33 0.67");
+  });
+
+  it("should round-trip through parsePathData", () => {
+    const d =
+      "M10 10 L90 10 Q95 50 90 90 C60 95 40 95 10 90 A10 10 0 0 1 10 70 Z";
+    const first = Path.fromPathData(d);
+    const second = Path.fromPathData(first.toPathData());
+    expect(second.toPathData()).toBe(first.toPathData());
+    expect(second.segments.length).toBe(first.segments.length);
+  });
+});
@@ -0,0 +1,218 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { Text } from "../src/elements/Text";
+import type { IArena2DContext } from "../src/rendering/Arena2DContext";
+import {
+  deserializeElement,
+  serializeElement,
+} from "../src/serialization/SceneSerializer";
+import {
+  type ILayoutTextStyle,
+  type IRichTextLayout,
+  type ITextMeasureContext,
+  clearLayoutCache,
+  computeMaxContentWidth,
+  computeMinContentWidth,
+  computeRichTextLayout,
+  computeTextLayout,
+  setMeasureContext,
+} from "../src/text/TextLayout";
+
+// ── Mock Measure Context ──
+// Each character is half the font size wide; bold adds 1px per character.
+// Ascent and descent are an 80/20 split of the font size.
+
+function createMockMeasureContext(): ITextMeasureContext {
+  let size = 14;
+  let bold = false;
+  return {
+    get font() {
+      return `${bold ? "bold" : "normal"} normal ${size}px sans-serif`;
+    },
+    set font(value: string) {
+      size = Number(/(\d+(?:\.\d+)?)px/.exec(value)?.[1] ?? 14);
+      bold = value.startsWith("bold");
+    },
+    measureText(text: string) {
+      return {
+        width: text.length * (size / 2 + (bold ? 1 : 0)),
+        fontBoundingBoxAscent: size * 0.8,
+        fontBoundingBoxDescent: size * 0.2,
+      };
+    },
+  };
+}
+
+beforeAll(() => {
+  setMeasureContext(createMockMeasureContext());
+  clearLayoutCache();
+});
+
+afterAll(() => {
+  setMeasureContext(null);
+});
+
+function makeStyle(): ILayoutTextStyle {
+  return {
+    fontSize: 14,
+    fontFamily: "sans-serif",
+    fontWeight: "normal",
+    fontStyle: "normal",
+    fill: "#000000",
+    lineHeight: 17,
+  };
+}
+
+// ── Layout ──
+
+describe("computeRichTextLayout", () => {
+  test("splits lines into per-run fragments", () => {
+    const layout = computeRichTextLayout(
+      [
+        { text: "let " },
+        { text: "x", color: "#ff0000", underline: true },
+        { text: " = 1" },
+      ],
+      makeStyle(),
+      Number.POSITIVE_INFINITY,
+    );
+    expect(layout.lines.length).toBe(1);
+    const line = layout.lines[0];
+    expect(line.text).toBe("let x = 1");
+    expect(
+      line.fragments.map((f) => [f.text, f.runIndex, f.start, f.x]),
+    ).toEqual([
+      ["let ", 0, 0, 0],
+      ["x", 1, 4, 28],
+      [" = 1", 2, 5, 35],
+    ]);
+    expect(line.fragments[1].color).toBe("#ff0000");
+    expect(line.fragments[1].underline).toBe(true);
+    expect(line.fragments[0].color).toBe("#000000");
+    expect(line.width).toBe(63);
+  });
+
+  test("wraps with the same greedy word-wrap as plain text", () => {
+    const runs = [
+      { text: "alpha " },
+      { text: "beta", fontStyle: "italic" as const },
+      { text: " gamma delta" },
+    ];
+    const rich = computeRichTextLayout(runs, makeStyle(), 80);
+    const plain = computeTextLayout(
+      runs.map((r) => r.text).join(""),
+      makeStyle(),
+      80,
+    );
+    expect(rich.lines.map((l) => l.text)).toEqual(
+      plain.lines.map((l) => l.text),
+    );
+    expect(rich.lines.map((l) => l.width)).toEqual(
+      plain.lines.map((l) => l.width),
+    );
+  });
+
+  test("measures words that span runs in each run's font", () => {
+    const layout = computeRichTextLayout(
+      [{ text: "ab" }, { text: "cd", fontSize: 28 }, { text: " e" }],
+      makeStyle(),
+      50,
+    );
+    // "abcd" = 2×7 + 2×14 = 42, so " e" (7 + 7) no longer fits on the line
+    expect(layout.lines.map((l) => l.text)).toEqual(["abcd ", "e"]);
+    expect(layout.lines[0].advancements).toEqual([0, 7, 14, 28, 42]);
+    expect(layout.lines[0].fragments.map((f) => f.width)).toEqual([14, 28, 7]);
+  });
+
+  test("aligns baselines and grows the line box for larger runs", () => {
+    const layout = computeRichTextLayout(
+      [{ text: "small " }, { text: "BIG", fontSize: 28 }, { text: "\nnext" }],
+      makeStyle(),
+      Number.POSITIVE_INFINITY,
+    );
+    const [first, second] = layout.lines;
+    // 28px run: line height 28 × 17/14 = 34, ascent 22.4 + half-leading 3
+    expect(first.height).toBeCloseTo(34);
+    expect(first.baseline).toBeCloseTo(25.4);
+    expect(first.fragments.map((f) => f.ascent)).toEqual([14 * 0.8, 28 * 0.8]);
+    // Base-size line keeps the base line height
+    expect(second.y).toBeCloseTo(34);
+    expect(second.height).toBeCloseTo(17);
+    expect(second.baseline).toBeCloseTo(12.7);
+    expect(layout.totalHeight).toBeCloseTo(51);
+  });
+
+  test("empty runs produce a single strut-height line", () => {
+    const layout = computeRichTextLayout([], makeStyle(), 100);
+    expect(layout.lines.length).toBe(1);
+    expect(layout.lines[0].fragments).toEqual([]);
+    expect(layout.totalHeight).toBeCloseTo(17);
+  });
+
+  test("min- and max-content widths accept runs", () => {
+    const runs = [
+      { text: "aa " },
+      { text: "bbb", fontWeight: "bold" as const },
+    ];
+    // "bbb" in bold = 3 × 8
+    expect(computeMinContentWidth(runs, makeStyle())).toBe(24);
+    expect(computeMaxContentWidth(runs, makeStyle())).toBe(21 + 24);
+  });
+});
+
+// ── Text element ──
+
+describe("Text — rich runs", () => {
+  test("runs set the text; plain text replaces the runs", () => {
+    const t = new Text();
+    t.runs = [{ text: "Hello " }, { text: "world", fontWeight: "bold" }];
+    expect(t.text).toBe("Hello world");
+    expect((t.textLayout as IRichTextLayout).lines[0].fragments.length).toBe(2);
+
+    t.text = "Hello world";
+    expect(t.runs).toBeNull();
+    expect("fragments" in t.textLayout.lines[0]).toBe(false);
+  });
+
+  test("paints backgrounds, glyphs on the baseline and decorations", () => {
+    const t = new Text();
+    t.runs = [
+      { text: "a " },
+      { text: "key", background: "#ffff00", strikethrough: true },
+    ];
+    const calls: string[] = [];
+    const ctx = {
+      setTextBaseline: (b: string) => calls.push(`baseline ${b}`),
+      setFont: (f: { fontSize: number }) => calls.push(`font ${f.fontSize}`),
+      setFillStyle: (s: string) => calls.push(`fill ${s}`),
+      fillText: (s: string, x: number, y: number) =>
+        calls.push(`text ${s} ${x} ${y.toFixed(1)}`),
+      fillRect: (x: number, y: number, w: number, h: number) =>
+        calls.push(`rect ${x} ${y.toFixed(1)} ${w} ${h.toFixed(1)}`),
+    };
+    t.paint(ctx as unknown as IArena2DContext);
+    // Default style: 14px, line height 17 → baseline 12.7
+    expect(calls).toEqual([
+      "baseline alphabetic",
+      "fill #ffff00",
+      "rect 14 1.5 21 14.0",
+      "font 14",
+      "fill #000000",
+      "text a  0 12.7",
+      "font 14",
+      "fill #000000",
+      "text key 14 12.7",
+      "rect 14 8.8 21 1.0",
+    ]);
+  });
+
+  test("runs survive serialization", () => {
+    const t = new Text("label");
+    t.runs = [{ text: "id: " }, { text: "42", color: "#0000ff" }];
+    const copy = deserializeElement(serializeElement(t)) as Text;
+    expect(copy.text).toBe("id: 42");
+    expect(copy.runs).toEqual([
+      { text: "id: " },
+      { text: "42", color: "#0000ff" },
+    ]);
+  });
+});
@@ -814,3 +814,331 @@ describe("View — projection hit testing", () => {
     container.remove();
   });
 });
+
+// ── View Touch Gestures ──
+
+describe("View — touch gestures", () => {
+  function createGestureView(
+    options: ConstructorParameters<typeof View>[2] = {},
+  ) {
+    const container = createTestContainer();
+    const scene = new Scene(4000, 3000);
+    const view = new View(container, scene, {
+      projections: [
+        {
+          sourceRect: { x: 0, y: 0, width: 400, height: 300 },
+          destRect: { x: 0, y: 0, width: 400, height: 300 },
+        },
+      ],
+      ...options,
+    });
+    const touch = (
+      type: string,
+      pointerId: number,
+      x: number,
+      y: number,
+      pointerType = "touch",
+    ) => {
+      const event = new window.PointerEvent(type, {
+        pointerId,
+        pointerType,
+        clientX: x,
+        clientY: y,
+        bubbles: true,
+      });
+      container.dispatchEvent(event as unknown as Event);
+    };
+    const cleanup = () => {
+      view.destroy();
+      scene.destroy();
+      container.remove();
+    };
+    return { view, scene, touch, cleanup, proj: view.projections[0] };
+  }
+
+  test("two-finger drag pans the projection under the fingers", () => {
+    const { touch, proj, cleanup } = createGestureView();
+    touch("pointerdown", 1, 100, 100);
+    touch("pointerdown", 2, 200, 100);
+    touch("pointermove", 1, 150, 120);
+    touch("pointermove", 2, 250, 120);
+
+    expect(proj.sourceRect.x).toBeCloseTo(-50);
+    expect(proj.sourceRect.y).toBeCloseTo(-20);
+    expect(proj.sourceRect.width).toBeCloseTo(400);
+    cleanup();
+  });
+
+  test("pinch zooms around the gesture centroid", () => {
+    const { touch, proj, cleanup } = createGestureView();
+    touch("pointerdown", 1, 150, 150);
+    touch("pointerdown", 2, 250, 150);
+    touch("pointermove", 1, 100, 150);
+    touch("pointermove", 2, 300, 150);
+
+    // 2× magnification keeps scene point (200, 150) under the centroid
+    expect(proj.sourceRect.width).toBeCloseTo(200);
+    expect(proj.sourceRect.height).toBeCloseTo(150);
+    expect(proj.sourceRect.x).toBeCloseTo(100);
+    expect(proj.sourceRect.y).toBeCloseTo(75);
+    cleanup();
+  });
+
+  test("rotation is opt-in", () => {
+    const plain = createGestureView();
+    plain.touch("pointerdown", 1, 100, 150);
+    plain.touch("pointerdown", 2, 300, 150);
+    plain.touch("pointermove", 2, 200, 250);
+    expect(plain.proj.rotation).toBeUndefined();
+    plain.cleanup();
+
+    const rotating = createGestureView({ enableTouchRotate: true });
+    rotating.touch("pointerdown", 1, 200, 50);
+    rotating.touch("pointerdown", 2, 200, 250);
+    // Twist a quarter turn around the centroid (200, 150)
+    rotating.touch("pointermove", 1, 300, 150);
+    rotating.touch("pointermove", 2, 100, 150);
+    expect(rotating.proj.rotation).toBeCloseTo(Math.PI / 2);
+    expect(rotating.proj.sourceRect.width).toBeCloseTo(400);
+    rotating.cleanup();
+  });
+
+  test("the view renders and maps points with the rotation", () => {
+    const { view, scene, proj, cleanup } = createGestureView();
+    const el = new Element();
+    el.x = 200;
+    el.y = 100;
+    el.width = 10;
+    el.height = 10;
+    scene.root.addChild(el);
+    view.resize(400, 300);
+    // A quarter turn about the view center (200, 150)
+    proj.rotation = Math.PI / 2;
+
+    const screen = view.sceneToScreen(200, 100);
+    expect(screen.x).toBeCloseTo(250);
+    expect(screen.y).toBeCloseTo(150);
+    const back = view.screenToScene(250, 150);
+    expect(back.x).toBeCloseTo(200);
+    expect(back.y).toBeCloseTo(100);
+
+    const transforms: number[][] = [];
+    const ctx = (view.getLayer("default") as Layer).ctx;
+    ctx.setTransform = ((...m: number[]) => {
+      transforms.push(m);
+    }) as typeof ctx.setTransform;
+    scene.root.update(0);
+    view.render();
+
+    const m = transforms.find((t) => Math.abs(t[4] - 250) < 1e-6);
+    expect(m).toBeDefined();
+    const [a, b, c, d, , f] = m as number[];
+    expect([a, b, c, d, f].map((v) => Math.round(v))).toEqual([
+      0, 1, -1, 0, 150,
+    ]);
+    // Culling covers the rotated view
+    const frustum = view.frustum as NonNullable<typeof view.frustum>;
+    expect(frustum.x).toBeCloseTo(50);
+    expect(frustum.y).toBeCloseTo(-50);
+    expect(frustum.width).toBeCloseTo(300);
+    expect(frustum.height).toBeCloseTo(400);
+    cleanup();
+  });
+
+  test("respects constrainZoom", () => {
+    const { touch, proj, cleanup, scene } = createGestureView({
+      constrainZoom: true,
+    });
+    scene.resize(400, 300);
+    touch("pointerdown", 1, 100, 150);
+    touch("pointerdown", 2, 300, 150);
+    touch("pointermove", 2, 150, 150);
+    expect(proj.sourceRect.width).toBeLessThanOrEqual(400);
+    expect(proj.sourceRect.height).toBeLessThanOrEqual(300);
+    cleanup();
+  });
+
+  test("continues panning with inertia after release", () => {
+    const { view, touch, proj, cleanup } = createGestureView({
+      inertia: true,
+    });
+    touch("pointerdown", 1, 100, 100);
+    touch("pointerdown", 2, 200, 100);
+    touch("pointermove", 1, 110, 100);
+    touch("pointermove", 2, 210, 100);
+    touch("pointerup", 1, 110, 100);
+    touch("pointerup", 2, 210, 100);
+
+    const released = proj.sourceRect.x;
+    view.render();
+    expect(proj.sourceRect.x).toBeLessThan(released);
+    cleanup();
+  });
+
+  test("ignores non-touch pointers", () => {
+    const { touch, proj, cleanup } = createGestureView();
+    touch("pointerdown", 1, 100, 100, "mouse");
+    touch("pointerdown", 2, 200, 100, "pen");
+    touch("pointermove", 2, 300, 100, "pen");
+    expect(proj.sourceRect).toEqual({ x: 0, y: 0, width: 400, height: 300 });
+    cleanup();
+  });
+});
+
+// ── View Camera Animation ──
+
+describe("View — camera animation", () => {
+  function createCameraView() {
+    const container = createTestContainer();
+    const scene = new Scene(4000, 3000);
+    const view = new View(container, scene);
+    view.resize(400, 300);
+    let now = 1000;
+    scene.ticker._tick(now);
+    const advance = (ms: number) => {
+      const end = now + ms;
+      while (now < end) {
+        now = Math.min(now + 20, end);
+        scene.ticker._tick(now);
+      }
+    };
+    const center = () => ({
+      x: (200 - view.panX) / view.zoom,
+      y: (150 - view.panY) / view.zoom,
+    });
+    const cleanup = () => {
+      view.destroy();
+      scene.destroy();
+      container.remove();
+    };
+    return { view, scene, advance, center, cleanup };
+  }
+
+  test("animateTo moves the camera over the duration and emits events", () => {
+    const { view, advance, center, cleanup } = createCameraView();
+    const events: string[] = [];
+    view.on("camerastart", (e) => events.push(e.type));
+    view.on("cameraend", (e) => events.push(`${e.type}:${e.cancelled}`));
+    let progressEvents = 0;
+    view.on("cameraprogress", () => progressEvents++);
+
+    view.animateTo({ x: 500, y: 400, zoom: 2, duration: 0.5 });
+    expect(view.isCameraAnimating).toBe(true);
+    expect(events).toEqual(["camerastart"]);
+
+    advance(240);
+    const mid = center();
+    expect(mid.x).toBeGreaterThan(200);
+    expect(mid.x).toBeLessThan(500);
+    expect(view.zoom).toBeGreaterThan(1);
+    expect(view.zoom).toBeLessThan(2);
+
+    advance(400);
+    expect(view.isCameraAnimating).toBe(false);
+    expect(center().x).toBeCloseTo(500);
+    expect(center().y).toBeCloseTo(400);
+    expect(view.zoom).toBeCloseTo(2);
+    expect(progressEvents).toBeGreaterThan(5);
+    expect(events).toEqual(["camerastart", "cameraend:false"]);
+    cleanup();
+  });
+
+  test("duration 0 jumps immediately", () => {
+    const { view, center, cleanup } = createCameraView();
+    const events: string[] = [];
+    view.on("camerastart", (e) => events.push(e.type));
+    view.on("cameraprogress", (e) => events.push(e.type));
+    view.on("cameraend", (e) => events.push(e.type));
+
+    view.animateTo({ x: 100, y: 50, zoom: 4, duration: 0 });
+    expect(center().x).toBeCloseTo(100);
+    expect(center().y).toBeCloseTo(50);
+    expect(view.zoom).toBe(4);
+    expect(events).toEqual(["camerastart", "cameraprogress", "cameraend"]);
+    cleanup();
+  });
+
+  test("starting a new animation cancels the running one", () => {
+    const { view, advance, center, cleanup } = createCameraView();
+    const ends: boolean[] = [];
+    view.on("cameraend", (e) => ends.push(e.cancelled));
+
+    view.animateTo({ x: 1000, y: 0, duration: 1 });
+    advance(200);
+    view.animateTo({ x: 0, y: 0, duration: 0.2 });
+    expect(ends).toEqual([true]);
+    advance(1200);
+    expect(ends).toEqual([true, false]);
+    expect(center().x).toBeCloseTo(0);
+    cleanup();
+  });
+
+  test("stopCameraAnimation leaves the camera in place", () => {
+    const { view, advance, cleanup } = createCameraView();
+    view.animateTo({ x: 1000, y: 1000, duration: 1 });
+    advance(300);
+    view.stopCameraAnimation();
+    const panX = view.panX;
+    advance(1000);
+    expect(view.panX).toBe(panX);
+    expect(view.isCameraAnimating).toBe(false);
+    cleanup();
+  });
+
+  test("flyTo zooms out along the way and lands on the target", () => {
+    const { view, advance, center, cleanup } = createCameraView();
+    view.zoom = 2;
+    let minZoom = view.zoom;
+    view.on("cameraprogress", () => {
+      minZoom = Math.min(minZoom, view.zoom);
+    });
+
+    view.flyTo(3000, 2000, 2, { duration: 1 });
+    advance(1100);
+    expect(minZoom).toBeLessThan(1);
+    expect(center().x).toBeCloseTo(3000);
+    expect(center().y).toBeCloseTo(2000);
+    expect(view.zoom).toBeCloseTo(2);
+    cleanup();
+  });
+
+  test("flyTo derives its duration from the path length", () => {
+    const { view, advance, cleanup } = createCameraView();
+    view.flyTo(200, 150, 1.01);
+    advance(400);
+    expect(view.isCameraAnimating).toBe(false);
+
+    view.flyTo(3000, 2000, 1);
+    advance(400);
+    expect(view.isCameraAnimating).toBe(true);
+    cleanup();
+  });
+
+  test("fitElement centers and zooms to the element bounds", () => {
+    const { view, scene, center, cleanup } = createCameraView();
+    const el = new Element();
+    el.x = 1000;
+    el.y = 500;
+    el.width = 200;
+    el.height = 100;
+    scene.root.addChild(el);
+    el.update(0);
+
+    view.fitElement(el, 50, { duration: 0 });
+    expect(view.zoom).toBeCloseTo(1.5);
+    expect(center().x).toBeCloseTo(1100);
+    expect(center().y).toBeCloseTo(550);
+    cleanup();
+  });
+
+  test("lookAt with animate uses a camera animation", () => {
+    const { view, advance, cleanup } = createCameraView();
+    view.lookAt(100, 100, { zoom: 2, animate: true });
+    expect(view.isCameraAnimating).toBe(true);
+    advance(600);
+    expect(view.zoom).toBeCloseTo(2);
+    expect(view.panX).toBeCloseTo(0);
+    expect(view.panY).toBeCloseTo(-50);
+    cleanup();
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * ScrollContainer Gesture Tests
+ *
+ * Tests scroll chaining between nested scrollers, rubber-band overscroll
+ * and spring-back, snap points, animated scrolling and scrollIntoView.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { Element } from "../src/core/Element";
+import { ScrollContainer } from "../src/elements/ScrollContainer";
+
+// ── Helpers ──
+
+/** A 100×100 scroller over a content element of the given size. */
+function makeScroller(
+  contentWidth: number,
+  contentHeight: number,
+): { sc: ScrollContainer; content: Element } {
+  const sc = new ScrollContainer();
+  sc.width = 100;
+  sc.height = 100;
+  const content = new Element();
+  content.width = contentWidth;
+  content.height = contentHeight;
+  sc.addChild(content);
+  sc.update(0);
+  return { sc, content };
+}
+
+/** An inner 100×300 scroller placed 500px down an outer 100×1000 one. */
+function makeNested(): { outer: ScrollContainer; inner: ScrollContainer } {
+  const { sc: outer } = makeScroller(100, 1000);
+  const { sc: inner } = makeScroller(100, 300);
+  inner.y = 500;
+  outer.addChild(inner);
+  outer.update(0);
+  return { outer, inner };
+}
+
+function wheel(sc: ScrollContainer, deltaX: number, deltaY: number): void {
+  sc.emit("wheel", { deltaX, deltaY, stopPropagation() {} });
+}
+
+/** Run `seconds` of 60fps frames. */
+function run(sc: ScrollContainer, seconds: number): void {
+  for (let t = 0; t < seconds; t += 1 / 60) sc.update(1 / 60);
+}
+
+// ── Chaining ──
+
+describe("ScrollContainer — scroll chaining", () => {
+  test("hands the rest of a wheel delta to the parent scroller", () => {
+    const { outer, inner } = makeNested();
+    inner.scrollY = 180;
+    wheel(inner, 0, 50);
+    expect(inner.scrollY).toBe(200);
+    expect(outer.scrollY).toBe(30);
+  });
+
+  test("scrollChaining false keeps the delta to itself", () => {
+    const { outer, inner } = makeNested();
+    inner.scrollChaining = false;
+    inner.scrollY = 180;
+    wheel(inner, 0, 50);
+    expect(outer.scrollY).toBe(0);
+  });
+
+  test("passes axes it cannot scroll to the parent", () => {
+    const { outer, inner } = makeNested();
+    // A horizontal carousel inside a vertical pane
+    inner.scrollEnabledY = false;
+    wheel(inner, 0, 40);
+    expect(outer.scrollY).toBe(40);
+  });
+});
+
+// ── Overscroll ──
+
+describe("ScrollContainer — rubber-band overscroll", () => {
+  test("stops hard at the edges by default", () => {
+    const { sc } = makeScroller(100, 1000);
+    wheel(sc, 0, -60);
+    expect(sc.scrollY).toBe(0);
+    expect(sc.overscrollY).toBe(0);
+  });
+
+  test("overscrolls with damping and springs back", () => {
+    const { sc, content } = makeScroller(100, 1000);
+    sc.bounceEnabled = true;
+    sc.overscrollLimit = 80;
+    wheel(sc, 0, -60);
+    expect(sc.scrollY).toBe(0);
+    // 80 * 60 / (60 + 80)
+    expect(sc.overscrollY).toBeCloseTo(-34.29, 1);
+
+    // Content is shifted down by the overscroll
+    content.update(0);
+    expect(content.worldMatrix[5]).toBeCloseTo(34.29, 1);
+
+    run(sc, 1);
+    expect(sc.overscrollY).toBe(0);
+  });
+
+  test("overscroll stays within the limit", () => {
+    const { sc } = makeScroller(100, 1000);
+    sc.bounceEnabled = true;
+    sc.overscrollLimit = 50;
+    wheel(sc, 0, 10_000);
+    wheel(sc, 0, 10_000);
+    expect(sc.scrollY).toBe(900);
+    expect(sc.overscrollY).toBeGreaterThan(49);
+    expect(sc.overscrollY).toBeLessThan(50);
+  });
+
+  test("scrolling back takes up overscroll first", () => {
+    const { sc } = makeScroller(100, 1000);
+    sc.bounceEnabled = true;
+    wheel(sc, 0, -40);
+    wheel(sc, 0, 50);
+    expect(sc.overscrollY).toBe(0);
+    expect(sc.scrollY).toBe(10);
+  });
+
+  test("overscrolls with what no ancestor can take", () => {
+    const { outer, inner } = makeNested();
+    inner.bounceEnabled = true;
+    outer.scrollY = 880;
+    inner.scrollY = 190;
+    wheel(inner, 0, 50);
+    // 10px for the inner scroller, 20px for the outer, 20px left over
+    expect(inner.scrollY).toBe(200);
+    expect(outer.scrollY).toBe(900);
+    expect(outer.overscrollY).toBe(0);
+    expect(inner.overscrollY).toBeCloseTo((80 * 20) / 100);
+  });
+
+  test("inertia runs into the edge and bounces back", () => {
+    const { sc } = makeScroller(1000, 100);
+    sc.bounceEnabled = true;
+    sc.scrollX = 880;
+    (sc as unknown as { _velocityX: number })._velocityX = -30;
+    sc.update(1 / 60);
+    expect(sc.scrollX).toBe(900);
+    expect(sc.overscrollX).toBeGreaterThan(0);
+    run(sc, 2);
+    expect(sc.overscrollX).toBe(0);
+    expect(sc.scrollX).toBe(900);
+  });
+});
+
+// ── Snapping ──
+
+describe("ScrollContainer — scroll snap", () => {
+  test("page snapping settles on the nearest page after a wheel gesture", () => {
+    const { sc } = makeScroller(100, 1000);
+    sc.scrollSnap = { type: "page" };
+    wheel(sc, 0, 130);
+    // Still mid-gesture
+    sc.update(0.05);
+    expect(sc.scrollY).toBe(130);
+    run(sc, 1);
+    expect(sc.scrollY).toBe(100);
+  });
+
+  test("item snapping aligns children with the viewport", () => {
+    const sc = new ScrollContainer();
+    sc.width = 100;
+    sc.height = 100;
+    sc.scrollEnabledY = false;
+    for (let i = 0; i < 5; i++) {
+      const card = new Element();
+      card.x = i * 80;
+      card.width = 60;
+      card.height = 100;
+      sc.addChild(card);
+    }
+    sc.update(0);
+    sc.scrollSnap = { type: "items", align: "center" };
+    wheel(sc, 150, 0);
+    run(sc, 1);
+    // Card 2 spans 160–220; centered means 190 - 50
+    expect(sc.scrollX).toBe(140);
+  });
+
+  test("proximity snapping leaves positions far from a snap point", () => {
+    const { sc } = makeScroller(100, 1000);
+    sc.scrollSnap = { type: "page", strictness: "proximity", proximity: 20 };
+    wheel(sc, 0, 150);
+    run(sc, 1);
+    expect(sc.scrollY).toBe(150);
+    wheel(sc, 0, 40);
+    run(sc, 1);
+    expect(sc.scrollY).toBe(200);
+  });
+
+  test("a fling snaps to the page it would have coasted to", () => {
+    const { sc } = makeScroller(100, 1000);
+    sc.scrollSnap = { type: "page" };
+    sc.scrollY = 20;
+    const drag = sc as unknown as {
+      _velocityY: number;
+      _releaseDrag(): void;
+    };
+    // Dragging upwards fast: inertia would carry on ~200px
+    drag._velocityY = -10;
+    drag._releaseDrag();
+    run(sc, 1);
+    expect(sc.scrollY).toBe(200);
+  });
+});
+
+// ── Programmatic scrolling ──
+
+describe("ScrollContainer — scrollTo and scrollIntoView", () => {
+  test("scrollTo can ease to the position", () => {
+    const { sc } = makeScroller(100, 1000);
+    sc.scrollTo(0, 300, true);
+    sc.update(1 / 60);
+    expect(sc.scrollY).toBeGreaterThan(0);
+    expect(sc.scrollY).toBeLessThan(300);
+    run(sc, 1);
+    expect(sc.scrollY).toBe(300);
+  });
+
+  test("scrollBy accumulates onto a running animation", () => {
+    const { sc } = makeScroller(100, 1000);
+    sc.scrollBy(0, 100, true);
+    sc.scrollBy(0, 100, true);
+    run(sc, 1);
+    expect(sc.scrollY).toBe(200);
+  });
+
+  test("scrolls a descendant into view with the nearest alignment", () => {
+    const { sc } = makeScroller(100, 1000);
+    const target = new Element();
+    target.y = 400;
+    target.width = 50;
+    target.height = 20;
+    sc.addChild(target);
+    sc.scrollIntoView(target);
+    expect(sc.scrollY).toBe(320);
+    // Already in view: nothing moves
+    sc.scrollIntoView(target);
+    expect(sc.scrollY).toBe(320);
+  });
+
+  test("alignment and margin", () => {
+    const { sc } = makeScroller(100, 1000);
+    const target = new Element();
+    target.y = 400;
+    target.height = 20;
+    sc.addChild(target);
+    sc.scrollIntoView(target, { alignY: "start", margin: 10 });
+    expect(sc.scrollY).toBe(390);
+    sc.scrollIntoView(target, { alignY: "center" });
+    expect(sc.scrollY).toBe(360);
+  });
+
+  test("scrolls ancestor scrollers too", () => {
+    const { outer, inner } = makeNested();
+    const target = new Element();
+    target.y = 250;
+    target.height = 20;
+    inner.addChild(target);
+    inner.update(0);
+
+    inner.scrollIntoView(target);
+    expect(inner.scrollY).toBe(170);
+    // The target now sits at 500 + 80 in the outer content
+    expect(outer.scrollY).toBe(500);
+  });
+
+  test("ignores elements outside the container", () => {
+    const { sc } = makeScroller(100, 1000);
+    sc.scrollIntoView(new Element());
+    expect(sc.scrollY).toBe(0);
+  });
+});
@@ -0,0 +1,365 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { Window } from "happy-dom";
+import { Container } from "../src/core/Container";
+import { Element } from "../src/core/Element";
+import { InteractionManager } from "../src/interaction/InteractionManager";
+import { MarqueeOverlay } from "../src/interaction/MarqueeOverlay";
+import {
+  type IMarqueeEvent,
+  type ISelectionChangeEvent,
+  SelectionManager,
+} from "../src/interaction/SelectionManager";
+
+// ── DOM setup ──
+
+let window: Window;
+beforeAll(() => {
+  window = new Window();
+  // @ts-expect-error - happy-dom types don't perfectly match browser types
+  global.window = window as unknown as Window & typeof globalThis;
+  // @ts-expect-error - happy-dom types don't perfectly match browser types
+  global.document = window.document;
+  // @ts-expect-error - happy-dom types don't perfectly match browser types
+  global.HTMLElement = window.HTMLElement;
+});
+
+afterAll(() => {
+  window.close();
+});
+
+// ── Helpers ──
+
+function createSelectionView() {
+  const container = document.createElement("div");
+  document.body.appendChild(container);
+  const root = new Container("root");
+  const viewRef = {
+    container,
+    scene: {
+      root,
+      width: 400,
+      height: 300,
+      _sampleHitBuffer: () => 0,
+      _getElementByUID: () => null,
+    },
+    // Screen space equals scene space in these tests
+    screenToScene: (x: number, y: number) => ({ x, y }),
+  };
+  const interaction = new InteractionManager(viewRef);
+  const view = { ...viewRef, interaction };
+
+  const pointer = (
+    type: string,
+    x: number,
+    y: number,
+    init: { shiftKey?: boolean; ctrlKey?: boolean } = {},
+  ) => {
+    const event = new window.PointerEvent(type, {
+      pointerId: 1,
+      button: 0,
+      clientX: x,
+      clientY: y,
+      bubbles: true,
+      ...init,
+    });
+    container.dispatchEvent(event as unknown as Event);
+  };
+  const click = (x: number, y: number, init = {}) => {
+    pointer("pointerdown", x, y, init);
+    pointer("pointerup", x, y, init);
+  };
+  const drag = (x0: number, y0: number, x1: number, y1: number, init = {}) => {
+    pointer("pointerdown", x0, y0, init);
+    pointer("pointermove", (x0 + x1) / 2, (y0 + y1) / 2, init);
+    pointer("pointermove", x1, y1, init);
+    pointer("pointerup", x1, y1, init);
+  };
+  const cleanup = () => {
+    interaction.destroy();
+    container.remove();
+  };
+  return { view, root, interaction, pointer, click, drag, cleanup };
+}
+
+function box(
+  root: Container,
+  id: string,
+  x: number,
+  y: number,
+  size = 40,
+): Element {
+  const el = new Element(id);
+  el.x = x;
+  el.y = y;
+  el.width = size;
+  el.height = size;
+  el.interactive = true;
+  root.addChild(el);
+  el.update(0);
+  return el;
+}
+
+function ids(selection: SelectionManager): string[] {
+  return [...selection.selected].map((el) => el.id);
+}
+
+// ── Selected-set API ──
+
+describe("SelectionManager — API", () => {
+  test("select, deselect, toggle and clear emit selectionchange", () => {
+    const { view, root, cleanup } = createSelectionView();
+    const a = box(root, "a", 0, 0);
+    const b = box(root, "b", 100, 0);
+    const selection = new SelectionManager(view);
+    const events: ISelectionChangeEvent[] = [];
+    selection.on("selectionchange", (e) => events.push(e));
+
+    selection.select(a);
+    selection.select(b, true);
+    expect(ids(selection)).toEqual(["a", "b"]);
+    expect(selection.isSelected(a)).toBe(true);
+
+    selection.toggle(a);
+    expect(ids(selection)).toEqual(["b"]);
+    selection.deselect([b]);
+    expect(selection.size).toBe(0);
+
+    selection.select([a, b]);
+    selection.clear();
+    expect(events.map((e) => [e.added.length, e.removed.length])).toEqual([
+      [1, 0],
+      [1, 0],
+      [0, 1],
+      [0, 1],
+      [2, 0],
+      [0, 2],
+    ]);
+
+    selection.destroy();
+    cleanup();
+  });
+
+  test("does not emit when the selection is unchanged", () => {
+    const { view, root, cleanup } = createSelectionView();
+    const a = box(root, "a", 0, 0);
+    const selection = new SelectionManager(view);
+    selection.select(a);
+    let count = 0;
+    selection.on("selectionchange", () => count++);
+    selection.select(a);
+    selection.select([a, a]);
+    selection.deselect(box(root, "other", 500, 500));
+    expect(count).toBe(0);
+    selection.destroy();
+    cleanup();
+  });
+});
+
+// ── Click selection ──
+
+describe("SelectionManager — click", () => {
+  test("click selects the element under the pointer", () => {
+    const { view, root, click, cleanup } = createSelectionView();
+    box(root, "a", 0, 0);
+    box(root, "b", 100, 0);
+    const selection = new SelectionManager(view);
+
+    click(10, 10);
+    expect(ids(selection)).toEqual(["a"]);
+    click(110, 10);
+    expect(ids(selection)).toEqual(["b"]);
+    click(300, 300);
+    expect(ids(selection)).toEqual([]);
+
+    selection.destroy();
+    cleanup();
+  });
+
+  test("shift and ctrl toggle elements", () => {
+    const { view, root, click, cleanup } = createSelectionView();
+    box(root, "a", 0, 0);
+    box(root, "b", 100, 0);
+    const selection = new SelectionManager(view);
+
+    click(10, 10);
+    click(110, 10, { shiftKey: true });
+    expect(ids(selection)).toEqual(["a", "b"]);
+    click(10, 10, { ctrlKey: true });
+    expect(ids(selection)).toEqual(["b"]);
+
+    selection.destroy();
+    cleanup();
+  });
+
+  test("clicking a selected element collapses the selection, dragging keeps it", () => {
+    const { view, root, click, pointer, cleanup } = createSelectionView();
+    const a = box(root, "a", 0, 0);
+    const b = box(root, "b", 100, 0);
+    const selection = new SelectionManager(view);
+
+    selection.select([a, b]);
+    pointer("pointerdown", 10, 10);
+    pointer("pointermove", 30, 30);
+    pointer("pointerup", 30, 30);
+    expect(ids(selection)).toEqual(["a", "b"]);
+
+    click(10, 10);
+    expect(ids(selection)).toEqual(["a"]);
+
+    selection.destroy();
+    cleanup();
+  });
+
+  test("filter resolves clicks to a selectable ancestor", () => {
+    const { view, root, click, cleanup } = createSelectionView();
+    const group = new Container("group");
+    group.interactive = true;
+    group.width = 200;
+    group.height = 200;
+    root.addChild(group);
+    group.update(0);
+    box(group, "child", 0, 0);
+    const selection = new SelectionManager(view, {
+      filter: (el) => el.parent === root,
+    });
+
+    click(10, 10);
+    expect(ids(selection)).toEqual(["group"]);
+
+    selection.destroy();
+    cleanup();
+  });
+});
+
+// ── Marquee selection ──
+
+describe("SelectionManager — marquee", () => {
+  test("marquee on empty space selects intersecting elements", () => {
+    const { view, root, drag, cleanup } = createSelectionView();
+    box(root, "a", 0, 0);
+    box(root, "b", 100, 0);
+    box(root, "c", 200, 200);
+    const selection = new SelectionManager(view);
+    const marquee: IMarqueeEvent[] = [];
+    selection.on("marqueestart", (e) => marquee.push(e));
+    selection.on("marqueeend", (e) => marquee.push(e));
+
+    drag(-10, 60, 120, 20);
+    expect(ids(selection).sort()).toEqual(["a", "b"]);
+    expect(marquee.map((e) => e.type)).toEqual(["marqueestart", "marqueeend"]);
+    expect(marquee[1].rect).toEqual({ x: -10, y: 20, width: 130, height: 40 });
+    expect(selection.marquee).toBeNull();
+
+    selection.destroy();
+    cleanup();
+  });
+
+  test("contain mode only selects fully enclosed elements", () => {
+    const { view, root, drag, cleanup } = createSelectionView();
+    box(root, "a", 0, 0);
+    box(root, "b", 100, 0);
+    const selection = new SelectionManager(view, { marqueeMode: "contain" });
+
+    drag(-10, -10, 120, 60);
+    expect(ids(selection)).toEqual(["a"]);
+
+    selection.destroy();
+    cleanup();
+  });
+
+  test("narrow phase uses the rotated quad, not the AABB", () => {
+    const { view, root, cleanup } = createSelectionView();
+    const el = box(root, "diamond", 100, 100, 100);
+    el.pivotX = 50;
+    el.pivotY = 50;
+    el.rotation = Math.PI / 4;
+    el.update(0);
+    const selection = new SelectionManager(view);
+
+    // Inside the diamond's AABB corner but outside the diamond itself
+    // Centered on (100, 100); the AABB spans 29.3..170.7 on both axes
+    expect(selection.queryRect({ x: 32, y: 32, width: 6, height: 6 })).toEqual(
+      [],
+    );
+    expect(
+      selection.queryRect({ x: 90, y: 90, width: 20, height: 20 }),
+    ).toEqual([el]);
+
+    selection.destroy();
+    cleanup();
+  });
+
+  test("modifier marquee adds to the existing selection", () => {
+    const { view, root, drag, cleanup } = createSelectionView();
+    const a = box(root, "a", 0, 0);
+    box(root, "b", 100, 100);
+    const selection = new SelectionManager(view);
+
+    selection.select(a);
+    drag(90, 90, 150, 150, { shiftKey: true });
+    expect(ids(selection)).toEqual(["a", "b"]);
+
+    drag(90, 90, 150, 150);
+    expect(ids(selection)).toEqual(["b"]);
+
+    selection.destroy();
+    cleanup();
+  });
+
+  test("MarqueeOverlay paints the marquee while it is active", () => {
+    const { view, root, pointer, cleanup } = createSelectionView();
+    const selection = new SelectionManager(view);
+    const overlay = new MarqueeOverlay({ zoom: 2 }, selection, {
+      strokeColor: "#123456",
+    });
+    root.addChild(overlay);
+    root.update(0);
+    const polygons: Array<{ points: unknown; style: unknown }> = [];
+    const ctx = {
+      drawPolygon: (points: unknown, style: unknown) =>
+        polygons.push({ points, style }),
+    } as unknown as Parameters<MarqueeOverlay["paint"]>[0];
+
+    overlay.paint(ctx);
+    expect(polygons).toHaveLength(0);
+
+    pointer("pointerdown", 10, 20);
+    pointer("pointermove", 50, 60);
+    overlay.paint(ctx);
+    expect(polygons).toHaveLength(1);
+    expect(polygons[0].points).toEqual([
+      { x: 10, y: 20 },
+      { x: 50, y: 20 },
+      { x: 50, y: 60 },
+      { x: 10, y: 60 },
+    ]);
+    expect(polygons[0].style).toMatchObject({
+      strokeColor: "#123456",
+      lineWidth: 0.5,
+    });
+
+    pointer("pointerup", 50, 60);
+    overlay.paint(ctx);
+    expect(polygons).toHaveLength(1);
+
+    overlay.destroy();
+    selection.destroy();
+    cleanup();
+  });
+
+  test("ignores pointer input when disabled or after destroy", () => {
+    const { view, root, click, cleanup } = createSelectionView();
+    box(root, "a", 0, 0);
+    const selection = new SelectionManager(view);
+
+    selection.enabled = false;
+    click(10, 10);
+    expect(selection.size).toBe(0);
+
+    selection.enabled = true;
+    selection.destroy();
+    click(10, 10);
+    expect(selection.size).toBe(0);
+    cleanup();
+  });
+});
@@ -0,0 +1,541 @@
+import { describe, expect, test } from "bun:test";
+import { TextureAtlas } from "../src/assets/TextureAtlas";
+import { Container } from "../src/core/Container";
+import { Element } from "../src/core/Element";
+import type { ILayer } from "../src/core/Layer";
+import { Scene } from "../src/core/Scene";
+import { AnimatedSprite } from "../src/elements/AnimatedSprite";
+import { GeometryElement } from "../src/elements/GeometryElement";
+import { Image } from "../src/elements/Image";
+import { PathElement } from "../src/elements/PathElement";
+import { PolygonElement } from "../src/elements/PolygonElement";
+import { Rect } from "../src/elements/Rect";
+import { ScrollContainer } from "../src/elements/ScrollContainer";
+import { Text } from "../src/elements/Text";
+import { TextInput } from "../src/elements/TextInput";
+import { TextOnPath } from "../src/elements/TextOnPath";
+import { VirtualGrid } from "../src/elements/VirtualGrid";
+import { VirtualList } from "../src/elements/VirtualList";
+import { Circle as CircleGeometry } from "../src/geometry/Circle";
+import { CompositeGeometry } from "../src/geometry/CompositeGeometry";
+import { Line } from "../src/geometry/Line";
+import { Rectangle } from "../src/geometry/Rectangle";
+import {
+  SCENE_FORMAT_VERSION,
+  deserializeElement,
+  deserializeGeometry,
+  deserializeScene,
+  registerElementType,
+  serializeElement,
+  serializeGeometry,
+  serializeScene,
+} from "../src/serialization";
+
+// ── Mock OffscreenCanvas (hit buffer) ──
+
+if (typeof OffscreenCanvas === "undefined") {
+  // biome-ignore lint/suspicious/noExplicitAny: Mocking globals
+  (global as any).OffscreenCanvas = class {
+    width: number;
+    height: number;
+    constructor(w: number, h: number) {
+      this.width = w;
+      this.height = h;
+    }
+    getContext() {
+      return null;
+    }
+  };
+}
+
+type FakeLayer = ILayer & {
+  elements: Set<unknown>;
+  addElement(el: unknown): void;
+  removeElement(el: unknown): void;
+};
+
+function createFakeLayer(id: string): FakeLayer {
+  const elements = new Set<unknown>();
+  return {
+    id,
+    elements,
+    addElement: (el: unknown) => elements.add(el),
+    removeElement: (el: unknown) => elements.delete(el),
+  } as unknown as FakeLayer;
+}
+
+// ── Geometry ──
+
+describe("Serialization — geometry", () => {
+  test("round-trips a composite with transformed children", () => {
+    const comp = new CompositeGeometry();
+    const rect = new Rectangle(0, 0, 100, 60);
+    const circle = new CircleGeometry(50, -20, 20);
+    circle.rotation = 0.5;
+    comp.addChild(rect);
+    comp.addChild(circle);
+    comp.x = 10;
+
+    const restored = deserializeGeometry(
+      JSON.parse(JSON.stringify(serializeGeometry(comp))),
+    ) as CompositeGeometry;
+
+    expect(restored.type).toBe("composite");
+    expect(restored.x).toBe(10);
+    expect(restored.children.length).toBe(2);
+    const c = restored.children[1] as CircleGeometry;
+    expect(c.radius).toBe(20);
+    expect(c.cy).toBe(-20);
+    expect(c.rotation).toBe(0.5);
+  });
+
+  test("throws for unknown geometry types", () => {
+    expect(() =>
+      deserializeGeometry({
+        type: "blob",
+        transform: undefined as never,
+        params: {},
+      }),
+    ).toThrow();
+  });
+});
+
+// ── Elements ──
+
+describe("Serialization — elements", () => {
+  test("preserves id, transform, style and visual state", () => {
+    const el = new Container("panel");
+    el.x = 10;
+    el.y = 20;
+    el.rotation = 0.25;
+    el.scaleX = 2;
+    el.pivotX = 5;
+    el.width = 300;
+    el.height = 200;
+    el.alpha = 0.5;
+    el.zIndex = 3;
+    el.draggable = true;
+    el.dragConstraint = "x";
+    el.clipContent = true;
+    el.updateStyle({ display: "flex", gap: 8, padding: [1, 2, 3, 4] });
+
+    const copy = deserializeElement(
+      JSON.parse(JSON.stringify(serializeElement(el))),
+    ) as Container;
+
+    expect(copy).toBeInstanceOf(Container);
+    expect(copy.id).toBe("panel");
+    expect(copy.x).toBe(10);
+    expect(copy.y).toBe(20);
+    expect(copy.rotation).toBe(0.25);
+    expect(copy.scaleX).toBe(2);
+    expect(copy.pivotX).toBe(5);
+    expect(copy.width).toBe(300);
+    expect(copy.alpha).toBe(0.5);
+    expect(copy.zIndex).toBe(3);
+    expect(copy.draggable).toBe(true);
+    expect(copy.dragConstraint).toBe("x");
+    expect(copy.clipContent).toBe(true);
+    expect(copy.style.display).toBe("flex");
+    expect(copy.style.gap).toBe(8);
+    expect(copy.style.padding).toEqual([1, 2, 3, 4]);
+  });
+
+  test("preserves fill, stroke and rounded corners on Rect", () => {
+    const rect = new Rect("r");
+    rect.width = 40;
+    rect.height = 30;
+    rect.fill = "#ff0000";
+    rect.stroke = undefined;
+    rect.lineWidth = 3;
+    rect.radius = [1, 2, 3, 4];
+
+    const copy = deserializeElement(serializeElement(rect)) as Rect;
+
+    expect(copy).toBeInstanceOf(Rect);
+    expect(copy.fill).toBe("#ff0000");
+    expect(copy.stroke).toBeUndefined();
+    expect(copy.lineWidth).toBe(3);
+    expect(copy.radius).toEqual([1, 2, 3, 4]);
+    expect(copy.geometry.width).toBe(40);
+  });
+
+  test("preserves text and text style", () => {
+    const text = new Text("label");
+    text.text = "Hello";
+    text.updateTextStyle({
+      fontSize: 20,
+      fontWeight: "bold",
+      color: "#123456",
+    });
+
+    const copy = deserializeElement(serializeElement(text)) as Text;
+
+    expect(copy).toBeInstanceOf(Text);
+    expect(copy.text).toBe("Hello");
+    expect(copy.textStyle.fontSize).toBe(20);
+    expect(copy.textStyle.fontWeight).toBe("bold");
+    expect(copy.textStyle.color).toBe("#123456");
+    // Style object must not be shared with the original
+    expect(copy.textStyle).not.toBe(text.textStyle);
+  });
+
+  test("TextInput keeps an unlimited maxLength through JSON", () => {
+    const input = new TextInput("name");
+    input.placeholder = "Your name";
+    input.multiline = true;
+
+    const json = JSON.parse(JSON.stringify(serializeElement(input)));
+    const copy = deserializeElement(json) as TextInput;
+
+    expect(copy).toBeInstanceOf(TextInput);
+    expect(copy.placeholder).toBe("Your name");
+    expect(copy.multiline).toBe(true);
+    expect(copy.maxLength).toBe(Number.POSITIVE_INFINITY);
+    copy.destroy();
+    input.destroy();
+  });
+
+  test("preserves TextOnPath geometry, text and placement", () => {
+    const label = new TextOnPath(new Line(0, 0, 200, 0), "Curved", "label");
+    label.updateTextStyle({ fontSize: 18, color: "#abcdef" });
+    label.startOffset = 12;
+    label.align = "center";
+    label.side = "below";
+    label.letterSpacing = 2;
+
+    const json = JSON.parse(JSON.stringify(serializeElement(label)));
+    const copy = deserializeElement(json) as TextOnPath;
+
+    expect(copy).toBeInstanceOf(TextOnPath);
+    expect(copy.geometry?.type).toBe("line");
+    expect((copy.geometry as Line).x2).toBe(200);
+    expect(copy.text).toBe("Curved");
+    expect(copy.textStyle.fontSize).toBe(18);
+    expect(copy.textStyle.color).toBe("#abcdef");
+    expect(copy.startOffset).toBe(12);
+    expect(copy.align).toBe("center");
+    expect(copy.side).toBe("below");
+    expect(copy.letterSpacing).toBe(2);
+  });
+
+  test("preserves geometry of path, polygon and generic geometry elements", () => {
+    const path = new PathElement("p");
+    path.geometry.addMoveTo(0, 0);
+    path.geometry.addLineTo(10, 0);
+    path.geometry.addBezierCurveTo(15, 5, 15, 15, 10, 20);
+    path.geometry.closePath();
+
+    const poly = new PolygonElement(
+      [
+        { x: 0, y: 0 },
+        { x: 5, y: 10 },
+        { x: 10, y: 0 },
+      ],
+      false,
+      "poly",
+    );
+
+    const generic = new GeometryElement(new CircleGeometry(5, 5, 7), "g");
+
+    const p2 = deserializeElement(serializeElement(path)) as PathElement;
+    const poly2 = deserializeElement(serializeElement(poly)) as PolygonElement;
+    const g2 = deserializeElement(serializeElement(generic)) as GeometryElement;
+
+    expect(p2.geometry.segments).toEqual(path.geometry.segments);
+    expect(poly2.points).toEqual(poly.points);
+    expect(poly2.closed).toBe(false);
+    expect(g2.geometry.type).toBe("circle");
+    expect((g2.geometry as CircleGeometry).radius).toBe(7);
+  });
+
+  test("restores scroll position after children are attached", () => {
+    const sc = new ScrollContainer("scroller");
+    sc.width = 100;
+    sc.height = 100;
+    const content = new Element("content");
+    content.width = 100;
+    content.height = 500;
+    sc.addChild(content);
+    sc.update(0);
+    sc.scrollTo(0, 150);
+
+    const copy = deserializeElement(serializeElement(sc)) as ScrollContainer;
+
+    expect(copy).toBeInstanceOf(ScrollContainer);
+    expect(copy.children.length).toBe(1);
+    expect(copy.children[0].id).toBe("content");
+    expect(copy.scrollY).toBe(150);
+    copy.destroy();
+    sc.destroy();
+  });
+
+  test("atlas frames and sprite playback survive a round trip", () => {
+    const sheet = { src: "hero.png" } as unknown as CanvasImageSource;
+    const atlas = new TextureAtlas(
+      {
+        frames: {
+          "run_1.png": { frame: { x: 0, y: 0, w: 32, h: 32 } },
+          "run_2.png": { frame: { x: 32, y: 0, w: 32, h: 32 } },
+          "run_3.png": { frame: { x: 64, y: 0, w: 32, h: 32 } },
+        },
+        animations: { run: ["run_1.png", "run_2.png", "run_3.png"] },
+        meta: { image: "hero.png" },
+      },
+      sheet,
+    );
+    const icon = new Image("icon");
+    icon.setFrame(atlas, "run_2.png");
+    const hero = new AnimatedSprite(atlas, "hero");
+    hero.fps = 8;
+    hero.pingPong = true;
+    hero.play("run");
+    hero.gotoAndPlay(2);
+
+    const options = {
+      resolveImage: () => sheet,
+      resolveAtlas: (path: string) => (path === "hero.png" ? atlas : null),
+    };
+    const icon2 = deserializeElement(
+      JSON.parse(JSON.stringify(serializeElement(icon))),
+      options,
+    ) as Image;
+    const heroData = JSON.parse(JSON.stringify(serializeElement(hero)));
+    const hero2 = deserializeElement(heroData, options) as AnimatedSprite;
+
+    expect(icon2.frame?.region).toEqual({ x: 32, y: 0, width: 32, height: 32 });
+    expect(hero2).toBeInstanceOf(AnimatedSprite);
+    expect(hero2.atlas).toBe(atlas);
+    expect(hero2.sequence).toBe("run");
+    expect(hero2.currentFrame).toBe(2);
+    expect(hero2.playing).toBe(true);
+    expect(hero2.fps).toBe(8);
+    expect(hero2.pingPong).toBe(true);
+
+    // Without the atlas the sprite still shows its frame
+    const still = deserializeElement(heroData, {
+      resolveImage: () => sheet,
+    }) as AnimatedSprite;
+    expect(still.frame?.name).toBe("run_3.png");
+    expect(still.playing).toBe(false);
+  });
+
+  test("virtual containers keep their configuration but not their item elements", () => {
+    const list = new VirtualList("rows");
+    list.width = 200;
+    list.height = 100;
+    list.itemHeight = 20;
+    list.gap = 4;
+    list.overscan = 2;
+    list.createItem = () => new Element();
+    list.itemCount = 1000;
+    list.update(0);
+    list.scrollTo(0, 480);
+    list.update(0);
+    expect(list.children.length).toBeGreaterThan(0);
+
+    const grid = new VirtualGrid("cells");
+    grid.width = 300;
+    grid.height = 200;
+    grid.cellWidth = 90;
+    grid.cellHeight = 60;
+    grid.columns = 3;
+    grid.createItem = () => new Element();
+    grid.itemCount = 50;
+    grid.update(0);
+
+    const listData = JSON.parse(JSON.stringify(serializeElement(list)));
+    const gridData = JSON.parse(JSON.stringify(serializeElement(grid)));
+    expect(listData.type).toBe("virtual-list");
+    expect(listData.children).toBeUndefined();
+    expect(gridData.type).toBe("virtual-grid");
+    expect(gridData.children).toBeUndefined();
+
+    const list2 = deserializeElement(listData) as VirtualList;
+    expect(list2).toBeInstanceOf(VirtualList);
+    expect(list2.itemCount).toBe(1000);
+    expect(list2.itemHeight).toBe(20);
+    expect(list2.gap).toBe(4);
+    expect(list2.overscan).toBe(2);
+    expect(list2.scrollY).toBe(480);
+    expect(list2.children.length).toBe(0);
+
+    // Rows are created once the item factory is set again
+    list2.createItem = () => new Element();
+    list2.update(0);
+    expect(list2.boundRange).toEqual(list.boundRange);
+
+    const grid2 = deserializeElement(gridData) as VirtualGrid;
+    expect(grid2).toBeInstanceOf(VirtualGrid);
+    expect(grid2.itemCount).toBe(50);
+    expect(grid2.cellWidth).toBe(90);
+    expect(grid2.cellHeight).toBe(60);
+    expect(grid2.columns).toBe(3);
+
+    for (const el of [list, list2, grid, grid2]) el.destroy();
+  });
+
+  test("unregistered subclasses fall back to their nearest registered ancestor", () => {
+    class Badge extends Rect {}
+    const data = serializeElement(new Badge("b"));
+    expect(data.type).toBe("rect");
+  });
+
+  test("custom adapters round-trip extra properties", () => {
+    class Token extends Element {
+      value = 0;
+    }
+    registerElementType<Token>({
+      type: "test-token",
+      ctor: Token,
+      create: (d) => new Token(d.id),
+      write: (el) => ({ value: el.value }),
+      read: (el, p) => {
+        el.value = p.value as number;
+      },
+    });
+
+    const t = new Token("t");
+    t.value = 42;
+    const data = serializeElement(t);
+    expect(data.type).toBe("test-token");
+
+    const copy = deserializeElement(data) as Token;
+    expect(copy).toBeInstanceOf(Token);
+    expect(copy.value).toBe(42);
+  });
+
+  test("throws for unknown element types", () => {
+    const data = serializeElement(new Element("x"));
+    data.type = "nope";
+    expect(() => deserializeElement(data)).toThrow();
+  });
+});
+
+// ── Scene ──
+
+describe("Serialization — scene", () => {
+  test("writes a versioned document", () => {
+    const scene = new Scene(640, 480);
+    const doc = serializeScene(scene);
+    expect(doc.format).toBe("arena-2d/scene");
+    expect(doc.version).toBe(SCENE_FORMAT_VERSION);
+    expect(doc.width).toBe(640);
+    expect(doc.height).toBe(480);
+    scene.destroy();
+  });
+
+  test("rebuilds the tree with the same ids", () => {
+    const source = new Scene(800, 600);
+    const group = new Container("group");
+    const a = new Rect("a");
+    const b = new Text("b");
+    group.addChild(a);
+    group.addChild(b);
+    source.root.addChild(group);
+
+    const doc = JSON.parse(JSON.stringify(serializeScene(source)));
+
+    const target = new Scene(100, 100);
+    target.root.addChild(new Element("stale"));
+    deserializeScene(doc, target);
+
+    expect(target.width).toBe(800);
+    expect(target.height).toBe(600);
+    expect(target.getElementById("stale")).toBeNull();
+    expect(target.getElementById("group")).toBeInstanceOf(Container);
+    expect(target.getElementById("a")).toBeInstanceOf(Rect);
+    expect(target.getElementById("b")).toBeInstanceOf(Text);
+    expect(target.getElementById("a")?.parent?.id).toBe("group");
+
+    source.destroy();
+    target.destroy();
+  });
+
+  test("restores explicit layer assignments and inherits the rest", () => {
+    const base = createFakeLayer("default");
+    const overlay = createFakeLayer("overlay");
+
+    const source = new Scene(800, 600);
+    source.root.layer = base;
+    const child = new Container("child");
+    const onOverlay = new Element("on-overlay");
+    onOverlay.layer = overlay;
+    overlay.addElement(onOverlay);
+    child.addChild(onOverlay);
+    source.root.addChild(child);
+
+    const doc = serializeScene(source);
+    expect(doc.root.children?.[0].layer).toBeUndefined();
+    expect(doc.root.children?.[0].children?.[0].layer).toBe("overlay");
+
+    const targetBase = createFakeLayer("default");
+    const targetOverlay = createFakeLayer("overlay");
+    const target = new Scene(800, 600);
+    target.root.layer = targetBase;
+    deserializeScene(doc, target, {
+      resolveLayer: (id) => (id === "overlay" ? targetOverlay : null),
+    });
+
+    const restored = target.getElementById("on-overlay");
+    expect(restored?.layer).toBe(targetOverlay);
+    expect(targetOverlay.elements.has(restored)).toBe(true);
+    expect(target.getElementById("child")?.layer).toBe(targetBase);
+
+    source.destroy();
+    target.destroy();
+  });
+
+  test("restores masks by id in the tree and inline outside it", () => {
+    const scene = new Scene(400, 300);
+    const masked = new Rect("masked");
+    const shape = new Rect("shape");
+    masked.mask = shape;
+    masked.maskMode = "alpha";
+    masked.maskInverted = true;
+    const lens = new Rect("lens");
+    lens.width = 30;
+    const framed = new Rect("framed");
+    framed.mask = lens;
+    // The masked element comes before its mask in document order
+    scene.root.addChild(masked);
+    scene.root.addChild(shape);
+    scene.root.addChild(framed);
+
+    const doc = JSON.parse(JSON.stringify(serializeScene(scene)));
+    expect(doc.root.children[0].visual.mask).toEqual({
+      mode: "alpha",
+      inverted: true,
+      ref: "shape",
+    });
+    expect(doc.root.children[2].visual.mask.element.id).toBe("lens");
+
+    const target = new Scene(400, 300);
+    deserializeScene(doc, target);
+    const masked2 = target.getElementById("masked") as Rect;
+    const framed2 = target.getElementById("framed") as Rect;
+
+    expect(masked2.mask).toBe(target.getElementById("shape"));
+    expect(masked2.maskMode).toBe("alpha");
+    expect(masked2.maskInverted).toBe(true);
+    expect(framed2.mask?.id).toBe("lens");
+    expect(framed2.mask?.parent).toBeNull();
+    expect((framed2.mask as Rect).width).toBe(30);
+    expect(framed2.maskMode).toBe("clip");
+
+    scene.destroy();
+    target.destroy();
+  });
+
+  test("rejects foreign documents and future versions", () => {
+    const scene = new Scene(10, 10);
+    const doc = serializeScene(scene);
+    expect(() =>
+      deserializeScene({ ...doc, version: SCENE_FORMAT_VERSION + 1 }, scene),
+    ).toThrow();
+    expect(() =>
+      deserializeScene({ ...doc, format: "other" } as never, scene),
+    ).toThrow();
+    scene.destroy();
+  });
+});
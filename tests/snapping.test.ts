@@ -0,0 +1,231 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { Window } from "happy-dom";
+import { Container } from "../src/core/Container";
+import { Element } from "../src/core/Element";
+import type { IDragEvent } from "../src/interaction/DragManager";
+import { InteractionManager } from "../src/interaction/InteractionManager";
+import { Snapper } from "../src/interaction/Snapper";
+import { Transformer } from "../src/interaction/Transformer";
+
+// ── DOM setup ──
+
+let window: Window;
+beforeAll(() => {
+  window = new Window();
+  // @ts-expect-error - happy-dom types don't perfectly match browser types
+  global.window = window as unknown as Window & typeof globalThis;
+  // @ts-expect-error - happy-dom types don't perfectly match browser types
+  global.document = window.document;
+  // @ts-expect-error - happy-dom types don't perfectly match browser types
+  global.HTMLElement = window.HTMLElement;
+});
+
+afterAll(() => {
+  window.close();
+});
+
+// ── Helpers ──
+
+function createSnapView(zoom = 1) {
+  const container = document.createElement("div");
+  document.body.appendChild(container);
+  const root = new Container("root");
+  const viewRef = {
+    container,
+    scene: {
+      root,
+      width: 800,
+      height: 600,
+      _sampleHitBuffer: () => 0,
+      _getElementByUID: () => null,
+    },
+    // Screen space equals scene space in these tests
+    screenToScene: (x: number, y: number) => ({ x, y }),
+  };
+  const interaction = new InteractionManager(viewRef);
+  const view = { ...viewRef, interaction, zoom };
+
+  const pointer = (type: string, x: number, y: number) => {
+    const event = new window.PointerEvent(type, {
+      pointerId: 1,
+      button: 0,
+      clientX: x,
+      clientY: y,
+      bubbles: true,
+      cancelable: true,
+    });
+    container.dispatchEvent(event as unknown as Event);
+  };
+  const cleanup = () => {
+    interaction.destroy();
+    container.remove();
+  };
+  return { view, root, interaction, pointer, cleanup };
+}
+
+function box(
+  parent: Container,
+  id: string,
+  x: number,
+  y: number,
+  w = 40,
+  h = 40,
+): Element {
+  const el = new Element(id);
+  el.x = x;
+  el.y = y;
+  el.width = w;
+  el.height = h;
+  parent.addChild(el);
+  el.update(0);
+  return el;
+}
+
+// ── Snapper ──
+
+describe("Snapper", () => {
+  test("snaps a rect to the nearest grid line within the threshold", () => {
+    const { view, cleanup } = createSnapView();
+    const snapper = new Snapper(view, { grid: 10, elements: false });
+
+    const result = snapper.snapRect({ x: 23, y: 47, width: 20, height: 20 });
+    expect(result.dx).toBeCloseTo(-3);
+    expect(result.dy).toBeCloseTo(3);
+    expect(result.snappedX && result.snappedY).toBe(true);
+
+    const far = new Snapper(view, { grid: 100, elements: false });
+    expect(far.snapRect({ x: 50, y: 50, width: 1, height: 1 }).snappedX).toBe(
+      false,
+    );
+    cleanup();
+  });
+
+  test("threshold is in screen pixels and respects zoom", () => {
+    const zoomedIn = createSnapView(4);
+    const guides = [{ axis: "x" as const, value: 100 }];
+    const a = new Snapper(zoomedIn.view, { guides, elements: false });
+    // 6 screen px at zoom 4 is 1.5 scene units
+    expect(a.snapPoint(102, 0).snappedX).toBe(false);
+    expect(a.snapPoint(101, 0).dx).toBeCloseTo(-1);
+    zoomedIn.cleanup();
+
+    const zoomedOut = createSnapView(0.25);
+    const b = new Snapper(zoomedOut.view, { guides, elements: false });
+    expect(b.snapPoint(120, 0).dx).toBeCloseTo(-20);
+    zoomedOut.cleanup();
+  });
+
+  test("snaps to other elements' edges and centers and reports guides", () => {
+    const { view, root, cleanup } = createSnapView();
+    box(root, "other", 200, 100, 100, 50);
+    const moving = box(root, "moving", 0, 0, 40, 40);
+    const snapper = new Snapper(view);
+
+    // Center of the moving rect (x=248) is close to the other's center (250)
+    const result = snapper.snapRect({ x: 228, y: 300, width: 40, height: 40 }, [
+      moving,
+    ]);
+    expect(result.dx).toBeCloseTo(2);
+    expect(result.snappedY).toBe(false);
+    expect(snapper.activeGuides).toEqual([
+      {
+        axis: "x",
+        value: 250,
+        start: 100,
+        end: 340,
+        source: "element",
+      },
+    ]);
+    cleanup();
+  });
+
+  test("excluded elements and their descendants are not targets", () => {
+    const { view, root, cleanup } = createSnapView();
+    const group = new Container("group");
+    root.addChild(group);
+    box(group, "child", 102, 0);
+    const snapper = new Snapper(view, { elements: true });
+
+    expect(snapper.snapPoint(100, 300, [group]).snappedX).toBe(false);
+    expect(snapper.snapPoint(100, 300).dx).toBeCloseTo(2);
+    cleanup();
+  });
+});
+
+// ── DragManager integration ──
+
+describe("Snapper — drag", () => {
+  test("dragged elements snap without accumulating offsets", () => {
+    const { view, root, interaction, pointer, cleanup } = createSnapView();
+    box(root, "target", 200, 0, 50, 50);
+    const dragged = box(root, "dragged", 0, 100, 50, 50);
+    dragged.draggable = true;
+    const snapper = new Snapper(view);
+    interaction.dragManager.snapper = snapper;
+    const moves: IDragEvent[] = [];
+    interaction.dragManager.on("dragmove", (e) => moves.push(e));
+
+    interaction.updateSpatialHash();
+    pointer("pointerdown", 10, 110);
+    pointer("pointermove", 100, 110);
+    // Raw left edge at 197 snaps to the target's left edge at 200; the
+    // centers and right edges line up too
+    pointer("pointermove", 207, 110);
+    expect(dragged.x).toBe(200);
+    expect(snapper.activeGuides.map((g) => g.value)).toEqual([200, 225, 250]);
+
+    // Moving away releases the snap; the position follows the pointer again
+    pointer("pointermove", 140, 110);
+    expect(dragged.x).toBe(130);
+    expect(snapper.activeGuides).toEqual([]);
+
+    pointer("pointerup", 140, 110);
+    expect(snapper.activeGuides).toEqual([]);
+    // Reported deltas add up to the applied movement
+    expect(moves.reduce((sum, e) => sum + e.dx, 0)).toBe(130);
+    cleanup();
+  });
+
+  test("dragConstraint limits snapping to the free axis", () => {
+    const { view, root, interaction, pointer, cleanup } = createSnapView();
+    const dragged = box(root, "dragged", 0, 0, 50, 50);
+    dragged.draggable = true;
+    dragged.dragConstraint = "x";
+    interaction.dragManager.snapper = new Snapper(view, {
+      grid: 25,
+      elements: false,
+    });
+
+    interaction.updateSpatialHash();
+    pointer("pointerdown", 10, 10);
+    pointer("pointermove", 33, 21);
+    pointer("pointerup", 33, 21);
+    expect(dragged.x).toBe(25);
+    expect(dragged.y).toBe(0);
+    cleanup();
+  });
+});
+
+// ── Transformer integration ──
+
+describe("Snapper — resize", () => {
+  test("resize handles snap to element edges", () => {
+    const { view, root, pointer, cleanup } = createSnapView();
+    box(root, "wall", 200, 0, 20, 200);
+    const el = box(root, "el", 0, 0, 100, 100);
+    const snapper = new Snapper(view);
+    const transformer = new Transformer(view);
+    transformer.snapper = snapper;
+    transformer.setTargets([el]);
+
+    pointer("pointerdown", 100, 50);
+    pointer("pointermove", 196, 50);
+    expect(el.width).toBeCloseTo(200);
+    expect(snapper.activeGuides.map((g) => g.value)).toEqual([200]);
+    pointer("pointerup", 196, 50);
+    expect(snapper.activeGuides).toEqual([]);
+
+    transformer.destroy();
+    cleanup();
+  });
+});
@@ -0,0 +1,395 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { Container } from "../src/core/Container";
+import { Element } from "../src/core/Element";
+import type { ILayer } from "../src/core/Layer";
+import { Scene } from "../src/core/Scene";
+import type { IView } from "../src/core/View";
+import { Circle } from "../src/elements/Circle";
+import { PathElement } from "../src/elements/PathElement";
+import { Rect } from "../src/elements/Rect";
+import { ScrollContainer } from "../src/elements/ScrollContainer";
+import { Text } from "../src/elements/Text";
+import type { IArena2DContext } from "../src/rendering/Arena2DContext";
+import {
+  exportSceneToSVG,
+  exportViewToSVG,
+} from "../src/rendering/SVGExporter";
+import {
+  SVGPathBuilder,
+  SVGRenderingContext,
+} from "../src/rendering/SVGRenderingContext";
+import { setMeasureContext } from "../src/text/TextLayout";
+
+// ── Mocks ──
+
+if (typeof OffscreenCanvas === "undefined") {
+  // biome-ignore lint/suspicious/noExplicitAny: Mocking globals
+  (global as any).OffscreenCanvas = class {
+    getContext() {
+      return null;
+    }
+  };
+}
+
+setMeasureContext({
+  font: "",
+  measureText: (text: string) => ({ width: text.length * 8 }),
+});
+
+afterAll(() => {
+  setMeasureContext(null);
+});
+
+function createScene(w = 400, h = 300): Scene {
+  return new Scene(w, h);
+}
+
+function fakeLayer(id: string, zIndex: number): ILayer {
+  return {
+    id,
+    zIndex,
+    opacity: 1,
+    blendMode: "normal",
+    addElement() {},
+    removeElement() {},
+  } as unknown as ILayer;
+}
+
+function fakeView(
+  scene: Scene,
+  props: {
+    width: number;
+    height: number;
+    zoom?: number;
+    panX?: number;
+    panY?: number;
+  },
+): IView {
+  return {
+    scene,
+    zoom: 1,
+    panX: 0,
+    panY: 0,
+    ...props,
+  } as unknown as IView;
+}
+
+// ── SVGPathBuilder ──
+
+describe("SVGPathBuilder", () => {
+  test("records lines and curves as path data", () => {
+    const p = new SVGPathBuilder();
+    p.moveTo(0, 0);
+    p.lineTo(10, 0);
+    p.quadraticCurveTo(15, 5, 10, 10);
+    p.bezierCurveTo(5, 15, 0, 15, 0, 10);
+    p.closePath();
+    expect(p.toString()).toBe("M0 0 L10 0 Q15 5 10 10 C5 15 0 15 0 10 Z");
+  });
+
+  test("splits a full circle into quarter arcs", () => {
+    const p = new SVGPathBuilder();
+    p.arc(0, 0, 10, 0, Math.PI * 2);
+    const d = p.toString();
+    expect(d.startsWith("M10 0")).toBe(true);
+    expect(d.match(/A/g)?.length).toBe(4);
+    expect(d).toContain("A10 10 0 0 1 0 10");
+  });
+
+  test("uses the negative sweep flag for counterclockwise arcs", () => {
+    const p = new SVGPathBuilder();
+    p.arc(0, 0, 10, 0, -Math.PI / 2, true);
+    expect(p.toString()).toBe("M10 0 A10 10 0 0 0 0 -10");
+  });
+
+  test("connects an arc to the current point with a line", () => {
+    const p = new SVGPathBuilder();
+    p.moveTo(0, 0);
+    p.arc(20, 0, 5, Math.PI, Math.PI * 1.5);
+    expect(p.toString().startsWith("M0 0 L15 0 A5 5")).toBe(true);
+  });
+
+  test("clamps overlapping rounded-rect radii", () => {
+    const p = new SVGPathBuilder();
+    p.roundRect(0, 0, 20, 10, 20);
+    // Radii scale down to 5 so opposite corners meet exactly
+    expect(p.toString()).toContain("A5 5 0 0 1 20 5");
+  });
+});
+
+// ── SVGRenderingContext ──
+
+describe("SVGRenderingContext", () => {
+  test("emits the current transform on primitives", () => {
+    const ctx = new SVGRenderingContext();
+    ctx.translate(5, 6);
+    ctx.fillStyle = "red";
+    ctx.fillRect(0, 0, 10, 10);
+    expect(ctx.body).toBe(
+      '<rect x="0" y="0" width="10" height="10" fill="red" transform="matrix(1 0 0 1 5 6)"/>',
+    );
+  });
+
+  test("closes clip groups on restore", () => {
+    const ctx = new SVGRenderingContext();
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(0, 0, 5, 5);
+    ctx.clip();
+    ctx.fillRect(0, 0, 10, 10);
+    ctx.restore();
+    expect(ctx.defs).toContain("<clipPath");
+    expect(ctx.body).toMatch(
+      /^<g clip-path="url\(#arena-clip-\d+\)"><rect .*\/><\/g>$/,
+    );
+  });
+
+  test("restores state after save/restore", () => {
+    const ctx = new SVGRenderingContext();
+    ctx.save();
+    ctx.globalAlpha = 0.5;
+    ctx.scale(2, 2);
+    ctx.restore();
+    ctx.fillRect(0, 0, 1, 1);
+    expect(ctx.body).not.toContain("opacity");
+    expect(ctx.body).not.toContain("transform");
+  });
+
+  test("ignores opaque Path2D objects", () => {
+    const ctx = new SVGRenderingContext();
+    ctx.fill({} as Path2D);
+    expect(ctx.body).toBe("");
+  });
+
+  test("escapes text content", () => {
+    const ctx = new SVGRenderingContext();
+    ctx.fillText('a < b & "c"', 0, 0);
+    expect(ctx.body).toContain(">a &lt; b &amp; &quot;c&quot;</text>");
+  });
+});
+
+// ── Scene export ──
+
+describe("exportSceneToSVG", () => {
+  test("writes an svg root sized to the scene", () => {
+    const scene = createScene(400, 300);
+    const svg = exportSceneToSVG(scene);
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(
+      true,
+    );
+    expect(svg).toContain('width="400" height="300" viewBox="0 0 400 300"');
+    expect(svg.endsWith("</svg>")).toBe(true);
+    scene.destroy();
+  });
+
+  test("turns element transforms into nested group transforms", () => {
+    const scene = createScene();
+    const group = new Container("group");
+    group.x = 100;
+    group.y = 50;
+    const rect = new Rect("box");
+    rect.x = 10;
+    rect.width = 40;
+    rect.height = 30;
+    rect.fill = "#f00";
+    group.addChild(rect);
+    scene.root.addChild(group);
+    scene.root.update(0);
+
+    const svg = exportSceneToSVG(scene);
+    expect(svg).toContain(
+      '<g id="group" transform="matrix(1 0 0 1 100 50)"><g id="box" transform="matrix(1 0 0 1 10 0)">',
+    );
+    expect(svg).toContain(
+      '<rect x="0" y="0" width="40" height="30" fill="#f00"/>',
+    );
+    scene.destroy();
+  });
+
+  test("paints rounded rects, circles and paths as path data", () => {
+    const scene = createScene();
+    const rounded = new Rect("rounded");
+    rounded.width = 20;
+    rounded.height = 20;
+    rounded.radius = 4;
+    rounded.stroke = "#000";
+    rounded.lineWidth = 2;
+
+    const circle = new Circle("circle");
+    circle.radius = 10;
+    circle.fill = "blue";
+
+    const path = new PathElement("path");
+    path.geometry.addMoveTo(0, 0);
+    path.geometry.addLineTo(10, 10);
+    path.stroke = "green";
+
+    scene.root.addChild(rounded);
+    scene.root.addChild(circle);
+    scene.root.addChild(path);
+    scene.root.update(0);
+
+    const svg = exportSceneToSVG(scene);
+    expect(svg).toMatch(
+      /<path d="M4 0 L16 0 A4 4 0 0 1 20 4[^"]*Z" fill="#ffffff"\/>/,
+    );
+    expect(svg).toMatch(/stroke="#000" stroke-width="2"/);
+    expect(svg).toMatch(
+      /<g id="circle"><path d="M\d+ \d+ A10 10 [^"]*" fill="blue"\/>/,
+    );
+    expect(svg).toContain('<path d="M0 0 L10 10" fill="none" stroke="green"/>');
+    scene.destroy();
+  });
+
+  test("exports text with font, alignment and baseline", () => {
+    const scene = createScene();
+    const text = new Text("label");
+    text.text = "Hi & bye";
+    text.width = 200;
+    text.updateTextStyle({ fontSize: 20, color: "#333", textAlign: "center" });
+    scene.root.addChild(text);
+    scene.root.update(0);
+
+    const svg = exportSceneToSVG(scene);
+    expect(svg).toMatch(
+      /<text x="[\d.]+" y="0" style="font: normal normal 20px [^"]+; white-space: pre"/,
+    );
+    expect(svg).toContain('dominant-baseline="text-before-edge"');
+    expect(svg).toContain('fill="#333"');
+    expect(svg).toContain(">Hi &amp; bye</text>");
+    scene.destroy();
+  });
+
+  test("writes gradients and shadows into defs", () => {
+    class Glow extends Element {
+      override paint(ctx: IArena2DContext): void {
+        const grad = ctx.createLinearGradient(0, 0, 100, 0, [
+          { offset: 0, color: "red" },
+          { offset: 1, color: "blue" },
+        ]);
+        ctx.setShadow("rgba(0,0,0,0.5)", 8, 2, 3);
+        ctx.drawRect(0, 0, 100, 50, { fillColor: grad });
+      }
+    }
+    const scene = createScene();
+    scene.root.addChild(new Glow("glow"));
+    scene.root.update(0);
+
+    const svg = exportSceneToSVG(scene);
+    expect(svg).toMatch(
+      /<linearGradient id="arena-grad-\d+" gradientUnits="userSpaceOnUse" x1="0" y1="0" x2="100" y2="0"><stop offset="0" stop-color="red"\/><stop offset="1" stop-color="blue"\/><\/linearGradient>/,
+    );
+    expect(svg).toMatch(/fill="url\(#arena-grad-\d+\)"/);
+    expect(svg).toContain(
+      '<feDropShadow dx="2" dy="3" stdDeviation="4" flood-color="rgba(0,0,0,0.5)"/>',
+    );
+    expect(svg).toMatch(/filter="url\(#arena-shadow-\d+\)"/);
+    scene.destroy();
+  });
+
+  test("applies alpha and omits hidden elements", () => {
+    const scene = createScene();
+    const parent = new Container("parent");
+    parent.alpha = 0.5;
+    const child = new Rect("child");
+    child.alpha = 0.5;
+    const hidden = new Rect("hidden");
+    hidden.visible = false;
+    parent.addChild(child);
+    parent.addChild(hidden);
+    scene.root.addChild(parent);
+    scene.root.update(0);
+
+    const svg = exportSceneToSVG(scene);
+    expect(svg).toContain('opacity="0.25"');
+    expect(svg).not.toContain('id="hidden"');
+    scene.destroy();
+  });
+
+  test("clips container content and offsets scrolled children", () => {
+    const scene = createScene();
+    const scroller = new ScrollContainer("scroller");
+    scroller.width = 100;
+    scroller.height = 100;
+    const row = new Rect("row");
+    row.width = 100;
+    row.height = 400;
+    scroller.addChild(row);
+    scene.root.addChild(scroller);
+    scene.root.update(0);
+    scroller.scrollTo(0, 120);
+    scene.root.update(0);
+
+    const svg = exportSceneToSVG(scene);
+    expect(svg).toMatch(
+      /<clipPath id="arena-clip-\d+"><path d="M0 0 L100 0 L100 100 L0 100 Z"\/><\/clipPath>/,
+    );
+    expect(svg).toMatch(
+      /<g clip-path="url\(#arena-clip-\d+\)"><g transform="matrix\(1 0 0 1 0 -120\)"><g id="row">/,
+    );
+    scene.destroy();
+  });
+});
+
+// ── View export ──
+
+describe("exportViewToSVG", () => {
+  test("uses the view frustum as viewBox and culls outside elements", () => {
+    const scene = createScene(2000, 2000);
+    const layer = fakeLayer("default", 0);
+    scene.root.layer = layer;
+
+    const near = new Rect("near");
+    near.x = 250;
+    near.y = 250;
+    near.width = 20;
+    near.height = 20;
+    const far = new Rect("far");
+    far.x = 1500;
+    far.y = 1500;
+    far.width = 20;
+    far.height = 20;
+    scene.root.addChild(near);
+    scene.root.addChild(far);
+    scene.root.update(0);
+
+    const view = fakeView(scene, {
+      width: 400,
+      height: 300,
+      zoom: 2,
+      panX: -400,
+      panY: -400,
+    });
+    const svg = exportViewToSVG(view);
+
+    expect(svg).toContain('width="400" height="300" viewBox="200 200 200 150"');
+    expect(svg).toContain('id="near"');
+    expect(svg).not.toContain('id="far"');
+    scene.destroy();
+  });
+
+  test("groups elements by layer in z-order", () => {
+    const scene = createScene();
+    const base = fakeLayer("base", 0);
+    const overlay = fakeLayer("overlay", 10);
+    overlay.opacity = 0.5;
+    scene.root.layer = base;
+
+    const top = new Rect("top");
+    top.layer = overlay;
+    const bottom = new Rect("bottom");
+    // Added first so scene-graph order alone would paint "top" first
+    scene.root.addChild(top);
+    scene.root.addChild(bottom);
+    scene.root.update(0);
+
+    const svg = exportViewToSVG(fakeView(scene, { width: 400, height: 300 }));
+    const baseAt = svg.indexOf('data-layer="base"');
+    const overlayAt = svg.indexOf('<g data-layer="overlay" opacity="0.5">');
+    expect(baseAt).toBeGreaterThan(-1);
+    expect(overlayAt).toBeGreaterThan(baseAt);
+    expect(svg.indexOf('id="bottom"')).toBeLessThan(overlayAt);
+    expect(svg.indexOf('id="top"')).toBeGreaterThan(overlayAt);
+    scene.destroy();
+  });
+});
@@ -0,0 +1,256 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { Window } from "happy-dom";
+import { TextInput } from "../src/elements/TextInput";
+import {
+  type ITextMeasureContext,
+  clearLayoutCache,
+  setMeasureContext,
+} from "../src/text/TextLayout";
+
+const CHAR_WIDTH = 8;
+
+function createMockMeasureContext(): ITextMeasureContext {
+  return {
+    font: "",
+    measureText(text: string) {
+      return { width: text.length * CHAR_WIDTH };
+    },
+  };
+}
+
+setMeasureContext(createMockMeasureContext());
+
+const window = new Window();
+// biome-ignore lint/suspicious/noExplicitAny: mocking global
+global.document = window.document as any;
+// biome-ignore lint/suspicious/noExplicitAny: mocking global
+global.Event = window.Event as any;
+// biome-ignore lint/suspicious/noExplicitAny: mocking global
+global.CompositionEvent = window.CompositionEvent as any;
+
+afterAll(() => {
+  setMeasureContext(null);
+});
+
+type Modifiers = Partial<{
+  shiftKey: boolean;
+  ctrlKey: boolean;
+  altKey: boolean;
+  metaKey: boolean;
+}>;
+
+function press(input: TextInput, key: string, mods: Modifiers = {}): void {
+  input.emit("keydown", {
+    type: "keydown",
+    target: input,
+    currentTarget: input,
+    key,
+    code: key,
+    shiftKey: false,
+    ctrlKey: false,
+    altKey: false,
+    metaKey: false,
+    ...mods,
+    propagationStopped: false,
+    defaultPrevented: false,
+    stopPropagation() {},
+    preventDefault() {},
+  });
+}
+
+function type(input: TextInput, text: string): void {
+  for (const ch of text) press(input, ch);
+}
+
+function caretAt(input: TextInput, pos: number): void {
+  input.selectionStart = pos;
+  input.selectionEnd = pos;
+}
+
+// ── Undo / Redo ──
+
+describe("TextInput — undo/redo", () => {
+  beforeEach(() => {
+    clearLayoutCache();
+  });
+
+  test("consecutive typing is one undo step", () => {
+    const input = new TextInput();
+    type(input, "hello");
+    expect(input.history.undoCount).toBe(1);
+    expect(input.history.undoLabel).toBe("Typing");
+
+    press(input, "z", { ctrlKey: true });
+    expect(input.text).toBe("");
+    expect(input.selectionEnd).toBe(0);
+
+    press(input, "z", { metaKey: true, shiftKey: true });
+    expect(input.text).toBe("hello");
+    expect(input.selectionEnd).toBe(5);
+    press(input, "z", { metaKey: true });
+    press(input, "y", { ctrlKey: true });
+    expect(input.text).toBe("hello");
+  });
+
+  test("moving the caret, pausing or switching kind starts a new step", () => {
+    const input = new TextInput();
+    type(input, "ab");
+    caretAt(input, 0);
+    type(input, "x");
+    expect(input.history.undoCount).toBe(2);
+
+    press(input, "Delete");
+    press(input, "Delete");
+    expect(input.text).toBe("x");
+    expect(input.history.undoCount).toBe(3);
+    expect(input.history.undoLabel).toBe("Delete");
+
+    input.undo();
+    expect(input.text).toBe("xab");
+    expect(input.selectionEnd).toBe(1);
+    input.undo();
+    expect(input.text).toBe("ab");
+  });
+
+  test("word deletes, cuts and pastes are separate steps", () => {
+    const input = new TextInput();
+    type(input, "one two");
+    press(input, "Backspace", { ctrlKey: true });
+    expect(input.text).toBe("one ");
+    input._insertText("three", "paste");
+    input._insertText("!", "paste");
+    expect(input.history.undoCount).toBe(4);
+    expect(input.history.undoLabel).toBe("Paste");
+
+    input.undo();
+    input.undo();
+    input.undo();
+    expect(input.text).toBe("one two");
+  });
+
+  test("a new edit after undo clears the redo stack", () => {
+    const input = new TextInput();
+    type(input, "abc");
+    input.undo();
+    expect(input.canRedo).toBe(true);
+    type(input, "x");
+    expect(input.canRedo).toBe(false);
+    expect(input.redo()).toBe(false);
+  });
+
+  test("undo emits change and is disabled when read-only", () => {
+    const input = new TextInput();
+    const values: string[] = [];
+    input.on("change", (e: { value: string }) => values.push(e.value));
+    type(input, "hi");
+    input.undo();
+    expect(values).toEqual(["h", "hi", ""]);
+
+    input.redo();
+    input.readOnly = true;
+    press(input, "z", { ctrlKey: true });
+    expect(input.text).toBe("hi");
+  });
+
+  test("a composition session is recorded as one step", () => {
+    const input = new TextInput();
+    type(input, "a");
+    input.emit("focus", {});
+    const ta = document.querySelector("textarea") as HTMLTextAreaElement;
+
+    ta.dispatchEvent(new window.CompositionEvent("compositionstart") as never);
+    // Intermediate IME updates are ignored while composing
+    ta.value = "aに";
+    ta.dispatchEvent(new window.Event("input") as never);
+    expect(input.text).toBe("a");
+    ta.value = "a日本";
+    ta.selectionStart = ta.selectionEnd = 3;
+    ta.dispatchEvent(new window.CompositionEvent("compositionend") as never);
+    expect(input.text).toBe("a日本");
+    expect(input.history.undoCount).toBe(2);
+    expect(input.history.undoLabel).toBe("Compose");
+
+    input.undo();
+    expect(input.text).toBe("a");
+    expect(input.selectionEnd).toBe(1);
+    expect(ta.value).toBe("a");
+    input.emit("blur", {});
+  });
+});
+
+// ── Navigation ──
+
+describe("TextInput — keyboard navigation", () => {
+  beforeEach(() => {
+    clearLayoutCache();
+  });
+
+  test("Ctrl and Alt jump and select by word", () => {
+    const input = new TextInput();
+    input.text = "alpha beta gamma";
+    caretAt(input, 0);
+    press(input, "ArrowRight", { ctrlKey: true });
+    expect(input.selectionEnd).toBe(5);
+    press(input, "ArrowRight", { altKey: true, shiftKey: true });
+    expect(input.selectionStart).toBe(5);
+    expect(input.selectionEnd).toBe(10);
+
+    caretAt(input, 16);
+    press(input, "ArrowLeft", { ctrlKey: true });
+    expect(input.selectionEnd).toBe(11);
+    press(input, "Delete", { ctrlKey: true });
+    expect(input.text).toBe("alpha beta ");
+  });
+
+  test("Home and End use the visual line in multiline inputs", () => {
+    const input = new TextInput();
+    input.multiline = true;
+    input.width = 48;
+    input.text = "hello world";
+    expect(input.textLayout.lines.map((l) => l.text)).toEqual([
+      "hello ",
+      "world",
+    ]);
+    caretAt(input, 8);
+    press(input, "Home");
+    expect(input.selectionEnd).toBe(6);
+    press(input, "End", { shiftKey: true });
+    expect(input.selectionStart).toBe(6);
+    expect(input.selectionEnd).toBe(11);
+    press(input, "Home", { ctrlKey: true });
+    expect(input.selectionEnd).toBe(0);
+  });
+
+  test("Home and End go to either end of a single-line input", () => {
+    const input = new TextInput();
+    input.width = 48;
+    input.text = "hello world";
+    caretAt(input, 8);
+    press(input, "Home");
+    expect(input.selectionEnd).toBe(0);
+    press(input, "End");
+    expect(input.selectionEnd).toBe(11);
+  });
+
+  test("PageUp and PageDown move by the visible number of lines", () => {
+    const input = new TextInput();
+    input.multiline = true;
+    input.width = 200;
+    // Line height 17 → two lines per page
+    input.height = 40;
+    input.text = "l0\nl1\nl2\nl3\nl4\nl5";
+    caretAt(input, 1);
+    press(input, "PageDown");
+    expect(input.selectionEnd).toBe(7);
+    press(input, "PageDown", { shiftKey: true });
+    expect(input.selectionStart).toBe(7);
+    expect(input.selectionEnd).toBe(13);
+    press(input, "PageDown");
+    expect(input.selectionEnd).toBe(17);
+    press(input, "PageUp");
+    expect(input.selectionEnd).toBe(11);
+    press(input, "PageUp");
+    press(input, "PageUp");
+    expect(input.selectionEnd).toBe(0);
+  });
+});
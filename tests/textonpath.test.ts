@@ -0,0 +1,217 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { TextOnPath } from "../src/elements/TextOnPath";
+import { BezierCurve } from "../src/geometry/BezierCurve";
+import { Circle } from "../src/geometry/Circle";
+import { Line } from "../src/geometry/Line";
+import type { IArena2DContext } from "../src/rendering/Arena2DContext";
+import {
+  type ITextMeasureContext,
+  clearLayoutCache,
+  setMeasureContext,
+} from "../src/text/TextLayout";
+
+// ── Mock Measure Context ──
+// Each character is half the font size wide (7px at the default 14px).
+
+function createMockMeasureContext(): ITextMeasureContext {
+  let size = 14;
+  return {
+    get font() {
+      return `normal normal ${size}px sans-serif`;
+    },
+    set font(value: string) {
+      size = Number(/(\d+(?:\.\d+)?)px/.exec(value)?.[1] ?? 14);
+    },
+    measureText(text: string) {
+      return {
+        width: text.length * (size / 2),
+        fontBoundingBoxAscent: size * 0.8,
+        fontBoundingBoxDescent: size * 0.2,
+      };
+    },
+  };
+}
+
+beforeAll(() => {
+  setMeasureContext(createMockMeasureContext());
+  clearLayoutCache();
+});
+
+afterAll(() => {
+  setMeasureContext(null);
+});
+
+// ── Placement ──
+
+describe("TextOnPath — placement", () => {
+  test("places glyph centers along a straight line", () => {
+    const label = new TextOnPath(new Line(0, 50, 100, 50), "abc");
+    expect(label.pathLength).toBeCloseTo(100);
+    const glyphs = label.glyphs;
+    expect(glyphs.map((g) => g.text)).toEqual(["a", "b", "c"]);
+    expect(glyphs.map((g) => g.x)).toEqual(
+      [3.5, 10.5, 17.5].map((x) => expect.closeTo(x)),
+    );
+    for (const g of glyphs) {
+      expect(g.y).toBeCloseTo(50);
+      expect(g.rotation).toBeCloseTo(0);
+    }
+  });
+
+  test("align and startOffset position the text along the path", () => {
+    const label = new TextOnPath(new Line(0, 0, 100, 0), "abcd");
+    label.align = "center";
+    // 28px of text centered on a 100px line
+    expect(label.glyphs[0].x).toBeCloseTo(36 + 3.5);
+
+    label.startOffset = 10;
+    expect(label.glyphs[0].x).toBeCloseTo(46 + 3.5);
+
+    label.align = "end";
+    expect(label.glyphs[3].x).toBeCloseTo(90 - 3.5);
+  });
+
+  test("letterSpacing adds space between clusters", () => {
+    const label = new TextOnPath(new Line(0, 0, 100, 0), "ab");
+    label.letterSpacing = 5;
+    expect(label.glyphs.map((g) => g.x)).toEqual([
+      expect.closeTo(3.5),
+      expect.closeTo(15.5),
+    ]);
+    label.align = "end";
+    // The spacing counts toward the aligned extent
+    expect(label.glyphs[1].x).toBeCloseTo(100 - 3.5);
+  });
+
+  test("spaces glyphs by arc length on a curve, not by parameter", () => {
+    // Control points bunched near the start make the curve's parameter
+    // speed uneven
+    const curve = new BezierCurve([
+      { x: 0, y: 0 },
+      { x: 5, y: 0 },
+      { x: 10, y: 0 },
+      { x: 200, y: 0 },
+    ]);
+    const label = new TextOnPath(curve, "aaaaa");
+    const xs = label.glyphs.map((g) => g.x);
+    expect(xs).toEqual(
+      [3.5, 10.5, 17.5, 24.5, 31.5].map((x) => expect.closeTo(x, 1)),
+    );
+  });
+
+  test("follows the tangent of a circle and wraps on closed paths", () => {
+    const circle = new Circle(100, 100, 50);
+    const label = new TextOnPath(circle, "ab");
+    // Circle starts at angle 0 (rightmost point) heading down
+    const [a] = label.glyphs;
+    const angle = 3.5 / 50;
+    expect(a.x).toBeCloseTo(100 + 50 * Math.cos(angle));
+    expect(a.y).toBeCloseTo(100 + 50 * Math.sin(angle));
+    expect(a.rotation).toBeCloseTo(Math.PI / 2 + angle);
+
+    // Negative offsets wrap around to the end of the outline
+    expect(label.pathLength).toBeCloseTo(circle.perimeter, 0);
+    label.startOffset = -7;
+    expect(label.glyphs.length).toBe(2);
+    expect(label.glyphs[0].distance).toBeCloseTo(label.pathLength - 3.5);
+  });
+
+  test("drops glyphs past the ends of open paths", () => {
+    const label = new TextOnPath(new Line(0, 0, 14, 0), "abcd");
+    expect(label.glyphs.map((g) => g.text)).toEqual(["a", "b"]);
+  });
+
+  test("invalidatePath picks up in-place geometry changes", () => {
+    const line = new Line(0, 0, 100, 0);
+    const label = new TextOnPath(line, "a");
+    expect(label.glyphs[0].y).toBeCloseTo(0);
+    line.y1 = 40;
+    line.y2 = 40;
+    label.invalidatePath();
+    expect(label.glyphs[0].y).toBeCloseTo(40);
+  });
+});
+
+// ── Hit testing ──
+
+describe("TextOnPath — hit testing", () => {
+  test("hits glyph boxes above the path by default", () => {
+    const label = new TextOnPath(new Line(0, 50, 100, 50), "abc");
+    expect(label.containsPoint(10, 45)).toBe(true);
+    expect(label.containsPoint(10, 55)).toBe(false);
+    // Past the last glyph
+    expect(label.containsPoint(30, 45)).toBe(false);
+  });
+
+  test("side below hangs glyphs under the path", () => {
+    const label = new TextOnPath(new Line(0, 50, 100, 50), "abc");
+    label.side = "below";
+    expect(label.containsPoint(10, 45)).toBe(false);
+    expect(label.containsPoint(10, 55)).toBe(true);
+  });
+
+  test("tests rotated glyph boxes", () => {
+    // A vertical path heading down: "above" is to its right
+    const label = new TextOnPath(new Line(20, 0, 20, 100), "abc");
+    expect(label.containsPoint(25, 10)).toBe(true);
+    expect(label.containsPoint(15, 10)).toBe(false);
+  });
+
+  test("sizes the element to reach the glyph bounds", () => {
+    const label = new TextOnPath(new Line(0, 50, 100, 50), "abc");
+    label.update(0);
+    expect(label.localBounds.x).toBeCloseTo(0);
+    expect(label.localBounds.y).toBeCloseTo(50 - 14 * 0.8);
+    expect(label.width).toBeCloseTo(21);
+    expect(label.height).toBeCloseTo(50 + 14 * 0.2);
+    expect(label.hitTest(10, 45)).toBe(label);
+  });
+});
+
+// ── Rendering ──
+
+describe("TextOnPath — paint", () => {
+  test("draws each cluster rotated at its glyph position", () => {
+    const label = new TextOnPath(new Line(0, 0, 0, 100), "ab");
+    const calls: string[] = [];
+    const raw = {
+      save: () => calls.push("save"),
+      restore: () => calls.push("restore"),
+      transform: (
+        a: number,
+        b: number,
+        _c: number,
+        _d: number,
+        e: number,
+        f: number,
+      ) =>
+        calls.push(
+          `transform ${a.toFixed(0)} ${b.toFixed(0)} ${e} ${f.toFixed(1)}`,
+        ),
+    };
+    const ctx = {
+      raw,
+      setFont: (f: { fontSize: number }) => calls.push(`font ${f.fontSize}`),
+      setFillStyle: (s: string) => calls.push(`fill ${s}`),
+      setTextBaseline: (b: string) => calls.push(`baseline ${b}`),
+      setTextAlign: (a: string) => calls.push(`align ${a}`),
+      fillText: (s: string, x: number, y: number) =>
+        calls.push(`text ${s} ${x} ${y}`),
+    };
+    label.paint(ctx as unknown as IArena2DContext);
+    expect(calls).toEqual([
+      "font 14",
+      "fill #000000",
+      "baseline alphabetic",
+      "align center",
+      "save",
+      "transform 0 1 0 3.5",
+      "text a 0 0",
+      "restore",
+      "save",
+      "transform 0 1 0 10.5",
+      "text b 0 0",
+      "restore",
+    ]);
+  });
+});
@@ -0,0 +1,273 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { Text } from "../src/elements/Text";
+import { TextInput } from "../src/elements/TextInput";
+import type { IArena2DContext } from "../src/rendering/Arena2DContext";
+import {
+  type ILayoutTextStyle,
+  type ITextMeasureContext,
+  clearLayoutCache,
+  computeMaxContentWidth,
+  computeMinContentWidth,
+  computeRichTextLayout,
+  computeTextLayout,
+  setMeasureContext,
+} from "../src/text/TextLayout";
+
+// ── Mock Measure Context ──
+// Each character is half the font size wide (7px at the default 14px).
+
+function createMockMeasureContext(): ITextMeasureContext {
+  let size = 14;
+  return {
+    get font() {
+      return `normal normal ${size}px sans-serif`;
+    },
+    set font(value: string) {
+      size = Number(/(\d+(?:\.\d+)?)px/.exec(value)?.[1] ?? 14);
+    },
+    measureText(text: string) {
+      return {
+        width: text.length * (size / 2),
+        fontBoundingBoxAscent: size * 0.8,
+        fontBoundingBoxDescent: size * 0.2,
+      };
+    },
+  };
+}
+
+beforeAll(() => {
+  setMeasureContext(createMockMeasureContext());
+  clearLayoutCache();
+});
+
+afterAll(() => {
+  setMeasureContext(null);
+});
+
+function makeStyle(extra: Partial<ILayoutTextStyle> = {}): ILayoutTextStyle {
+  return {
+    fontSize: 14,
+    fontFamily: "sans-serif",
+    fontWeight: "normal",
+    fontStyle: "normal",
+    fill: "#000000",
+    lineHeight: 17,
+    ...extra,
+  };
+}
+
+const ELLIPSIS = "\u2026";
+
+// ── White space ──
+
+describe("whiteSpace", () => {
+  test("pre-wrap is the default and keeps spaces and breaks", () => {
+    const layout = computeTextLayout("a  b\nc", makeStyle(), 100);
+    expect(layout.lines.map((l) => l.text)).toEqual(["a  b", "c"]);
+  });
+
+  test("normal collapses whitespace and wraps", () => {
+    const layout = computeTextLayout(
+      "  alpha \n\t beta  gamma ",
+      makeStyle({ whiteSpace: "normal" }),
+      80,
+    );
+    expect(layout.lines.map((l) => l.text)).toEqual(["alpha beta ", "gamma"]);
+  });
+
+  test("nowrap collapses whitespace and never wraps", () => {
+    const layout = computeTextLayout(
+      "alpha\nbeta gamma",
+      makeStyle({ whiteSpace: "nowrap" }),
+      30,
+    );
+    expect(layout.lines.map((l) => l.text)).toEqual(["alpha beta gamma"]);
+    expect(layout.truncated).toBe(false);
+  });
+
+  test("pre keeps whitespace and only breaks at hard breaks", () => {
+    const layout = computeTextLayout(
+      "one  two\nthree",
+      makeStyle({ whiteSpace: "pre" }),
+      30,
+    );
+    expect(layout.lines.map((l) => l.text)).toEqual(["one  two", "three"]);
+  });
+
+  test("min-content width of unbreakable text is the whole line", () => {
+    const style = makeStyle({ whiteSpace: "nowrap" });
+    expect(computeMinContentWidth("ab  cd", style)).toBe(35);
+    expect(computeMaxContentWidth("ab  cd", style)).toBe(35);
+    expect(computeMinContentWidth("ab  cd", makeStyle())).toBe(14);
+  });
+});
+
+// ── Truncation ──
+
+describe("maxLines and overflow", () => {
+  test("maxLines drops further lines and reports truncation", () => {
+    const layout = computeTextLayout(
+      "one two three four",
+      makeStyle({ maxLines: 2 }),
+      50,
+    );
+    expect(layout.lines.map((l) => l.text)).toEqual(["one two ", "three "]);
+    expect(layout.totalHeight).toBe(34);
+    expect(layout.truncated).toBe(true);
+    expect(layout.lines.map((l) => l.truncated ?? false)).toEqual([
+      false,
+      true,
+    ]);
+  });
+
+  test("ellipsis shortens a cut line to fit the width", () => {
+    const layout = computeTextLayout(
+      "hello world foo",
+      makeStyle({ whiteSpace: "nowrap", overflow: "ellipsis" }),
+      50,
+    );
+    const line = layout.lines[0];
+    // "hello " + "…" would fit, but trailing spaces are dropped
+    expect(line.text).toBe(`hello${ELLIPSIS}`);
+    expect(line.width).toBe(42);
+    expect(line.advancements.length).toBe(6);
+    expect(layout.truncated).toBe(true);
+  });
+
+  test("ellipsis on the last line kept by maxLines", () => {
+    const layout = computeTextLayout(
+      "aaa bbb ccc",
+      makeStyle({ maxLines: 1, overflow: "ellipsis" }),
+      50,
+    );
+    expect(layout.lines.map((l) => l.text)).toEqual([`aaa bb${ELLIPSIS}`]);
+    expect(layout.lines[0].width).toBe(49);
+  });
+
+  test("text that fits is not truncated, trailing spaces included", () => {
+    const layout = computeTextLayout(
+      "fits    ",
+      makeStyle({ whiteSpace: "pre", overflow: "clip" }),
+      30,
+    );
+    expect(layout.truncated).toBe(false);
+    expect(layout.lines[0].truncated).toBeUndefined();
+  });
+
+  test("clip and fade mark wide lines without changing them", () => {
+    const layout = computeTextLayout(
+      "abcdefgh",
+      makeStyle({ overflow: "fade" }),
+      35,
+    );
+    expect(layout.lines[0].text).toBe("abcdefgh");
+    expect(layout.lines[0].truncated).toBe(true);
+    expect(layout.truncated).toBe(true);
+  });
+
+  test("ellipsis in right-to-left text keeps bidi layout", () => {
+    // "אבגד הוז"
+    const layout = computeTextLayout(
+      "\u05D0\u05D1\u05D2\u05D3 \u05D4\u05D5\u05D6",
+      makeStyle({ whiteSpace: "nowrap", overflow: "ellipsis" }),
+      40,
+    );
+    const line = layout.lines[0];
+    expect(line.text.endsWith(ELLIPSIS)).toBe(true);
+    expect(line.bidi?.baseLevel).toBe(1);
+    expect(line.bidi?.levels.length).toBe(line.text.length);
+    expect(line.width).toBeLessThanOrEqual(40);
+  });
+
+  test("rich text: ellipsis keeps the styles of the fragment it ends", () => {
+    const layout = computeRichTextLayout(
+      [{ text: "plain " }, { text: "bigger text", fontSize: 28 }],
+      makeStyle({ whiteSpace: "nowrap", overflow: "ellipsis" }),
+      100,
+    );
+    const line = layout.lines[0];
+    // "plain " = 42, then 14px per character of the 28px run
+    expect(line.text).toBe(`plain big${ELLIPSIS}`);
+    expect(line.fragments.map((f) => [f.text, f.width])).toEqual([
+      ["plain ", 42],
+      [`big${ELLIPSIS}`, 56],
+    ]);
+    expect(line.width).toBe(98);
+    expect(layout.truncated).toBe(true);
+  });
+
+  test("rich text: maxLines shrinks the total height", () => {
+    const layout = computeRichTextLayout(
+      [{ text: "a\nb\nc" }],
+      makeStyle({ maxLines: 2 }),
+      100,
+    );
+    expect(layout.lines.length).toBe(2);
+    expect(layout.totalHeight).toBeCloseTo(34);
+    expect(layout.truncated).toBe(true);
+  });
+});
+
+// ── Text element ──
+
+function recordingContext(calls: string[]) {
+  return {
+    setTextBaseline: () => {},
+    setFont: () => {},
+    setFillStyle: (s: unknown) =>
+      calls.push(typeof s === "string" ? `fill ${s}` : "fill gradient"),
+    fillText: (s: string) => calls.push(`text ${s}`),
+    fillRect: () => {},
+    save: () => calls.push("save"),
+    restore: () => calls.push("restore"),
+    clipRect: (x: number, y: number, w: number, h: number) =>
+      calls.push(`clip ${x} ${y} ${w} ${h}`),
+    createLinearGradient: (x0: number, _y0: number, x1: number) => {
+      calls.push(`gradient ${x0} ${x1}`);
+      return {};
+    },
+  };
+}
+
+describe("Text — overflow", () => {
+  test("exposes truncation and re-evaluates on resize", () => {
+    const t = new Text();
+    t.text = "a long label";
+    t.updateTextStyle({ whiteSpace: "nowrap", overflow: "ellipsis" });
+    expect(t.truncated).toBe(false);
+    t.width = 50;
+    expect(t.truncated).toBe(true);
+    expect(t.textLayout.lines[0].text).toBe(`a long${ELLIPSIS}`);
+    t.width = 200;
+    expect(t.truncated).toBe(false);
+  });
+
+  test("clips to the width and fades cut lines", () => {
+    const t = new Text();
+    t.text = "abcdefgh";
+    t.width = 35;
+    t.updateTextStyle({ overflow: "fade", whiteSpace: "nowrap" });
+    const calls: string[] = [];
+    t.paint(recordingContext(calls) as unknown as IArena2DContext);
+    // Fade over the last 2em (28px) of the visible 35px
+    expect(calls).toEqual([
+      "fill #000000",
+      "save",
+      "clip 0 0 35 17",
+      "gradient 7 35",
+      "fill gradient",
+      "text abcdefgh",
+      "fill #000000",
+      "restore",
+    ]);
+  });
+
+  test("text inputs ignore truncation settings", () => {
+    const input = new TextInput();
+    input.width = 30;
+    input.updateTextStyle({ maxLines: 1, overflow: "ellipsis" });
+    input.text = "one two three";
+    expect(input.truncated).toBe(false);
+    expect(input.textLayout.lines.length).toBe(3);
+  });
+});
@@ -0,0 +1,409 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { Window } from "happy-dom";
+import { Container } from "../src/core/Container";
+import { Element } from "../src/core/Element";
+import {
+  type ITransformEvent,
+  type TransformHandle,
+  Transformer,
+} from "../src/interaction/Transformer";
+import { transformPoint } from "../src/math/matrix";
+
+// ── DOM setup ──
+
+let window: Window;
+beforeAll(() => {
+  window = new Window();
+  // @ts-expect-error - happy-dom types don't perfectly match browser types
+  global.window = window as unknown as Window & typeof globalThis;
+  // @ts-expect-error - happy-dom types don't perfectly match browser types
+  global.document = window.document;
+  // @ts-expect-error - happy-dom types don't perfectly match browser types
+  global.HTMLElement = window.HTMLElement;
+});
+
+afterAll(() => {
+  window.close();
+});
+
+// ── Helpers ──
+
+function createTransformerView() {
+  const container = document.createElement("div");
+  document.body.appendChild(container);
+  // Screen space equals scene space in these tests
+  const view = {
+    container,
+    zoom: 1,
+    screenToScene: (x: number, y: number) => ({ x, y }),
+  };
+  const pointer = (
+    type: string,
+    x: number,
+    y: number,
+    init: { shiftKey?: boolean; altKey?: boolean } = {},
+  ) => {
+    const event = new window.PointerEvent(type, {
+      pointerId: 1,
+      button: 0,
+      clientX: x,
+      clientY: y,
+      bubbles: true,
+      cancelable: true,
+      ...init,
+    });
+    container.dispatchEvent(event as unknown as Event);
+  };
+  const cleanup = () => container.remove();
+  return { view, container, pointer, cleanup };
+}
+
+function box(parent: Container, x: number, y: number, w: number, h: number) {
+  const el = new Element();
+  el.x = x;
+  el.y = y;
+  el.width = w;
+  el.height = h;
+  parent.addChild(el);
+  el.update(0);
+  return el;
+}
+
+/** Drag a handle of the transformer to a scene point. */
+function dragHandle(
+  t: Transformer,
+  pointer: ReturnType<typeof createTransformerView>["pointer"],
+  handle: TransformHandle,
+  to: { x: number; y: number },
+  init: { shiftKey?: boolean; altKey?: boolean } = {},
+) {
+  const from = t.getHandlePosition(handle) as { x: number; y: number };
+  pointer("pointerdown", from.x, from.y, init);
+  pointer("pointermove", to.x, to.y, init);
+  pointer("pointerup", to.x, to.y, init);
+}
+
+function world(el: Element, x: number, y: number) {
+  el.update(0);
+  return transformPoint(el.worldMatrix, x, y);
+}
+
+/** A parent that is rotated, scaled and skewed. */
+function transformedParent(): Container {
+  const parent = new Container();
+  parent.x = 200;
+  parent.y = 100;
+  parent.rotation = Math.PI / 6;
+  parent.skewX = 0.3;
+  parent.scaleX = 1.5;
+  parent.update(0);
+  return parent;
+}
+
+// ── Handles ──
+
+describe("Transformer — handles", () => {
+  test("places handles on the element frame in scene space", () => {
+    const { view, cleanup } = createTransformerView();
+    const parent = transformedParent();
+    const el = box(parent, 10, 20, 40, 30);
+    const t = new Transformer(view);
+    t.setTargets([el]);
+
+    const se = t.getHandlePosition("se") as { x: number; y: number };
+    const expected = world(el, 40, 30);
+    expect(se.x).toBeCloseTo(expected.x, 3);
+    expect(se.y).toBeCloseTo(expected.y, 3);
+    expect(t.hitTestHandle(se.x + 2, se.y - 2)).toBe("se");
+    expect(t.hitTestHandle(se.x + 50, se.y + 50)).toBeNull();
+
+    t.destroy();
+    cleanup();
+  });
+
+  test("has no frame without targets", () => {
+    const { view, cleanup } = createTransformerView();
+    const t = new Transformer(view);
+    expect(t.frame).toBeNull();
+    expect(t.getHandlePosition("n")).toBeNull();
+    expect(t.hitTestHandle(0, 0)).toBeNull();
+    t.destroy();
+    cleanup();
+  });
+});
+
+// ── Resize ──
+
+describe("Transformer — resize", () => {
+  test("corner handle resizes around the opposite corner", () => {
+    const { view, pointer, cleanup } = createTransformerView();
+    const root = new Container();
+    const el = box(root, 100, 100, 40, 20);
+    const t = new Transformer(view);
+    t.setTargets([el]);
+
+    dragHandle(t, pointer, "nw", { x: 80, y: 90 });
+    expect(el.width).toBeCloseTo(60);
+    expect(el.height).toBeCloseTo(30);
+    expect(el.x).toBeCloseTo(80);
+    expect(el.y).toBeCloseTo(90);
+
+    t.destroy();
+    cleanup();
+  });
+
+  test("resizes along the element's axes under a skewed, rotated parent", () => {
+    const { view, pointer, cleanup } = createTransformerView();
+    const parent = transformedParent();
+    const el = box(parent, 10, 20, 40, 30);
+    el.rotation = 0.4;
+    el.update(0);
+    const anchor = world(el, 0, 15);
+    const t = new Transformer(view);
+    t.setTargets([el]);
+
+    dragHandle(t, pointer, "e", world(el, 70, 15));
+    expect(el.width).toBeCloseTo(70, 3);
+    expect(el.height).toBeCloseTo(30);
+    const after = world(el, 0, 15);
+    expect(after.x).toBeCloseTo(anchor.x, 2);
+    expect(after.y).toBeCloseTo(anchor.y, 2);
+
+    t.destroy();
+    cleanup();
+  });
+
+  test("shift locks the aspect ratio", () => {
+    const { view, pointer, cleanup } = createTransformerView();
+    const root = new Container();
+    const el = box(root, 0, 0, 40, 20);
+    const t = new Transformer(view);
+    t.setTargets([el]);
+
+    dragHandle(t, pointer, "se", { x: 80, y: 25 }, { shiftKey: true });
+    expect(el.width).toBeCloseTo(80);
+    expect(el.height).toBeCloseTo(40);
+
+    t.destroy();
+    cleanup();
+  });
+
+  test("alt resizes from the center", () => {
+    const { view, pointer, cleanup } = createTransformerView();
+    const root = new Container();
+    const el = box(root, 0, 0, 40, 20);
+    const t = new Transformer(view);
+    t.setTargets([el]);
+
+    dragHandle(t, pointer, "e", { x: 50, y: 10 }, { altKey: true });
+    expect(el.width).toBeCloseTo(60);
+    expect(el.x).toBeCloseTo(-10);
+
+    t.destroy();
+    cleanup();
+  });
+
+  test("clamps to the minimum size", () => {
+    const { view, pointer, cleanup } = createTransformerView();
+    const root = new Container();
+    const el = box(root, 0, 0, 40, 20);
+    const t = new Transformer(view, { minSize: 5 });
+    t.setTargets([el]);
+
+    dragHandle(t, pointer, "se", { x: -100, y: -100 });
+    expect(el.width).toBeCloseTo(5);
+    expect(el.height).toBeCloseTo(5);
+
+    t.destroy();
+    cleanup();
+  });
+
+  test("scales several targets about a shared anchor", () => {
+    const { view, pointer, cleanup } = createTransformerView();
+    const root = new Container();
+    const a = box(root, 0, 0, 20, 20);
+    const b = box(root, 40, 20, 20, 20);
+    const t = new Transformer(view);
+    t.setTargets([a, b]);
+    expect(t.frame?.width).toBe(60);
+    expect(t.frame?.height).toBe(40);
+
+    dragHandle(t, pointer, "se", { x: 120, y: 80 });
+    expect(a.x).toBeCloseTo(0);
+    expect(a.width).toBeCloseTo(40);
+    expect(b.x).toBeCloseTo(80);
+    expect(b.y).toBeCloseTo(40);
+    expect(b.height).toBeCloseTo(40);
+
+    t.destroy();
+    cleanup();
+  });
+
+  test("group-scales rotated targets by decomposing the transform", () => {
+    const { view, pointer, cleanup } = createTransformerView();
+    const root = new Container();
+    const a = box(root, 0, 0, 20, 20);
+    const b = box(root, 60, 0, 20, 20);
+    b.pivotX = 10;
+    b.pivotY = 10;
+    b.x = 70;
+    b.y = 10;
+    b.rotation = Math.PI / 4;
+    b.update(0);
+    const t = new Transformer(view);
+    t.setTargets([a, b]);
+    const frame = t.frame as { width: number; height: number };
+    const corner = world(b, 20, 20);
+
+    // Stretch the group horizontally by 2x from its left edge
+    const e = t.getHandlePosition("e") as { x: number; y: number };
+    dragHandle(t, pointer, "e", { x: e.x + frame.width, y: e.y });
+    const after = world(b, 20, 20);
+    expect(after.x).toBeCloseTo(corner.x * 2, 2);
+    expect(after.y).toBeCloseTo(corner.y, 2);
+    expect(b.width).toBe(20);
+
+    t.destroy();
+    cleanup();
+  });
+});
+
+// ── Rotate & Pivot ──
+
+describe("Transformer — rotate and pivot", () => {
+  test("rotation handle rotates about the element pivot", () => {
+    const { view, pointer, cleanup } = createTransformerView();
+    const root = new Container();
+    const el = box(root, 100, 100, 40, 40);
+    el.pivotX = 20;
+    el.pivotY = 20;
+    el.update(0);
+    const t = new Transformer(view);
+    t.setTargets([el]);
+
+    // Handle is straight above the pivot (100, 100); drag it to the right
+    dragHandle(t, pointer, "rotate", { x: 200, y: 100 });
+    expect(el.rotation).toBeCloseTo(Math.PI / 2);
+    expect(el.x).toBe(100);
+    expect(el.y).toBe(100);
+
+    t.destroy();
+    cleanup();
+  });
+
+  test("shift snaps the rotation", () => {
+    const { view, pointer, cleanup } = createTransformerView();
+    const root = new Container();
+    const el = box(root, 100, 100, 40, 40);
+    el.pivotX = 20;
+    el.pivotY = 20;
+    el.update(0);
+    const t = new Transformer(view, { rotationSnap: Math.PI / 4 });
+    t.setTargets([el]);
+
+    // ~40° clockwise from straight up snaps to 45°
+    const angle = (40 * Math.PI) / 180;
+    const to = { x: 100 + Math.sin(angle) * 50, y: 100 - Math.cos(angle) * 50 };
+    dragHandle(t, pointer, "rotate", to, { shiftKey: true });
+    expect(el.rotation).toBeCloseTo(Math.PI / 4);
+
+    t.destroy();
+    cleanup();
+  });
+
+  test("dragging the pivot keeps the element in place", () => {
+    const { view, pointer, cleanup } = createTransformerView();
+    const parent = transformedParent();
+    const el = box(parent, 10, 20, 40, 30);
+    el.rotation = 0.5;
+    // Keep the pivot clear of the corner handle
+    el.pivotX = 5;
+    el.pivotY = 5;
+    const before = world(el, 0, 0);
+    const t = new Transformer(view, { handleSize: 2, hitTolerance: 0 });
+    t.setTargets([el]);
+
+    dragHandle(t, pointer, "pivot", world(el, 20, 15));
+    expect(el.pivotX).toBeCloseTo(20, 2);
+    expect(el.pivotY).toBeCloseTo(15, 2);
+    const after = world(el, 0, 0);
+    expect(after.x).toBeCloseTo(before.x, 2);
+    expect(after.y).toBeCloseTo(before.y, 2);
+
+    t.destroy();
+    cleanup();
+  });
+
+  test("rotates several targets about the group center", () => {
+    const { view, pointer, cleanup } = createTransformerView();
+    const root = new Container();
+    const a = box(root, 0, 0, 20, 20);
+    const b = box(root, 80, 0, 20, 20);
+    const t = new Transformer(view);
+    t.setTargets([a, b]);
+    const center = t.pivot as { x: number; y: number };
+    expect(center).toEqual({ x: 50, y: 10 });
+
+    // Half a turn: the targets swap sides
+    const handle = t.getHandlePosition("rotate") as { x: number; y: number };
+    dragHandle(t, pointer, "rotate", {
+      x: center.x,
+      y: center.y + (center.y - handle.y),
+    });
+    expect(Math.abs(a.rotation)).toBeCloseTo(Math.PI);
+    expect(a.x).toBeCloseTo(100);
+    expect(a.y).toBeCloseTo(20);
+    expect(b.x).toBeCloseTo(20);
+
+    t.destroy();
+    cleanup();
+  });
+});
+
+// ── Events ──
+
+describe("Transformer — events", () => {
+  test("emits transformstart, transform and transformend", () => {
+    const { view, pointer, cleanup } = createTransformerView();
+    const root = new Container();
+    const el = box(root, 0, 0, 40, 20);
+    const t = new Transformer(view);
+    t.setTargets([el]);
+    const events: ITransformEvent[] = [];
+    t.on("transformstart", (e) => events.push(e));
+    t.on("transform", (e) => events.push(e));
+    t.on("transformend", (e) => events.push(e));
+
+    dragHandle(t, pointer, "se", { x: 60, y: 30 });
+    expect(events.map((e) => e.type)).toEqual([
+      "transformstart",
+      "transform",
+      "transformend",
+    ]);
+    expect(events[0].action).toBe("resize");
+    expect(events[0].handle).toBe("se");
+    expect(events[0].targets).toEqual([el]);
+    expect(t.isTransforming).toBe(false);
+
+    t.destroy();
+    cleanup();
+  });
+
+  test("handle gestures are hidden from other pointer listeners", () => {
+    const { view, container, pointer, cleanup } = createTransformerView();
+    const root = new Container();
+    const el = box(root, 0, 0, 40, 20);
+    const t = new Transformer(view);
+    t.setTargets([el]);
+    const seen: string[] = [];
+    container.addEventListener("pointerdown", () => seen.push("down"));
+
+    dragHandle(t, pointer, "se", { x: 60, y: 30 });
+    expect(seen).toEqual([]);
+    pointer("pointerdown", 500, 500);
+    expect(seen).toEqual(["down"]);
+
+    t.destroy();
+    cleanup();
+  });
+});
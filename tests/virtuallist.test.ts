@@ -0,0 +1,279 @@
+/**
+ * Virtual List & Grid Tests
+ *
+ * Tests that only the visible range plus overscan is bound, that elements
+ * are recycled, measured row heights, scroll anchoring across item changes
+ * and scrollToIndex.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { Element } from "../src/core/Element";
+import { VirtualGrid } from "../src/elements/VirtualGrid";
+import { VirtualList } from "../src/elements/VirtualList";
+
+// ── Helpers ──
+
+/** Row element that remembers which item it shows. */
+class Row extends Element {
+  item = -1;
+}
+
+function makeList(
+  count: number,
+  heightOf: (index: number) => number = () => 20,
+): { list: VirtualList<Row>; created: Row[]; binds: number[] } {
+  const list = new VirtualList<Row>();
+  list.width = 200;
+  list.height = 100;
+  list.overscan = 1;
+  list.estimatedItemHeight = 20;
+  const created: Row[] = [];
+  const binds: number[] = [];
+  list.createItem = () => {
+    const row = new Row();
+    created.push(row);
+    return row;
+  };
+  list.bindItem = (row, index) => {
+    row.item = index;
+    row.height = heightOf(index);
+    binds.push(index);
+  };
+  list.itemCount = count;
+  list.update(0);
+  return { list, created, binds };
+}
+
+/** Items shown by visible row elements, top to bottom. */
+function shown(list: VirtualList<Row>): number[] {
+  return (list.children as Row[])
+    .filter((row) => row.visible)
+    .sort((a, b) => a.y - b.y)
+    .map((row) => row.item);
+}
+
+// ── Virtual list ──
+
+describe("VirtualList — binding", () => {
+  test("binds only the visible rows plus overscan", () => {
+    const { list, created } = makeList(100_000);
+    // 100px / 20px = 5 rows (0–5 touch the viewport) + 1 overscan
+    expect(list.boundRange).toEqual([0, 7]);
+    expect(created.length).toBe(7);
+    expect(list.contentBounds.height).toBe(2_000_000);
+  });
+
+  test("positions rows by their offsets", () => {
+    const { list } = makeList(10);
+    const row = list.getItemElement(3) as Row;
+    expect(row.item).toBe(3);
+    expect(row.y).toBe(60);
+    expect(row.width).toBe(200);
+  });
+
+  test("recycles elements as rows scroll out of range", () => {
+    const { list, created } = makeList(1000);
+    list.scrollY = 1000;
+    list.update(0);
+    // Rows 50–55 touch the viewport, + 1 overscan each way
+    expect(list.boundRange).toEqual([49, 57]);
+    expect(created.length).toBe(8);
+    expect(shown(list)).toEqual([49, 50, 51, 52, 53, 54, 55, 56]);
+    expect(list.getItemElement(0)).toBeNull();
+  });
+
+  test("refreshItems binds visible rows again", () => {
+    const { list, binds } = makeList(10);
+    binds.length = 0;
+    list.refreshItems(2, 4);
+    list.update(0);
+    expect(binds).toEqual([2, 3]);
+  });
+
+  test("getItemIndex maps elements back to items", () => {
+    const { list } = makeList(10);
+    const row = list.getItemElement(4) as Row;
+    expect(list.getItemIndex(row)).toBe(4);
+    expect(list.getItemIndex(new Element())).toBe(-1);
+  });
+
+  test("throws without an item factory", () => {
+    const list = new VirtualList();
+    list.height = 100;
+    list.itemCount = 5;
+    expect(() => list.update(0)).toThrow("createItem");
+  });
+});
+
+describe("VirtualList — row heights", () => {
+  test("measures rows and caches their heights", () => {
+    const { list } = makeList(100, (i) => (i % 2 === 0 ? 10 : 30));
+    expect(list.getItemElement(3)?.y).toBe(50);
+    // Rows 0–6 are measured (130px); the rest use the estimate
+    expect(list.boundRange).toEqual([0, 7]);
+    expect(list.contentBounds.height).toBe(130 + 93 * 20);
+  });
+
+  test("binds more rows when measured rows are shorter than estimated", () => {
+    const { list } = makeList(100, () => 10);
+    // 10 rows fill the viewport, + 1 overscan
+    expect(list.boundRange).toEqual([0, 12]);
+  });
+
+  test("fixed itemHeight sizes rows without measuring", () => {
+    const list = new VirtualList();
+    list.width = 100;
+    list.height = 100;
+    list.overscan = 0;
+    list.itemHeight = (i) => (i === 0 ? 50 : 25);
+    list.createItem = () => new Element();
+    list.itemCount = 10;
+    list.update(0);
+    expect(list.boundRange).toEqual([0, 4]);
+    expect(list.getItemElement(1)?.height).toBe(25);
+    expect(list.contentBounds.height).toBe(50 + 9 * 25);
+  });
+
+  test("gap spaces rows apart", () => {
+    const { list } = makeList(5);
+    list.gap = 5;
+    list.update(0);
+    expect(list.getItemElement(2)?.y).toBe(50);
+    expect(list.contentBounds.height).toBe(5 * 20 + 4 * 5);
+  });
+});
+
+describe("VirtualList — stable scrolling", () => {
+  test("inserting rows above the viewport keeps the visible rows in place", () => {
+    const { list } = makeList(100);
+    list.scrollY = 410;
+    list.update(0);
+    expect(shown(list)[1]).toBe(20);
+
+    list.insertItems(0, 3);
+    list.update(0);
+    expect(list.scrollY).toBe(470);
+    // Row elements moved with their items and were not bound again
+    expect(list.getItemElement(23)?.item).toBe(20);
+  });
+
+  test("removing rows above the viewport keeps the visible rows in place", () => {
+    const { list } = makeList(100);
+    list.scrollY = 410;
+    list.update(0);
+    list.removeItems(5, 2);
+    list.update(0);
+    expect(list.scrollY).toBe(370);
+    expect(list.getItemElement(18)?.item).toBe(20);
+  });
+
+  test("rows changing height above the viewport do not shift it", () => {
+    const heights = new Array(100).fill(20);
+    const { list } = makeList(100, (i) => heights[i]);
+    list.scrollY = 200;
+    list.update(0);
+    heights[9] = 60;
+    list.refreshItems(9, 10);
+    list.update(0);
+    // Row 10 stays at the top of the viewport
+    expect(list.getItemElement(10)?.y).toBe(240);
+    expect(list.scrollY).toBe(240);
+  });
+
+  test("appending rows does not move the viewport", () => {
+    const { list } = makeList(10);
+    list.scrollY = 60;
+    list.itemCount = 20;
+    list.update(0);
+    expect(list.scrollY).toBe(60);
+  });
+});
+
+describe("VirtualList — scrollToIndex", () => {
+  test("aligns the row to the start, center or end", () => {
+    const { list } = makeList(1000);
+    list.scrollToIndex(500);
+    expect(list.scrollY).toBe(10_000);
+    list.scrollToIndex(500, "center");
+    expect(list.scrollY).toBe(10_000 + 10 - 50);
+    list.scrollToIndex(500, "end");
+    expect(list.scrollY).toBe(10_020 - 100);
+    expect(shown(list)).toContain(500);
+  });
+
+  test("nearest scrolls only as far as needed", () => {
+    const { list } = makeList(100);
+    list.scrollToIndex(2, "nearest");
+    expect(list.scrollY).toBe(0);
+    list.scrollToIndex(10, "nearest");
+    expect(list.scrollY).toBe(120);
+  });
+
+  test("lands exactly on measured rows far from view", () => {
+    const { list } = makeList(10_000, () => 33);
+    list.scrollToIndex(5000);
+    expect(list.getItemElement(5000)?.y).toBe(list.scrollY);
+  });
+
+  test("clamps to the content", () => {
+    const { list } = makeList(10);
+    list.scrollToIndex(9);
+    expect(list.scrollY).toBe(100);
+  });
+});
+
+// ── Virtual grid ──
+
+describe("VirtualGrid", () => {
+  function makeGrid(count: number): VirtualGrid {
+    const grid = new VirtualGrid();
+    grid.width = 250;
+    grid.height = 100;
+    grid.cellWidth = 50;
+    grid.cellHeight = 40;
+    grid.gap = 10;
+    grid.overscan = 1;
+    grid.createItem = () => new Element();
+    grid.itemCount = count;
+    grid.update(0);
+    return grid;
+  }
+
+  test("fits as many columns as the width allows", () => {
+    const grid = makeGrid(100);
+    // (250 + 10) / 60 = 4 columns
+    expect(grid.columnCount).toBe(4);
+    const cell = grid.getItemElement(5);
+    expect([cell?.x, cell?.y, cell?.width, cell?.height]).toEqual([
+      60, 50, 50, 40,
+    ]);
+    expect(grid.contentBounds.height).toBe(25 * 50 - 10);
+  });
+
+  test("binds whole rows in view plus overscan", () => {
+    const grid = makeGrid(100);
+    // Rows 0–2 touch the 100px viewport, + 1 overscan row
+    expect(grid.boundRange).toEqual([0, 16]);
+    grid.scrollY = 500;
+    grid.update(0);
+    expect(grid.boundRange).toEqual([36, 56]);
+    expect(grid.children.length).toBe(20);
+  });
+
+  test("fixed columns and scrollToIndex", () => {
+    const grid = makeGrid(100);
+    grid.columns = 2;
+    grid.scrollToIndex(41);
+    expect(grid.scrollY).toBe(20 * 50);
+  });
+
+  test("keeps the first visible row when the width changes", () => {
+    const grid = makeGrid(100);
+    grid.scrollToIndex(40);
+    grid.width = 130;
+    grid.update(0);
+    expect(grid.columnCount).toBe(2);
+    // Item 40 is now in row 20
+    expect(grid.scrollY).toBe(20 * 50);
+  });
+});